@@ -8,6 +8,7 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import SelfRegister from "./pages/SelfRegister";
 import RegistrationSuccess from "./pages/RegistrationSuccess";
+import Ticket from "./pages/Ticket";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,7 +22,10 @@ const App = () => (
         <Routes>
           {/* Public routes - no authentication required */}
           <Route path="/register" element={<SelfRegister />} />
+          <Route path="/register/:eventSlug" element={<SelfRegister />} />
           <Route path="/registration-success" element={<RegistrationSuccess />} />
+          <Route path="/ticket" element={<Ticket />} />
+          <Route path="/ticket/:token" element={<Ticket />} />
           
           {/* Protected routes - wrapped with AuthProvider */}
           <Route path="/*" element={
@@ -0,0 +1,300 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, ArrowLeft, ArrowRight, CheckCircle, Download, FileSpreadsheet, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  IMPORT_FIELDS,
+  parseImportFile,
+  guessColumnMapping,
+  validateImportRows,
+  downloadRejectedRows,
+} from "@/lib/attendeeImport";
+import type { ColumnMapping, ImportField, ParsedSheet, RejectedImportRow, NewAttendee, BulkAddResult } from "@/lib/attendeeImport";
+import type { Attendee } from "./EventDashboard";
+import type { TicketType } from "@/hooks/useTicketTypes";
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+// Select value for fields that are not imported
+const SKIP_COLUMN = '__skip';
+const PREVIEW_ROW_COUNT = 5;
+
+interface AttendeeImportWizardProps {
+  attendees: Attendee[];
+  ticketTypes?: TicketType[];
+  onImport: (attendees: NewAttendee[]) => Promise<BulkAddResult>;
+  onClose: () => void;
+}
+
+export const AttendeeImportWizard = ({ attendees, ticketTypes = [], onImport, onClose }: AttendeeImportWizardProps) => {
+  const { toast } = useToast();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ParsedSheet>({ headers: [], rows: [] });
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  // Captured when importing, since the reloaded attendee list would flag the new rows as duplicates
+  const [rejectedRows, setRejectedRows] = useState<RejectedImportRow[]>([]);
+
+  const validation = useMemo(
+    () => validateImportRows(sheet.rows, mapping, attendees, ticketTypes),
+    [sheet.rows, mapping, attendees, ticketTypes]
+  );
+  const rejectedByRow = useMemo(
+    () => new Map(validation.rejected.map(r => [r.rowNumber, r.reason])),
+    [validation.rejected]
+  );
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && !mapping[f.field]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsParsing(true);
+    try {
+      const parsed = await parseImportFile(file);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        toast({
+          title: "No Data",
+          description: "The file has no header row or no attendee rows",
+          variant: "destructive"
+        });
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the file",
+        variant: "destructive"
+      });
+    } finally {
+      setIsParsing(false);
+      event.target.value = '';
+    }
+  };
+
+  const updateMapping = (field: ImportField, header: string) => {
+    setMapping(prev => ({ ...prev, [field]: header === SKIP_COLUMN ? undefined : header }));
+  };
+
+  const handleImport = async () => {
+    if (validation.valid.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const result = await onImport(validation.valid.map(v => v.attendee));
+      setImportedCount(result.insertedCount);
+      const failedRows = result.failed.map(({ index, reason }) => {
+        const { rowNumber } = validation.valid[index];
+        return { rowNumber, data: sheet.rows[rowNumber - 1], reason };
+      });
+      setRejectedRows([...validation.rejected, ...failedRows].sort((a, b) => a.rowNumber - b.rowNumber));
+      setStep('done');
+    } catch (error) {
+      console.error('Error importing attendees:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import attendees",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderMappedValue = (row: Record<string, string>, field: ImportField) => {
+    const header = mapping[field];
+    return header ? row[header] : '';
+  };
+
+  if (step === 'upload') {
+    return (
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="import-file">Upload CSV or Excel File</Label>
+          <p className="text-sm text-muted-foreground mb-2">
+            The first row must contain column headers. You will be able to match columns to attendee fields next.
+          </p>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={handleFile}
+            disabled={isParsing}
+            className="cursor-pointer"
+          />
+        </div>
+        <div className="p-4 bg-muted rounded-md">
+          <h4 className="font-medium mb-2">Example:</h4>
+          <code className="text-sm">
+            name,email,phone,company,allowed_guests,ticket_type<br />
+            John Doe,john@example.com,+1234567890,Acme,1,VIP<br />
+            Jane Smith,jane@example.com,+0987654321,Globex,0,Speaker
+          </code>
+        </div>
+        {isParsing && <p className="text-sm text-muted-foreground">Reading file...</p>}
+      </div>
+    );
+  }
+
+  if (step === 'map') {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <FileSpreadsheet className="w-4 h-4" />
+          {fileName} - {sheet.rows.length} rows, {sheet.headers.length} columns
+        </div>
+        <div className="space-y-3">
+          {IMPORT_FIELDS.map(({ field, label, required }) => (
+            <div key={field} className="grid grid-cols-2 items-center gap-4">
+              <Label htmlFor={`map-${field}`}>
+                {label}{required ? ' *' : ' (Optional)'}
+              </Label>
+              <Select value={mapping[field] ?? SKIP_COLUMN} onValueChange={(value) => updateMapping(field, value)}>
+                <SelectTrigger id={`map-${field}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SKIP_COLUMN}>Not in file</SelectItem>
+                  {sheet.headers.map(header => (
+                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        {missingRequired.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Choose a column for {missingRequired.map(f => f.label).join(' and ')}
+            </AlertDescription>
+          </Alert>
+        )}
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setStep('upload')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <Button onClick={() => setStep('preview')} disabled={missingRequired.length > 0} className="bg-gradient-primary">
+            Preview
+            <ArrowRight className="w-4 h-4 ml-2" />
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'preview') {
+    const previewRows = sheet.rows.slice(0, PREVIEW_ROW_COUNT);
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Badge className="bg-success text-success-foreground">{validation.valid.length} ready to import</Badge>
+          {validation.rejected.length > 0 && (
+            <Badge variant="destructive">{validation.rejected.length} will be skipped</Badge>
+          )}
+        </div>
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">Row</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Company</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {previewRows.map((row, index) => {
+                const reason = rejectedByRow.get(index + 1);
+                return (
+                  <TableRow key={index}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell>{renderMappedValue(row, 'name')}</TableCell>
+                    <TableCell>{renderMappedValue(row, 'email')}</TableCell>
+                    <TableCell>{renderMappedValue(row, 'company')}</TableCell>
+                    <TableCell>
+                      {reason ? (
+                        <span className="text-sm text-destructive">{reason}</span>
+                      ) : (
+                        <Badge variant="secondary" className="bg-success/10 text-success">OK</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+        {sheet.rows.length > PREVIEW_ROW_COUNT && (
+          <p className="text-xs text-muted-foreground">
+            Showing the first {PREVIEW_ROW_COUNT} of {sheet.rows.length} rows
+          </p>
+        )}
+        <div className="flex flex-wrap justify-between gap-2">
+          <Button variant="outline" onClick={() => setStep('map')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <div className="flex gap-2">
+            {validation.rejected.length > 0 && (
+              <Button variant="outline" onClick={() => downloadRejectedRows(sheet.headers, validation.rejected, fileName)}>
+                <Download className="w-4 h-4 mr-2" />
+                Skipped Rows
+              </Button>
+            )}
+            <Button
+              onClick={handleImport}
+              disabled={validation.valid.length === 0 || isImporting}
+              className="bg-gradient-primary"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {isImporting ? "Importing..." : `Import ${validation.valid.length} Attendees`}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col items-center gap-2 py-4 text-center">
+        <CheckCircle className="w-12 h-12 text-success" />
+        <h3 className="text-lg font-semibold">{importedCount} attendees imported</h3>
+        {rejectedRows.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {rejectedRows.length} rows were not imported. Download them with the reason for each, fix and upload again.
+          </p>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {rejectedRows.length > 0 && (
+          <Button variant="outline" onClick={() => downloadRejectedRows(sheet.headers, rejectedRows, fileName)}>
+            <Download className="w-4 h-4 mr-2" />
+            Download Rejected Rows
+          </Button>
+        )}
+        <Button onClick={onClose} className="bg-gradient-primary">
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -7,22 +7,80 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
-import { Plus, Mail, Phone, QrCode, Send, Upload, Trash2, Settings, Save } from "lucide-react";
+import { Plus, Mail, Phone, QrCode, Send, Upload, Trash2, Settings, Save, Users, Copy, Pencil, History, RefreshCcw, MailPlus, MessageCircle, MessageSquare, Loader2, BellRing } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import Papa from 'papaparse';
-import { EmailTemplateEditor, EmailTemplate, defaultTemplate } from "./EmailTemplateEditor";
+import { EmailTemplateEditor } from "./EmailTemplateEditor";
+import { ReminderRulesManager } from "./ReminderRulesManager";
+import type { ReminderRule, ReminderRuleInput } from "@/hooks/useReminderRules";
+import { defaultEmailTemplate, normalizeTemplate } from "@/lib/emailTemplate";
+import type { EmailTemplate } from "@/lib/emailTemplate";
+import type { EmailTemplateVersion } from "@/hooks/useEmailTemplate";
+import type { EventInfo } from "@/hooks/useEvents";
 import { embedLogoInQR, composeQRWithBackground } from "@/lib/qr-canvas";
 import { useBackgroundPersistence } from "@/hooks/useBackgroundPersistence";
-import { uploadBannerToStorage } from "@/utils/uploadBanner";
-import type { Attendee } from "./EventDashboard";
+import { renderQrImage, sendQrEmail } from "@/lib/qrEmail";
+import type { Attendee, AttendeeUpdate } from "./EventDashboard";
 import type { LogEntry } from "./LogsView";
+import { TicketTypeBadge } from "./TicketTypeBadge";
+import type { TicketType } from "@/hooks/useTicketTypes";
+import { AttendeeImportWizard } from "./AttendeeImportWizard";
+import { DuplicateReview } from "./DuplicateReview";
+import { AttendeeProfileDialog } from "./AttendeeProfileDialog";
+import { QrReissueDialog } from "./QrReissueDialog";
+import { EmailCampaignDialog } from "./EmailCampaignDialog";
+import { EmailStatusBadge } from "./EmailStatusBadge";
+import { WhatsAppStatusBadge } from "./WhatsAppStatusBadge";
+import type { AttendeeWhatsAppStatus } from "@/hooks/useWhatsAppMessages";
+import { SmsStatusBadge } from "./SmsStatusBadge";
+import type { AttendeeSmsStatus } from "@/hooks/useSmsMessages";
+import { toE164 } from "@/lib/phone";
+import type { AttendeeDeliveryStatus, AttendeeEmailStatus, EmailAudience, EmailCampaign, EmailCampaignContent, EmailCampaignFilters } from "@/hooks/useEmailCampaigns";
+import type { MergeResult } from "@/lib/duplicates";
+import { parseAllowedGuests } from "@/lib/attendeeImport";
+import type { NewAttendee, BulkAddResult } from "@/lib/attendeeImport";
+
+// Select value for attendees without a ticket type
+const NO_TICKET_TYPE = 'none';
 
 interface AttendeeManagerProps {
   attendees: Attendee[];
-  onAddAttendee: (attendee: Omit<Attendee, 'id' | 'checkedIn' | 'qrCode'>) => void;
-  onAddBulkAttendees: (attendees: Omit<Attendee, 'id' | 'checkedIn' | 'qrCode'>[]) => void;
+  ticketTypes?: TicketType[];
+  onAddAttendee: (attendee: NewAttendee) => void;
+  onAddBulkAttendees: (attendees: NewAttendee[]) => Promise<BulkAddResult>;
   onDeleteBulkAttendees: (attendeeIds: string[]) => void;
+  onUpdateAllowedGuests?: (attendeeId: string, allowedGuests: number | null) => void;
+  // Admin-only: merge duplicate records into the survivor
+  onMergeAttendees?: (survivor: Attendee, duplicates: Attendee[]) => Promise<MergeResult | undefined>;
+  // Admin-only: edit profile details; everyone can view the history
+  onUpdateAttendee?: (attendeeId: string, changes: AttendeeUpdate) => Promise<boolean>;
+  // Admin-only: revoke the current QR code and issue a new one
+  onReissueQr?: (attendee: Attendee, reason: string, sendEmail: boolean) => Promise<boolean>;
+  emailCampaigns?: EmailCampaign[];
+  emailStatuses?: Record<string, AttendeeEmailStatus>;
+  deliveryStatuses?: Record<string, AttendeeDeliveryStatus>;
+  // Queue a server-side bulk email; resolves to whether anything was queued
+  onQueueEmailCampaign?: (audience: EmailAudience, filters: EmailCampaignFilters, content: EmailCampaignContent) => Promise<boolean>;
+  onCancelEmailCampaign?: (campaign: EmailCampaign) => void;
+  whatsAppStatuses?: Record<string, AttendeeWhatsAppStatus>;
+  // Send the selected attendees their QR code through the WhatsApp Cloud API
+  onSendWhatsApp?: (attendeeIds: string[]) => Promise<boolean>;
+  smsStatuses?: Record<string, AttendeeSmsStatus>;
+  // Text attendees a link to their QR code through the SMS provider
+  onSendSms?: (attendeeIds: string[]) => Promise<boolean>;
+  event?: EventInfo;
+  // The event's saved template, newest version first in emailTemplateVersions
+  emailTemplate?: EmailTemplate;
+  emailTemplateVersions?: EmailTemplateVersion[];
+  onSaveEmailTemplate?: (template: EmailTemplate) => Promise<boolean>;
+  // Store a banner image for the template's header block; resolves to its URL
+  onUploadEmailBanner?: (file: File) => Promise<string | undefined>;
+  reminderRules?: ReminderRule[];
+  // Admin-only: scheduled reminder emails before the event
+  onCreateReminderRule?: (input: ReminderRuleInput) => Promise<unknown>;
+  onUpdateReminderRule?: (rule: ReminderRule, input: ReminderRuleInput) => Promise<unknown>;
+  onDeleteReminderRule?: (rule: ReminderRule) => Promise<unknown>;
   onLog?: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
   defaultMessage?: string;
   onDefaultMessageChange?: (message: string) => void;
@@ -30,35 +88,32 @@ interface AttendeeManagerProps {
   onEmailSubjectChange?: (subject: string) => void;
 }
 
-export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees, onDeleteBulkAttendees, onLog, defaultMessage = "", onDefaultMessageChange, emailSubject = "", onEmailSubjectChange }: AttendeeManagerProps) => {
+export const AttendeeManager = ({ attendees, ticketTypes = [], onAddAttendee, onAddBulkAttendees, onDeleteBulkAttendees, onUpdateAllowedGuests, onMergeAttendees, onUpdateAttendee, onReissueQr, emailCampaigns = [], emailStatuses = {}, deliveryStatuses = {}, onQueueEmailCampaign, onCancelEmailCampaign, whatsAppStatuses = {}, onSendWhatsApp, smsStatuses = {}, onSendSms, event, emailTemplate = defaultEmailTemplate, emailTemplateVersions = [], onSaveEmailTemplate, onUploadEmailBanner, reminderRules = [], onCreateReminderRule, onUpdateReminderRule, onDeleteReminderRule, onLog, defaultMessage = "", onDefaultMessageChange, emailSubject = "", onEmailSubjectChange }: AttendeeManagerProps) => {
   const { toast } = useToast();
   const { backgroundFile, qrOptions } = useBackgroundPersistence();
   
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isBulkDialogOpen, setIsBulkDialogOpen] = useState(false);
   const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+  const [isDuplicateDialogOpen, setIsDuplicateDialogOpen] = useState(false);
+  const [isCampaignDialogOpen, setIsCampaignDialogOpen] = useState(false);
+  const [isReminderDialogOpen, setIsReminderDialogOpen] = useState(false);
+  const [profile, setProfile] = useState<{ attendeeId: string; tab: 'details' | 'history' } | null>(null);
+  const profileAttendee = profile ? attendees.find(a => a.id === profile.attendeeId) || null : null;
+  const [reissueAttendeeId, setReissueAttendeeId] = useState<string | null>(null);
+  const reissueAttendee = attendees.find(a => a.id === reissueAttendeeId) || null;
   const [selectedAttendees, setSelectedAttendees] = useState<string[]>([]);
-  const [bannerUploaded, setBannerUploaded] = useState<boolean>(() => {
-    return localStorage.getItem('bannerUploaded') === 'true';
-  });
-  const [emailTemplate, setEmailTemplate] = useState<EmailTemplate>(() => {
-    try {
-      const saved = localStorage.getItem('emailTemplate');
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        console.log('Loaded email template from localStorage:', parsed);
-        return parsed;
-      }
-    } catch (error) {
-      console.error('Failed to load email template from localStorage:', error);
-    }
-    console.log('Using default email template');
-    return defaultTemplate;
-  });
+  const [isSendingWhatsApp, setIsSendingWhatsApp] = useState(false);
+  const [isSendingSms, setIsSendingSms] = useState(false);
+  const [sendingSmsId, setSendingSmsId] = useState<string | null>(null);
+  const [templateDraft, setTemplateDraft] = useState<EmailTemplate>(emailTemplate);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
   const [formData, setFormData] = useState({
     name: "",
     email: "",
-    phone: ""
+    phone: "",
+    allowedGuests: "",
+    ticketTypeId: NO_TICKET_TYPE
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -72,8 +127,24 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
       return;
     }
 
-    onAddAttendee(formData);
-    setFormData({ name: "", email: "", phone: "" });
+    const allowedGuests = parseAllowedGuests(formData.allowedGuests);
+    if (allowedGuests === undefined) {
+      toast({
+        title: "Error",
+        description: "Plus guests allowed must be a whole number (leave blank for unlimited)",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onAddAttendee({
+      name: formData.name,
+      email: formData.email,
+      phone: formData.phone,
+      allowedGuests,
+      ticketTypeId: formData.ticketTypeId === NO_TICKET_TYPE ? null : formData.ticketTypeId
+    });
+    setFormData({ name: "", email: "", phone: "", allowedGuests: "", ticketTypeId: NO_TICKET_TYPE });
     setIsDialogOpen(false);
     toast({
       title: "Success!",
@@ -81,119 +152,51 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
     });
   };
 
-  const handleCSVUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        const validAttendees: Omit<Attendee, 'id' | 'checkedIn' | 'qrCode'>[] = [];
-        const errors: string[] = [];
-
-        // Get the headers from the CSV
-        const headers = results.meta.fields || [];
-        console.log('CSV Headers found:', headers);
-
-        // Create a mapping function to find the correct field
-        const findField = (row: any, possibleNames: string[]): string => {
-          for (const possibleName of possibleNames) {
-            const exactMatch = row[possibleName];
-            if (exactMatch) return exactMatch;
-            
-            // Try case-insensitive match
-            const caseInsensitiveMatch = Object.keys(row).find(key => 
-              key.toLowerCase().trim() === possibleName.toLowerCase()
-            );
-            if (caseInsensitiveMatch && row[caseInsensitiveMatch]) {
-              return row[caseInsensitiveMatch];
-            }
-          }
-          return '';
-        };
-
-        results.data.forEach((row: any, index: number) => {
-          // Try multiple possible column names for each field
-          const name = findField(row, ['name', 'full name', 'full_name', 'Name', 'Full Name', 'FULL_NAME']);
-          const email = findField(row, ['email', 'email address', 'email_address', 'Email', 'Email Address', 'EMAIL']);
-          const phone = findField(row, ['phone', 'phone number', 'phone_number', 'Phone', 'Phone Number', 'PHONE']);
-          
-          if (!name?.trim() || !email?.trim()) {
-            const availableFields = Object.keys(row).filter(key => row[key]?.toString().trim());
-            errors.push(`Row ${index + 1}: Missing required fields (name, email). Found columns: ${availableFields.join(', ')}`);
-          } else if (!email.includes('@')) {
-            errors.push(`Row ${index + 1}: Invalid email format - ${email}`);
-          } else {
-            validAttendees.push({ 
-              name: name.trim(), 
-              email: email.trim(), 
-              phone: phone?.trim() || "" 
-            });
+  const handleTemplateDialogChange = (open: boolean) => {
+    if (open) {
+      // Until the event has a saved template, start from the one this browser used
+      // to keep locally so it can be saved for everyone
+      let draft = emailTemplate;
+      if (emailTemplateVersions.length === 0) {
+        try {
+          const legacy = localStorage.getItem('emailTemplate');
+          if (legacy) {
+            draft = normalizeTemplate(JSON.parse(legacy));
           }
-        });
-
-        if (errors.length > 0) {
-          toast({
-            title: "CSV Upload Errors",
-            description: `${errors.length} errors found. Check console for details.`,
-            variant: "destructive"
-          });
-          console.error('CSV Upload Errors:', errors);
-          console.log('Required columns: name, email (case-insensitive). Optional: phone');
-          console.log('Alternative accepted names: "Full Name", "Email Address", "Phone Number"');
-          return;
-        }
-
-        if (validAttendees.length > 0) {
-          onAddBulkAttendees(validAttendees);
-          setIsBulkDialogOpen(false);
-          toast({
-            title: "Success!",
-            description: `${validAttendees.length} attendees uploaded successfully`,
-          });
-        } else {
-          toast({
-            title: "No Data",
-            description: "No valid attendee data found in CSV file",
-            variant: "destructive"
-          });
+        } catch (error) {
+          console.error('Failed to load email template from localStorage:', error);
         }
-      },
-      error: (error) => {
-        toast({
-          title: "Error",
-          description: "Failed to parse CSV file",
-          variant: "destructive"
-        });
-        console.error('CSV Parse Error:', error);
       }
-    });
-
-    // Reset the file input
-    event.target.value = '';
+      setTemplateDraft(draft);
+    }
+    setIsTemplateDialogOpen(open);
   };
 
-  const handleTemplateChange = (template: EmailTemplate) => {
-    console.log('Saving email template to localStorage:', template);
-    setEmailTemplate(template);
-    // Auto-save to localStorage on every change
-    try {
-      localStorage.setItem('emailTemplate', JSON.stringify(template));
-      console.log('Email template saved successfully');
-    } catch (error) {
-      console.error('Failed to save email template to localStorage:', error);
+  const handleTemplateSave = async () => {
+    if (!onSaveEmailTemplate) return;
+
+    setIsSavingTemplate(true);
+    const saved = await onSaveEmailTemplate(templateDraft);
+    setIsSavingTemplate(false);
+
+    if (saved) {
+      localStorage.removeItem('emailTemplate');
+      setIsTemplateDialogOpen(false);
     }
   };
 
-  const handleTemplateSave = () => {
-    localStorage.setItem('emailTemplate', JSON.stringify(emailTemplate));
-    toast({
-      title: "Template Saved!",
-      description: "Email template has been saved successfully.",
-    });
-    setIsTemplateDialogOpen(false);
-};
+  const handleTemplateRestore = async (version: EmailTemplateVersion) => {
+    if (!onSaveEmailTemplate) return;
+    if (!window.confirm(`Restore version ${version.version}? It is saved as a new version and unsaved edits are lost.`)) return;
+
+    setIsSavingTemplate(true);
+    const saved = await onSaveEmailTemplate(version.template);
+    setIsSavingTemplate(false);
+
+    if (saved) {
+      setTemplateDraft(version.template);
+    }
+  };
 
   const handleSaveDefaultMessage = () => {
     try {
@@ -223,19 +226,6 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
     }
 
     try {
-      // Upload banner if not already uploaded
-      if (!bannerUploaded) {
-        console.log('Uploading banner to storage...');
-        toast({
-          title: "Preparing Email Template",
-          description: "Uploading banner image to storage...",
-        });
-        await uploadBannerToStorage();
-        setBannerUploaded(true);
-        localStorage.setItem('bannerUploaded', 'true');
-        console.log('Banner uploaded successfully');
-      }
-
       // Log email sending attempt
       onLog?.({
         type: 'email_sent',
@@ -247,15 +237,7 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
       });
 
       // Generate QR code image data with logo embedding and background composition
-      const QRCode = (await import("qrcode")).default;
-      let qrImageData = await QRCode.toDataURL(attendee.qrCode, {
-        width: 200,
-        margin: 2,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF'
-        }
-      });
+      let qrImageData = await renderQrImage(attendee);
 
       // Apply logo embedding if enabled
       if (qrOptions.logoEnabled) {
@@ -275,29 +257,12 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
         });
       }
 
-      const { supabase } = await import("@/integrations/supabase/client");
-      
-      // Create a customized email template with the current subject
-      const customizedTemplate = {
-        ...emailTemplate,
-        subject: emailSubject || emailTemplate.subject
-      };
-
-      const { data, error } = await supabase.functions.invoke('send-qr-email', {
-        body: {
-          attendee: {
-            name: attendee.name,
-            email: attendee.email,
-            qrCode: attendee.qrCode
-          },
-          qrImageData,
-          defaultMessage,
-          emailTemplate: customizedTemplate
-        }
+      await sendQrEmail(attendee, {
+        qrImageData,
+        defaultMessage,
+        subject: emailSubject || undefined
       });
 
-      if (error) throw error;
-
       // Log successful email sending
       onLog?.({
         type: 'email_sent',
@@ -367,6 +332,52 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
     }
   };
 
+  // Selected attendees whose phone number can be messaged
+  const countReachable = (attendeeIds: string[]) => {
+    return attendees.filter(a => attendeeIds.includes(a.id) && toE164(a.phone)).length;
+  };
+
+  const handleBulkWhatsApp = async () => {
+    if (!onSendWhatsApp || selectedAttendees.length === 0) return;
+
+    if (!window.confirm(`Send QR codes on WhatsApp to ${countReachable(selectedAttendees)} of ${selectedAttendees.length} selected attendees? Those without a valid phone number are skipped.`)) return;
+
+    setIsSendingWhatsApp(true);
+    try {
+      if (await onSendWhatsApp(selectedAttendees)) {
+        setSelectedAttendees([]);
+      }
+    } finally {
+      setIsSendingWhatsApp(false);
+    }
+  };
+
+  const handleBulkSms = async () => {
+    if (!onSendSms || selectedAttendees.length === 0) return;
+
+    if (!window.confirm(`Text a QR code link to ${countReachable(selectedAttendees)} of ${selectedAttendees.length} selected attendees? Those without a valid phone number are skipped.`)) return;
+
+    setIsSendingSms(true);
+    try {
+      if (await onSendSms(selectedAttendees)) {
+        setSelectedAttendees([]);
+      }
+    } finally {
+      setIsSendingSms(false);
+    }
+  };
+
+  const handleSendSms = async (attendee: Attendee) => {
+    if (!onSendSms) return;
+
+    setSendingSmsId(attendee.id);
+    try {
+      await onSendSms([attendee.id]);
+    } finally {
+      setSendingSmsId(null);
+    }
+  };
+
   const isAllSelected = attendees.length > 0 && selectedAttendees.length === attendees.length;
   const isPartiallySelected = selectedAttendees.length > 0 && selectedAttendees.length < attendees.length;
 
@@ -391,7 +402,66 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
                 Delete Selected ({selectedAttendees.length})
               </Button>
             )}
-            <Dialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen}>
+            {selectedAttendees.length > 0 && onSendWhatsApp && (
+              <Button
+                variant="outline"
+                onClick={handleBulkWhatsApp}
+                disabled={isSendingWhatsApp}
+                className="hover:bg-accent hover:text-accent-foreground"
+              >
+                {isSendingWhatsApp ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <MessageCircle className="w-4 h-4 mr-2" />
+                )}
+                WhatsApp Selected ({selectedAttendees.length})
+              </Button>
+            )}
+            {selectedAttendees.length > 0 && onSendSms && (
+              <Button
+                variant="outline"
+                onClick={handleBulkSms}
+                disabled={isSendingSms}
+                className="hover:bg-accent hover:text-accent-foreground"
+              >
+                {isSendingSms ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                )}
+                SMS Selected ({selectedAttendees.length})
+              </Button>
+            )}
+            {onMergeAttendees && (
+              <Dialog open={isDuplicateDialogOpen} onOpenChange={setIsDuplicateDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" className="hover:bg-primary hover:text-primary-foreground">
+                    <Copy className="w-4 h-4 mr-2" />
+                    Find Duplicates
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Duplicate Attendees</DialogTitle>
+                    <DialogDescription>
+                      Records grouped by matching email, phone number or a similar name.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <DuplicateReview attendees={attendees} onMerge={onMergeAttendees} />
+                </DialogContent>
+              </Dialog>
+            )}
+            {onQueueEmailCampaign && (
+              <Button
+                variant="outline"
+                onClick={() => setIsCampaignDialogOpen(true)}
+                className="hover:bg-primary hover:text-primary-foreground"
+              >
+                <MailPlus className="w-4 h-4 mr-2" />
+                Bulk Email
+              </Button>
+            )}
+            <Dialog open={isTemplateDialogOpen} onOpenChange={handleTemplateDialogChange}>
               <DialogTrigger asChild>
                 <Button variant="outline" className="hover:bg-primary hover:text-primary-foreground">
                   <Settings className="w-4 h-4 mr-2" />
@@ -406,9 +476,37 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
                   </DialogDescription>
                 </DialogHeader>
                 <EmailTemplateEditor
-                  template={emailTemplate}
-                  onTemplateChange={handleTemplateChange}
+                  template={templateDraft}
+                  onTemplateChange={setTemplateDraft}
                   onSave={handleTemplateSave}
+                  isSaving={isSavingTemplate}
+                  event={event}
+                  versions={emailTemplateVersions}
+                  onRestore={onSaveEmailTemplate ? handleTemplateRestore : undefined}
+                  onUploadBanner={onUploadEmailBanner}
+                />
+              </DialogContent>
+            </Dialog>
+            <Dialog open={isReminderDialogOpen} onOpenChange={setIsReminderDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" className="hover:bg-primary hover:text-primary-foreground">
+                  <BellRing className="w-4 h-4 mr-2" />
+                  Reminders
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Reminder Emails</DialogTitle>
+                  <DialogDescription>
+                    Emails sent automatically before the event with the event's email template.
+                  </DialogDescription>
+                </DialogHeader>
+                <ReminderRulesManager
+                  rules={reminderRules}
+                  event={event}
+                  onCreateRule={onCreateReminderRule}
+                  onUpdateRule={onUpdateReminderRule}
+                  onDeleteRule={onDeleteReminderRule}
                 />
               </DialogContent>
             </Dialog>
@@ -419,33 +517,19 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
                   Bulk Upload
                 </Button>
               </DialogTrigger>
-              <DialogContent>
+              <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
-                  <DialogTitle>Bulk Upload Attendees</DialogTitle>
+                  <DialogTitle>Import Attendees</DialogTitle>
+                  <DialogDescription>
+                    Upload a CSV or Excel file, match its columns and review the rows before importing.
+                  </DialogDescription>
                 </DialogHeader>
-                <div className="space-y-4">
-                  <div>
-                    <Label htmlFor="csv-upload">Upload CSV File</Label>
-                    <p className="text-sm text-muted-foreground mb-2">
-                      CSV should have columns: name, email (required), phone (optional)
-                    </p>
-                    <Input
-                      id="csv-upload"
-                      type="file"
-                      accept=".csv"
-                      onChange={handleCSVUpload}
-                      className="cursor-pointer"
-                    />
-                  </div>
-                  <div className="p-4 bg-muted rounded-md">
-                    <h4 className="font-medium mb-2">CSV Format Example:</h4>
-                    <code className="text-sm">
-                      name,email,phone<br />
-                      John Doe,john@example.com,+1234567890<br />
-                      Jane Smith,jane@example.com,+0987654321
-                    </code>
-                  </div>
-                </div>
+                <AttendeeImportWizard
+                  attendees={attendees}
+                  ticketTypes={ticketTypes}
+                  onImport={onAddBulkAttendees}
+                  onClose={() => setIsBulkDialogOpen(false)}
+                />
               </DialogContent>
             </Dialog>
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
@@ -488,6 +572,38 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
                       placeholder="Enter phone number (optional)"
                     />
                   </div>
+                  <div>
+                    <Label htmlFor="allowed-guests">Plus Guests Allowed (Optional)</Label>
+                    <Input
+                      id="allowed-guests"
+                      type="number"
+                      min={0}
+                      value={formData.allowedGuests}
+                      onChange={(e) => setFormData({ ...formData, allowedGuests: e.target.value })}
+                      placeholder="Leave blank for unlimited"
+                    />
+                  </div>
+                  {ticketTypes.length > 0 && (
+                    <div>
+                      <Label htmlFor="ticket-type">Ticket Type</Label>
+                      <Select
+                        value={formData.ticketTypeId}
+                        onValueChange={(value) => setFormData({ ...formData, ticketTypeId: value })}
+                      >
+                        <SelectTrigger id="ticket-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_TICKET_TYPE}>None (all access)</SelectItem>
+                          {ticketTypes.map(ticketType => (
+                            <SelectItem key={ticketType.id} value={ticketType.id}>
+                              {ticketType.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                   <Button type="submit" className="w-full bg-gradient-primary">
                     Add Attendee
                   </Button>
@@ -503,11 +619,11 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
                 Email Subject Line
               </Label>
               <p className="text-sm text-muted-foreground mb-3">
-                Subject line for QR code emails (use {'{attendeeName}'} for personalization)
+                Subject line for QR code emails (use placeholders such as {'{name}'} or {'{eventName}'})
               </p>
               <Input
                 id="email-subject"
-                placeholder="Your Event QR Code - {attendeeName}"
+                placeholder="Your Event QR Code - {name}"
                 value={emailSubject}
                 onChange={(e) => onEmailSubjectChange?.(e.target.value)}
                 className="w-full"
@@ -559,6 +675,9 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
                   <TableHead>Email</TableHead>
                   <TableHead>Phone</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Ticket</TableHead>
+                  <TableHead>Plus Guests</TableHead>
                   <TableHead>QR Code</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -593,6 +712,43 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
                         {attendee.checkedIn ? "Checked In" : "Registered"}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <EmailStatusBadge emailStatus={emailStatuses[attendee.id]} delivery={deliveryStatuses[attendee.id]} />
+                        <WhatsAppStatusBadge whatsAppStatus={whatsAppStatuses[attendee.id]} />
+                        <SmsStatusBadge smsStatus={smsStatuses[attendee.id]} />
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <TicketTypeBadge ticketType={ticketTypes.find(t => t.id === attendee.ticketTypeId)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center">
+                        <Users className="w-4 h-4 mr-2 text-muted-foreground" />
+                        {onUpdateAllowedGuests ? (
+                          <Input
+                            key={`${attendee.id}-${attendee.allowedGuests ?? ''}`}
+                            type="number"
+                            min={0}
+                            defaultValue={attendee.allowedGuests ?? ''}
+                            placeholder="∞"
+                            className="w-20 h-8"
+                            onBlur={(e) => {
+                              const value = parseAllowedGuests(e.target.value);
+                              if (value === undefined) {
+                                e.target.value = attendee.allowedGuests?.toString() ?? '';
+                                return;
+                              }
+                              if (value !== (attendee.allowedGuests ?? null)) {
+                                onUpdateAllowedGuests(attendee.id, value);
+                              }
+                            }}
+                          />
+                        ) : (
+                          <span>{attendee.allowedGuests ?? 'Unlimited'}</span>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center">
                         <QrCode className="w-4 h-4 mr-2 text-primary" />
@@ -602,15 +758,60 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleSendQR(attendee)}
-                        className="hover:bg-primary hover:text-primary-foreground"
-                      >
-                        <Send className="w-4 h-4 mr-1" />
-                        Send QR
-                      </Button>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleSendQR(attendee)}
+                          className="hover:bg-primary hover:text-primary-foreground"
+                        >
+                          <Send className="w-4 h-4 mr-1" />
+                          Send QR
+                        </Button>
+                        {onSendSms && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title={toE164(attendee.phone) ? "Text QR code link" : "No valid phone number"}
+                            disabled={!toE164(attendee.phone) || sendingSmsId === attendee.id}
+                            onClick={() => handleSendSms(attendee)}
+                          >
+                            {sendingSmsId === attendee.id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <MessageSquare className="w-4 h-4" />
+                            )}
+                          </Button>
+                        )}
+                        {onUpdateAttendee && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Edit attendee"
+                            onClick={() => setProfile({ attendeeId: attendee.id, tab: 'details' })}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="View history"
+                          onClick={() => setProfile({ attendeeId: attendee.id, tab: 'history' })}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
+                        {onReissueQr && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Revoke & reissue QR code"
+                            onClick={() => setReissueAttendeeId(attendee.id)}
+                          >
+                            <RefreshCcw className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -619,6 +820,44 @@ export const AttendeeManager = ({ attendees, onAddAttendee, onAddBulkAttendees,
           </div>
         </CardContent>
       </Card>
+
+      {profileAttendee && (
+        <AttendeeProfileDialog
+          key={`${profileAttendee.id}-${profile?.tab}`}
+          attendee={profileAttendee}
+          attendees={attendees}
+          ticketTypes={ticketTypes}
+          initialTab={profile?.tab}
+          onOpenChange={(open) => !open && setProfile(null)}
+          onUpdateAttendee={onUpdateAttendee}
+        />
+      )}
+
+      {reissueAttendee && onReissueQr && (
+        <QrReissueDialog
+          key={reissueAttendee.id}
+          attendee={reissueAttendee}
+          onOpenChange={(open) => !open && setReissueAttendeeId(null)}
+          onReissue={onReissueQr}
+        />
+      )}
+
+      {onQueueEmailCampaign && (
+        <EmailCampaignDialog
+          open={isCampaignDialogOpen}
+          onOpenChange={setIsCampaignDialogOpen}
+          attendees={attendees}
+          ticketTypes={ticketTypes}
+          selectedAttendeeIds={selectedAttendees}
+          emailStatuses={emailStatuses}
+          campaigns={emailCampaigns}
+          onQueue={(audience, filters) => onQueueEmailCampaign(audience, filters, {
+            subject: emailSubject,
+            message: defaultMessage
+          })}
+          onCancel={(campaign) => onCancelEmailCampaign?.(campaign)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,323 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { History, Pencil, UserPlus, QrCode, Mail, MessageCircle, MessageSquare, LogIn, LogOut, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { fetchAttendeeHistory } from "@/lib/attendeeHistory";
+import type { AttendeeHistoryEntry, AttendeeHistoryKind } from "@/lib/attendeeHistory";
+import { normalizeEmail } from "@/lib/duplicates";
+import type { Attendee, AttendeeUpdate } from "./EventDashboard";
+import type { TicketType } from "@/hooks/useTicketTypes";
+
+// Select value for attendees without a ticket type
+const NO_TICKET_TYPE = 'none';
+
+interface AttendeeProfileDialogProps {
+  attendee: Attendee | null;
+  attendees: Attendee[];
+  ticketTypes?: TicketType[];
+  initialTab?: 'details' | 'history';
+  onOpenChange: (open: boolean) => void;
+  // Admin-only: without it the details are read-only
+  onUpdateAttendee?: (attendeeId: string, changes: AttendeeUpdate) => Promise<boolean>;
+}
+
+const historyIcons: Record<AttendeeHistoryKind, typeof Mail> = {
+  created: UserPlus,
+  updated: Pencil,
+  qr_reissued: QrCode,
+  email_sent: Mail,
+  whatsapp_sent: MessageCircle,
+  sms_sent: MessageSquare,
+  checked_in: LogIn,
+  checked_out: LogOut,
+};
+
+const historyTitles: Record<AttendeeHistoryKind, string> = {
+  created: "Registered",
+  updated: "Profile updated",
+  qr_reissued: "QR code reissued",
+  email_sent: "Email",
+  whatsapp_sent: "WhatsApp",
+  sms_sent: "SMS",
+  checked_in: "Checked in",
+  checked_out: "Checked out",
+};
+
+const fieldLabels: Record<string, string> = {
+  name: "Name",
+  email: "Email",
+  phone: "Phone",
+  company: "Company",
+  registration_type: "Registration type",
+  allowed_guests: "Plus guests allowed",
+  ticket_type_id: "Ticket type",
+  qr_code: "QR code",
+};
+
+const toFormData = (attendee: Attendee | null) => ({
+  name: attendee?.name || "",
+  email: attendee?.email || "",
+  phone: attendee?.phone || "",
+  company: attendee?.company || "",
+  registrationType: attendee?.registrationType || 'pre_registered',
+  ticketTypeId: attendee?.ticketTypeId || NO_TICKET_TYPE
+});
+
+// Mount with key={attendee.id} so the form resets per attendee but not on realtime refreshes
+export const AttendeeProfileDialog = ({ attendee, attendees, ticketTypes = [], initialTab = 'details', onOpenChange, onUpdateAttendee }: AttendeeProfileDialogProps) => {
+  const { toast } = useToast();
+  const [tab, setTab] = useState(initialTab);
+  const [formData, setFormData] = useState(() => toFormData(attendee));
+  const [isSaving, setIsSaving] = useState(false);
+  const [history, setHistory] = useState<AttendeeHistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const canEdit = !!onUpdateAttendee;
+  const attendeeId = attendee?.id;
+
+  useEffect(() => {
+    if (!attendeeId || tab !== 'history') return;
+
+    let cancelled = false;
+    setHistoryLoading(true);
+    fetchAttendeeHistory(attendeeId)
+      .then(entries => {
+        if (!cancelled) setHistory(entries);
+      })
+      .catch(error => {
+        console.error('Error loading attendee history:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load attendee history",
+          variant: "destructive"
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attendeeId, tab, toast]);
+
+  const describeValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return 'empty';
+    if (field === 'ticket_type_id') {
+      return ticketTypes.find(t => t.id === value)?.name || 'deleted ticket type';
+    }
+    if (field === 'registration_type') {
+      return value === 'walk_in' ? 'Walk-in' : 'Pre-registered';
+    }
+    return String(value);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!attendee || !onUpdateAttendee) return;
+
+    if (!formData.name.trim() || !formData.email.trim()) {
+      toast({
+        title: "Error",
+        description: "Please fill in name and email fields",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const emailKey = normalizeEmail(formData.email);
+    const clash = attendees.find(a => a.id !== attendee.id && a.email && normalizeEmail(a.email) === emailKey);
+    if (clash && !window.confirm(`${clash.name} is already registered with this email. Save anyway?`)) {
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onUpdateAttendee(attendee.id, {
+      name: formData.name.trim(),
+      email: formData.email.trim(),
+      phone: formData.phone.trim(),
+      company: formData.company.trim(),
+      registrationType: formData.registrationType,
+      ticketTypeId: formData.ticketTypeId === NO_TICKET_TYPE ? null : formData.ticketTypeId
+    });
+    setIsSaving(false);
+
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!attendee} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{attendee?.name}</DialogTitle>
+          <DialogDescription>
+            QR Code: {attendee?.qrCode}
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs value={tab} onValueChange={(value) => setTab(value as 'details' | 'history')}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="details">
+              <Pencil className="w-4 h-4 mr-2" />
+              Details
+            </TabsTrigger>
+            <TabsTrigger value="history">
+              <History className="w-4 h-4 mr-2" />
+              History
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="edit-name">Full Name</Label>
+                <Input
+                  id="edit-name"
+                  value={formData.name}
+                  disabled={!canEdit}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="edit-email">Email Address</Label>
+                <Input
+                  id="edit-email"
+                  type="email"
+                  value={formData.email}
+                  disabled={!canEdit}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="edit-phone">Phone Number</Label>
+                  <Input
+                    id="edit-phone"
+                    value={formData.phone}
+                    disabled={!canEdit}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="edit-company">Company</Label>
+                  <Input
+                    id="edit-company"
+                    value={formData.company}
+                    disabled={!canEdit}
+                    onChange={(e) => setFormData({ ...formData, company: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="edit-registration-type">Registration Type</Label>
+                  <Select
+                    value={formData.registrationType}
+                    disabled={!canEdit}
+                    onValueChange={(value) => setFormData({ ...formData, registrationType: value as 'pre_registered' | 'walk_in' })}
+                  >
+                    <SelectTrigger id="edit-registration-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="pre_registered">Pre-registered</SelectItem>
+                      <SelectItem value="walk_in">Walk-in</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {ticketTypes.length > 0 && (
+                  <div>
+                    <Label htmlFor="edit-ticket-type">Ticket Type</Label>
+                    <Select
+                      value={formData.ticketTypeId}
+                      disabled={!canEdit}
+                      onValueChange={(value) => setFormData({ ...formData, ticketTypeId: value })}
+                    >
+                      <SelectTrigger id="edit-ticket-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_TICKET_TYPE}>None (all access)</SelectItem>
+                        {ticketTypes.map(ticketType => (
+                          <SelectItem key={ticketType.id} value={ticketType.id}>
+                            {ticketType.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+              {canEdit ? (
+                <Button type="submit" className="w-full bg-gradient-primary" disabled={isSaving}>
+                  {isSaving ? "Saving..." : "Save Changes"}
+                </Button>
+              ) : (
+                <p className="text-sm text-muted-foreground">Only admins can edit attendee details.</p>
+              )}
+            </form>
+          </TabsContent>
+
+          <TabsContent value="history">
+            {historyLoading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading history...</div>
+            ) : history.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No history recorded yet</div>
+            ) : (
+              <div className="space-y-3">
+                {history.map(entry => {
+                  const Icon = historyIcons[entry.kind] || History;
+                  return (
+                    <div key={entry.id} className="flex gap-3 rounded-md border p-3">
+                      <Icon className="w-4 h-4 mt-1 text-muted-foreground shrink-0" />
+                      <div className="flex-1 space-y-1">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <span className="font-medium">{historyTitles[entry.kind] || entry.kind}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {format(entry.timestamp, 'MMM d, HH:mm:ss')}
+                          </span>
+                        </div>
+                        {entry.changes && Object.keys(entry.changes).length > 0 && (
+                          <ul className="text-sm space-y-0.5">
+                            {Object.entries(entry.changes).map(([field, change]) => (
+                              <li key={field}>
+                                <span className="text-muted-foreground">{fieldLabels[field] || field}:</span>{' '}
+                                <span className="line-through">{describeValue(field, change.old)}</span>{' → '}
+                                <span>{describeValue(field, change.new)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {entry.details && entry.kind !== 'created' && (
+                          <p className="text-sm text-muted-foreground">{entry.details}</p>
+                        )}
+                        <div className="flex items-center gap-2">
+                          {entry.status === 'error' && (
+                            <Badge variant="destructive">
+                              <AlertTriangle className="w-3 h-3 mr-1" />
+                              Failed
+                            </Badge>
+                          )}
+                          {entry.actor && (
+                            <span className="text-xs text-muted-foreground">by {entry.actor}</span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -6,19 +6,49 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
-import { Scan, Camera, CameraOff, UserCheck, AlertCircle, Maximize, Minimize, Flashlight, FlashlightOff, UserPlus } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Scan, Camera, CameraOff, UserCheck, AlertCircle, Maximize, Minimize, Flashlight, FlashlightOff, UserPlus, WifiOff, RefreshCw, ShieldAlert, LogIn, LogOut } from "lucide-react";
 import { Html5QrcodeScanner } from "html5-qrcode";
 import { useToast } from "@/hooks/use-toast";
 import { useMobileOptimizations } from "@/hooks/useMobileOptimizations";
 import type { Attendee } from "./EventDashboard";
+import type { CheckInResult, SessionCheckInResult } from "@/lib/checkin";
+import type { EventSession } from "@/hooks/useSessions";
+import type { TicketType } from "@/hooks/useTicketTypes";
+import { findTicketTypeByName } from "@/hooks/useTicketTypes";
+import { TicketTypeBadge } from "./TicketTypeBadge";
+import { formatDuration } from "@/lib/checkin";
+
+type ScanMode = 'entry' | 'exit';
+
+// Select value for event-wide scanning (no session picked)
+const EVENT_ENTRANCE = 'event';
 
 interface CheckInScannerProps {
   attendees: Attendee[];
-  onCheckIn: (qrCode: string) => Promise<{ guestType: string; checkinNumber: number; attendeeName: string } | undefined>;
+  onCheckIn: (qrCode: string) => Promise<CheckInResult | undefined>;
+  // Admin-only: admit a guest beyond the attendee's allowance
+  onOverrideCheckIn?: (qrCode: string) => Promise<CheckInResult | undefined>;
+  // Enables the exit scan mode
+  onCheckOut?: (qrCode: string) => Promise<CheckInResult | undefined>;
+  // Enables picking a breakout session to record attendance for
+  sessions?: EventSession[];
+  onSessionCheckIn?: (qrCode: string, sessionId: string) => Promise<SessionCheckInResult | undefined>;
+  // Emails the attendee their current code when a revoked one is scanned
+  onResendQr?: (attendeeId: string) => Promise<boolean>;
+  // Used to show the holder's tier badge after a scan
+  ticketTypes?: TicketType[];
   onAddWalkIn?: (attendee: { name: string; email?: string; phone?: string; company?: string }) => Promise<any>;
+  isOnline?: boolean;
+  pendingSyncCount?: number;
+  // Pending scans the server failed on; included in pendingSyncCount
+  failedSyncCount?: number;
+  isSyncing?: boolean;
+  onSyncNow?: () => void;
 }
 
-export const CheckInScanner = ({ attendees, onCheckIn, onAddWalkIn }: CheckInScannerProps) => {
+export const CheckInScanner = ({ attendees, onCheckIn, onOverrideCheckIn, onCheckOut, sessions = [], onSessionCheckIn, onResendQr, ticketTypes = [], onAddWalkIn, isOnline = true, pendingSyncCount = 0, failedSyncCount = 0, isSyncing = false, onSyncNow }: CheckInScannerProps) => {
   const [isScanning, setIsScanning] = useState(false);
   const [manualCode, setManualCode] = useState("");
   const [lastScanned, setLastScanned] = useState<Attendee | null>(null);
@@ -35,7 +65,33 @@ export const CheckInScanner = ({ attendees, onCheckIn, onAddWalkIn }: CheckInSca
     email: string;
     guestType: string;
     checkinNumber: number;
+    queued?: boolean;
+    reEntered?: boolean;
+    checkedOut?: boolean;
+    dwellSeconds?: number;
+    sessionName?: string;
+    ticketType?: TicketType;
+  } | null>(null);
+  const [limitData, setLimitData] = useState<{
+    qrCode: string;
+    name: string;
+    email: string;
+    checkinNumber: number;
+    allowedGuests: number;
   } | null>(null);
+  const [isOverriding, setIsOverriding] = useState(false);
+  // Each station is set up as an entrance or an exit, so the mode is kept on this device
+  const [scanMode, setScanMode] = useState<ScanMode>(() => {
+    return localStorage.getItem('scanMode') === 'exit' ? 'exit' : 'entry';
+  });
+  // The camera callback is registered once per session, so it reads the mode from a ref
+  const scanModeRef = useRef<ScanMode>(scanMode);
+  const [autoResendRevoked, setAutoResendRevoked] = useState(() => {
+    return localStorage.getItem('autoResendRevokedQr') !== 'false';
+  });
+  const autoResendRevokedRef = useRef(autoResendRevoked);
+  const [selectedSessionId, setSelectedSessionId] = useState(EVENT_ENTRANCE);
+  const selectedSessionIdRef = useRef(EVENT_ENTRANCE);
   const scannerRef = useRef<Html5QrcodeScanner | null>(null);
   const isScanningLockRef = useRef<boolean>(false);
   const cooldownMapRef = useRef<Map<string, number>>(new Map());
@@ -48,6 +104,11 @@ export const CheckInScanner = ({ attendees, onCheckIn, onAddWalkIn }: CheckInSca
   const { toast } = useToast();
   const { isMobile, isFullscreen, requestFullscreen, exitFullscreen, vibrate } = useMobileOptimizations();
 
+  const getTicketType = (attendeeId?: string) => {
+    const ticketTypeId = attendees.find(a => a.id === attendeeId)?.ticketTypeId;
+    return ticketTypes.find(t => t.id === ticketTypeId);
+  };
+
   // Cooldown period in milliseconds (3 seconds)
   const COOLDOWN_PERIOD = 3000;
 
@@ -130,59 +191,147 @@ export const CheckInScanner = ({ attendees, onCheckIn, onAddWalkIn }: CheckInSca
       cooldownMapRef.current = new Map(validEntries.slice(-30)); // Keep only 30 most recent
     }
 
-    const attendee = attendees.find(a => a.qrCode === decodedText);
-    
-    if (attendee) {
-      try {
-        const result = await onCheckIn(decodedText);
-        
-        // Clear processing timeout on success
-        if (processingTimeoutRef.current) {
-          clearTimeout(processingTimeoutRef.current);
-          processingTimeoutRef.current = null;
+    const sessionId = selectedSessionIdRef.current;
+    if (sessionId !== EVENT_ENTRANCE && onSessionCheckIn) {
+      await handleSessionScan(decodedText, sessionId);
+      return;
+    }
+
+    try {
+      // The server validates the code; the local list is only used for extra display details
+      const result = scanModeRef.current === 'exit' && onCheckOut
+        ? await onCheckOut(decodedText)
+        : await onCheckIn(decodedText);
+      
+      // Clear processing timeout once the server has answered
+      if (processingTimeoutRef.current) {
+        clearTimeout(processingTimeoutRef.current);
+        processingTimeoutRef.current = null;
+      }
+      
+      if (result?.status === 'checked_out') {
+        if (isMobile) {
+          vibrate([150]);
+        }
+        setSuccessData({
+          name: result.attendeeName,
+          email: result.attendeeEmail,
+          guestType: result.guestType,
+          checkinNumber: result.checkinNumber,
+          checkedOut: true,
+          dwellSeconds: result.dwellSeconds,
+          ticketType: getTicketType(result.attendeeId)
+        });
+        setShowSuccessDialog(true);
+      } else if (result?.status === 'not_on_site') {
+        if (isMobile) {
+          vibrate([100, 100, 100]);
+        }
+        toast({
+          title: "Not On Site",
+          description: `Nobody from ${result.attendeeName}'s party is currently checked in`,
+          variant: "destructive"
+        });
+        setTimeout(() => {
+          setProcessingQR(null);
+          startScanning();
+        }, 1000);
+      } else if (result?.status === 'checked_in' || result?.status === 'queued' || result?.status === 're_entered') {
+        const attendee = attendees.find(a => a.id === result.attendeeId);
+
+        // Single success vibration
+        if (isMobile) {
+          vibrate([150]); // Single 150ms haptic feedback
         }
         
-        if (result) {
-          // Single success vibration
-          if (isMobile) {
-            vibrate([150]); // Single 150ms haptic feedback
-          }
-          
-          // Scanner already stopped at line 86, show success dialog
-          
-          setSuccessData({
+        // Scanner already stopped above, show success dialog
+        
+        setSuccessData({
+          name: result.attendeeName,
+          email: result.attendeeEmail,
+          guestType: result.guestType,
+          checkinNumber: result.checkinNumber,
+          queued: result.status === 'queued',
+          reEntered: result.status === 're_entered',
+          ticketType: getTicketType(result.attendeeId)
+        });
+        
+        setShowSuccessDialog(true);
+        
+        setLastScanned({
+          ...(attendee || {
+            id: result.attendeeId,
             name: result.attendeeName,
-            email: attendee.email,
-            guestType: result.guestType,
-            checkinNumber: result.checkinNumber
-          });
-          
-          setShowSuccessDialog(true);
-          
-          setLastScanned({
-            ...attendee,
-            guestType: result.guestType,
-            checkinNumber: result.checkinNumber
-          });
+            email: result.attendeeEmail,
+            phone: '',
+            checkedIn: true,
+            qrCode: decodedText
+          }),
+          guestType: result.guestType,
+          checkinNumber: result.checkinNumber
+        });
+      } else if (result?.status === 'guest_limit_reached') {
+        if (isMobile) {
+          vibrate([100, 100, 100]); // Error vibration pattern
         }
-      } catch (error) {
-        console.error('Check-in error:', error);
-        // Clear processing timeout on error
-        if (processingTimeoutRef.current) {
-          clearTimeout(processingTimeoutRef.current);
-          processingTimeoutRef.current = null;
+        setLimitData({
+          qrCode: decodedText,
+          name: result.attendeeName,
+          email: result.attendeeEmail,
+          checkinNumber: result.checkinNumber,
+          allowedGuests: result.allowedGuests
+        });
+      } else if (result?.status === 'revoked_qr') {
+        if (isMobile) {
+          vibrate([300, 100, 300]);
         }
+        await handleRevokedScan(result);
+        setTimeout(() => {
+          setProcessingQR(null);
+          startScanning();
+        }, 2000);
+      } else if (result?.status === 'forged_qr' || result?.status === 'legacy_qr_disabled') {
+        if (isMobile) {
+          vibrate([300, 100, 300]); // Distinct long pattern for security warnings
+        }
+        toast({
+          title: result.status === 'forged_qr' ? "Forged QR Code" : "Outdated QR Code",
+          description: result.status === 'forged_qr'
+            ? "This QR code failed signature verification and may have been tampered with. Do not admit - refer to the help desk."
+            : "Short legacy codes are no longer accepted for this event. Please ask the attendee for their latest QR code.",
+          variant: "destructive"
+        });
+        setTimeout(() => {
+          setProcessingQR(null);
+          startScanning();
+        }, 2000);
+      } else if (result?.status === 'invalid_qr') {
+        if (isMobile) {
+          vibrate([100, 100, 100]); // Error vibration pattern
+        }
+        toast({
+          title: "Invalid QR Code",
+          description: "This QR code is not registered for this event",
+          variant: "destructive"
+        });
+        setTimeout(() => {
+          setProcessingQR(null);
+          // Auto-restart scanning after showing the error
+          startScanning();
+        }, 1000);
+      } else {
+        // Check-in failed (the error toast is shown by the dashboard)
         if (isMobile) {
           vibrate([100, 100, 100]); // Error vibration pattern
         }
-        // Auto-restart scanning after error
         setTimeout(() => {
           setProcessingQR(null);
           startScanning();
         }, 1000);
       }
-    } else {
-      // Clear processing timeout for invalid QR
+    } catch (error) {
+      console.error('Check-in error:', error);
+      // Clear processing timeout on error
       if (processingTimeoutRef.current) {
         clearTimeout(processingTimeoutRef.current);
         processingTimeoutRef.current = null;
@@ -190,19 +339,143 @@ export const CheckInScanner = ({ attendees, onCheckIn, onAddWalkIn }: CheckInSca
       if (isMobile) {
         vibrate([100, 100, 100]); // Error vibration pattern
       }
-      toast({
-        title: "Invalid QR Code",
-        description: "This QR code is not registered for this event",
-        variant: "destructive"
-      });
+      // Auto-restart scanning after error
       setTimeout(() => {
         setProcessingQR(null);
-        // Auto-restart scanning after showing the error
         startScanning();
       }, 1000);
     }
   };
 
+  // Session attendance: one record per attendee per session, no plus guests
+  const handleSessionScan = async (decodedText: string, sessionId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    let result: SessionCheckInResult | undefined;
+    try {
+      result = await onSessionCheckIn(decodedText, sessionId);
+    } catch (error) {
+      console.error('Session check-in error:', error);
+    }
+
+    if (processingTimeoutRef.current) {
+      clearTimeout(processingTimeoutRef.current);
+      processingTimeoutRef.current = null;
+    }
+
+    if (result?.status === 'checked_in') {
+      if (isMobile) {
+        vibrate([150]);
+      }
+      setSuccessData({
+        name: result.attendeeName,
+        email: result.attendeeEmail,
+        guestType: session?.room || '',
+        checkinNumber: result.attendance,
+        sessionName: session?.name,
+        // Ticket access is enforced by the server, which returns the holder's tier
+        ticketType: result.ticketTypeName ? findTicketTypeByName(ticketTypes, result.ticketTypeName) : undefined
+      });
+      setShowSuccessDialog(true);
+      return;
+    }
+
+    if (isMobile) {
+      vibrate([100, 100, 100]);
+    }
+    if (result?.status === 'revoked_qr') {
+      await handleRevokedScan(result);
+    } else if (result) {
+      toast({
+        title: result.status === 'already_checked_in' ? "Already Checked In" :
+               result.status === 'session_full' ? "Session Full" :
+               result.status === 'access_denied' ? "Access Denied" :
+               result.status === 'forged_qr' ? "Forged QR Code" :
+               result.status === 'legacy_qr_disabled' ? "Outdated QR Code" : "Invalid QR Code",
+        description: result.status === 'already_checked_in'
+          ? `${result.attendeeName} is already checked in to ${session?.name}`
+          : result.status === 'session_full'
+            ? `${session?.name} has reached its capacity of ${result.capacity}`
+            : result.status === 'access_denied'
+              ? `${result.attendeeName}'s ${result.ticketTypeName} ticket does not include ${session?.name}. Do not admit.`
+              : result.status === 'forged_qr'
+                ? "This QR code failed signature verification. Do not admit - refer to the help desk."
+                : "This QR code is not valid for this session",
+        variant: result.status === 'already_checked_in' ? "default" : "destructive"
+      });
+    }
+    setTimeout(() => {
+      setProcessingQR(null);
+      startScanning();
+    }, 1500);
+  };
+
+  // Revoked codes send the holder to the help desk; their current code can be emailed straight away
+  const handleRevokedScan = async (result: CheckInResult | SessionCheckInResult) => {
+    let resent = false;
+    if (autoResendRevokedRef.current && onResendQr && result.attendeeId) {
+      try {
+        resent = await onResendQr(result.attendeeId);
+      } catch (error) {
+        console.error('Error resending QR code:', error);
+      }
+    }
+
+    toast({
+      title: "Revoked QR — see help desk",
+      description: result.attendeeName
+        ? `${result.attendeeName}'s code was replaced${result.revokedAt ? ` on ${result.revokedAt.toLocaleString()}` : ''}. Do not admit with this code.` +
+          (resent ? ` Their current code has been emailed to ${result.attendeeEmail}.` : '')
+        : "This QR code has been revoked. Do not admit - refer to the help desk.",
+      variant: "destructive"
+    });
+  };
+
+  const changeAutoResendRevoked = (enabled: boolean) => {
+    localStorage.setItem('autoResendRevokedQr', String(enabled));
+    autoResendRevokedRef.current = enabled;
+    setAutoResendRevoked(enabled);
+  };
+
+  const changeSession = (sessionId: string) => {
+    selectedSessionIdRef.current = sessionId;
+    setSelectedSessionId(sessionId);
+  };
+
+  const changeScanMode = (mode: ScanMode) => {
+    localStorage.setItem('scanMode', mode);
+    scanModeRef.current = mode;
+    setScanMode(mode);
+  };
+
+  const closeLimitDialog = () => {
+    setLimitData(null);
+    setProcessingQR(null);
+    startScanning();
+  };
+
+  const handleOverride = async () => {
+    if (!limitData || !onOverrideCheckIn) return;
+
+    setIsOverriding(true);
+    try {
+      const result = await onOverrideCheckIn(limitData.qrCode);
+      if (result?.status === 'checked_in') {
+        setLimitData(null);
+        setSuccessData({
+          name: result.attendeeName,
+          email: result.attendeeEmail,
+          guestType: result.guestType,
+          checkinNumber: result.checkinNumber
+        });
+        setShowSuccessDialog(true);
+      }
+    } catch (error) {
+      console.error('Override check-in error:', error);
+    } finally {
+      setIsOverriding(false);
+    }
+  };
+
   const handleScanError = (error: string) => {
     // Only show error if it's not a common scanning error
     if (!error.includes("No QR code found")) {
@@ -492,18 +765,100 @@ export const CheckInScanner = ({ attendees, onCheckIn, onAddWalkIn }: CheckInSca
               <Scan className={`${isMobile ? 'w-6 h-6' : 'w-5 h-5'}`} />
               QR Code Scanner
             </CardTitle>
-            {isMobile && (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={isFullscreen ? exitFullscreen : requestFullscreen}
-                className="p-2"
-              >
-                {isFullscreen ? <Minimize className="w-4 h-4" /> : <Maximize className="w-4 h-4" />}
-              </Button>
-            )}
+            <div className="flex items-center gap-2">
+              {onCheckOut && selectedSessionId === EVENT_ENTRANCE && (
+                <div className="flex rounded-md border">
+                  <Button
+                    variant={scanMode === 'entry' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => changeScanMode('entry')}
+                    className="flex items-center gap-1 rounded-r-none"
+                  >
+                    <LogIn className="w-3 h-3" />
+                    Entry
+                  </Button>
+                  <Button
+                    variant={scanMode === 'exit' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => changeScanMode('exit')}
+                    className="flex items-center gap-1 rounded-l-none"
+                  >
+                    <LogOut className="w-3 h-3" />
+                    Exit
+                  </Button>
+                </div>
+              )}
+              {!isOnline && (
+                <Badge variant="destructive" className="flex items-center gap-1">
+                  <WifiOff className="w-3 h-3" />
+                  Offline
+                </Badge>
+              )}
+              {pendingSyncCount > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onSyncNow}
+                  disabled={!isOnline || isSyncing || !onSyncNow}
+                  className="flex items-center gap-1 border-warning text-warning"
+                >
+                  <RefreshCw className={`w-3 h-3 ${isSyncing ? 'animate-spin' : ''}`} />
+                  {pendingSyncCount} pending sync
+                </Button>
+              )}
+              {failedSyncCount > 0 && (
+                <Badge
+                  variant="destructive"
+                  className="flex items-center gap-1"
+                  title="These scans are retried on every sync; the logs show why they failed"
+                >
+                  <AlertCircle className="w-3 h-3" />
+                  {failedSyncCount} failed to sync
+                </Badge>
+              )}
+              {isMobile && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={isFullscreen ? exitFullscreen : requestFullscreen}
+                  className="p-2"
+                >
+                  {isFullscreen ? <Minimize className="w-4 h-4" /> : <Maximize className="w-4 h-4" />}
+                </Button>
+              )}
+            </div>
           </CardHeader>
             <CardContent className="space-y-4">
+              {onSessionCheckIn && sessions.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Scanning for</Label>
+                  <Select value={selectedSessionId} onValueChange={changeSession}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={EVENT_ENTRANCE}>Event entrance</SelectItem>
+                      {sessions.map(session => (
+                        <SelectItem key={session.id} value={session.id}>
+                          {session.name}{session.room ? ` - ${session.room}` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {onResendQr && (
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="auto-resend-revoked" className="font-normal">
+                    Email the current code when a revoked code is scanned
+                  </Label>
+                  <Switch
+                    id="auto-resend-revoked"
+                    checked={autoResendRevoked}
+                    onCheckedChange={changeAutoResendRevoked}
+                  />
+                </div>
+              )}
               <div className="text-center">
                  <div className={`bg-accent/20 rounded-lg mb-4 ${isFullscreen ? 'p-2' : 'p-6'}`}>
                    <div id="qr-reader" className={isScanning ? "" : "hidden"}></div>
@@ -768,7 +1123,10 @@ export const CheckInScanner = ({ attendees, onCheckIn, onAddWalkIn }: CheckInSca
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2 text-success text-2xl justify-center">
               <UserCheck className="w-8 h-8" />
-              Successfully Scanned!
+              {successData?.queued ? "Saved Offline" :
+               successData?.checkedOut ? "Checked Out" :
+               successData?.sessionName ? "Session Check-In" :
+               successData?.reEntered ? "Welcome Back!" : "Successfully Scanned!"}
             </DialogTitle>
             <DialogDescription className="sr-only">Attendee has been successfully checked in to the event</DialogDescription>
           </DialogHeader>
@@ -786,12 +1144,46 @@ export const CheckInScanner = ({ attendees, onCheckIn, onAddWalkIn }: CheckInSca
               <div className="text-center space-y-2">
                 <h3 className="text-xl font-bold">{successData.name}</h3>
                 <p className="text-muted-foreground">{successData.email}</p>
-                <Badge className="bg-success text-success-foreground text-base px-4 py-1">
-                  Check-in #{successData.checkinNumber}
-                </Badge>
-                <Badge variant="outline" className="text-base px-4 py-1 ml-2">
-                  {successData.guestType}
-                </Badge>
+                {successData.ticketType && (
+                  <div className="flex justify-center">
+                    <TicketTypeBadge ticketType={successData.ticketType} className="text-base px-4 py-1" />
+                  </div>
+                )}
+                {successData.sessionName ? (
+                  <>
+                    <Badge className="bg-success text-success-foreground text-base px-4 py-1">
+                      {successData.sessionName}
+                    </Badge>
+                    <p className="text-sm text-muted-foreground">
+                      {successData.guestType && `${successData.guestType} - `}Attendee #{successData.checkinNumber} in this session
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <Badge className="bg-success text-success-foreground text-base px-4 py-1">
+                      Check-in #{successData.checkinNumber}
+                    </Badge>
+                    <Badge variant="outline" className="text-base px-4 py-1 ml-2">
+                      {successData.guestType}
+                    </Badge>
+                  </>
+                )}
+                {successData.checkedOut && successData.dwellSeconds !== undefined && (
+                  <p className="text-sm text-muted-foreground">
+                    Time on site: {formatDuration(successData.dwellSeconds)}
+                  </p>
+                )}
+                {successData.reEntered && (
+                  <p className="text-sm text-muted-foreground">
+                    Re-entry - no additional guest counted
+                  </p>
+                )}
+                {successData.queued && (
+                  <p className="text-sm text-warning flex items-center justify-center gap-1">
+                    <WifiOff className="w-4 h-4" />
+                    No connection - this check-in will sync automatically
+                  </p>
+                )}
               </div>
             )}
           </div>
@@ -828,6 +1220,61 @@ export const CheckInScanner = ({ attendees, onCheckIn, onAddWalkIn }: CheckInSca
         </DialogContent>
       </Dialog>
 
+      {/* Guest Limit Dialog */}
+      <Dialog open={!!limitData} onOpenChange={(open) => {
+        if (!open) {
+          closeLimitDialog();
+        }
+      }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-destructive text-2xl justify-center">
+              <ShieldAlert className="w-8 h-8" />
+              Guest Limit Reached
+            </DialogTitle>
+            <DialogDescription className="text-center">
+              This QR code has already admitted everyone it is allowed to.
+            </DialogDescription>
+          </DialogHeader>
+
+          {limitData && (
+            <div className="text-center space-y-2 py-4">
+              <h3 className="text-xl font-bold">{limitData.name}</h3>
+              <p className="text-muted-foreground">{limitData.email}</p>
+              <Badge variant="destructive" className="text-base px-4 py-1">
+                {limitData.checkinNumber} of {limitData.allowedGuests + 1} admitted
+              </Badge>
+              <p className="text-sm text-muted-foreground">
+                {limitData.allowedGuests === 0
+                  ? "No plus guests allowed"
+                  : `${limitData.allowedGuests} plus ${limitData.allowedGuests === 1 ? 'guest' : 'guests'} allowed`}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {onOverrideCheckIn && (
+              <Button
+                onClick={handleOverride}
+                disabled={isOverriding}
+                variant="outline"
+                className="w-full py-4 border-warning text-warning"
+              >
+                <ShieldAlert className="w-5 h-5 mr-2" />
+                {isOverriding ? "Admitting..." : "Admin Override - Admit Anyway"}
+              </Button>
+            )}
+            <Button
+              onClick={closeLimitDialog}
+              className="w-full bg-gradient-primary hover:shadow-glow py-6 text-lg"
+            >
+              <Scan className="w-6 h-6 mr-2" />
+              Scan Another QR Code
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Last Scanned (Historical Reference) */}
       {lastScanned && !isFullscreen && !showSuccessDialog && (
         <Card className="shadow-elegant border-success/50">
@@ -844,9 +1291,12 @@ export const CheckInScanner = ({ attendees, onCheckIn, onAddWalkIn }: CheckInSca
                 <p className={`text-muted-foreground ${isMobile ? 'text-base' : 'text-sm'}`}>{lastScanned.email}</p>
                 <p className={`text-muted-foreground ${isMobile ? 'text-sm' : 'text-xs'}`}>QR: {lastScanned.qrCode}</p>
               </div>
-              <Badge className={`bg-success text-success-foreground ${isMobile ? 'text-base px-3 py-1' : ''}`}>
-                Checked In
-              </Badge>
+              <div className="flex flex-col items-end gap-1">
+                <Badge className={`bg-success text-success-foreground ${isMobile ? 'text-base px-3 py-1' : ''}`}>
+                  Checked In
+                </Badge>
+                <TicketTypeBadge ticketType={ticketTypes.find(t => t.id === lastScanned.ticketTypeId)} />
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -0,0 +1,136 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { GitMerge, Mail, Phone, User } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { findDuplicateGroups } from "@/lib/duplicates";
+import type { DuplicateGroup, DuplicateReason, MergeResult } from "@/lib/duplicates";
+import type { Attendee } from "./EventDashboard";
+
+interface DuplicateReviewProps {
+  attendees: Attendee[];
+  onMerge: (survivor: Attendee, duplicates: Attendee[]) => Promise<MergeResult | undefined>;
+}
+
+const reasonLabels: Record<DuplicateReason, { label: string; icon: typeof Mail }> = {
+  email: { label: "Same email", icon: Mail },
+  phone: { label: "Same phone", icon: Phone },
+  name: { label: "Similar name", icon: User },
+};
+
+// Prefer the record that has already been used at the door, then the oldest
+const defaultSurvivor = (group: DuplicateGroup) => {
+  const checkedIn = group.attendees.find(a => a.checkedIn);
+  return (checkedIn || group.attendees[0]).id;
+};
+
+export const DuplicateReview = ({ attendees, onMerge }: DuplicateReviewProps) => {
+  const { toast } = useToast();
+  const groups = useMemo(() => findDuplicateGroups(attendees), [attendees]);
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [mergingGroupId, setMergingGroupId] = useState<string | null>(null);
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const survivorId = survivors[group.id] || defaultSurvivor(group);
+    const survivor = group.attendees.find(a => a.id === survivorId);
+    const duplicates = group.attendees.filter(a => a.id !== survivorId);
+    if (!survivor) return;
+
+    if (!window.confirm(
+      `Merge ${duplicates.length} record(s) into ${survivor.name} (${survivor.email})?\n\n` +
+      `Only QR code ${survivor.qrCode} will remain valid; the others are revoked. Check-ins and plus-guest allowances move to this record and the other records are deleted.`
+    )) return;
+
+    setMergingGroupId(group.id);
+    try {
+      const result = await onMerge(survivor, duplicates);
+      if (result?.status === 'merged') {
+        toast({
+          title: "Attendees Merged",
+          description: `${result.mergedCount} duplicate(s) merged into ${survivor.name}${result.movedCheckins > 0 ? `, ${result.movedCheckins} check-ins moved` : ''}`,
+        });
+      } else if (result) {
+        toast({
+          title: "Merge Failed",
+          description: "These records changed since the list was loaded. Please review them again.",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setMergingGroupId(null);
+    }
+  };
+
+  if (groups.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No likely duplicates found
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {groups.length} group(s) of likely duplicates. Choose the record to keep in each group; its QR code stays valid.
+      </p>
+      {groups.map(group => {
+        const survivorId = survivors[group.id] || defaultSurvivor(group);
+        return (
+          <Card key={group.id}>
+            <CardHeader className="flex flex-row items-center justify-between py-3">
+              <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+                {group.reasons.map(reason => {
+                  const { label, icon: Icon } = reasonLabels[reason];
+                  return (
+                    <Badge key={reason} variant="outline">
+                      <Icon className="w-3 h-3 mr-1" />
+                      {label}
+                    </Badge>
+                  );
+                })}
+              </CardTitle>
+              <Button
+                size="sm"
+                onClick={() => handleMerge(group)}
+                disabled={mergingGroupId !== null}
+                className="bg-gradient-primary"
+              >
+                <GitMerge className="w-4 h-4 mr-2" />
+                {mergingGroupId === group.id ? "Merging..." : "Merge"}
+              </Button>
+            </CardHeader>
+            <CardContent className="pb-4">
+              <RadioGroup
+                value={survivorId}
+                onValueChange={(value) => setSurvivors(prev => ({ ...prev, [group.id]: value }))}
+              >
+                {group.attendees.map(attendee => (
+                  <div key={attendee.id} className="flex items-start gap-3 rounded-md border p-3">
+                    <RadioGroupItem value={attendee.id} id={`survivor-${attendee.id}`} className="mt-1" />
+                    <Label htmlFor={`survivor-${attendee.id}`} className="flex-1 font-normal cursor-pointer">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{attendee.name}</span>
+                        {attendee.checkedIn && (
+                          <Badge variant="secondary" className="bg-success/10 text-success">Checked In</Badge>
+                        )}
+                        {attendee.id === survivorId && <Badge>Keep</Badge>}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {[attendee.email, attendee.phone, attendee.company].filter(Boolean).join(' · ')}
+                      </div>
+                      <code className="text-xs bg-muted px-2 py-0.5 rounded">{attendee.qrCode}</code>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useRef, useState } from 'react';
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowUp, ArrowDown, Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { EmailBlock } from "@/lib/emailTemplate";
+
+interface EmailBlockEditorProps {
+  block: EmailBlock;
+  label: string;
+  onChange: (block: EmailBlock) => void;
+  onRemove: () => void;
+  // Left out for the first and last block
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  // Stores the file for this template and resolves to its URL
+  onUploadBanner?: (file: File) => Promise<string | undefined>;
+}
+
+export const EmailBlockEditor: React.FC<EmailBlockEditorProps> = ({
+  block,
+  label,
+  onChange,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+  onUploadBanner
+}) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleBannerFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || block.type !== 'header' || !onUploadBanner) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: "Invalid file",
+        description: "Please choose an image file",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    const url = await onUploadBanner(file);
+    setIsUploading(false);
+
+    if (url) {
+      onChange({ ...block, imageUrl: url });
+    }
+  };
+
+  const fieldId = (field: string) => `${block.id}-${field}`;
+
+  const renderFields = () => {
+    switch (block.type) {
+      case 'header':
+        return (
+          <>
+            {block.imageUrl && (
+              <img src={block.imageUrl} alt={block.alt} className="w-full max-h-32 object-cover rounded border" />
+            )}
+            <div className="flex gap-2">
+              <Input
+                id={fieldId('imageUrl')}
+                value={block.imageUrl}
+                onChange={(e) => onChange({ ...block, imageUrl: e.target.value })}
+                placeholder="https://..."
+              />
+              {onUploadBanner && (
+                <>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/png,image/jpeg,image/gif,image/webp"
+                    className="hidden"
+                    onChange={handleBannerFile}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isUploading}
+                  >
+                    <Upload className="w-4 h-4 mr-2" />
+                    {isUploading ? 'Uploading...' : 'Upload'}
+                  </Button>
+                </>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={fieldId('alt')}>Alt Text</Label>
+              <Input
+                id={fieldId('alt')}
+                value={block.alt}
+                onChange={(e) => onChange({ ...block, alt: e.target.value })}
+                placeholder="Event Banner"
+              />
+            </div>
+          </>
+        );
+      case 'text':
+        return (
+          <>
+            <Select
+              value={block.style}
+              onValueChange={(style: 'heading' | 'paragraph') => onChange({ ...block, style })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="heading">Heading</SelectItem>
+                <SelectItem value="paragraph">Paragraph</SelectItem>
+              </SelectContent>
+            </Select>
+            {block.style === 'heading' ? (
+              <Input
+                id={fieldId('text')}
+                value={block.text}
+                onChange={(e) => onChange({ ...block, text: e.target.value })}
+                placeholder="Hello {name}!"
+              />
+            ) : (
+              <Textarea
+                id={fieldId('text')}
+                value={block.text}
+                onChange={(e) => onChange({ ...block, text: e.target.value })}
+                placeholder="Enter your message here..."
+                rows={3}
+              />
+            )}
+          </>
+        );
+      case 'qr':
+        return (
+          <>
+            <Input
+              id={fieldId('instructions')}
+              value={block.instructions}
+              onChange={(e) => onChange({ ...block, instructions: e.target.value })}
+              placeholder="Your unique QR code:"
+            />
+            <div className="flex items-center gap-2">
+              <Switch
+                id={fieldId('showCode')}
+                checked={block.showCode}
+                onCheckedChange={(showCode) => onChange({ ...block, showCode })}
+              />
+              <Label htmlFor={fieldId('showCode')}>Show the code as text under the image</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id={fieldId('showWalletLinks')}
+                checked={Boolean(block.showWalletLinks)}
+                onCheckedChange={(showWalletLinks) => onChange({ ...block, showWalletLinks })}
+              />
+              <Label htmlFor={fieldId('showWalletLinks')}>Add Apple Wallet and Google Wallet links (once wallet passes are set up)</Label>
+            </div>
+          </>
+        );
+      case 'button':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              id={fieldId('label')}
+              value={block.label}
+              onChange={(e) => onChange({ ...block, label: e.target.value })}
+              placeholder="Button label"
+            />
+            <Input
+              id={fieldId('url')}
+              value={block.url}
+              onChange={(e) => onChange({ ...block, url: e.target.value })}
+              placeholder="https://..."
+            />
+          </div>
+        );
+      case 'footer':
+        return (
+          <Textarea
+            id={fieldId('text')}
+            value={block.text}
+            onChange={(e) => onChange({ ...block, text: e.target.value })}
+            placeholder="**Juspay**"
+            rows={2}
+          />
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">{label}</span>
+          <div className="flex gap-1">
+            <Button type="button" variant="ghost" size="sm" onClick={onMoveUp} disabled={!onMoveUp} title="Move up">
+              <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={onMoveDown} disabled={!onMoveDown} title="Move down">
+              <ArrowDown className="w-4 h-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={onRemove} title="Remove block">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        {renderFields()}
+      </CardContent>
+    </Card>
+  );
+};
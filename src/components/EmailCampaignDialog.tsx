@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Send, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { isCampaignActive } from "@/hooks/useEmailCampaigns";
+import type { AttendeeEmailStatus, EmailAudience, EmailCampaign, EmailCampaignFilters } from "@/hooks/useEmailCampaigns";
+import type { TicketType } from "@/hooks/useTicketTypes";
+import type { Attendee } from "./EventDashboard";
+
+// Select value for "no restriction" in the filter dropdowns
+const ANY = 'any';
+
+const audienceLabels: Record<EmailAudience, string> = {
+  all: 'All attendees',
+  unsent: 'Attendees who have not been emailed yet',
+  not_checked_in: 'Attendees not checked in',
+  filtered: 'Filtered attendees',
+};
+
+interface EmailCampaignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  attendees: Attendee[];
+  ticketTypes: TicketType[];
+  selectedAttendeeIds: string[];
+  emailStatuses: Record<string, AttendeeEmailStatus>;
+  campaigns: EmailCampaign[];
+  onQueue: (audience: EmailAudience, filters: EmailCampaignFilters) => Promise<boolean>;
+  onCancel: (campaign: EmailCampaign) => void;
+}
+
+export const EmailCampaignDialog = ({ open, onOpenChange, attendees, ticketTypes, selectedAttendeeIds, emailStatuses, campaigns, onQueue, onCancel }: EmailCampaignDialogProps) => {
+  const [audience, setAudience] = useState<EmailAudience>('unsent');
+  const [ticketTypeId, setTicketTypeId] = useState(ANY);
+  const [registrationType, setRegistrationType] = useState(ANY);
+  const [onlySelected, setOnlySelected] = useState(false);
+  const [isQueueing, setIsQueueing] = useState(false);
+
+  const filters: EmailCampaignFilters = audience === 'filtered' ? {
+    ticketTypeId: ticketTypeId === ANY ? undefined : ticketTypeId,
+    registrationType: registrationType === ANY ? undefined : registrationType,
+    attendeeIds: onlySelected && selectedAttendeeIds.length > 0 ? selectedAttendeeIds : undefined,
+  } : {};
+
+  // Preview only: the server decides the final list, e.g. it also counts emails
+  // sent one at a time as already sent
+  const estimatedRecipients = attendees.filter(attendee => {
+    if (!attendee.email?.trim()) return false;
+    switch (audience) {
+      case 'unsent':
+        return emailStatuses[attendee.id]?.status !== 'sent';
+      case 'not_checked_in':
+        return !attendee.checkedIn;
+      case 'filtered':
+        return (!filters.ticketTypeId || attendee.ticketTypeId === filters.ticketTypeId)
+          && (!filters.registrationType || attendee.registrationType === filters.registrationType)
+          && (!filters.attendeeIds || filters.attendeeIds.includes(attendee.id));
+      default:
+        return true;
+    }
+  }).length;
+
+  const handleQueue = async () => {
+    setIsQueueing(true);
+    await onQueue(audience, filters);
+    setIsQueueing(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bulk Email</DialogTitle>
+          <DialogDescription>
+            Emails are sent from the server in throttled batches, so you can close this window while they go out.
+            Failed sends are retried up to three times.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <Label>Recipients</Label>
+            <RadioGroup value={audience} onValueChange={(value) => setAudience(value as EmailAudience)}>
+              {(Object.keys(audienceLabels) as EmailAudience[]).map(option => (
+                <div key={option} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option} id={`audience-${option}`} />
+                  <Label htmlFor={`audience-${option}`} className="font-normal">
+                    {audienceLabels[option]}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {audience === 'filtered' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {ticketTypes.length > 0 && (
+                <div>
+                  <Label htmlFor="campaign-ticket-type">Ticket Type</Label>
+                  <Select value={ticketTypeId} onValueChange={setTicketTypeId}>
+                    <SelectTrigger id="campaign-ticket-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any ticket type</SelectItem>
+                      {ticketTypes.map(ticketType => (
+                        <SelectItem key={ticketType.id} value={ticketType.id}>
+                          {ticketType.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="campaign-registration-type">Registration</Label>
+                <Select value={registrationType} onValueChange={setRegistrationType}>
+                  <SelectTrigger id="campaign-registration-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any registration</SelectItem>
+                    <SelectItem value="pre_registered">Pre-registered</SelectItem>
+                    <SelectItem value="walk_in">Walk-in</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {selectedAttendeeIds.length > 0 && (
+                <div className="flex items-center space-x-2 md:col-span-2">
+                  <Checkbox
+                    id="campaign-only-selected"
+                    checked={onlySelected}
+                    onCheckedChange={(checked) => setOnlySelected(checked === true)}
+                  />
+                  <Label htmlFor="campaign-only-selected" className="font-normal">
+                    Only the {selectedAttendeeIds.length} selected attendees
+                  </Label>
+                </div>
+              )}
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            About {estimatedRecipients} recipients. Attendees without an email address or with an email already
+            waiting to be sent are skipped. The current subject, message and template are used; the QR code is
+            sent without the custom logo or background.
+          </p>
+
+          <div className="flex justify-end">
+            <Button onClick={handleQueue} disabled={isQueueing || estimatedRecipients === 0} className="bg-gradient-primary">
+              <Send className="w-4 h-4 mr-2" />
+              {isQueueing ? "Queueing..." : "Queue Emails"}
+            </Button>
+          </div>
+
+          {campaigns.length > 0 && (
+            <div className="space-y-3">
+              <Label>Recent Campaigns</Label>
+              {campaigns.map(campaign => {
+                const processed = campaign.sentCount + campaign.failedCount;
+                return (
+                  <div key={campaign.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="text-sm">
+                        <span className="font-medium">{audienceLabels[campaign.audience]}</span>
+                        <span className="text-muted-foreground">
+                          {' '}- {format(campaign.createdAt, 'MMM d, HH:mm')}{campaign.createdBy ? ` by ${campaign.createdBy}` : ''}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={campaign.status === 'cancelled' ? 'destructive' : 'secondary'} className="capitalize">
+                          {campaign.status}
+                        </Badge>
+                        {isCampaignActive(campaign) && (
+                          <Button size="sm" variant="outline" onClick={() => onCancel(campaign)}>
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <Progress value={campaign.totalCount > 0 ? (processed / campaign.totalCount) * 100 : 100} />
+                    <p className="text-xs text-muted-foreground">
+                      {campaign.sentCount} sent, {campaign.failedCount} failed of {campaign.totalCount}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
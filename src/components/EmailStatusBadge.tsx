@@ -0,0 +1,38 @@
+import { Badge } from "@/components/ui/badge";
+import type { AttendeeDeliveryStatus, AttendeeEmailStatus } from "@/hooks/useEmailCampaigns";
+
+interface EmailStatusBadgeProps {
+  emailStatus?: AttendeeEmailStatus;
+  delivery?: AttendeeDeliveryStatus;
+}
+
+type BadgeStatus = AttendeeEmailStatus['status'] | AttendeeDeliveryStatus['status'];
+
+const statusStyles: Record<BadgeStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-muted text-muted-foreground" },
+  sending: { label: "Sending", className: "bg-warning text-warning-foreground" },
+  sent: { label: "Sent", className: "bg-primary text-primary-foreground" },
+  delivered: { label: "Delivered", className: "bg-success text-success-foreground" },
+  opened: { label: "Opened", className: "bg-success text-success-foreground" },
+  failed: { label: "Failed", className: "bg-destructive text-destructive-foreground" },
+  bounced: { label: "Bounced", className: "bg-destructive text-destructive-foreground" },
+  complained: { label: "Spam", className: "bg-destructive text-destructive-foreground" },
+};
+
+// Whatever happened last to the attendee's email: the campaign queue state, or
+// what Resend reported once it was handed over. Renders nothing if never emailed.
+export const EmailStatusBadge = ({ emailStatus, delivery }: EmailStatusBadgeProps) => {
+  if (!emailStatus && !delivery) return null;
+
+  const showDelivery = delivery && (!emailStatus || delivery.occurredAt >= emailStatus.updatedAt);
+  const style = statusStyles[showDelivery ? delivery.status : emailStatus.status];
+  const title = showDelivery
+    ? delivery.detail
+    : emailStatus.lastError && `${emailStatus.lastError} (${emailStatus.attempts} attempts)`;
+
+  return (
+    <Badge className={`border-transparent ${style.className}`} title={title || undefined}>
+      {style.label}
+    </Badge>
+  );
+};
@@ -1,98 +1,102 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Eye, Save, RotateCcw } from "lucide-react";
-
-interface EmailTemplate {
-  subject: string;
-  greeting: string;
-  mainMessage: string;
-  qrInstructions: string;
-  closingMessage: string;
-  senderName: string;
-  headerTitle: string;
-}
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Eye, Save, RotateCcw, AlertTriangle, History, Plus } from "lucide-react";
+import { format } from "date-fns";
+import { PLACEHOLDERS, createBlock, defaultEmailTemplate, findTemplateProblems, placeholderValues, renderQrEmail } from "@/lib/emailTemplate";
+import type { EmailBlock, EmailBlockType, EmailTemplate, EmailTheme } from "@/lib/emailTemplate";
+import { EmailBlockEditor } from "./EmailBlockEditor";
+import type { EmailTemplateVersion } from "@/hooks/useEmailTemplate";
+import type { EventInfo } from "@/hooks/useEvents";
 
 interface EmailTemplateEditorProps {
   template: EmailTemplate;
   onTemplateChange: (template: EmailTemplate) => void;
   onSave: () => void;
+  isSaving?: boolean;
+  // Fills the event placeholders in the preview
+  event?: EventInfo;
+  versions?: EmailTemplateVersion[];
+  onRestore?: (version: EmailTemplateVersion) => void;
+  // Header blocks can upload a banner when given
+  onUploadBanner?: (file: File) => Promise<string | undefined>;
 }
 
-const defaultTemplate: EmailTemplate = {
-  subject: "Your Event QR Code - {attendeeName}",
-  greeting: "Hello {attendeeName}!",
-  mainMessage: "Here's your QR code for the event. Please save this image and present it at check-in.",
-  qrInstructions: "Your unique QR code:",
-  closingMessage: "We look forward to seeing you at the event!",
-  senderName: "",
-  headerTitle: "Your Event QR Code"
+const SAMPLE_ATTENDEE = { name: 'John Doe', company: 'Acme Inc.', qrCode: 'SAMPLE' };
+const SAMPLE_WALLET_LINKS = { apple: '#', google: '#' };
+
+const BLOCK_LABELS: Record<EmailBlockType, string> = {
+  header: 'Header Image',
+  text: 'Text',
+  qr: 'QR Code',
+  button: 'Button',
+  footer: 'Footer',
 };
 
+const THEME_FIELDS: { key: keyof EmailTheme; label: string }[] = [
+  { key: 'primaryColor', label: 'Primary Colour' },
+  { key: 'textColor', label: 'Text Colour' },
+  { key: 'backgroundColor', label: 'Background Colour' },
+];
+
 export const EmailTemplateEditor: React.FC<EmailTemplateEditorProps> = ({
   template,
   onTemplateChange,
-  onSave
+  onSave,
+  isSaving = false,
+  event,
+  versions = [],
+  onRestore,
+  onUploadBanner
 }) => {
   const [previewMode, setPreviewMode] = useState(false);
+  const [qrPreviewUrl, setQrPreviewUrl] = useState('');
 
-  const handleFieldChange = (field: keyof EmailTemplate, value: string) => {
+  useEffect(() => {
+    QRCode.toDataURL(SAMPLE_ATTENDEE.qrCode, { width: 250, margin: 2 }).then(setQrPreviewUrl);
+  }, []);
+
+  const handleFieldChange = (field: 'subject' | 'headerTitle', value: string) => {
     onTemplateChange({
       ...template,
       [field]: value
     });
   };
 
-  const resetToDefault = () => {
-    onTemplateChange(defaultTemplate);
+  const handleThemeChange = (field: keyof EmailTheme, value: string) => {
+    onTemplateChange({
+      ...template,
+      theme: { ...template.theme, [field]: value }
+    });
   };
 
-  const generatePreviewHtml = () => {
-    return `
-      <div style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1); overflow: hidden;">
-        <div style="text-align: center; padding: 0; margin: 0;">
-          <img src="https://dth95m2xtyv8v.cloudfront.net/tesseract/assets/hyper-checkout/gffinviteheader.png" alt="Event Banner" style="width: 100%; max-width: 600px; height: auto; display: block; margin: 0; border-radius: 12px 12px 0 0;" />
-        </div>
-        
-        <div style="padding: 40px 30px;">
-          <h2 style="color: #0099FF; margin: 0 0 20px 0; font-size: 24px;">${template.greeting.replace('{attendeeName}', 'John Doe')}</h2>
-          
-          <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px 0;">
-            ${template.mainMessage.replace(/\n/g, '<br>')}
-          </p>
-          
-          <div style="text-align: center; margin: 30px 0; padding: 20px; background-color: #f8fafc; border-radius: 12px; border: 2px dashed #e5e7eb;">
-            <div style="width: 200px; height: 200px; background-color: #e5e7eb; border: 3px solid #262883; border-radius: 12px; margin: 0 auto; display: flex; align-items: center; justify-content: center; color: #6b7280;">
-              QR Code Preview
-            </div>
-          </div>
-          
-          <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 30px 0; text-align: center;">
-            <p style="color: #374151; margin: 0 0 10px 0; font-size: 16px;">${template.qrInstructions}</p>
-            <p style="background: #ffffff; padding: 12px 16px; border-radius: 6px; font-family: 'Courier New', monospace; font-size: 18px; font-weight: 600; color: #0099FF; margin: 0; border: 1px solid #e5e7eb; letter-spacing: 1px;">
-              SAMPLE-QR-CODE-123
-            </p>
-          </div>
-          
-          <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 30px 0 0 0;">
-            ${template.closingMessage.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>').replace(/\n/g, '<br>')}
-          </p>
-        </div>
-        
-        ${template.senderName ? `<div style="background-color: #f8fafc; padding: 30px; text-align: center; border-top: 1px solid #e5e7eb;">
-          <p style="color: #6b7280; font-size: 14px; margin: 0;">
-            Best regards,<br>
-            <strong style="color: #0099FF;">${template.senderName}</strong>
-          </p>
-        </div>` : ''}
-      </div>
-    `;
+  const setBlocks = (blocks: EmailBlock[]) => {
+    onTemplateChange({ ...template, blocks });
+  };
+
+  const addBlock = (type: EmailBlockType) => {
+    setBlocks([...template.blocks, createBlock(type, crypto.randomUUID())]);
+  };
+
+  const moveBlock = (index: number, offset: number) => {
+    const blocks = [...template.blocks];
+    [blocks[index], blocks[index + offset]] = [blocks[index + offset], blocks[index]];
+    setBlocks(blocks);
+  };
+
+  const resetToDefault = () => {
+    onTemplateChange(defaultEmailTemplate);
   };
 
+  const problems = findTemplateProblems(template);
+  const preview = renderQrEmail(template, placeholderValues(SAMPLE_ATTENDEE, event), qrPreviewUrl, SAMPLE_WALLET_LINKS);
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -115,79 +119,100 @@ export const EmailTemplateEditor: React.FC<EmailTemplateEditorProps> = ({
               <RotateCcw className="w-4 h-4 mr-2" />
               Reset
             </Button>
-            <Button size="sm" onClick={onSave}>
+            <Button size="sm" onClick={onSave} disabled={isSaving || problems.length > 0}>
               <Save className="w-4 h-4 mr-2" />
-              Save Template
+              {isSaving ? 'Saving...' : 'Save Template'}
             </Button>
           </div>
         </CardTitle>
         <CardDescription>
-          Customize your QR code email template. Use {'{attendeeName}'} to personalize messages.
+          Saved for the whole event, so every device sends the same email. Placeholders:{' '}
+          {PLACEHOLDERS.map(placeholder => (
+            <code key={placeholder} className="text-xs bg-muted px-1 py-0.5 rounded mr-1">{`{${placeholder}}`}</code>
+          ))}
         </CardDescription>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        {problems.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Fix these before saving:
+              <ul className="list-disc pl-5">
+                {problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
         {previewMode ? (
           <div className="border rounded-lg p-4 bg-gray-50">
-            <h3 className="text-lg font-medium mb-4">Email Preview</h3>
-            <div 
-              className="bg-white rounded-lg shadow-sm border overflow-hidden"
-              dangerouslySetInnerHTML={{ __html: generatePreviewHtml() }}
+            <h3 className="text-lg font-medium mb-1">Email Preview</h3>
+            <p className="text-sm text-muted-foreground mb-4">Subject: {preview.subject}</p>
+            <iframe
+              title="Email preview"
+              srcDoc={preview.html}
+              sandbox=""
+              className="w-full h-[640px] bg-white rounded-lg shadow-sm border"
             />
           </div>
         ) : (
           <Tabs defaultValue="content" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="content">Content</TabsTrigger>
+            <TabsList className={`grid w-full ${onRestore ? 'grid-cols-4' : 'grid-cols-3'}`}>
+              <TabsTrigger value="content">Blocks</TabsTrigger>
+              <TabsTrigger value="theme">Theme</TabsTrigger>
               <TabsTrigger value="settings">Settings</TabsTrigger>
+              {onRestore && <TabsTrigger value="history">History</TabsTrigger>}
             </TabsList>
             
-            <TabsContent value="content" className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="greeting">Greeting Message</Label>
-                <Input
-                  id="greeting"
-                  value={template.greeting}
-                  onChange={(e) => handleFieldChange('greeting', e.target.value)}
-                  placeholder="Hello {attendeeName}!"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="mainMessage">Main Message</Label>
-                <Textarea
-                  id="mainMessage"
-                  value={template.mainMessage}
-                  onChange={(e) => handleFieldChange('mainMessage', e.target.value)}
-                  placeholder="Enter your main message here..."
-                  rows={3}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="qrInstructions">QR Code Instructions</Label>
-                <Input
-                  id="qrInstructions"
-                  value={template.qrInstructions}
-                  onChange={(e) => handleFieldChange('qrInstructions', e.target.value)}
-                  placeholder="Your unique QR code:"
+            <TabsContent value="content" className="space-y-2">
+              {template.blocks.map((block, index) => (
+                <EmailBlockEditor
+                  key={block.id}
+                  block={block}
+                  label={BLOCK_LABELS[block.type]}
+                  onChange={(updated) => setBlocks(template.blocks.map(b => b.id === block.id ? updated : b))}
+                  onRemove={() => setBlocks(template.blocks.filter(b => b.id !== block.id))}
+                  onMoveUp={index > 0 ? () => moveBlock(index, -1) : undefined}
+                  onMoveDown={index < template.blocks.length - 1 ? () => moveBlock(index, 1) : undefined}
+                  onUploadBanner={onUploadBanner}
                 />
+              ))}
+              <div className="flex flex-wrap gap-2 pt-2">
+                {(Object.keys(BLOCK_LABELS) as EmailBlockType[]).map(type => (
+                  <Button key={type} variant="outline" size="sm" onClick={() => addBlock(type)}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    {BLOCK_LABELS[type]}
+                  </Button>
+                ))}
               </div>
+              <p className="text-sm text-muted-foreground">
+                Use **text** to make text bold (e.g., **Important:** will become <strong>Important:</strong>)
+              </p>
+            </TabsContent>
 
-              <div className="space-y-2">
-                <Label htmlFor="closingMessage">Closing Message</Label>
-                <Textarea
-                  id="closingMessage"
-                  value={template.closingMessage}
-                  onChange={(e) => handleFieldChange('closingMessage', e.target.value)}
-                  placeholder="We look forward to seeing you at the event!"
-                  rows={2}
-                />
-                <p className="text-sm text-muted-foreground">
-                  Use **text** to make text bold (e.g., **Important:** will become <strong>Important:</strong>)
-                </p>
-              </div>
+            <TabsContent value="theme" className="space-y-4">
+              {THEME_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={key}>{label}</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="color"
+                      aria-label={label}
+                      value={template.theme[key]}
+                      onChange={(e) => handleThemeChange(key, e.target.value)}
+                      className="w-14 p-1"
+                    />
+                    <Input
+                      id={key}
+                      value={template.theme[key]}
+                      onChange={(e) => handleThemeChange(key, e.target.value)}
+                      placeholder={defaultEmailTemplate.theme[key]}
+                    />
+                  </div>
+                </div>
+              ))}
             </TabsContent>
-            
+
             <TabsContent value="settings" className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="subject">Email Subject</Label>
@@ -195,7 +220,7 @@ export const EmailTemplateEditor: React.FC<EmailTemplateEditorProps> = ({
                   id="subject"
                   value={template.subject}
                   onChange={(e) => handleFieldChange('subject', e.target.value)}
-                  placeholder="Your Event QR Code - {attendeeName}"
+                  placeholder="Your Event QR Code - {name}"
                 />
               </div>
 
@@ -208,23 +233,38 @@ export const EmailTemplateEditor: React.FC<EmailTemplateEditorProps> = ({
                   placeholder="Your Event QR Code"
                 />
               </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="senderName">Sender Name</Label>
-                <Input
-                  id="senderName"
-                  value={template.senderName}
-                  onChange={(e) => handleFieldChange('senderName', e.target.value)}
-                  placeholder="Juspay"
-                />
-              </div>
             </TabsContent>
+
+            {onRestore && (
+              <TabsContent value="history" className="space-y-2">
+                {versions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    This event has no saved template yet. The default template is used until you save one.
+                  </p>
+                ) : (
+                  versions.map((version, index) => (
+                    <div key={version.id} className="flex items-center justify-between gap-2 border rounded-lg p-3">
+                      <div className="text-sm">
+                        <span className="font-medium">Version {version.version}</span>
+                        {index === 0 && <Badge variant="secondary" className="ml-2">In use</Badge>}
+                        <p className="text-muted-foreground">
+                          {format(version.createdAt, 'MMM d, yyyy HH:mm')}{version.createdBy ? ` by ${version.createdBy}` : ''}
+                        </p>
+                      </div>
+                      {index > 0 && (
+                        <Button size="sm" variant="outline" onClick={() => onRestore(version)}>
+                          <History className="w-4 h-4 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  ))
+                )}
+              </TabsContent>
+            )}
           </Tabs>
         )}
       </CardContent>
     </Card>
   );
 };
-
-export type { EmailTemplate };
-export { defaultTemplate };
\ No newline at end of file
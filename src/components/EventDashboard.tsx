@@ -1,9 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Users, UserCheck, QrCode, FileText, Plus, Scan, Activity, LogOut, User, Shield } from "lucide-react";
+import { Users, UserCheck, QrCode, FileText, Plus, Scan, Activity, LogOut, User, Shield, CalendarClock } from "lucide-react";
 import { AttendeeManager } from "./AttendeeManager";
 import { CheckInScanner } from "./CheckInScanner";
 import { ReportsView } from "./ReportsView";
@@ -11,10 +12,43 @@ import { QRGenerator } from "./QRGenerator";
 import { LogsView, LogEntry } from "./LogsView";
 import AdminPanel from "./AdminPanel";
 import SelfRegistrationQR from "./SelfRegistrationQR";
+import { EventSwitcher } from "./EventSwitcher";
+import { StationPresence } from "./StationPresence";
+import { SessionManager } from "./SessionManager";
+import { TicketTypeManager } from "./TicketTypeManager";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useAccessControl } from "@/hooks/useAccessControl";
+import { useEvents } from "@/hooks/useEvents";
 import { supabase } from "@/integrations/supabase/client";
+import { checkInByQrCode, checkOutByQrCode, checkInToSession, getGuestLabel, isNetworkError, formatDuration } from "@/lib/checkin";
+import { cacheEventData, getCachedEventData } from "@/lib/offlineCheckinStore";
+import { useOfflineCheckIns } from "@/hooks/useOfflineCheckIns";
+import { useRealtimeEvent } from "@/hooks/useRealtimeEvent";
+import { useSessions, toSessionCheckin } from "@/hooks/useSessions";
+import type { EventSession, NewSessionInput } from "@/hooks/useSessions";
+import { useTicketTypes } from "@/hooks/useTicketTypes";
+import { useEmailCampaigns } from "@/hooks/useEmailCampaigns";
+import { useWhatsAppMessages } from "@/hooks/useWhatsAppMessages";
+import { useSmsMessages } from "@/hooks/useSmsMessages";
+import { useReminderRules } from "@/hooks/useReminderRules";
+import { useFollowUps } from "@/hooks/useFollowUps";
+import type { FollowUpSegment } from "@/hooks/useFollowUps";
+import type { ReminderRule, ReminderRuleInput } from "@/hooks/useReminderRules";
+import { useEmailTemplate } from "@/hooks/useEmailTemplate";
+import type { EmailTemplate, FollowUpContent } from "@/lib/emailTemplate";
+import type { EmailAudience, EmailCampaign, EmailCampaignContent, EmailCampaignFilters } from "@/hooks/useEmailCampaigns";
+import type { NewAttendee, BulkAddResult } from "@/lib/attendeeImport";
+import { mergeAttendees } from "@/lib/duplicates";
+import { reissueQrCode, findRevokedQr } from "@/lib/qrRevocation";
+import type { RevokedQrOwner } from "@/lib/qrRevocation";
+import { sendQrEmail } from "@/lib/qrEmail";
+import { uploadEmailBanner } from "@/utils/uploadBanner";
+import type { TicketType, TicketTypeInput } from "@/hooks/useTicketTypes";
+import { writeActivityLog, flushPendingLogs, fetchAllActivityLogs, deleteEventLogs } from "@/lib/activityLog";
+import type { LogFilters } from "@/lib/activityLog";
+import type { CheckInResult, SessionCheckInResult } from "@/lib/checkin";
+import type { Tables } from "@/integrations/supabase/types";
 
 export interface Attendee {
   id: string;
@@ -25,12 +59,41 @@ export interface Attendee {
   checkedIn: boolean;
   checkedInAt?: Date;
   qrCode?: string;
+  // Signed QR payload (ZC1.…) encoded in QR images; qrCode remains for manual entry
+  qrToken?: string;
   registrationType?: 'pre_registered' | 'walk_in';
+  // Plus guests allowed after the attendee themselves; null/undefined means unlimited
+  allowedGuests?: number | null;
+  // Ticket tier controlling which sessions the attendee may enter; none means unrestricted
+  ticketTypeId?: string | null;
   // Plus one guest properties (used for UI display)
   guestType?: string;
   checkinNumber?: number;
 }
 
+// Profile fields an admin can edit after registration
+export type AttendeeUpdate = Pick<Attendee, 'name' | 'email' | 'phone' | 'company' | 'registrationType' | 'ticketTypeId'>;
+
+// A revoked code scanned again shortly after only triggers one automatic resend
+const QR_RESEND_COOLDOWN_MS = 10 * 60 * 1000;
+
+const toAttendee = (attendee: Tables<'attendees'>): Attendee => ({
+  id: attendee.id,
+  name: attendee.name,
+  email: attendee.email,
+  phone: attendee.phone || '',
+  company: attendee.company || '',
+  checkedIn: attendee.checked_in,
+  checkedInAt: attendee.checked_in_at ? new Date(attendee.checked_in_at) : undefined,
+  qrCode: attendee.qr_code || undefined,
+  qrToken: attendee.qr_token || undefined,
+  registrationType: attendee.registration_type as 'pre_registered' | 'walk_in' || 'pre_registered',
+  allowedGuests: attendee.allowed_guests,
+  ticketTypeId: attendee.ticket_type_id
+});
+
+const BULK_INSERT_BATCH_SIZE = 200;
+
 const EventDashboard = () => {
   const [attendees, setAttendees] = useState<Attendee[]>([]);
   const [activeTab, setActiveTab] = useState("overview");
@@ -40,21 +103,24 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
   return localStorage.getItem('defaultMessage') || "Here's your QR code for the event. Please save this image and present it at check-in.";
 });
   const [emailSubject, setEmailSubject] = useState(() => {
-    return localStorage.getItem('emailSubject') || "Your Event QR Code - {attendeeName}";
+    return localStorage.getItem('emailSubject') || "Your Event QR Code - {name}";
   });
-  const [logs, setLogs] = useState<LogEntry[]>([
-    {
-      id: "1",
-      timestamp: new Date(),
-      type: 'system',
-      action: 'System initialized',
-      details: 'Event dashboard started',
-      status: 'success'
-    }
-  ]);
+  const [logsRefreshKey, setLogsRefreshKey] = useState(0);
+  // When each attendee last had their current code resent from the scanner
+  const qrResentAtRef = useRef<Map<string, number>>(new Map());
   const { toast } = useToast();
   const { user, signOut } = useAuth();
   const { isAdmin } = useAccessControl();
+  const { events, selectedEvent, loading: eventsLoading, selectEvent, createEvent, updateEvent, setAcceptLegacyQr } = useEvents();
+  const eventId = selectedEvent?.id;
+  const { sessions, sessionCheckins, createSession, deleteSession, applySessionCheckin, removeSessionCheckin, reload: reloadSessions } = useSessions(eventId);
+  const { ticketTypes, createTicketType, updateTicketType, deleteTicketType } = useTicketTypes(eventId);
+  const { template: emailTemplate, versions: emailTemplateVersions, saveTemplate } = useEmailTemplate(eventId);
+  const { campaigns: emailCampaigns, emailStatuses, deliveryStatuses, queueCampaign, cancelCampaign } = useEmailCampaigns(eventId);
+  const { whatsAppStatuses, sendWhatsApp } = useWhatsAppMessages(eventId);
+  const { smsStatuses, sendSms } = useSmsMessages(eventId);
+  const { followUps, queueFollowUp } = useFollowUps(eventId);
+  const { rules: reminderRules, createRule: createReminderRule, updateRule: updateReminderRule, deleteRule: deleteReminderRule } = useReminderRules(eventId);
 
   const handleSignOut = async () => {
     try {
@@ -72,16 +138,42 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
     }
   };
 
-  // Load attendees from database
+  // Fall back to the last copy cached on this device when the network is unavailable
+  const loadCachedAttendees = async () => {
+    if (!eventId) return false;
+    try {
+      const cached = await getCachedEventData(eventId);
+      if (!cached) return false;
+      setAttendees(cached.attendees);
+      setCheckinInstances(cached.checkinInstances);
+      return true;
+    } catch (error) {
+      console.error('Error loading cached attendees:', error);
+      return false;
+    }
+  };
+
+  // Load attendees for the selected event from database
   const loadAttendees = async () => {
+    if (!eventId) {
+      setAttendees([]);
+      setCheckinInstances([]);
+      setIsLoading(eventsLoading);
+      return;
+    }
+
     try {
       const { data, error } = await supabase
         .from('attendees')
         .select('*')
+        .eq('event_id', eventId)
         .order('created_at', { ascending: true });
 
       if (error) {
         console.error('Error loading attendees:', error);
+        if (isNetworkError(error) && await loadCachedAttendees()) {
+          return;
+        }
         toast({
           title: "Error",
           description: "Failed to load attendees",
@@ -90,17 +182,7 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
         return;
       }
 
-      const formattedAttendees: Attendee[] = data.map(attendee => ({
-        id: attendee.id,
-        name: attendee.name,
-        email: attendee.email,
-        phone: attendee.phone || '',
-        company: attendee.company || '',
-        checkedIn: attendee.checked_in,
-        checkedInAt: attendee.checked_in_at ? new Date(attendee.checked_in_at) : undefined,
-        qrCode: attendee.qr_code || undefined,
-        registrationType: attendee.registration_type as 'pre_registered' | 'walk_in' || 'pre_registered'
-      }));
+      const formattedAttendees: Attendee[] = data.map(toAttendee);
 
       setAttendees(formattedAttendees);
       
@@ -108,13 +190,21 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
       const { data: instances, error: instancesError } = await supabase
         .from('checkin_instances')
         .select('*')
+        .eq('event_id', eventId)
         .order('checked_in_at', { ascending: false });
         
       if (!instancesError) {
         setCheckinInstances(instances || []);
+        // Keep an offline copy so the scanner can keep validating codes without Wi-Fi
+        cacheEventData(eventId, formattedAttendees, instances || []).catch(cacheError => {
+          console.error('Error caching attendees for offline use:', cacheError);
+        });
       }
     } catch (error) {
       console.error('Error loading attendees:', error);
+      if (isNetworkError(error) && await loadCachedAttendees()) {
+        return;
+      }
       toast({
         title: "Error", 
         description: "Failed to load attendees",
@@ -126,18 +216,72 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
   };
 
   useEffect(() => {
+    setIsLoading(true);
     loadAttendees();
-  }, []);
+  }, [eventId, eventsLoading]);
 
   const addLog = (log: Omit<LogEntry, 'id' | 'timestamp'>) => {
-    const newLog: LogEntry = {
-      ...log,
-      id: Date.now().toString(),
-      timestamp: new Date()
-    };
-    setLogs(prevLogs => [newLog, ...prevLogs]);
+    writeActivityLog(eventId ?? null, log).then(() => setLogsRefreshKey(key => key + 1));
   };
 
+  // Send logs written while offline once the connection is back
+  useEffect(() => {
+    const handleOnline = async () => {
+      const flushed = await flushPendingLogs();
+      if (flushed > 0) {
+        setLogsRefreshKey(key => key + 1);
+      }
+    };
+
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  const { isOnline, pendingCount, failedCount, isSyncing, queueCheckIn, syncPending } = useOfflineCheckIns({
+    eventId,
+    onLog: addLog,
+    onSynced: () => loadAttendees()
+  });
+
+  // Apply changes made on other devices as they happen
+  const { stationId, stationName, setStationName, stations, isConnected } = useRealtimeEvent({
+    eventId,
+    userEmail: user?.email,
+    scanning: activeTab === 'checkin',
+    onAttendeeChange: payload => {
+      if (payload.eventType === 'DELETE') {
+        setAttendees(prev => prev.filter(a => a.id !== payload.old.id));
+        return;
+      }
+      const changed = toAttendee(payload.new);
+      setAttendees(prev => prev.some(a => a.id === changed.id)
+        ? prev.map(a => a.id === changed.id ? changed : a)
+        : [...prev, changed]);
+    },
+    onCheckinInstanceChange: payload => {
+      if (payload.eventType === 'DELETE') {
+        setCheckinInstances(prev => prev.filter(i => i.id !== payload.old.id));
+        return;
+      }
+      const changed = payload.new;
+      setCheckinInstances(prev => prev.some(i => i.id === changed.id)
+        ? prev.map(i => i.id === changed.id ? changed : i)
+        : [changed, ...prev]);
+    },
+    onSessionCheckinChange: payload => {
+      if (payload.eventType === 'DELETE') {
+        removeSessionCheckin(payload.old.id);
+        return;
+      }
+      applySessionCheckin(toSessionCheckin(payload.new));
+    },
+    onResync: () => {
+      loadAttendees();
+      reloadSessions();
+    }
+  });
+
   const stats = {
     total: attendees.length,
     checkedIn: attendees.filter(a => a.checkedIn).length,
@@ -148,12 +292,13 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
     originalGuests: checkinInstances.filter(i => i.guest_type === 'original').length
   };
 
-  // Generate 4-digit alphanumeric code
+  // Generate 8-character alphanumeric code for manual entry (the QR image carries the signed token)
   const generateQRCode = () => {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    const randomValues = crypto.getRandomValues(new Uint32Array(8));
     let result = '';
-    for (let i = 0; i < 4; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+    for (let i = 0; i < 8; i++) {
+      result += chars.charAt(randomValues[i] % chars.length);
     }
     return result;
   };
@@ -170,7 +315,10 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
           phone: attendee.phone,
           company: attendee.company,
           qr_code: qrCode,
-          registration_type: 'pre_registered'
+          registration_type: 'pre_registered',
+          allowed_guests: attendee.allowedGuests ?? null,
+          ticket_type_id: attendee.ticketTypeId ?? null,
+          event_id: eventId
         })
         .select()
         .single();
@@ -182,306 +330,1089 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
           description: "Failed to add attendee",
           variant: "destructive"
         });
-        return;
+        return;
+      }
+
+      // Reload attendees to get the latest data
+      await loadAttendees();
+      
+      // Log the registration
+      addLog({
+        type: 'registration',
+        action: 'New attendee registered',
+        user: attendee.name,
+        email: attendee.email,
+        details: `QR Code: ${qrCode}`,
+        status: 'success'
+      });
+
+      toast({
+        title: "Success",
+        description: `${attendee.name} has been registered`,
+      });
+    } catch (error) {
+      console.error('Error adding attendee:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add attendee",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Inserts in batches; a refused batch is retried row by row so one bad row does not sink the import
+  const addBulkAttendees = async (newAttendees: NewAttendee[]): Promise<BulkAddResult> => {
+    const result: BulkAddResult = { insertedCount: 0, failed: [] };
+    const toRow = (attendee: NewAttendee) => ({
+      name: attendee.name,
+      email: attendee.email,
+      phone: attendee.phone,
+      company: attendee.company,
+      qr_code: generateQRCode(),
+      registration_type: 'pre_registered',
+      allowed_guests: attendee.allowedGuests ?? null,
+      ticket_type_id: attendee.ticketTypeId ?? null,
+      event_id: eventId
+    });
+
+    for (let start = 0; start < newAttendees.length; start += BULK_INSERT_BATCH_SIZE) {
+      const batch = newAttendees.slice(start, start + BULK_INSERT_BATCH_SIZE);
+      const { error } = await supabase
+        .from('attendees')
+        .insert(batch.map(toRow));
+
+      if (!error) {
+        result.insertedCount += batch.length;
+        continue;
+      }
+
+      if (isNetworkError(error)) {
+        console.error('Error adding bulk attendees:', error);
+        newAttendees.slice(start).forEach((_, i) => {
+          result.failed.push({ index: start + i, reason: 'Connection lost before this row was saved' });
+        });
+        break;
+      }
+
+      console.error('Error adding bulk attendees, retrying rows individually:', error);
+      for (let i = 0; i < batch.length; i++) {
+        const { error: rowError } = await supabase
+          .from('attendees')
+          .insert(toRow(batch[i]));
+
+        if (rowError) {
+          result.failed.push({ index: start + i, reason: rowError.message || 'Rejected by the database' });
+        } else {
+          result.insertedCount++;
+        }
+      }
+    }
+
+    if (result.insertedCount > 0) {
+      // Reload attendees to get the latest data
+      await loadAttendees();
+
+      // Log the bulk registration
+      addLog({
+        type: 'registration',
+        action: 'Bulk attendees registered',
+        details: `${result.insertedCount} attendees added via import${result.failed.length > 0 ? `, ${result.failed.length} refused by the database` : ''}`,
+        status: 'success'
+      });
+    }
+
+    if (result.failed.length > 0) {
+      toast({
+        title: result.insertedCount > 0 ? "Partially Imported" : "Error",
+        description: `${result.failed.length} of ${newAttendees.length} attendees could not be saved`,
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Success",
+        description: `${result.insertedCount} attendees have been registered`,
+      });
+    }
+
+    return result;
+  };
+
+  const deleteBulkAttendees = async (attendeeIds: string[]) => {
+    try {
+      const { error } = await supabase
+        .from('attendees')
+        .delete()
+        .in('id', attendeeIds);
+
+      if (error) {
+        console.error('Error deleting attendees:', error);
+        toast({
+          title: "Error",
+          description: "Failed to delete attendees",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // Reload attendees to get the latest data
+      await loadAttendees();
+      
+      // Log the bulk deletion
+      addLog({
+        type: 'system',
+        action: 'Bulk attendees deleted',
+        details: `${attendeeIds.length} attendees removed`,
+        status: 'success'
+      });
+
+      toast({
+        title: "Success",
+        description: `${attendeeIds.length} attendees have been deleted`,
+      });
+    } catch (error) {
+      console.error('Error deleting attendees:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete attendees",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const mergeDuplicateAttendees = async (survivor: Attendee, duplicates: Attendee[]) => {
+    try {
+      const result = await mergeAttendees(survivor.id, duplicates.map(d => d.id));
+
+      if (result.status === 'merged') {
+        await loadAttendees();
+      }
+
+      addLog({
+        type: 'system',
+        action: result.status === 'merged' ? 'Duplicate attendees merged' : 'Duplicate merge failed',
+        user: survivor.name,
+        email: survivor.email,
+        details: result.status === 'merged'
+          ? `Kept QR Code: ${result.survivorQrCode} - merged ${duplicates.map(d => `${d.name} <${d.email}> (${d.qrCode})`).join(', ')}; ${result.movedCheckins} check-ins moved`
+          : `Merge of ${duplicates.length} records rejected: ${result.status}`,
+        status: result.status === 'merged' ? 'success' : 'error'
+      });
+
+      return result;
+    } catch (error) {
+      console.error('Error merging attendees:', error);
+      toast({
+        title: "Error",
+        description: "Failed to merge attendees",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const addWalkInAttendee = async (attendee: { name: string; email?: string; phone?: string; company?: string }) => {
+    const qrCode = generateQRCode();
+    
+    try {
+      const { data, error } = await supabase
+        .from('attendees')
+        .insert({
+          name: attendee.name,
+          email: attendee.email || '',
+          phone: attendee.phone || '',
+          company: attendee.company || '',
+          qr_code: qrCode,
+          registration_type: 'walk_in',
+          checked_in: true,
+          checked_in_at: new Date().toISOString(),
+          event_id: eventId
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding walk-in attendee:', error);
+        toast({
+          title: "Error",
+          description: "Failed to add walk-in attendee",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // Reload attendees to get the latest data
+      await loadAttendees();
+      
+      // Log the walk-in registration
+      addLog({
+        type: 'registration',
+        action: 'Walk-in attendee registered',
+        user: attendee.name,
+        email: attendee.email || '',
+        details: `QR Code: ${qrCode} - Instantly checked in`,
+        status: 'success'
+      });
+
+      toast({
+        title: "Walk-in Success",
+        description: `${attendee.name} has been registered and checked in`,
+      });
+
+      return data;
+    } catch (error) {
+      console.error('Error adding walk-in attendee:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add walk-in attendee",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateAllowedGuests = async (attendeeId: string, allowedGuests: number | null) => {
+    const attendee = attendees.find(a => a.id === attendeeId);
+
+    try {
+      const { error } = await supabase
+        .from('attendees')
+        .update({ allowed_guests: allowedGuests })
+        .eq('id', attendeeId);
+
+      if (error) {
+        console.error('Error updating guest allowance:', error);
+        toast({
+          title: "Error",
+          description: "Failed to update guest allowance",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      await loadAttendees();
+
+      addLog({
+        type: 'system',
+        action: 'Guest allowance updated',
+        user: attendee?.name,
+        email: attendee?.email,
+        details: allowedGuests === null ? 'Unlimited plus guests' : `${allowedGuests} plus guests allowed`,
+        status: 'success'
+      });
+    } catch (error) {
+      console.error('Error updating guest allowance:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update guest allowance",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateAttendee = async (attendeeId: string, changes: AttendeeUpdate) => {
+    const attendee = attendees.find(a => a.id === attendeeId);
+
+    try {
+      const { data, error } = await supabase
+        .from('attendees')
+        .update({
+          name: changes.name,
+          email: changes.email,
+          phone: changes.phone,
+          company: changes.company,
+          registration_type: changes.registrationType,
+          ticket_type_id: changes.ticketTypeId ?? null
+        })
+        .eq('id', attendeeId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating attendee:', error);
+        toast({
+          title: "Error",
+          description: "Failed to update attendee",
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      setAttendees(prev => prev.map(a => a.id === attendeeId ? toAttendee(data) : a));
+
+      const changedFields = (Object.keys(changes) as (keyof AttendeeUpdate)[])
+        .filter(field => (attendee?.[field] ?? null) !== (changes[field] ?? null));
+
+      addLog({
+        type: 'system',
+        action: 'Attendee updated',
+        user: changes.name,
+        email: changes.email,
+        details: changedFields.length > 0 ? `Changed: ${changedFields.join(', ')}` : 'No changes',
+        status: 'success'
+      });
+
+      toast({
+        title: "Attendee Updated",
+        description: `${changes.name} has been saved`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error updating attendee:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update attendee",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  // Email an attendee their current code and log the send like a manual one
+  const emailQrCode = async (attendee: Pick<Attendee, 'id' | 'name' | 'email' | 'qrCode' | 'qrToken'>, context: string) => {
+    try {
+      await sendQrEmail(attendee, { defaultMessage, subject: emailSubject || undefined });
+      addLog({
+        type: 'email_sent',
+        action: 'QR code email sent successfully',
+        user: attendee.name,
+        email: attendee.email,
+        details: `QR Code: ${attendee.qrCode} - ${context}`,
+        status: 'success'
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to send QR code:', error);
+      addLog({
+        type: 'email_sent',
+        action: 'QR code email sending failed',
+        user: attendee.name,
+        email: attendee.email,
+        details: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        status: 'error'
+      });
+      return false;
+    }
+  };
+
+  const reissueAttendeeQr = async (attendee: Attendee, reason: string, sendEmail: boolean) => {
+    try {
+      const result = await reissueQrCode(attendee.id, reason);
+
+      if (result.status !== 'reissued') {
+        toast({
+          title: "Error",
+          description: `${attendee.name} no longer exists`,
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      await loadAttendees();
+
+      addLog({
+        type: 'system',
+        action: 'QR code revoked and reissued',
+        user: attendee.name,
+        email: attendee.email,
+        details: `Revoked QR Code: ${attendee.qrCode}, new QR Code: ${result.qrCode}${reason ? ` - ${reason}` : ''}`,
+        status: 'success'
+      });
+
+      const emailed = sendEmail && await emailQrCode(
+        { id: attendee.id, name: attendee.name, email: attendee.email, qrCode: result.qrCode, qrToken: result.qrToken },
+        'reissued'
+      );
+
+      toast({
+        title: "QR Code Reissued",
+        description: emailed
+          ? `New code ${result.qrCode} sent to ${attendee.email}`
+          : `${attendee.name}'s new code is ${result.qrCode}${sendEmail ? '. The email could not be sent.' : ''}`,
+        variant: sendEmail && !emailed ? "destructive" : "default"
+      });
+      return true;
+    } catch (error) {
+      console.error('Error reissuing QR code:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reissue QR code",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const saveEmailTemplate = async (template: EmailTemplate) => {
+    try {
+      const version = await saveTemplate(template);
+      addLog({
+        type: 'system',
+        action: 'Email template saved',
+        details: `Version ${version}`,
+        status: 'success'
+      });
+      toast({
+        title: "Template Saved!",
+        description: `Version ${version} is now used for every email sent for this event.`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error saving email template:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the email template",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const uploadTemplateBanner = async (file: File) => {
+    if (!eventId) return undefined;
+
+    try {
+      const url = await uploadEmailBanner(eventId, file);
+      addLog({
+        type: 'system',
+        action: 'Email banner uploaded',
+        details: file.name,
+        status: 'success'
+      });
+      return url;
+    } catch (error) {
+      console.error('Error uploading email banner:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload the banner",
+        variant: "destructive"
+      });
+      return undefined;
+    }
+  };
+
+  const queueEmailCampaign = async (audience: EmailAudience, filters: EmailCampaignFilters, content: EmailCampaignContent) => {
+    try {
+      const queuedCount = await queueCampaign(audience, filters, content);
+
+      if (queuedCount === 0) {
+        toast({
+          title: "Nothing to Send",
+          description: "No attendees with an email address match, or their emails are already queued",
+        });
+        return false;
+      }
+
+      addLog({
+        type: 'system',
+        action: 'Bulk email queued',
+        details: `${queuedCount} emails queued (${audience.replace(/_/g, ' ')})`,
+        status: 'success'
+      });
+      toast({
+        title: "Emails Queued",
+        description: `${queuedCount} emails will be sent in the background`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error queueing email campaign:', error);
+      toast({
+        title: "Error",
+        description: "Failed to queue emails",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const cancelEmailCampaign = async (campaign: EmailCampaign) => {
+    if (!window.confirm('Cancel this campaign? Emails that have not been sent yet will be dropped.')) return;
+
+    try {
+      const cancelledCount = await cancelCampaign(campaign.id);
+      addLog({
+        type: 'system',
+        action: 'Bulk email cancelled',
+        details: `${cancelledCount} unsent emails cancelled (${campaign.sentCount} already sent)`,
+        status: 'success'
+      });
+    } catch (error) {
+      console.error('Error cancelling email campaign:', error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel the campaign",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const sendFollowUp = async (segment: FollowUpSegment, content: FollowUpContent) => {
+    try {
+      const queuedCount = await queueFollowUp(segment, content, emailTemplate);
+
+      if (queuedCount === 0) {
+        toast({
+          title: "Nothing to Send",
+          description: "No attendees with an email address match, or their emails are already queued",
+        });
+        return false;
+      }
+
+      addLog({
+        type: 'system',
+        action: 'Follow-up email queued',
+        details: `${queuedCount} emails queued (${segment.attendance ? segment.attendance.replace(/_/g, ' ') : 'all attendees'}) - ${content.subject}`,
+        status: 'success'
+      });
+      toast({
+        title: "Follow-up Queued",
+        description: `${queuedCount} emails will be sent in the background`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error queueing follow-up email:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to queue the follow-up",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  // send-whatsapp logs each message itself, so only the log view is refreshed
+  const sendWhatsAppMessages = async (attendeeIds: string[]) => {
+    try {
+      const result = await sendWhatsApp(attendeeIds);
+      setLogsRefreshKey(key => key + 1);
+
+      if (result.sent + result.failed === 0) {
+        toast({
+          title: "Nothing to Send",
+          description: "None of the selected attendees have a phone number",
+        });
+        return false;
+      }
+
+      const skipped = result.skipped > 0 ? `, ${result.skipped} without a phone number` : '';
+      toast({
+        title: result.failed > 0 ? "Some WhatsApp Messages Failed" : "WhatsApp Messages Sent",
+        description: `${result.sent} sent, ${result.failed} failed${skipped}`,
+        variant: result.failed > 0 && result.sent === 0 ? "destructive" : "default",
+      });
+      return result.failed === 0;
+    } catch (error) {
+      console.error('Error sending WhatsApp messages:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send WhatsApp messages",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  // send-sms logs each message itself, so only the log view is refreshed
+  const sendSmsMessages = async (attendeeIds: string[]) => {
+    try {
+      const result = await sendSms(attendeeIds);
+      setLogsRefreshKey(key => key + 1);
+
+      if (result.sent + result.failed === 0) {
+        toast({
+          title: "Nothing to Send",
+          description: "None of the selected attendees have a phone number",
+        });
+        return false;
+      }
+
+      const skipped = result.skipped > 0 ? `, ${result.skipped} without a phone number` : '';
+      toast({
+        title: result.failed > 0 ? "Some SMS Messages Failed" : "SMS Messages Sent",
+        description: `${result.sent} sent, ${result.failed} failed${skipped}`,
+        variant: result.failed > 0 && result.sent === 0 ? "destructive" : "default",
+      });
+      return result.failed === 0;
+    } catch (error) {
+      console.error('Error sending SMS messages:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send SMS messages",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  // Fill in who a revoked code belonged to, for the scanner message and the log
+  const withRevokedQrOwner = async <T extends CheckInResult | SessionCheckInResult>(qrCode: string, result: T, action: string): Promise<T> => {
+    let owner: RevokedQrOwner | undefined;
+    try {
+      owner = eventId ? await findRevokedQr(qrCode, eventId) : undefined;
+    } catch (error) {
+      console.error('Error looking up revoked QR code:', error);
+    }
+
+    addLog({
+      type: 'checkin',
+      action,
+      user: owner?.attendeeName,
+      email: owner?.attendeeEmail,
+      details: `Revoked QR Code: ${qrCode}${owner ? ` - revoked ${owner.revokedAt.toLocaleString()}${owner.reason ? ` (${owner.reason})` : ''}` : ''}`,
+      status: 'error'
+    });
+
+    return owner ? {
+      ...result,
+      attendeeId: owner.attendeeId,
+      attendeeName: owner.attendeeName,
+      attendeeEmail: owner.attendeeEmail,
+      revokedAt: owner.revokedAt,
+    } : result;
+  };
+
+  // Scanner auto-resend after a revoked code is presented; repeated scans within the cooldown are skipped
+  const resendCurrentQr = async (attendeeId: string) => {
+    const lastSentAt = qrResentAtRef.current.get(attendeeId);
+    if (lastSentAt && Date.now() - lastSentAt < QR_RESEND_COOLDOWN_MS) return true;
+
+    // Read the row fresh: the scanner may hold a list from before the reissue
+    const { data, error } = await supabase
+      .from('attendees')
+      .select('*')
+      .eq('id', attendeeId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data?.email) return false;
+
+    qrResentAtRef.current.set(attendeeId, Date.now());
+    const sent = await emailQrCode(toAttendee(data), 'resent after a revoked code was scanned');
+    if (!sent) {
+      qrResentAtRef.current.delete(attendeeId);
+    }
+    return sent;
+  };
+
+  const checkInAttendee = async (qrCode: string, options: { overrideLimit?: boolean } = {}): Promise<CheckInResult | undefined> => {
+    if (!eventId) return;
+
+    // No connection: validate against the local cache and queue for later sync
+    const queueOffline = async () => {
+      const result = await queueCheckIn(qrCode, attendees, checkinInstances);
+      addLog({
+        type: 'checkin',
+        action: result.status === 'queued' ? 'Check-in queued offline' :
+                result.status === 'guest_limit_reached' ? 'Guest limit reached' :
+                result.status === 'forged_qr' ? 'Forged QR code rejected' : 'Check-in attempt failed',
+        user: result.attendeeName,
+        email: result.attendeeEmail,
+        details: result.status === 'queued'
+          ? `QR Code: ${qrCode} - Provisional check-in #${result.checkinNumber}`
+          : result.status === 'guest_limit_reached'
+            ? `QR Code: ${qrCode} - ${result.allowedGuests} plus guests allowed (offline)`
+            : `Invalid QR Code: ${qrCode} (offline)`,
+        status: result.status === 'queued' ? 'pending' : 'error'
+      });
+      return result;
+    };
+
+    // Overrides need the server to verify the admin role, so they are never queued
+    if (!navigator.onLine && !options.overrideLimit) {
+      return queueOffline();
+    }
+
+    try {
+      // Number assignment and the attendee update happen atomically in the database
+      const result = await checkInByQrCode(qrCode, eventId, { overrideLimit: options.overrideLimit });
+
+      if (result.status === 'invalid_qr') {
+        // Log failed check-in attempt
+        addLog({
+          type: 'checkin',
+          action: 'Check-in attempt failed',
+          details: `Invalid QR Code: ${qrCode}`,
+          status: 'error'
+        });
+        return result;
+      }
+
+      if (result.status === 'forged_qr') {
+        addLog({
+          type: 'checkin',
+          action: 'Forged QR code rejected',
+          details: `Signature check failed for scanned code: ${qrCode}`,
+          status: 'error'
+        });
+        return result;
+      }
+
+      if (result.status === 'revoked_qr') {
+        return withRevokedQrOwner(qrCode, result, 'Revoked QR code rejected');
+      }
+
+      if (result.status === 'legacy_qr_disabled') {
+        addLog({
+          type: 'checkin',
+          action: 'Legacy QR code rejected',
+          details: `Short code ${qrCode} scanned after legacy codes were disabled`,
+          status: 'error'
+        });
+        return result;
+      }
+
+      if (result.status === 'guest_limit_reached') {
+        addLog({
+          type: 'checkin',
+          action: 'Guest limit reached',
+          user: result.attendeeName,
+          email: result.attendeeEmail,
+          details: `QR Code: ${qrCode} - ${result.allowedGuests} plus guests allowed, ${result.checkinNumber} check-ins recorded`,
+          status: 'error'
+        });
+        return result;
       }
 
       // Reload attendees to get the latest data
       await loadAttendees();
-      
-      // Log the registration
+
+      if (result.status === 're_entered') {
+        const returningLabel = getGuestLabel(result.checkinNumber);
+        addLog({
+          type: 'checkin',
+          action: `${returningLabel} re-entered`,
+          user: result.attendeeName,
+          email: result.attendeeEmail,
+          details: `QR Code: ${qrCode} - Re-entry of check-in #${result.checkinNumber}`,
+          status: 'success'
+        });
+        toast({
+          title: "Welcome Back",
+          description: `${returningLabel} for ${result.attendeeName} has re-entered`,
+        });
+        return result;
+      }
+
+      if (options.overrideLimit && result.allowedGuests !== undefined && result.checkinNumber > result.allowedGuests + 1) {
+        addLog({
+          type: 'checkin',
+          action: 'Guest limit overridden by admin',
+          user: result.attendeeName,
+          email: result.attendeeEmail,
+          details: `QR Code: ${qrCode} - Check-in #${result.checkinNumber} admitted by ${user?.email} (allowance: ${result.allowedGuests})`,
+          status: 'success'
+        });
+      }
+
+      // Create appropriate log entry and toast message
+      const isOriginal = result.checkinNumber === 1;
+      const guestLabel = getGuestLabel(result.checkinNumber);
+
       addLog({
-        type: 'registration',
-        action: 'New attendee registered',
-        user: attendee.name,
-        email: attendee.email,
-        details: `QR Code: ${qrCode}`,
+        type: 'checkin',
+        action: `${guestLabel} checked in`,
+        user: result.attendeeName,
+        email: result.attendeeEmail,
+        details: `QR Code: ${qrCode} - Check-in #${result.checkinNumber}`,
         status: 'success'
       });
 
+      const toastTitle = isOriginal ? "Check-In Successful" : `${guestLabel} Check-In`;
+      const toastDescription = isOriginal 
+        ? `${result.attendeeName} has been checked in`
+        : `${guestLabel} for ${result.attendeeName} has been checked in`;
+
       toast({
-        title: "Success",
-        description: `${attendee.name} has been registered`,
+        title: toastTitle,
+        description: toastDescription,
       });
+
+      return result;
     } catch (error) {
-      console.error('Error adding attendee:', error);
+      if (isNetworkError(error) && !options.overrideLimit) {
+        return queueOffline();
+      }
+      console.error('Error checking in attendee:', error);
       toast({
         title: "Error",
-        description: "Failed to add attendee",
+        description: "Failed to check in attendee",
         variant: "destructive"
       });
     }
   };
 
-  const addBulkAttendees = async (newAttendees: Omit<Attendee, 'id' | 'checkedIn' | 'qrCode'>[]) => {
+  const checkOutAttendee = async (qrCode: string): Promise<CheckInResult | undefined> => {
+    if (!eventId) return;
+
+    // Exits are not queued offline: a stale on-site list would give a wrong headcount
+    if (!navigator.onLine) {
+      toast({
+        title: "Offline",
+        description: "Check-out needs a connection. Please try again once back online.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     try {
-      const attendeesToInsert = newAttendees.map((attendee) => ({
-        name: attendee.name,
-        email: attendee.email,
-        phone: attendee.phone,
-        company: attendee.company,
-        qr_code: generateQRCode(),
-        registration_type: 'pre_registered'
-      }));
+      const result = await checkOutByQrCode(qrCode, eventId);
 
-      const { data, error } = await supabase
-        .from('attendees')
-        .insert(attendeesToInsert)
-        .select();
+      if (result.status === 'revoked_qr') {
+        return withRevokedQrOwner(qrCode, result, 'Check-out with revoked QR code rejected');
+      }
 
-      if (error) {
-        console.error('Error adding bulk attendees:', error);
-        toast({
-          title: "Error",
-          description: "Failed to add attendees",
-          variant: "destructive"
+      if (result.status === 'invalid_qr' || result.status === 'forged_qr' || result.status === 'legacy_qr_disabled') {
+        addLog({
+          type: 'checkin',
+          action: 'Check-out attempt failed',
+          details: result.status === 'forged_qr'
+            ? `Signature check failed for scanned code: ${qrCode}`
+            : `Invalid QR Code: ${qrCode}`,
+          status: 'error'
         });
-        return;
+        return result;
+      }
+
+      if (result.status === 'not_on_site') {
+        addLog({
+          type: 'checkin',
+          action: 'Check-out rejected',
+          user: result.attendeeName,
+          email: result.attendeeEmail,
+          details: `QR Code: ${qrCode} - Nobody from this party is on site`,
+          status: 'error'
+        });
+        return result;
       }
 
-      // Reload attendees to get the latest data
       await loadAttendees();
-      
-      // Log the bulk registration
+
+      const guestLabel = getGuestLabel(result.checkinNumber);
       addLog({
-        type: 'registration',
-        action: 'Bulk attendees registered',
-        details: `${newAttendees.length} attendees added via CSV upload`,
+        type: 'checkin',
+        action: `${guestLabel} checked out`,
+        user: result.attendeeName,
+        email: result.attendeeEmail,
+        details: `QR Code: ${qrCode} - Check-in #${result.checkinNumber}, on site for ${formatDuration(result.dwellSeconds)}`,
         status: 'success'
       });
-
       toast({
-        title: "Success",
-        description: `${newAttendees.length} attendees have been registered`,
+        title: "Checked Out",
+        description: `${guestLabel} for ${result.attendeeName} has left the venue`,
       });
+
+      return result;
     } catch (error) {
-      console.error('Error adding bulk attendees:', error);
+      console.error('Error checking out attendee:', error);
       toast({
         title: "Error",
-        description: "Failed to add attendees",
+        description: "Failed to check out attendee",
         variant: "destructive"
       });
     }
   };
 
-  const deleteBulkAttendees = async (attendeeIds: string[]) => {
+  const checkInSessionAttendee = async (qrCode: string, sessionId: string): Promise<SessionCheckInResult | undefined> => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return;
+
     try {
-      const { error } = await supabase
-        .from('attendees')
-        .delete()
-        .in('id', attendeeIds);
+      const result = await checkInToSession(qrCode, sessionId);
 
-      if (error) {
-        console.error('Error deleting attendees:', error);
-        toast({
-          title: "Error",
-          description: "Failed to delete attendees",
-          variant: "destructive"
-        });
-        return;
+      if (result.status === 'revoked_qr') {
+        return withRevokedQrOwner(qrCode, result, `Revoked QR code rejected at session: ${session.name}`);
+      }
+
+      if (result.status === 'checked_in') {
+        await reloadSessions();
       }
 
-      // Reload attendees to get the latest data
-      await loadAttendees();
-      
-      // Log the bulk deletion
       addLog({
-        type: 'system',
-        action: 'Bulk attendees deleted',
-        details: `${attendeeIds.length} attendees removed`,
-        status: 'success'
+        type: 'checkin',
+        action: result.status === 'checked_in' ? `Checked in to session: ${session.name}` :
+                result.status === 'already_checked_in' ? `Already in session: ${session.name}` :
+                result.status === 'session_full' ? `Session full: ${session.name}` :
+                result.status === 'access_denied' ? `Session access denied: ${session.name}` :
+                `Session check-in failed: ${session.name}`,
+        user: result.attendeeName,
+        email: result.attendeeEmail,
+        details: result.status === 'session_full'
+          ? `QR Code: ${qrCode} - ${result.attendance}/${result.capacity} seats taken`
+          : result.status === 'checked_in' || result.status === 'already_checked_in'
+            ? `QR Code: ${qrCode} - Attendance ${result.attendance}${result.capacity ? `/${result.capacity}` : ''}`
+            : result.status === 'access_denied'
+              ? `QR Code: ${qrCode} - ${result.ticketTypeName} ticket does not include this session`
+              : `Invalid QR Code: ${qrCode}`,
+        status: result.status === 'checked_in' ? 'success' : 'error'
       });
 
-      toast({
-        title: "Success",
-        description: `${attendeeIds.length} attendees have been deleted`,
-      });
+      return result;
     } catch (error) {
-      console.error('Error deleting attendees:', error);
+      console.error('Error checking in to session:', error);
       toast({
         title: "Error",
-        description: "Failed to delete attendees",
+        description: isNetworkError(error)
+          ? "Session check-in needs a connection. Please try again once back online."
+          : "Failed to check in to session",
         variant: "destructive"
       });
     }
   };
 
-  const addWalkInAttendee = async (attendee: { name: string; email?: string; phone?: string; company?: string }) => {
-    const qrCode = generateQRCode();
-    
-    try {
-      const { data, error } = await supabase
-        .from('attendees')
-        .insert({
-          name: attendee.name,
-          email: attendee.email || '',
-          phone: attendee.phone || '',
-          company: attendee.company || '',
-          qr_code: qrCode,
-          registration_type: 'walk_in',
-          checked_in: true,
-          checked_in_at: new Date().toISOString()
-        })
-        .select()
-        .single();
+  const handleCreateSession = async (input: NewSessionInput) => {
+    await createSession(input);
+    addLog({
+      type: 'system',
+      action: 'Session created',
+      details: `${input.name}${input.room ? ` in ${input.room}` : ''}${input.capacity ? ` (capacity ${input.capacity})` : ''}`,
+      status: 'success'
+    });
+  };
 
-      if (error) {
-        console.error('Error adding walk-in attendee:', error);
-        toast({
-          title: "Error",
-          description: "Failed to add walk-in attendee",
-          variant: "destructive"
-        });
-        return;
-      }
+  const handleDeleteSession = async (session: EventSession) => {
+    await deleteSession(session.id);
+    addLog({
+      type: 'system',
+      action: 'Session deleted',
+      details: session.name,
+      status: 'success'
+    });
+  };
 
-      // Reload attendees to get the latest data
-      await loadAttendees();
-      
-      // Log the walk-in registration
+  const handleCreateTicketType = async (input: TicketTypeInput) => {
+    await createTicketType(input);
+    addLog({
+      type: 'system',
+      action: 'Ticket type created',
+      details: `${input.name} - ${input.allSessions ? 'all sessions' : `${input.sessionIds.length} sessions`}`,
+      status: 'success'
+    });
+  };
+
+  const handleUpdateTicketType = async (ticketType: TicketType, input: TicketTypeInput) => {
+    await updateTicketType(ticketType.id, input);
+    addLog({
+      type: 'system',
+      action: 'Ticket type updated',
+      details: `${ticketType.name}${input.name.trim() !== ticketType.name ? ` renamed to ${input.name.trim()}` : ''} - ${input.allSessions ? 'all sessions' : `${input.sessionIds.length} sessions`}`,
+      status: 'success'
+    });
+  };
+
+  const handleDeleteTicketType = async (ticketType: TicketType) => {
+    await deleteTicketType(ticketType.id);
+    // Holders fall back to no ticket type through ON DELETE SET NULL
+    setAttendees(prev => prev.map(a => a.ticketTypeId === ticketType.id ? { ...a, ticketTypeId: null } : a));
+    addLog({
+      type: 'system',
+      action: 'Ticket type deleted',
+      details: ticketType.name,
+      status: 'success'
+    });
+  };
+
+  const handleCreateReminderRule = async (input: ReminderRuleInput) => {
+    await createReminderRule(input);
+    addLog({
+      type: 'system',
+      action: 'Reminder created',
+      details: `${input.name.trim()} - ${input.hoursBefore}h before the event (${input.audience.replace(/_/g, ' ')})`,
+      status: 'success'
+    });
+  };
+
+  const handleUpdateReminderRule = async (rule: ReminderRule, input: ReminderRuleInput) => {
+    await updateReminderRule(rule.id, input);
+    addLog({
+      type: 'system',
+      action: input.enabled === rule.enabled ? 'Reminder updated' : input.enabled ? 'Reminder enabled' : 'Reminder disabled',
+      details: `${input.name.trim()} - ${input.hoursBefore}h before the event (${input.audience.replace(/_/g, ' ')})`,
+      status: 'success'
+    });
+  };
+
+  const handleDeleteReminderRule = async (rule: ReminderRule) => {
+    await deleteReminderRule(rule.id);
+    addLog({
+      type: 'system',
+      action: 'Reminder deleted',
+      details: `${rule.name} (sent to ${rule.sentCount} attendees)`,
+      status: 'success'
+    });
+  };
+
+  const ticketHolderCounts = attendees.reduce<Record<string, number>>((counts, attendee) => {
+    if (attendee.ticketTypeId) {
+      counts[attendee.ticketTypeId] = (counts[attendee.ticketTypeId] || 0) + 1;
+    }
+    return counts;
+  }, {});
+
+  const toggleLegacyQr = async (accept: boolean) => {
+    if (!eventId) return;
+
+    try {
+      await setAcceptLegacyQr(eventId, accept);
       addLog({
-        type: 'registration',
-        action: 'Walk-in attendee registered',
-        user: attendee.name,
-        email: attendee.email || '',
-        details: `QR Code: ${qrCode} - Instantly checked in`,
+        type: 'system',
+        action: accept ? 'Legacy QR codes enabled' : 'Legacy QR codes disabled',
+        details: accept
+          ? 'Short codes without a signature are accepted at check-in'
+          : 'Only signed QR codes are accepted at check-in',
         status: 'success'
       });
-
-      toast({
-        title: "Walk-in Success",
-        description: `${attendee.name} has been registered and checked in`,
-      });
-
-      return data;
     } catch (error) {
-      console.error('Error adding walk-in attendee:', error);
+      console.error('Error updating legacy QR setting:', error);
       toast({
         title: "Error",
-        description: "Failed to add walk-in attendee",
+        description: "Failed to update QR code setting",
         variant: "destructive"
       });
     }
   };
 
-  const checkInAttendee = async (qrCode: string) => {
-    const attendee = attendees.find(a => a.qrCode === qrCode);
-    
-    if (attendee) {
-      try {
-        // First, get the current check-in count for this QR code
-        const { data: countData } = await supabase
-          .rpc('get_checkin_count_for_qr', { qr_code_param: qrCode });
-        
-        const nextCheckinNumber = (countData || 0) + 1;
-        const guestType = nextCheckinNumber === 1 ? 'original' : 
-                         nextCheckinNumber === 2 ? 'plus_one' :
-                         nextCheckinNumber === 3 ? 'plus_two' :
-                         nextCheckinNumber === 4 ? 'plus_three' :
-                         `plus_${nextCheckinNumber - 1}`;
-
-        // Create a new check-in instance
-        const { data: checkinData, error: checkinError } = await supabase
-          .from('checkin_instances')
-          .insert({
-            attendee_id: attendee.id,
-            qr_code: qrCode,
-            checkin_number: nextCheckinNumber,
-            guest_type: guestType
-          })
-          .select()
-          .single();
-
-        if (checkinError) {
-          console.error('Error creating check-in instance:', checkinError);
-          toast({
-            title: "Error",
-            description: "Failed to check in attendee",
-            variant: "destructive"
-          });
-          return;
-        }
-
-        // Update the attendee record only if this is the first check-in
-        if (nextCheckinNumber === 1) {
-          const { error: updateError } = await supabase
-            .from('attendees')
-            .update({
-              checked_in: true,
-              checked_in_at: new Date().toISOString()
-            })
-            .eq('id', attendee.id);
-
-          if (updateError) {
-            console.error('Error updating attendee:', updateError);
-          }
-        }
-
-        // Reload attendees to get the latest data
-        await loadAttendees();
-        
-        // Create appropriate log entry and toast message
-        const isOriginal = nextCheckinNumber === 1;
-        const guestLabel = isOriginal ? 'Original Guest' : 
-                          nextCheckinNumber === 2 ? 'Plus One Guest' :
-                          nextCheckinNumber === 3 ? 'Plus Two Guest' :
-                          `Plus ${nextCheckinNumber - 1} Guest`;
-
-        addLog({
-          type: 'checkin',
-          action: `${guestLabel} checked in`,
-          user: attendee.name,
-          email: attendee.email,
-          details: `QR Code: ${qrCode} - Check-in #${nextCheckinNumber}`,
-          status: 'success'
-        });
-
-        const toastTitle = isOriginal ? "Check-In Successful" : `${guestLabel} Check-In`;
-        const toastDescription = isOriginal 
-          ? `${attendee.name} has been checked in`
-          : `${guestLabel} for ${attendee.name} has been checked in`;
-
-        toast({
-          title: toastTitle,
-          description: toastDescription,
-        });
+  const clearLogs = async () => {
+    if (!eventId || !window.confirm(`Delete all activity logs for ${selectedEvent?.name}? This cannot be undone.`)) {
+      return;
+    }
 
-        return { guestType, checkinNumber: nextCheckinNumber, attendeeName: attendee.name };
-      } catch (error) {
-        console.error('Error checking in attendee:', error);
-        toast({
-          title: "Error",
-          description: "Failed to check in attendee",
-          variant: "destructive"
-        });
-      }
-    } else {
-      // Log failed check-in attempt
+    try {
+      await deleteEventLogs(eventId);
       addLog({
-        type: 'checkin',
-        action: 'Check-in attempt failed',
-        details: `Invalid QR Code: ${qrCode}`,
-        status: 'error'
+        type: 'system',
+        action: 'Activity logs cleared',
+        details: `All logs for ${selectedEvent?.name} were deleted`,
+        status: 'success'
       });
-      
       toast({
-        title: "Invalid QR Code",
-        description: "This QR code is not registered for this event",
+        title: "Logs Cleared",
+        description: "All activity logs for this event have been deleted",
+      });
+    } catch (error) {
+      console.error('Error clearing logs:', error);
+      toast({
+        title: "Error",
+        description: "Failed to clear activity logs",
         variant: "destructive"
       });
     }
   };
 
-  const clearLogs = () => {
-    setLogs([]);
-    toast({
-      title: "Logs Cleared",
-      description: "All activity logs have been cleared",
-    });
-  };
+  const exportLogs = async (filters: LogFilters) => {
+    if (!eventId) return;
+
+    let logs: LogEntry[];
+    try {
+      logs = await fetchAllActivityLogs(eventId, filters);
+    } catch (error) {
+      console.error('Error exporting logs:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export activity logs",
+        variant: "destructive"
+      });
+      return;
+    }
 
-  const exportLogs = () => {
     const csvContent = [
-      ['Timestamp', 'Type', 'Action', 'User', 'Email', 'Details', 'Status'],
+      ['Timestamp', 'Type', 'Action', 'User', 'Email', 'Details', 'Staff', 'Status'],
       ...logs.map(log => [
         log.timestamp.toISOString(),
         log.type,
@@ -489,25 +1420,26 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
         log.user || '',
         log.email || '',
         log.details || '',
+        log.actor || '',
         log.status
       ])
     ];
     
     const csvString = csvContent.map(row => 
-      row.map(field => `"${field}"`).join(',')
+      row.map(field => `"${field.replace(/"/g, '""')}"`).join(',')
     ).join('\n');
     
     const blob = new Blob([csvString], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `event-logs-${new Date().toISOString().split('T')[0]}.csv`;
+    a.download = `${selectedEvent?.slug || 'event'}-logs-${new Date().toISOString().split('T')[0]}.csv`;
     a.click();
     window.URL.revokeObjectURL(url);
     
     toast({
       title: "Logs Exported",
-      description: "Activity logs have been exported as CSV",
+      description: `${logs.length} activity logs have been exported as CSV`,
     });
   };
 
@@ -525,6 +1457,13 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
             </p>
           </div>
           <div className="flex items-center gap-4">
+            <EventSwitcher
+              events={events}
+              selectedEvent={selectedEvent}
+              onSelectEvent={selectEvent}
+              onCreateEvent={isAdmin ? createEvent : undefined}
+              onUpdateEvent={isAdmin ? updateEvent : undefined}
+            />
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <User className="w-4 h-4" />
               <span>{user?.email}</span>
@@ -550,10 +1489,26 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
               </div>
             </CardContent>
           </Card>
+        ) : !selectedEvent ? (
+          <Card className="shadow-elegant">
+            <CardContent className="flex items-center justify-center py-16">
+              <p className="text-muted-foreground">
+                {isAdmin ? "No events yet. Create one with the New Event button above." : "No events available yet. Ask an admin to create one."}
+              </p>
+            </CardContent>
+          </Card>
         ) : (
+        <>
+        <StationPresence
+          stations={stations}
+          stationId={stationId}
+          stationName={stationName}
+          onRenameStation={setStationName}
+          isConnected={isConnected}
+        />
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-4 md:grid-cols-8' : 'grid-cols-4 md:grid-cols-7'}`}>
+          <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-4 md:grid-cols-9' : 'grid-cols-4 md:grid-cols-8'}`}>
             <TabsTrigger value="overview" className="flex items-center gap-2">
               <FileText className="w-4 h-4" />
               <span className="hidden sm:inline">Overview</span>
@@ -574,6 +1529,10 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
               <Scan className="w-4 h-4" />
               <span className="hidden sm:inline">Check-In</span>
             </TabsTrigger>
+            <TabsTrigger value="sessions" className="flex items-center gap-2">
+              <CalendarClock className="w-4 h-4" />
+              <span className="hidden sm:inline">Sessions</span>
+            </TabsTrigger>
             <TabsTrigger value="reports" className="flex items-center gap-2">
               <FileText className="w-4 h-4" />
               <span className="hidden sm:inline">Reports</span>
@@ -708,9 +1667,32 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
           <TabsContent value="attendees">
             <AttendeeManager 
               attendees={attendees} 
+              ticketTypes={ticketTypes}
               onAddAttendee={addAttendee} 
               onAddBulkAttendees={addBulkAttendees}
               onDeleteBulkAttendees={deleteBulkAttendees}
+              onUpdateAllowedGuests={isAdmin ? updateAllowedGuests : undefined}
+              onMergeAttendees={isAdmin ? mergeDuplicateAttendees : undefined}
+              onUpdateAttendee={isAdmin ? updateAttendee : undefined}
+              onReissueQr={isAdmin ? reissueAttendeeQr : undefined}
+              emailCampaigns={emailCampaigns}
+              emailStatuses={emailStatuses}
+              deliveryStatuses={deliveryStatuses}
+              onQueueEmailCampaign={queueEmailCampaign}
+              onCancelEmailCampaign={cancelEmailCampaign}
+              whatsAppStatuses={whatsAppStatuses}
+              onSendWhatsApp={sendWhatsAppMessages}
+              smsStatuses={smsStatuses}
+              onSendSms={sendSmsMessages}
+              event={selectedEvent}
+              emailTemplate={emailTemplate}
+              emailTemplateVersions={emailTemplateVersions}
+              onSaveEmailTemplate={saveEmailTemplate}
+              onUploadEmailBanner={uploadTemplateBanner}
+              reminderRules={reminderRules}
+              onCreateReminderRule={isAdmin ? handleCreateReminderRule : undefined}
+              onUpdateReminderRule={isAdmin ? handleUpdateReminderRule : undefined}
+              onDeleteReminderRule={isAdmin ? handleDeleteReminderRule : undefined}
               onLog={addLog}
               defaultMessage={defaultMessage}
               onDefaultMessageChange={(message) => {
@@ -730,25 +1712,87 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
               attendees={attendees}
               onLog={addLog}
               defaultMessage={defaultMessage}
+              onReissueQr={isAdmin ? reissueAttendeeQr : undefined}
+              onSendWhatsApp={sendWhatsAppMessages}
+              whatsAppStatuses={whatsAppStatuses}
             />
           </TabsContent>
 
           <TabsContent value="self-registration">
-            <SelfRegistrationQR />
+            <SelfRegistrationQR event={selectedEvent} />
+          </TabsContent>
+
+          <TabsContent value="checkin" className="space-y-6">
+            {isAdmin && (
+              <Card className="shadow-elegant">
+                <CardContent className="flex items-center justify-between gap-4 py-4">
+                  <div>
+                    <p className="font-medium">Accept legacy short QR codes</p>
+                    <p className="text-sm text-muted-foreground">
+                      4- and 6-character codes issued before signed QR codes were introduced. Turn off once every attendee has a new QR; 8-character codes for manual entry keep working.
+                    </p>
+                  </div>
+                  <Switch
+                    checked={selectedEvent.acceptLegacyQr}
+                    onCheckedChange={toggleLegacyQr}
+                  />
+                </CardContent>
+              </Card>
+            )}
+            <CheckInScanner
+              attendees={attendees}
+              onCheckIn={checkInAttendee}
+              onOverrideCheckIn={isAdmin ? (qrCode) => checkInAttendee(qrCode, { overrideLimit: true }) : undefined}
+              onCheckOut={checkOutAttendee}
+              sessions={sessions}
+              ticketTypes={ticketTypes}
+              onSessionCheckIn={checkInSessionAttendee}
+              onResendQr={resendCurrentQr}
+              onAddWalkIn={addWalkInAttendee}
+              isOnline={isOnline}
+              pendingSyncCount={pendingCount}
+              failedSyncCount={failedCount}
+              isSyncing={isSyncing}
+              onSyncNow={syncPending}
+            />
           </TabsContent>
 
-          <TabsContent value="checkin">
-            <CheckInScanner attendees={attendees} onCheckIn={checkInAttendee} onAddWalkIn={addWalkInAttendee} />
+          <TabsContent value="sessions" className="space-y-6">
+            <SessionManager
+              sessions={sessions}
+              sessionCheckins={sessionCheckins}
+              onCreateSession={isAdmin ? handleCreateSession : undefined}
+              onDeleteSession={isAdmin ? handleDeleteSession : undefined}
+            />
+            <TicketTypeManager
+              ticketTypes={ticketTypes}
+              sessions={sessions}
+              holderCounts={ticketHolderCounts}
+              onCreateTicketType={isAdmin ? handleCreateTicketType : undefined}
+              onUpdateTicketType={isAdmin ? handleUpdateTicketType : undefined}
+              onDeleteTicketType={isAdmin ? handleDeleteTicketType : undefined}
+            />
           </TabsContent>
 
           <TabsContent value="reports">
-            <ReportsView attendees={attendees} checkinInstances={checkinInstances} />
+            <ReportsView
+              attendees={attendees}
+              checkinInstances={checkinInstances}
+              sessions={sessions}
+              sessionCheckins={sessionCheckins}
+              deliveryStatuses={deliveryStatuses}
+              followUps={followUps}
+              event={selectedEvent}
+              emailTemplate={emailTemplate}
+              onSendFollowUp={sendFollowUp}
+            />
           </TabsContent>
 
           <TabsContent value="logs">
             <LogsView 
-              logs={logs} 
-              onClearLogs={clearLogs}
+              eventId={eventId}
+              refreshKey={logsRefreshKey}
+              onClearLogs={isAdmin ? clearLogs : undefined}
               onExportLogs={exportLogs}
             />
           </TabsContent>
@@ -759,6 +1803,7 @@ const [defaultMessage, setDefaultMessage] = useState(() => {
             </TabsContent>
           )}
         </Tabs>
+        </>
         )}
       </div>
     </div>
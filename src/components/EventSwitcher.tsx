@@ -0,0 +1,341 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
+import { CalendarDays, Pencil, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { slugify } from "@/hooks/useEvents";
+import { browserTimeZone, isValidTimeZone, supportedTimeZones, toZonedInputValue } from "@/lib/timeZone";
+import type { EventDetailsInput, EventInfo, NewEventInput } from "@/hooks/useEvents";
+
+interface EventSwitcherProps {
+  events: EventInfo[];
+  selectedEvent: EventInfo | null;
+  onSelectEvent: (eventId: string) => void;
+  onCreateEvent?: (input: NewEventInput) => Promise<unknown>;
+  // Admin-only: edit the selected event's details and calendar invite settings
+  onUpdateEvent?: (eventId: string, input: EventDetailsInput) => Promise<unknown>;
+}
+
+const emptyForm = {
+  name: "",
+  slug: "",
+  venue: "",
+  startsAt: "",
+  endsAt: "",
+  timeZone: browserTimeZone(),
+  organizerName: "",
+  organizerEmail: "",
+  description: ""
+};
+
+type EventFormData = typeof emptyForm;
+
+const timeZones = supportedTimeZones();
+
+const formFromEvent = (event: EventInfo): EventFormData => ({
+  name: event.name,
+  slug: event.slug,
+  venue: event.venue || "",
+  startsAt: toZonedInputValue(event.startsAt, event.timeZone),
+  endsAt: toZonedInputValue(event.endsAt, event.timeZone),
+  timeZone: event.timeZone,
+  organizerName: event.organizerName || "",
+  organizerEmail: event.organizerEmail || "",
+  description: event.description || ""
+});
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+// Fields shared by the create and edit dialogs; idPrefix keeps the label ids unique
+const EventDetailsFields = ({ formData, onChange, idPrefix }: {
+  formData: EventFormData;
+  onChange: (formData: EventFormData) => void;
+  idPrefix: string;
+}) => (
+  <>
+    <div>
+      <Label htmlFor={`${idPrefix}-venue`}>Venue (Optional)</Label>
+      <Input
+        id={`${idPrefix}-venue`}
+        value={formData.venue}
+        onChange={(e) => onChange({ ...formData, venue: e.target.value })}
+        placeholder="Enter venue"
+      />
+    </div>
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-starts`}>Starts</Label>
+        <Input
+          id={`${idPrefix}-starts`}
+          type="datetime-local"
+          value={formData.startsAt}
+          onChange={(e) => onChange({ ...formData, startsAt: e.target.value })}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-ends`}>Ends</Label>
+        <Input
+          id={`${idPrefix}-ends`}
+          type="datetime-local"
+          value={formData.endsAt}
+          onChange={(e) => onChange({ ...formData, endsAt: e.target.value })}
+        />
+      </div>
+    </div>
+    <div>
+      <Label htmlFor={`${idPrefix}-time-zone`}>Time Zone</Label>
+      <Input
+        id={`${idPrefix}-time-zone`}
+        list={`${idPrefix}-time-zones`}
+        value={formData.timeZone}
+        onChange={(e) => onChange({ ...formData, timeZone: e.target.value })}
+        placeholder="e.g. Asia/Kolkata"
+      />
+      <datalist id={`${idPrefix}-time-zones`}>
+        {timeZones.map(timeZone => <option key={timeZone} value={timeZone} />)}
+      </datalist>
+      <p className="text-xs text-muted-foreground mt-1">
+        The start and end times are in this time zone, and emails and the ticket page show the date in it.
+      </p>
+    </div>
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-organizer-name`}>Organiser (Optional)</Label>
+        <Input
+          id={`${idPrefix}-organizer-name`}
+          value={formData.organizerName}
+          onChange={(e) => onChange({ ...formData, organizerName: e.target.value })}
+          placeholder="Juspay Events"
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-organizer-email`}>Organiser Email (Optional)</Label>
+        <Input
+          id={`${idPrefix}-organizer-email`}
+          type="email"
+          value={formData.organizerEmail}
+          onChange={(e) => onChange({ ...formData, organizerEmail: e.target.value })}
+          placeholder="events@example.com"
+        />
+      </div>
+    </div>
+    <p className="text-xs text-muted-foreground">
+      The start and end time, venue, description and organiser make up the calendar invite attached to QR emails.
+    </p>
+    <div>
+      <Label htmlFor={`${idPrefix}-description`}>Description (Optional)</Label>
+      <Textarea
+        id={`${idPrefix}-description`}
+        value={formData.description}
+        onChange={(e) => onChange({ ...formData, description: e.target.value })}
+        placeholder="Shown in the calendar invite"
+        rows={3}
+      />
+    </div>
+  </>
+);
+
+export const EventSwitcher = ({ events, selectedEvent, onSelectEvent, onCreateEvent, onUpdateEvent }: EventSwitcherProps) => {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [editFormData, setEditFormData] = useState(emptyForm);
+
+  // Returns an error message for the form, if any
+  const validateForm = (data: EventFormData) => {
+    if (!data.name.trim()) {
+      return "Please enter an event name";
+    }
+    if (!isValidTimeZone(data.timeZone.trim())) {
+      return "Please choose a valid time zone, e.g. Asia/Kolkata";
+    }
+    if (data.organizerEmail.trim() && !isValidEmail(data.organizerEmail.trim())) {
+      return "Please enter a valid organiser email";
+    }
+    if (data.startsAt && data.endsAt && new Date(data.endsAt) <= new Date(data.startsAt)) {
+      return "The event must end after it starts";
+    }
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onCreateEvent) return;
+
+    const formError = validateForm(formData);
+    if (formError) {
+      toast({
+        title: "Error",
+        description: formError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      await onCreateEvent(formData);
+      toast({
+        title: "Event Created",
+        description: `${formData.name} is now the active event`,
+      });
+      setFormData(emptyForm);
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Error creating event:', error);
+      toast({
+        title: "Error",
+        description: error?.code === '23505'
+          ? "An event with this URL slug already exists"
+          : "Failed to create event",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleEditDialogChange = (open: boolean) => {
+    if (open && selectedEvent) {
+      setEditFormData(formFromEvent(selectedEvent));
+    }
+    setIsEditDialogOpen(open);
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onUpdateEvent || !selectedEvent) return;
+
+    const formError = validateForm(editFormData);
+    if (formError) {
+      toast({
+        title: "Error",
+        description: formError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      await onUpdateEvent(selectedEvent.id, editFormData);
+      toast({
+        title: "Event Updated",
+        description: `${editFormData.name} has been saved`,
+      });
+      setIsEditDialogOpen(false);
+    } catch (error) {
+      console.error('Error updating event:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update event",
+        variant: "destructive"
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <CalendarDays className="w-4 h-4 text-muted-foreground" />
+      <Select value={selectedEvent?.id ?? ""} onValueChange={onSelectEvent}>
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="Select an event" />
+        </SelectTrigger>
+        <SelectContent>
+          {events.map(event => (
+            <SelectItem key={event.id} value={event.id}>
+              {event.name}{!event.isActive && " (inactive)"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {onUpdateEvent && selectedEvent && (
+        <Dialog open={isEditDialogOpen} onOpenChange={handleEditDialogChange}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="flex items-center gap-2">
+              <Pencil className="w-4 h-4" />
+              Edit Event
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Edit Event</DialogTitle>
+              <DialogDescription>
+                The registration link stays /register/{selectedEvent.slug}.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleUpdate} className="space-y-4">
+              <div>
+                <Label htmlFor="edit-event-name">Event Name</Label>
+                <Input
+                  id="edit-event-name"
+                  value={editFormData.name}
+                  onChange={(e) => setEditFormData({ ...editFormData, name: e.target.value })}
+                  placeholder="Enter event name"
+                />
+              </div>
+              <EventDetailsFields formData={editFormData} onChange={setEditFormData} idPrefix="edit-event" />
+              <Button type="submit" className="w-full bg-gradient-primary" disabled={isUpdating}>
+                {isUpdating ? "Saving..." : "Save Changes"}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      )}
+      {onCreateEvent && (
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              New Event
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Create New Event</DialogTitle>
+              <DialogDescription>
+                Attendees, check-ins and logs are kept separately for each event.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="event-name">Event Name</Label>
+                <Input
+                  id="event-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Enter event name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="event-slug">Registration URL Slug (Optional)</Label>
+                <Input
+                  id="event-slug"
+                  value={formData.slug}
+                  onChange={(e) => setFormData({ ...formData, slug: e.target.value })}
+                  placeholder={slugify(formData.name) || "my-event"}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Self-registration link: /register/{slugify(formData.slug || formData.name) || "my-event"}
+                </p>
+              </div>
+              <EventDetailsFields formData={formData} onChange={setFormData} idPrefix="event" />
+              <Button type="submit" className="w-full bg-gradient-primary" disabled={isCreating}>
+                {isCreating ? "Creating..." : "Create Event"}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+};
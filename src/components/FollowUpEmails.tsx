@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Eye, HeartHandshake, Send } from "lucide-react";
+import { format } from "date-fns";
+import { followUpTemplate, placeholderValues, renderQrEmail } from "@/lib/emailTemplate";
+import type { EmailTemplate, FollowUpContent } from "@/lib/emailTemplate";
+import { matchesSegment } from "@/hooks/useFollowUps";
+import type { Attendance, FollowUpResult, FollowUpSegment } from "@/hooks/useFollowUps";
+import type { EventInfo } from "@/hooks/useEvents";
+import type { Attendee } from "./EventDashboard";
+
+// Select value for "no restriction"
+const ANY = 'any';
+
+const attendanceLabels: Record<Attendance, string> = {
+  attended: 'Attended',
+  no_show: 'No-shows',
+};
+
+const registrationLabels: Record<NonNullable<FollowUpSegment['registrationType']>, string> = {
+  pre_registered: 'Pre-registered',
+  walk_in: 'Walk-ins',
+};
+
+// Starting content for each check-in status; the survey link is the organiser's to add
+const presets: Record<Attendance | typeof ANY, FollowUpContent> = {
+  attended: {
+    subject: "Thank you for joining {eventName}!",
+    message: "Thank you for coming to {eventName}. We'd love to hear what you thought, it only takes a minute.",
+    buttonLabel: "Take the survey",
+    buttonUrl: "",
+  },
+  no_show: {
+    subject: "Sorry we missed you at {eventName}",
+    message: "We're sorry you couldn't make it to {eventName}. We hope to see you at the next one!",
+    buttonLabel: "",
+    buttonUrl: "",
+  },
+  any: {
+    subject: "Thank you for registering for {eventName}",
+    message: "Thank you for your interest in {eventName}.",
+    buttonLabel: "",
+    buttonUrl: "",
+  },
+};
+
+const NO_COMPANY = '';
+
+const describeSegment = (segment: FollowUpSegment) => {
+  const parts = [
+    segment.attendance ? attendanceLabels[segment.attendance] : undefined,
+    segment.registrationType ? registrationLabels[segment.registrationType] : undefined,
+    segment.companies ? segment.companies.map(company => company || 'No company').join(', ') : undefined,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All attendees';
+};
+
+const percent = (count: number, total: number) => total > 0 ? `${Math.round((count / total) * 100)}%` : '-';
+
+interface FollowUpEmailsProps {
+  attendees: Attendee[];
+  // Attendees with at least one check-in instance
+  admittedIds: Set<string>;
+  results: FollowUpResult[];
+  event?: EventInfo;
+  // The event's template, whose look the follow-up borrows
+  emailTemplate: EmailTemplate;
+  onSend?: (segment: FollowUpSegment, content: FollowUpContent) => Promise<boolean>;
+}
+
+// Post-event emails to a segment of the attendees, and how the earlier ones did
+export const FollowUpEmails = ({ attendees, admittedIds, results, event, emailTemplate, onSend }: FollowUpEmailsProps) => {
+  const [attendance, setAttendance] = useState<Attendance | typeof ANY>('attended');
+  const [registrationType, setRegistrationType] = useState<FollowUpSegment['registrationType'] | typeof ANY>(ANY);
+  const [companies, setCompanies] = useState<string[]>([]);
+  const [content, setContent] = useState<FollowUpContent>(presets.attended);
+  const [isContentEdited, setIsContentEdited] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  const segment: FollowUpSegment = {
+    attendance: attendance === ANY ? undefined : attendance,
+    registrationType: registrationType === ANY ? undefined : registrationType,
+    companies: companies.length > 0 ? companies : undefined,
+  };
+  const recipients = attendees.filter(attendee => matchesSegment(attendee, segment, admittedIds));
+
+  // Distinct companies, first spelling wins, with how many attendees each has
+  const companyOptions = Object.values(attendees.reduce((acc, attendee) => {
+    const name = (attendee.company || '').trim();
+    const key = name.toLowerCase();
+    acc[key] = { name: acc[key]?.name ?? name, count: (acc[key]?.count ?? 0) + 1 };
+    return acc;
+  }, {} as Record<string, { name: string; count: number }>))
+    .sort((a, b) => (a.name === NO_COMPANY ? 1 : 0) - (b.name === NO_COMPANY ? 1 : 0) || a.name.localeCompare(b.name));
+
+  const changeAttendance = (value: Attendance | typeof ANY) => {
+    setAttendance(value);
+    if (!isContentEdited) {
+      setContent(presets[value]);
+    }
+  };
+
+  const updateContent = (changes: Partial<FollowUpContent>) => {
+    setContent(prev => ({ ...prev, ...changes }));
+    setIsContentEdited(true);
+  };
+
+  const toggleCompany = (name: string, checked: boolean) => {
+    setCompanies(prev => checked ? [...prev, name] : prev.filter(company => company !== name));
+  };
+
+  const buttonUrl = content.buttonUrl?.trim();
+  const isButtonUrlValid = !buttonUrl || /^(https?:\/\/\S+|mailto:\S+)$/.test(buttonUrl);
+  const canSend = !!onSend && recipients.length > 0 && !!content.subject.trim() && !!content.message.trim() && isButtonUrlValid;
+
+  const previewAttendee = recipients[0];
+  const preview = renderQrEmail(
+    followUpTemplate(emailTemplate, content),
+    placeholderValues(
+      previewAttendee ? { name: previewAttendee.name, company: previewAttendee.company, qrCode: previewAttendee.qrCode } : { name: 'Alex Johnson' },
+      event
+    ),
+    ''
+  );
+
+  const handleSend = async () => {
+    if (!onSend) return;
+    if (!window.confirm(`Email "${content.subject}" to ${recipients.length} attendees (${describeSegment(segment)})?`)) return;
+
+    setIsSending(true);
+    const queued = await onSend(segment, content);
+    setIsSending(false);
+    if (queued) {
+      setIsContentEdited(false);
+      setContent(presets[attendance]);
+    }
+  };
+
+  return (
+    <Card className="shadow-elegant">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HeartHandshake className="h-5 w-5" />
+          Follow-up Emails
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Thank attendees who came, or let no-shows know they were missed. Sent with your email template's look, without the QR code.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {onSend && (
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <h3 className="font-semibold">Audience</h3>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Check-in status</Label>
+                  <Select value={attendance} onValueChange={(value) => changeAttendance(value as Attendance | typeof ANY)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="attended">{attendanceLabels.attended}</SelectItem>
+                      <SelectItem value="no_show">{attendanceLabels.no_show}</SelectItem>
+                      <SelectItem value={ANY}>Everyone</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Registration type</Label>
+                  <Select
+                    value={registrationType}
+                    onValueChange={(value) => setRegistrationType(value as FollowUpSegment['registrationType'] | typeof ANY)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any</SelectItem>
+                      <SelectItem value="pre_registered">{registrationLabels.pre_registered}</SelectItem>
+                      <SelectItem value="walk_in">{registrationLabels.walk_in}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label>Companies</Label>
+                <div className="space-y-2 max-h-48 overflow-y-auto rounded-md border p-3">
+                  {companyOptions.map((option, index) => (
+                    <div key={option.name.toLowerCase()} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`follow-up-company-${index}`}
+                        checked={companies.includes(option.name)}
+                        onCheckedChange={(checked) => toggleCompany(option.name, checked as boolean)}
+                      />
+                      <Label htmlFor={`follow-up-company-${index}`} className="font-normal">
+                        {option.name || <span className="italic text-muted-foreground">No company</span>}
+                        <span className="text-muted-foreground"> ({option.count})</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">Leave all unchecked to include every company.</p>
+              </div>
+              <div className="rounded-md bg-muted p-3 text-sm">
+                <span className="font-semibold">{recipients.length}</span> attendees with an email address match
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Message</h3>
+                <Button variant="outline" size="sm" onClick={() => setShowPreview(!showPreview)}>
+                  <Eye className="w-4 h-4 mr-2" />
+                  {showPreview ? 'Edit' : 'Preview'}
+                </Button>
+              </div>
+              {showPreview ? (
+                <iframe
+                  title="Follow-up preview"
+                  srcDoc={preview.html}
+                  sandbox=""
+                  className="w-full h-[420px] bg-white rounded-lg shadow-sm border"
+                />
+              ) : (
+                <>
+                  <div>
+                    <Label htmlFor="follow-up-subject">Subject</Label>
+                    <Input
+                      id="follow-up-subject"
+                      value={content.subject}
+                      onChange={(e) => updateContent({ subject: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="follow-up-message">Message</Label>
+                    <Textarea
+                      id="follow-up-message"
+                      value={content.message}
+                      onChange={(e) => updateContent({ message: e.target.value })}
+                      rows={4}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="follow-up-button-label">Button text</Label>
+                      <Input
+                        id="follow-up-button-label"
+                        value={content.buttonLabel}
+                        onChange={(e) => updateContent({ buttonLabel: e.target.value })}
+                        placeholder="Take the survey"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="follow-up-button-url">Button link</Label>
+                      <Input
+                        id="follow-up-button-url"
+                        value={content.buttonUrl}
+                        onChange={(e) => updateContent({ buttonUrl: e.target.value })}
+                        placeholder="https://forms.example.com/survey"
+                      />
+                    </div>
+                  </div>
+                  {!isButtonUrlValid && (
+                    <p className="text-xs text-destructive">The button link must start with https://, http:// or mailto:</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">Leave the link empty to send the email without a button.</p>
+                </>
+              )}
+              <Button onClick={handleSend} disabled={!canSend || isSending} className="w-full bg-gradient-primary hover:shadow-glow">
+                <Send className="w-4 h-4 mr-2" />
+                {isSending ? 'Queueing...' : `Send to ${recipients.length} Attendees`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {results.length > 0 ? (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Audience</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead className="text-right">Emails</TableHead>
+                  <TableHead className="text-right">Delivered</TableHead>
+                  <TableHead className="text-right">Opened</TableHead>
+                  <TableHead className="text-right">Bounced</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map(result => (
+                  <TableRow key={result.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      <div>{format(result.createdAt, "MMM d, HH:mm")}</div>
+                      {result.createdBy && <div className="text-xs text-muted-foreground">{result.createdBy}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{describeSegment(result.segment)}</TableCell>
+                    <TableCell className="text-sm">{result.subject}</TableCell>
+                    <TableCell className="text-right">
+                      {result.status === 'queued' || result.status === 'sending' ? (
+                        <Badge variant="secondary">{result.sentCount + result.failedCount}/{result.totalCount}</Badge>
+                      ) : (
+                        <>
+                          {result.sentCount}
+                          {result.status === 'cancelled' && <Badge variant="outline" className="ml-2">Cancelled</Badge>}
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {result.deliveredCount} <span className="text-xs text-muted-foreground">({percent(result.deliveredCount, result.sentCount)})</span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {result.openedCount} <span className="text-xs text-muted-foreground">({percent(result.openedCount, result.sentCount)})</span>
+                    </TableCell>
+                    <TableCell className="text-right text-red-600">{result.bouncedCount}</TableCell>
+                    <TableCell className="text-right text-red-600">{result.failedCount}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-4 text-muted-foreground">
+            No follow-up emails sent yet
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
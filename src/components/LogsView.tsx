@@ -5,46 +5,89 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { Calendar, User, QrCode, Mail, UserPlus, Activity, Download, Search, Filter, MessageCircle } from "lucide-react";
-import { useState, useMemo } from "react";
+import { Calendar, User, QrCode, Mail, UserPlus, Activity, Download, Search, Filter, MessageCircle, MessageSquare, ChevronLeft, ChevronRight, Loader2, UserCheck } from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
 import { format } from "date-fns";
+import { fetchActivityLogs, fetchLogStats } from "@/lib/activityLog";
+import type { LogFilters, LogStats } from "@/lib/activityLog";
+
+const PAGE_SIZE = 50;
 
 export interface LogEntry {
   id: string;
   timestamp: Date;
-  type: 'checkin' | 'registration' | 'qr_generated' | 'email_sent' | 'whatsapp_sent' | 'system';
+  type: 'checkin' | 'registration' | 'qr_generated' | 'email_sent' | 'whatsapp_sent' | 'sms_sent' | 'system';
   action: string;
   user?: string;
   email?: string;
   details?: string;
   status: 'success' | 'error' | 'pending';
+  // Staff member who performed the action (set by the database)
+  actor?: string;
 }
 
 interface LogsViewProps {
-  logs: LogEntry[];
+  eventId?: string;
+  // Bump to reload after logs are written or cleared elsewhere
+  refreshKey?: number;
   onClearLogs?: () => void;
-  onExportLogs?: () => void;
+  onExportLogs?: (filters: LogFilters) => void;
 }
 
-export const LogsView = ({ logs, onClearLogs, onExportLogs }: LogsViewProps) => {
+const EMPTY_STATS: LogStats = { success: 0, error: 0, checkins: 0, emails: 0, whatsapp: 0 };
+
+export const LogsView = ({ eventId, refreshKey, onClearLogs, onExportLogs }: LogsViewProps) => {
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [filterType, setFilterType] = useState<string>("all");
   const [filterStatus, setFilterStatus] = useState<string>("all");
+  const [page, setPage] = useState(0);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [stats, setStats] = useState<LogStats>(EMPTY_STATS);
+  const [loading, setLoading] = useState(false);
+
+  // Wait for typing to pause before querying the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
 
-  const filteredLogs = useMemo(() => {
-    return logs.filter(log => {
-      const matchesSearch = searchTerm === "" || 
-        log.action.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        log.user?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        log.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        log.details?.toLowerCase().includes(searchTerm.toLowerCase());
-      
-      const matchesType = filterType === "all" || log.type === filterType;
-      const matchesStatus = filterStatus === "all" || log.status === filterStatus;
-      
-      return matchesSearch && matchesType && matchesStatus;
-    }).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-  }, [logs, searchTerm, filterType, filterStatus]);
+  useEffect(() => {
+    setPage(0);
+  }, [eventId, debouncedSearch, filterType, filterStatus]);
+
+  const loadLogs = useCallback(async () => {
+    if (!eventId) {
+      setLogs([]);
+      setTotal(0);
+      setStats(EMPTY_STATS);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const filters = { search: debouncedSearch, type: filterType, status: filterStatus };
+      const [result, logStats] = await Promise.all([
+        fetchActivityLogs(eventId, filters, page, PAGE_SIZE),
+        fetchLogStats(eventId),
+      ]);
+      setLogs(result.logs);
+      setTotal(result.total);
+      setStats(logStats);
+    } catch (error) {
+      console.error('Error loading activity logs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, debouncedSearch, filterType, filterStatus, page]);
+
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs, refreshKey]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasFilters = debouncedSearch !== "" || filterType !== "all" || filterStatus !== "all";
 
   const getLogIcon = (type: LogEntry['type']) => {
     switch (type) {
@@ -58,6 +101,8 @@ export const LogsView = ({ logs, onClearLogs, onExportLogs }: LogsViewProps) =>
         return <Mail className="w-4 h-4" />;
       case 'whatsapp_sent':
         return <MessageCircle className="w-4 h-4" />;
+      case 'sms_sent':
+        return <MessageSquare className="w-4 h-4" />;
       case 'system':
         return <Activity className="w-4 h-4" />;
       default:
@@ -90,6 +135,8 @@ export const LogsView = ({ logs, onClearLogs, onExportLogs }: LogsViewProps) =>
         return 'bg-purple-500 text-white';
       case 'whatsapp_sent':
         return 'bg-green-500 text-white';
+      case 'sms_sent':
+        return 'bg-teal-500 text-white';
       case 'system':
         return 'bg-gray-500 text-white';
       default:
@@ -112,7 +159,10 @@ export const LogsView = ({ logs, onClearLogs, onExportLogs }: LogsViewProps) =>
           </div>
           <div className="flex gap-2">
             {onExportLogs && (
-              <Button variant="outline" onClick={onExportLogs}>
+              <Button
+                variant="outline"
+                onClick={() => onExportLogs({ search: debouncedSearch, type: filterType, status: filterStatus })}
+              >
                 <Download className="w-4 h-4 mr-2" />
                 Export
               </Button>
@@ -149,6 +199,7 @@ export const LogsView = ({ logs, onClearLogs, onExportLogs }: LogsViewProps) =>
                 <SelectItem value="qr_generated">QR Generated</SelectItem>
                 <SelectItem value="email_sent">Emails Sent</SelectItem>
                 <SelectItem value="whatsapp_sent">WhatsApp Sent</SelectItem>
+                <SelectItem value="sms_sent">SMS Sent</SelectItem>
                 <SelectItem value="system">System</SelectItem>
               </SelectContent>
             </Select>
@@ -169,31 +220,31 @@ export const LogsView = ({ logs, onClearLogs, onExportLogs }: LogsViewProps) =>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
             <div className="bg-muted rounded-lg p-4">
               <div className="text-2xl font-bold text-success">
-                {logs.filter(log => log.status === 'success').length}
+                {stats.success}
               </div>
               <div className="text-sm text-muted-foreground">Successful</div>
             </div>
             <div className="bg-muted rounded-lg p-4">
               <div className="text-2xl font-bold text-destructive">
-                {logs.filter(log => log.status === 'error').length}
+                {stats.error}
               </div>
               <div className="text-sm text-muted-foreground">Errors</div>
             </div>
             <div className="bg-muted rounded-lg p-4">
               <div className="text-2xl font-bold text-primary">
-                {logs.filter(log => log.type === 'checkin').length}
+                {stats.checkins}
               </div>
               <div className="text-sm text-muted-foreground">Check-ins</div>
             </div>
             <div className="bg-muted rounded-lg p-4">
               <div className="text-2xl font-bold text-secondary-foreground">
-                {logs.filter(log => log.type === 'email_sent').length}
+                {stats.emails}
               </div>
               <div className="text-sm text-muted-foreground">Emails Sent</div>
             </div>
             <div className="bg-muted rounded-lg p-4">
               <div className="text-2xl font-bold text-secondary-foreground">
-                {logs.filter(log => log.type === 'whatsapp_sent').length}
+                {stats.whatsapp}
               </div>
               <div className="text-sm text-muted-foreground">WhatsApp Sent</div>
             </div>
@@ -205,26 +256,34 @@ export const LogsView = ({ logs, onClearLogs, onExportLogs }: LogsViewProps) =>
               <Table>
                 <TableHeader className="sticky top-0 bg-background">
                   <TableRow>
-                    <TableHead className="w-[100px]">Time</TableHead>
+                    <TableHead className="w-[150px]">Time</TableHead>
                     <TableHead className="w-[120px]">Type</TableHead>
                     <TableHead>Action</TableHead>
                     <TableHead>User</TableHead>
                     <TableHead>Details</TableHead>
+                    <TableHead>Staff</TableHead>
                     <TableHead className="w-[100px]">Status</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredLogs.length === 0 ? (
+                  {loading && logs.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                        <Loader2 className="w-4 h-4 animate-spin inline mr-2" />
+                        Loading logs...
+                      </TableCell>
+                    </TableRow>
+                  ) : logs.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
-                        {logs.length === 0 ? "No logs yet" : "No logs match your filters"}
+                      <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                        {hasFilters ? "No logs match your filters" : "No logs yet"}
                       </TableCell>
                     </TableRow>
                   ) : (
-                    filteredLogs.map((log) => (
+                    logs.map((log) => (
                       <TableRow key={log.id}>
                         <TableCell className="font-mono text-xs">
-                          {format(log.timestamp, 'HH:mm:ss')}
+                          {format(log.timestamp, 'MMM d, HH:mm:ss')}
                         </TableCell>
                         <TableCell>
                           <Badge className={getTypeColor(log.type)}>
@@ -251,6 +310,14 @@ export const LogsView = ({ logs, onClearLogs, onExportLogs }: LogsViewProps) =>
                         <TableCell className="text-sm text-muted-foreground">
                           {log.details}
                         </TableCell>
+                        <TableCell className="text-sm">
+                          {log.actor && (
+                            <div className="flex items-center gap-1">
+                              <UserCheck className="w-3 h-3" />
+                              <span>{log.actor}</span>
+                            </div>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <Badge variant={getStatusColor(log.status)}>
                             {log.status}
@@ -263,6 +330,36 @@ export const LogsView = ({ logs, onClearLogs, onExportLogs }: LogsViewProps) =>
               </Table>
             </ScrollArea>
           </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between mt-4">
+            <p className="text-sm text-muted-foreground">
+              {total} {total === 1 ? 'entry' : 'entries'}
+            </p>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(p => p - 1)}
+                disabled={page === 0 || loading}
+              >
+                <ChevronLeft className="w-4 h-4" />
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(p => p + 1)}
+                disabled={page + 1 >= pageCount || loading}
+              >
+                Next
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
         </CardContent>
       </Card>
     </div>
@@ -7,7 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
-import { Download, Send, Eye, Upload, Image as ImageIcon, CheckCircle, Clock, Loader2, MessageCircle, FileSpreadsheet } from "lucide-react";
+import { Download, Send, Eye, Upload, Image as ImageIcon, CheckCircle, Clock, Loader2, MessageCircle, FileSpreadsheet, RefreshCcw } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import QRCode from "qrcode";
@@ -16,19 +16,33 @@ import { composeQRWithBackground, embedLogoInQR, type QRCompositionOptions } fro
 import { useBackgroundPersistence } from "@/hooks/useBackgroundPersistence";
 import { hslToHex } from "@/lib/utils";
 import { exportAttendeesToExcel } from "@/lib/excelExport";
+import { getQrPayload } from "@/lib/qrPayload";
+import { sendQrEmail } from "@/lib/qrEmail";
+import { toE164 } from "@/lib/phone";
 import type { Attendee } from "./EventDashboard";
 import type { LogEntry } from "./LogsView";
+import { QrReissueDialog } from "./QrReissueDialog";
+import { WhatsAppStatusBadge } from "./WhatsAppStatusBadge";
+import type { AttendeeWhatsAppStatus } from "@/hooks/useWhatsAppMessages";
 
 interface QRGeneratorProps {
   attendees: Attendee[];
   onLog?: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
   defaultMessage?: string;
+  // Admin-only: revoke the current QR code and issue a new one
+  onReissueQr?: (attendee: Attendee, reason: string, sendEmail: boolean) => Promise<boolean>;
+  // Sends through the WhatsApp Business Cloud API; the button is hidden without it
+  onSendWhatsApp?: (attendeeIds: string[]) => Promise<boolean>;
+  whatsAppStatuses?: Record<string, AttendeeWhatsAppStatus>;
 }
 
 type QRProgress = 'waiting' | 'generating' | 'ready' | 'error';
 
-export const QRGenerator = ({ attendees, onLog, defaultMessage = "" }: QRGeneratorProps) => {
+export const QRGenerator = ({ attendees, onLog, defaultMessage = "", onReissueQr, onSendWhatsApp, whatsAppStatuses = {} }: QRGeneratorProps) => {
   const [qrImages, setQrImages] = useState<Record<string, string>>({});
+  const [sendingWhatsAppId, setSendingWhatsAppId] = useState<string | null>(null);
+  const [reissueAttendeeId, setReissueAttendeeId] = useState<string | null>(null);
+  const reissueAttendee = attendees.find(a => a.id === reissueAttendeeId) || null;
   const [qrProgress, setQrProgress] = useState<Record<string, QRProgress>>({});
   const [overallProgress, setOverallProgress] = useState(0);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -67,7 +81,7 @@ export const QRGenerator = ({ attendees, onLog, defaultMessage = "" }: QRGenerat
             setQrProgress(prev => ({ ...prev, [attendee.id]: 'generating' }));
             
             // Generate base QR code
-            const baseQrDataURL = await QRCode.toDataURL(attendee.qrCode, {
+            const baseQrDataURL = await QRCode.toDataURL(getQrPayload(attendee), {
               width: qrOptions.qrSize,
               margin: 2,
               color: {
@@ -159,21 +173,7 @@ export const QRGenerator = ({ attendees, onLog, defaultMessage = "" }: QRGenerat
         status: 'pending'
       });
 
-      const { supabase } = await import("@/integrations/supabase/client");
-      
-      const { data, error } = await supabase.functions.invoke('send-qr-email', {
-        body: {
-          attendee: {
-            name: attendee.name,
-            email: attendee.email,
-            qrCode: attendee.qrCode
-          },
-          qrImageData: qrImage,
-          defaultMessage
-        }
-      });
-
-      if (error) throw error;
+      await sendQrEmail(attendee, { qrImageData: qrImage, defaultMessage });
 
       // Log successful email sending
       onLog?.({
@@ -210,71 +210,14 @@ export const QRGenerator = ({ attendees, onLog, defaultMessage = "" }: QRGenerat
     }
   };
 
-  const handleSendWhatsApp = (attendee: Attendee) => {
-    try {
-      const qrImageData = qrImages[attendee.id];
-      if (!qrImageData) {
-        toast({
-          title: "Error",
-          description: "QR code not generated yet",
-          variant: "destructive"
-        });
-        return;
-      }
-
-      // Clean phone number (remove non-numeric characters except +)
-      const cleanPhone = attendee.phone.replace(/[^\d+]/g, '');
-      
-      if (!cleanPhone) {
-        toast({
-          title: "Error",
-          description: "No phone number available for this attendee",
-          variant: "destructive"
-        });
-        return;
-      }
-
-      // Create WhatsApp message
-      const message = defaultMessage || `Hi ${attendee.name}! Here's your QR code for the event. Code: ${attendee.qrCode}`;
-      const encodedMessage = encodeURIComponent(message);
-      
-      // Create WhatsApp Web URL
-      const whatsappUrl = `https://wa.me/${cleanPhone}?text=${encodedMessage}`;
-      
-      // Open WhatsApp in new tab
-      window.open(whatsappUrl, '_blank');
-
-      // Log WhatsApp sending
-      onLog?.({
-        type: 'whatsapp_sent',
-        action: 'QR code sent via WhatsApp',
-        user: attendee.name,
-        email: attendee.email,
-        details: `WhatsApp message opened for ${cleanPhone}`,
-        status: 'success'
-      });
-
-      toast({
-        title: "WhatsApp Opened!",
-        description: `WhatsApp opened with QR code message for ${attendee.name}`,
-      });
-    } catch (error) {
-      console.error('Failed to open WhatsApp:', error);
-      
-      onLog?.({
-        type: 'whatsapp_sent',
-        action: 'WhatsApp opening failed',
-        user: attendee.name,
-        email: attendee.email,
-        details: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        status: 'error'
-      });
+  const handleSendWhatsApp = async (attendee: Attendee) => {
+    if (!onSendWhatsApp) return;
 
-      toast({
-        title: "Error",
-        description: "Failed to open WhatsApp",
-        variant: "destructive"
-      });
+    setSendingWhatsAppId(attendee.id);
+    try {
+      await onSendWhatsApp([attendee.id]);
+    } finally {
+      setSendingWhatsAppId(null);
     }
   };
 
@@ -616,10 +559,11 @@ export const QRGenerator = ({ attendees, onLog, defaultMessage = "" }: QRGenerat
                        </div>
                      )}
                    </div>
-                  <div className="text-center">
+                  <div className="flex items-center justify-center gap-2">
                     <code className="text-xs bg-muted px-2 py-1 rounded">
                       {attendee.qrCode}
                     </code>
+                    <WhatsAppStatusBadge whatsAppStatus={whatsAppStatuses[attendee.id]} />
                   </div>
                    <div className="flex gap-2">
                      <Dialog>
@@ -671,23 +615,49 @@ export const QRGenerator = ({ attendees, onLog, defaultMessage = "" }: QRGenerat
                        <Send className="w-4 h-4 mr-1" />
                        Email
                      </Button>
-                     <Button 
-                       variant="outline" 
-                       size="sm" 
-                       onClick={() => handleSendWhatsApp(attendee)}
-                       className="flex-1 hover:bg-accent hover:text-accent-foreground"
-                       disabled={!attendee.phone}
+                     {onSendWhatsApp && (
+                       <Button 
+                         variant="outline" 
+                         size="sm" 
+                         onClick={() => handleSendWhatsApp(attendee)}
+                         className="flex-1 hover:bg-accent hover:text-accent-foreground"
+                         disabled={!toE164(attendee.phone) || sendingWhatsAppId === attendee.id}
+                       >
+                         {sendingWhatsAppId === attendee.id ? (
+                           <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                         ) : (
+                           <MessageCircle className="w-4 h-4 mr-1" />
+                         )}
+                         WhatsApp
+                       </Button>
+                     )}
+                   </div>
+                   {onReissueQr && (
+                     <Button
+                       variant="outline"
+                       size="sm"
+                       onClick={() => setReissueAttendeeId(attendee.id)}
+                       className="w-full mt-2 hover:bg-destructive hover:text-destructive-foreground"
                      >
-                       <MessageCircle className="w-4 h-4 mr-1" />
-                       WhatsApp
+                       <RefreshCcw className="w-4 h-4 mr-1" />
+                       Revoke & Reissue
                      </Button>
-                   </div>
+                   )}
                 </CardContent>
               </Card>
             ))}
           </div>
         </CardContent>
       </Card>
+
+      {reissueAttendee && onReissueQr && (
+        <QrReissueDialog
+          key={reissueAttendee.id}
+          attendee={reissueAttendee}
+          onOpenChange={(open) => !open && setReissueAttendeeId(null)}
+          onReissue={onReissueQr}
+        />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
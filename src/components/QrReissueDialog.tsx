@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { AlertTriangle, RefreshCcw } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { fetchRevokedQrCodes } from "@/lib/qrRevocation";
+import type { RevokedQrCode } from "@/lib/qrRevocation";
+import type { Attendee } from "./EventDashboard";
+
+interface QrReissueDialogProps {
+  attendee: Attendee | null;
+  onOpenChange: (open: boolean) => void;
+  onReissue: (attendee: Attendee, reason: string, sendEmail: boolean) => Promise<boolean>;
+}
+
+// Mount with key={attendee.id} so the reason and previous codes reset per attendee
+export const QrReissueDialog = ({ attendee, onOpenChange, onReissue }: QrReissueDialogProps) => {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [sendEmail, setSendEmail] = useState(true);
+  const [isReissuing, setIsReissuing] = useState(false);
+  const [revokedCodes, setRevokedCodes] = useState<RevokedQrCode[]>([]);
+  const attendeeId = attendee?.id;
+
+  useEffect(() => {
+    if (!attendeeId) return;
+
+    let cancelled = false;
+    fetchRevokedQrCodes(attendeeId)
+      .then(codes => {
+        if (!cancelled) setRevokedCodes(codes);
+      })
+      .catch(error => {
+        console.error('Error loading revoked QR codes:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load previous QR codes",
+          variant: "destructive"
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attendeeId, toast]);
+
+  const handleReissue = async () => {
+    if (!attendee) return;
+
+    setIsReissuing(true);
+    const reissued = await onReissue(attendee, reason.trim(), sendEmail && !!attendee.email);
+    setIsReissuing(false);
+
+    if (reissued) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!attendee} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Revoke & Reissue QR Code</DialogTitle>
+          <DialogDescription>
+            {attendee?.name} - current code {attendee?.qrCode}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              The current QR code stops working immediately. Scanning it will show "Revoked QR — see help desk".
+            </AlertDescription>
+          </Alert>
+          <div>
+            <Label htmlFor="reissue-reason">Reason (Optional)</Label>
+            <Input
+              id="reissue-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Code shared publicly, lost ticket"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="reissue-send-email"
+              checked={sendEmail && !!attendee?.email}
+              disabled={!attendee?.email}
+              onCheckedChange={(checked) => setSendEmail(checked === true)}
+            />
+            <Label htmlFor="reissue-send-email" className="font-normal">
+              Email the new code to {attendee?.email || 'the attendee'}
+            </Label>
+          </div>
+          {revokedCodes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Previously Revoked Codes</Label>
+              <ul className="space-y-1 text-sm">
+                {revokedCodes.map(code => (
+                  <li key={code.id} className="flex flex-wrap items-center gap-2">
+                    <code className="text-xs bg-muted px-2 py-0.5 rounded line-through">{code.qrCode || 'no short code'}</code>
+                    <span className="text-muted-foreground">
+                      {format(code.revokedAt, 'MMM d, HH:mm')}{code.reason ? ` - ${code.reason}` : ''}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isReissuing}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReissue} disabled={isReissuing}>
+              <RefreshCcw className="w-4 h-4 mr-2" />
+              {isReissuing ? "Reissuing..." : "Revoke & Reissue"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, Plus, Pencil, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { PLACEHOLDERS } from "@/lib/emailTemplate";
+import { REMINDER_CHECK_INTERVAL_MINUTES, reminderSendTime } from "@/hooks/useReminderRules";
+import type { ReminderAudience, ReminderRule, ReminderRuleInput } from "@/hooks/useReminderRules";
+import type { EventInfo } from "@/hooks/useEvents";
+
+const audienceLabels: Record<ReminderAudience, string> = {
+  all: 'All attendees',
+  not_checked_in: 'Attendees not checked in',
+};
+
+const emptyForm: ReminderRuleInput = {
+  name: "See you tomorrow",
+  hoursBefore: 24,
+  audience: 'not_checked_in',
+  subject: "",
+  message: "",
+  enabled: true
+};
+
+interface ReminderRulesManagerProps {
+  rules: ReminderRule[];
+  event?: EventInfo;
+  // Admin-only; everyone else sees the rules read-only
+  onCreateRule?: (input: ReminderRuleInput) => Promise<unknown>;
+  onUpdateRule?: (rule: ReminderRule, input: ReminderRuleInput) => Promise<unknown>;
+  onDeleteRule?: (rule: ReminderRule) => Promise<unknown>;
+}
+
+const toInput = (rule: ReminderRule): ReminderRuleInput => ({
+  name: rule.name,
+  hoursBefore: rule.hoursBefore,
+  audience: rule.audience,
+  subject: rule.subject || "",
+  message: rule.message || "",
+  enabled: rule.enabled
+});
+
+// Reminder emails the send-reminders cron job sends ahead of the event, using the
+// event's email template with an optional subject and message of their own
+export const ReminderRulesManager = ({ rules, event, onCreateRule, onUpdateRule, onDeleteRule }: ReminderRulesManagerProps) => {
+  const { toast } = useToast();
+  // null while the form is closed; 'new' for a rule that does not exist yet
+  const [editing, setEditing] = useState<ReminderRule | 'new' | null>(null);
+  const [formData, setFormData] = useState<ReminderRuleInput>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const canManage = !!onCreateRule;
+
+  const openForm = (rule?: ReminderRule) => {
+    setEditing(rule || 'new');
+    setFormData(rule ? toInput(rule) : emptyForm);
+  };
+
+  const describeSendTime = (rule: Pick<ReminderRule, 'hoursBefore'>) => {
+    const sendAt = reminderSendTime(rule, event?.startsAt);
+    return sendAt ? format(sendAt, "MMM d, HH:mm") : "Event has no start time";
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a name for the reminder",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!Number.isInteger(formData.hoursBefore) || formData.hoursBefore < 1 || formData.hoursBefore > 720) {
+      toast({
+        title: "Error",
+        description: "Send the reminder between 1 and 720 hours before the event",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editing && editing !== 'new') {
+        await onUpdateRule?.(editing, formData);
+      } else {
+        await onCreateRule?.(formData);
+      }
+      toast({
+        title: editing === 'new' ? "Reminder Created" : "Reminder Updated",
+        description: `${formData.name} will be sent ${formData.hoursBefore}h before the event`,
+      });
+      setEditing(null);
+    } catch (error) {
+      console.error('Error saving reminder rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the reminder",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: ReminderRule, enabled: boolean) => {
+    try {
+      await onUpdateRule?.(rule, { ...toInput(rule), enabled });
+    } catch (error) {
+      console.error('Error updating reminder rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the reminder",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (rule: ReminderRule) => {
+    if (!onDeleteRule) return;
+    if (!window.confirm(`Delete the "${rule.name}" reminder? Emails already sent are not affected.`)) return;
+
+    try {
+      await onDeleteRule(rule);
+      toast({
+        title: "Reminder Deleted",
+        description: `${rule.name} has been removed`,
+      });
+    } catch (error) {
+      console.error('Error deleting reminder rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the reminder",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {!event?.startsAt && (
+        <div className="flex items-center gap-2 rounded-md border border-warning/50 bg-warning/10 p-3 text-sm">
+          <AlertCircle className="w-4 h-4 text-warning" />
+          Set the event's start time for reminders to be sent.
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">
+          No reminders yet
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reminder</TableHead>
+                <TableHead>Sends</TableHead>
+                <TableHead>Audience</TableHead>
+                <TableHead>Sent</TableHead>
+                <TableHead>Active</TableHead>
+                {canManage && <TableHead className="w-[100px]"></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell className="text-sm">
+                    <div>{rule.hoursBefore}h before</div>
+                    <div className="text-xs text-muted-foreground">{describeSendTime(rule)}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">{audienceLabels[rule.audience]}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{rule.sentCount}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.enabled}
+                      disabled={!onUpdateRule}
+                      onCheckedChange={(checked) => handleToggle(rule, checked)}
+                    />
+                  </TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openForm(rule)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        {onDeleteRule && (
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Reminders are checked every {REMINDER_CHECK_INTERVAL_MINUTES} minutes until the event starts. Each attendee gets a
+        reminder at most once, including attendees who register after it was first sent.
+      </p>
+
+      {canManage && !editing && (
+        <Button onClick={() => openForm()} className="bg-gradient-primary hover:shadow-glow">
+          <Plus className="w-4 h-4 mr-2" />
+          New Reminder
+        </Button>
+      )}
+
+      {editing && (
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-md border p-4">
+          <h3 className="font-semibold">{editing === 'new' ? "New Reminder" : `Edit ${editing.name}`}</h3>
+          <div className="grid grid-cols-[1fr_auto] gap-4">
+            <div>
+              <Label htmlFor="reminder-name">Name</Label>
+              <Input
+                id="reminder-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. See you tomorrow"
+              />
+            </div>
+            <div>
+              <Label htmlFor="reminder-hours">Hours before</Label>
+              <Input
+                id="reminder-hours"
+                type="number"
+                min={1}
+                max={720}
+                value={formData.hoursBefore}
+                onChange={(e) => setFormData({ ...formData, hoursBefore: parseInt(e.target.value, 10) || 0 })}
+                className="w-28"
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Send to</Label>
+            <Select
+              value={formData.audience}
+              onValueChange={(value) => setFormData({ ...formData, audience: value as ReminderAudience })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(audienceLabels) as ReminderAudience[]).map(audience => (
+                  <SelectItem key={audience} value={audience}>{audienceLabels[audience]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {formData.audience === 'not_checked_in' && (
+              <p className="text-xs text-muted-foreground mt-1">Checked when the reminder goes out.</p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="reminder-subject">Subject</Label>
+            <Input
+              id="reminder-subject"
+              value={formData.subject}
+              onChange={(e) => setFormData({ ...formData, subject: e.target.value })}
+              placeholder="See you tomorrow at {eventName}, {name}!"
+            />
+          </div>
+          <div>
+            <Label htmlFor="reminder-message">Message</Label>
+            <Textarea
+              id="reminder-message"
+              value={formData.message}
+              onChange={(e) => setFormData({ ...formData, message: e.target.value })}
+              placeholder="Leave empty to use the template's message"
+              rows={4}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Leave the subject or message empty to use the email template's. Placeholders:{' '}
+              {PLACEHOLDERS.map(placeholder => (
+                <code key={placeholder} className="text-xs bg-muted px-1 py-0.5 rounded mr-1">{`{${placeholder}}`}</code>
+              ))}
+            </p>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="reminder-enabled">Active</Label>
+            <Switch
+              id="reminder-enabled"
+              checked={formData.enabled}
+              onCheckedChange={(checked) => setFormData({ ...formData, enabled: checked })}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1 bg-gradient-primary" disabled={isSaving}>
+              {isSaving ? "Saving..." : editing === 'new' ? "Create Reminder" : "Save Changes"}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -2,11 +2,22 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Download, Users, UserCheck, Clock, TrendingUp, UserPlus, QrCode } from "lucide-react";
+import { Download, Users, UserCheck, Clock, TrendingUp, UserPlus, QrCode, MapPin, LogOut, Timer, CalendarClock, MailCheck } from "lucide-react";
+import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { getDwellSeconds, formatDuration } from "@/lib/checkin";
 import jsPDF from 'jspdf';
 import { exportReportsToExcel } from "@/lib/reportsExcelExport";
 import type { Attendee } from "./EventDashboard";
+import type { EventSession, SessionCheckin } from "@/hooks/useSessions";
+import { isDeliveryProblem } from "@/hooks/useEmailCampaigns";
+import type { AttendeeDeliveryStatus } from "@/hooks/useEmailCampaigns";
+import { EmailStatusBadge } from "./EmailStatusBadge";
+import { FollowUpEmails } from "./FollowUpEmails";
+import type { FollowUpResult, FollowUpSegment } from "@/hooks/useFollowUps";
+import type { EventInfo } from "@/hooks/useEvents";
+import { defaultEmailTemplate } from "@/lib/emailTemplate";
+import type { EmailTemplate, FollowUpContent } from "@/lib/emailTemplate";
 
 interface CheckinInstance {
   id: string;
@@ -15,15 +26,38 @@ interface CheckinInstance {
   guest_type: string;
   checked_in_at: string;
   qr_code: string;
+  on_site?: boolean;
+  last_entry_at?: string | null;
+  checked_out_at?: string | null;
+  dwell_seconds?: number;
 }
 
 interface ReportsViewProps {
   attendees: Attendee[];
   checkinInstances: CheckinInstance[];
+  sessions?: EventSession[];
+  sessionCheckins?: SessionCheckin[];
+  deliveryStatuses?: Record<string, AttendeeDeliveryStatus>;
+  followUps?: FollowUpResult[];
+  event?: EventInfo;
+  emailTemplate?: EmailTemplate;
+  // Queue a post-event email to a segment; resolves to whether anything was queued
+  onSendFollowUp?: (segment: FollowUpSegment, content: FollowUpContent) => Promise<boolean>;
 }
 
-export const ReportsView = ({ attendees, checkinInstances }: ReportsViewProps) => {
+export const ReportsView = ({ attendees, checkinInstances, sessions = [], sessionCheckins = [], deliveryStatuses = {}, followUps = [], event, emailTemplate = defaultEmailTemplate, onSendFollowUp }: ReportsViewProps) => {
   const { toast } = useToast();
+  // Re-render periodically so dwell times of people still inside keep counting
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const onSiteInstances = checkinInstances.filter(i => i.on_site);
+  // Instances closed before check-out existed have no recorded visit length
+  const trackedInstances = checkinInstances.filter(i => i.on_site || i.checked_out_at);
 
   const stats = {
     total: attendees.length,
@@ -58,8 +92,59 @@ export const ReportsView = ({ attendees, checkinInstances }: ReportsViewProps) =
     totalPlusGuests: checkinInstances.filter(i => i.guest_type !== 'original').length,
     averageGuestsPerQR: checkinInstances.length > 0 ? 
       Math.round((checkinInstances.length / new Set(checkinInstances.map(i => i.qr_code)).size) * 10) / 10 : 0,
-    uniqueQRsWithPlusGuests: new Set(checkinInstances.filter(i => i.guest_type !== 'original').map(i => i.qr_code)).size
+    uniqueQRsWithPlusGuests: new Set(checkinInstances.filter(i => i.guest_type !== 'original').map(i => i.qr_code)).size,
+
+    // On-site stats
+    onSite: onSiteInstances.length,
+    checkedOut: checkinInstances.filter(i => !i.on_site && i.checked_out_at).length,
+    averageDwellSeconds: trackedInstances.length > 0 ?
+      Math.round(trackedInstances.reduce((sum, i) => sum + getDwellSeconds(i, now), 0) / trackedInstances.length) : 0
+  };
+
+  // Per-attendee totals for everyone in a party who has been admitted
+  const dwellByAttendee = Object.values(trackedInstances.reduce((acc, instance) => {
+    if (!acc[instance.attendee_id]) {
+      const attendee = attendees.find(a => a.id === instance.attendee_id);
+      acc[instance.attendee_id] = {
+        attendeeId: instance.attendee_id,
+        attendeeName: attendee?.name || 'Unknown',
+        attendeeEmail: attendee?.email || 'Unknown',
+        admitted: 0,
+        onSite: 0,
+        dwellSeconds: 0
+      };
+    }
+    acc[instance.attendee_id].admitted++;
+    if (instance.on_site) {
+      acc[instance.attendee_id].onSite++;
+    }
+    acc[instance.attendee_id].dwellSeconds += getDwellSeconds(instance, now);
+    return acc;
+  }, {} as Record<string, { attendeeId: string; attendeeName: string; attendeeEmail: string; admitted: number; onSite: number; dwellSeconds: number }>))
+    .sort((a, b) => b.dwellSeconds - a.dwellSeconds);
+
+  const sessionAttendance = sessions.map(session => {
+    const attended = sessionCheckins.filter(c => c.sessionId === session.id);
+    return {
+      ...session,
+      attendance: attended.length,
+      fillRate: session.capacity ? Math.round((attended.length / session.capacity) * 100) : undefined
+    };
+  });
+
+  const deliveries = attendees.map(a => deliveryStatuses[a.id]).filter(Boolean);
+  const deliveryStats = {
+    tracked: deliveries.length,
+    delivered: deliveries.filter(d => d.status === 'delivered' || d.status === 'opened').length,
+    opened: deliveries.filter(d => d.status === 'opened').length,
+    bounced: deliveries.filter(d => d.status === 'bounced').length,
+    complained: deliveries.filter(d => d.status === 'complained').length,
+    // Never emailed, or sent before tracking started
+    untracked: attendees.filter(a => a.email && !deliveryStatuses[a.id]).length
   };
+  const undeliveredAttendees = attendees.filter(a => isDeliveryProblem(deliveryStatuses[a.id]));
+
+  const admittedIds = new Set(checkinInstances.map(i => i.attendee_id));
 
   const recentCheckIns = checkinInstances
     .sort((a, b) => new Date(b.checked_in_at).getTime() - new Date(a.checked_in_at).getTime())
@@ -76,7 +161,7 @@ export const ReportsView = ({ attendees, checkinInstances }: ReportsViewProps) =
 
   const handleExportExcel = async () => {
     try {
-      await exportReportsToExcel(attendees, checkinInstances);
+      await exportReportsToExcel(attendees, checkinInstances, sessions, sessionCheckins);
       toast({
         title: "Excel Report Exported!",
         description: "Professional multi-sheet report has been downloaded",
@@ -245,6 +330,42 @@ export const ReportsView = ({ attendees, checkinInstances }: ReportsViewProps) =
         </Card>
       </div>
 
+      {/* On-site Headcount */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="shadow-elegant">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Currently On-site</CardTitle>
+            <MapPin className="h-4 w-4 text-success" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-success">{stats.onSite}</div>
+            <p className="text-xs text-muted-foreground">people inside, including plus guests</p>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-elegant">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Checked Out</CardTitle>
+            <LogOut className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.checkedOut}</div>
+            <p className="text-xs text-muted-foreground">left the venue</p>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-elegant">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Avg Dwell Time</CardTitle>
+            <Timer className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatDuration(stats.averageDwellSeconds)}</div>
+            <p className="text-xs text-muted-foreground">per admitted person</p>
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Plus Guest Analytics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card className="shadow-elegant">
@@ -294,6 +415,85 @@ export const ReportsView = ({ attendees, checkinInstances }: ReportsViewProps) =
         </Card>
       </div>
 
+      {/* Email Delivery */}
+      {deliveryStats.tracked > 0 && (
+        <Card className="shadow-elegant">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MailCheck className="h-5 w-5" />
+              Email Delivery
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Outcome of each attendee's latest QR code email, as reported by the mail provider
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold text-green-600">{deliveryStats.delivered}</div>
+                <p className="text-xs text-muted-foreground">delivered</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-blue-600">{deliveryStats.opened}</div>
+                <p className="text-xs text-muted-foreground">opened</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-red-600">{deliveryStats.bounced}</div>
+                <p className="text-xs text-muted-foreground">bounced</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-red-600">{deliveryStats.complained}</div>
+                <p className="text-xs text-muted-foreground">marked as spam</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-muted-foreground">{deliveryStats.untracked}</div>
+                <p className="text-xs text-muted-foreground">no delivery report</p>
+              </div>
+            </div>
+            {undeliveredAttendees.length > 0 && (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Attendee</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Checked In</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {undeliveredAttendees.map(attendee => (
+                      <TableRow key={attendee.id}>
+                        <TableCell className="font-medium">{attendee.name}</TableCell>
+                        <TableCell>{attendee.email}</TableCell>
+                        <TableCell>
+                          <EmailStatusBadge delivery={deliveryStatuses[attendee.id]} />
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {deliveryStatuses[attendee.id]?.detail}
+                        </TableCell>
+                        <TableCell>{attendee.checkedIn ? 'Yes' : 'No'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Post-event Follow-ups */}
+      <FollowUpEmails
+        attendees={attendees}
+        admittedIds={admittedIds}
+        results={followUps}
+        event={event}
+        emailTemplate={emailTemplate}
+        onSend={onSendFollowUp}
+      />
+
       {/* Export Actions */}
       <Card className="shadow-elegant">
         <CardHeader>
@@ -377,6 +577,11 @@ export const ReportsView = ({ attendees, checkinInstances }: ReportsViewProps) =
                         <Badge className="bg-success text-success-foreground">
                           Checked In #{instance.checkin_number}
                         </Badge>
+                        {instance.checked_out_at && !instance.on_site && (
+                          <Badge variant="secondary" className="ml-2">
+                            Left
+                          </Badge>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -391,6 +596,109 @@ export const ReportsView = ({ attendees, checkinInstances }: ReportsViewProps) =
         </CardContent>
       </Card>
 
+      {/* Session Attendance */}
+      {sessionAttendance.length > 0 && (
+        <Card className="shadow-elegant">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="w-5 h-5" />
+              Session Attendance
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Attendance recorded per breakout session
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Session</TableHead>
+                    <TableHead>Track</TableHead>
+                    <TableHead>Room</TableHead>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Attendance</TableHead>
+                    <TableHead>Fill Rate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessionAttendance.map((session) => (
+                    <TableRow key={session.id}>
+                      <TableCell className="font-medium">{session.name}</TableCell>
+                      <TableCell>{session.track || '-'}</TableCell>
+                      <TableCell>{session.room || '-'}</TableCell>
+                      <TableCell className="text-sm">
+                        {session.startsAt.toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {session.attendance}{session.capacity ? ` / ${session.capacity}` : ''}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {session.fillRate !== undefined ? `${session.fillRate}%` : 'No limit'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Dwell Time */}
+      <Card className="shadow-elegant">
+        <CardHeader>
+          <CardTitle>Dwell Time</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Time spent on site per attendee, including their plus guests
+          </p>
+        </CardHeader>
+        <CardContent>
+          {dwellByAttendee.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Attendee</TableHead>
+                    <TableHead>Admitted</TableHead>
+                    <TableHead>On Site Now</TableHead>
+                    <TableHead>Total Dwell Time</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dwellByAttendee.map((row) => (
+                    <TableRow key={row.attendeeId}>
+                      <TableCell>
+                        <div className="font-medium">{row.attendeeName}</div>
+                        <div className="text-xs text-muted-foreground">{row.attendeeEmail}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{row.admitted}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={row.onSite > 0 ? "default" : "secondary"}
+                          className={row.onSite > 0 ? "bg-success text-success-foreground" : ""}
+                        >
+                          {row.onSite > 0 ? `${row.onSite} inside` : 'Left'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatDuration(row.dwellSeconds)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              No one has been admitted yet
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Plus Guest Analysis Table */}
       <Card className="shadow-elegant">
         <CardHeader>
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { toast } from "sonner";
+import { MailCheck } from "lucide-react";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+const resendSchema = z.object({
+  email: z.string().email("Please enter a valid email"),
+});
+
+type ResendForm = z.infer<typeof resendSchema>;
+
+interface ResendTicketFormProps {
+  // Limits the resend to one event's registration
+  eventSlug?: string;
+}
+
+// Emails the attendee links to their ticket pages through the resend-ticket
+// function. The reply is the same whether or not the address is registered.
+export const ResendTicketForm = ({ eventSlug }: ResendTicketFormProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<ResendForm>({
+    resolver: zodResolver(resendSchema),
+    defaultValues: { email: "" },
+  });
+
+  const onSubmit = async (data: ResendForm) => {
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.functions.invoke('resend-ticket', {
+        body: { email: data.email, event_slug: eventSlug || null },
+      });
+
+      if (error) {
+        toast.error(error instanceof FunctionsHttpError && error.context.status === 429
+          ? "Too many requests for this email. Please try again in an hour."
+          : "Could not send your ticket. Please try again later.");
+        return;
+      }
+
+      setSentTo(data.email);
+    } catch (error) {
+      console.error("Ticket resend error:", error);
+      toast.error("Could not send your ticket. Please check your connection and try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="text-center space-y-2">
+        <MailCheck className="w-8 h-8 mx-auto text-success" />
+        <p className="font-medium text-foreground">Check your inbox</p>
+        <p className="text-sm text-muted-foreground">
+          If {sentTo} is registered, we've sent it a link to your ticket. It can take a few minutes to arrive.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email you registered with</FormLabel>
+              <FormControl>
+                <Input
+                  type="email"
+                  placeholder="Enter your email"
+                  className="h-12 text-base"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full h-12 text-base" disabled={isSubmitting}>
+          {isSubmitting ? "Sending..." : "Email My Ticket"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
@@ -7,8 +7,13 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { QRCodeSVG } from "qrcode.react";
 import { Download, QrCode, ExternalLink, Copy, AlertTriangle, Save } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import type { EventInfo } from "@/hooks/useEvents";
 
-const SelfRegistrationQR = () => {
+interface SelfRegistrationQRProps {
+  event?: EventInfo | null;
+}
+
+const SelfRegistrationQR = ({ event }: SelfRegistrationQRProps) => {
   const { toast } = useToast();
   const [publicSiteUrl, setPublicSiteUrl] = useState("");
   const [inputUrl, setInputUrl] = useState("");
@@ -25,9 +30,10 @@ const SelfRegistrationQR = () => {
     return url.replace(/\/+$/, "");
   };
 
+  const registrationPath = event ? `/register/${event.slug}` : "/register";
   const registrationUrl = publicSiteUrl 
-    ? `${normalizeUrl(publicSiteUrl)}/register`
-    : `${window.location.origin}/register`;
+    ? `${normalizeUrl(publicSiteUrl)}${registrationPath}`
+    : `${window.location.origin}${registrationPath}`;
 
   const isEditorDomain = !publicSiteUrl && (
     window.location.hostname.includes("lovable.app") || 
@@ -63,7 +69,7 @@ const SelfRegistrationQR = () => {
       ctx.drawImage(img, 0, 0, 300, 300);
       
       const link = document.createElement("a");
-      link.download = "Self_Registration_QR_Code.png";
+      link.download = event ? `Self_Registration_QR_Code_${event.slug}.png` : "Self_Registration_QR_Code.png";
       link.href = canvas.toDataURL();
       link.click();
     };
@@ -91,7 +97,7 @@ const SelfRegistrationQR = () => {
           <CardTitle>Self-Registration QR Code</CardTitle>
         </div>
         <CardDescription>
-          Display this QR code for attendees to register themselves
+          Display this QR code for attendees to register themselves{event ? ` for ${event.name}` : ""}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
+import { CalendarClock, Plus, Trash2, MapPin } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import type { EventSession, SessionCheckin, NewSessionInput } from "@/hooks/useSessions";
+
+interface SessionManagerProps {
+  sessions: EventSession[];
+  sessionCheckins: SessionCheckin[];
+  onCreateSession?: (input: NewSessionInput) => Promise<unknown>;
+  onDeleteSession?: (session: EventSession) => Promise<unknown>;
+}
+
+const emptyForm = {
+  name: "",
+  track: "",
+  room: "",
+  startsAt: "",
+  endsAt: "",
+  capacity: ""
+};
+
+export const SessionManager = ({ sessions, sessionCheckins, onCreateSession, onDeleteSession }: SessionManagerProps) => {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const getAttendance = (sessionId: string) => sessionCheckins.filter(c => c.sessionId === sessionId).length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onCreateSession) return;
+
+    if (!formData.name.trim() || !formData.startsAt || !formData.endsAt) {
+      toast({
+        title: "Error",
+        description: "Please enter a session name, start and end time",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (new Date(formData.endsAt) <= new Date(formData.startsAt)) {
+      toast({
+        title: "Error",
+        description: "The session must end after it starts",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const capacity = formData.capacity.trim() === "" ? undefined : Number(formData.capacity);
+    if (capacity !== undefined && (!Number.isInteger(capacity) || capacity < 1)) {
+      toast({
+        title: "Error",
+        description: "Capacity must be a whole number of at least 1, or left blank for no limit",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      await onCreateSession({
+        name: formData.name,
+        track: formData.track,
+        room: formData.room,
+        startsAt: formData.startsAt,
+        endsAt: formData.endsAt,
+        capacity
+      });
+      toast({
+        title: "Session Created",
+        description: `${formData.name} has been added to the agenda`,
+      });
+      setFormData(emptyForm);
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Error creating session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create session",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (session: EventSession) => {
+    if (!onDeleteSession) return;
+    if (!window.confirm(`Delete "${session.name}" and its attendance records?`)) return;
+
+    try {
+      await onDeleteSession(session);
+      toast({
+        title: "Session Deleted",
+        description: `${session.name} has been removed`,
+      });
+    } catch (error) {
+      console.error('Error deleting session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete session",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-elegant">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Sessions
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Breakout sessions and tracks. Pick a session in the scanner to record attendance.
+          </p>
+        </div>
+        {onCreateSession && (
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="bg-gradient-primary hover:shadow-glow">
+                <Plus className="w-4 h-4 mr-2" />
+                New Session
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Session</DialogTitle>
+                <DialogDescription>
+                  Attendees are admitted with their existing event QR code.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="session-name">Session Name</Label>
+                  <Input
+                    id="session-name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g. Keynote, Workshop A"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="session-track">Track (Optional)</Label>
+                    <Input
+                      id="session-track"
+                      value={formData.track}
+                      onChange={(e) => setFormData({ ...formData, track: e.target.value })}
+                      placeholder="e.g. Engineering"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="session-room">Room (Optional)</Label>
+                    <Input
+                      id="session-room"
+                      value={formData.room}
+                      onChange={(e) => setFormData({ ...formData, room: e.target.value })}
+                      placeholder="e.g. Hall B"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="session-starts">Starts</Label>
+                    <Input
+                      id="session-starts"
+                      type="datetime-local"
+                      value={formData.startsAt}
+                      onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="session-ends">Ends</Label>
+                    <Input
+                      id="session-ends"
+                      type="datetime-local"
+                      value={formData.endsAt}
+                      onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="session-capacity">Capacity (Optional)</Label>
+                  <Input
+                    id="session-capacity"
+                    type="number"
+                    min={1}
+                    value={formData.capacity}
+                    onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+                    placeholder="Leave blank for no limit"
+                  />
+                </div>
+                <Button type="submit" className="w-full bg-gradient-primary" disabled={isCreating}>
+                  {isCreating ? "Creating..." : "Create Session"}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
+      </CardHeader>
+      <CardContent>
+        {sessions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No sessions yet{onCreateSession ? " - create one to start tracking breakout attendance" : ""}
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Room</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead className="w-[200px]">Attendance</TableHead>
+                  {onDeleteSession && <TableHead className="w-[60px]"></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => {
+                  const attendance = getAttendance(session.id);
+                  const isFull = session.capacity !== undefined && attendance >= session.capacity;
+                  return (
+                    <TableRow key={session.id}>
+                      <TableCell>
+                        <div className="font-medium">{session.name}</div>
+                        {session.track && (
+                          <Badge variant="outline" className="mt-1">{session.track}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {session.room && (
+                          <div className="flex items-center gap-1 text-sm">
+                            <MapPin className="w-3 h-3" />
+                            {session.room}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {format(session.startsAt, 'MMM d, HH:mm')} - {format(session.endsAt, 'HH:mm')}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-between text-sm mb-1">
+                          <span>
+                            {attendance}{session.capacity !== undefined ? ` / ${session.capacity}` : ''}
+                          </span>
+                          {isFull && <Badge variant="destructive">Full</Badge>}
+                        </div>
+                        {session.capacity !== undefined && (
+                          <Progress value={Math.min(100, (attendance / session.capacity) * 100)} />
+                        )}
+                      </TableCell>
+                      {onDeleteSession && (
+                        <TableCell>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(session)}>
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,29 @@
+import { Badge } from "@/components/ui/badge";
+import type { AttendeeSmsStatus } from "@/hooks/useSmsMessages";
+
+interface SmsStatusBadgeProps {
+  smsStatus?: AttendeeSmsStatus;
+}
+
+const statusStyles: Record<AttendeeSmsStatus['status'], { label: string; className: string }> = {
+  sending: { label: "Sending", className: "bg-warning text-warning-foreground" },
+  sent: { label: "Sent", className: "bg-primary text-primary-foreground" },
+  delivered: { label: "Delivered", className: "bg-success text-success-foreground" },
+  undelivered: { label: "Undelivered", className: "bg-destructive text-destructive-foreground" },
+  failed: { label: "Failed", className: "bg-destructive text-destructive-foreground" },
+};
+
+// The attendee's latest SMS as reported by the provider. Renders nothing if
+// never texted.
+export const SmsStatusBadge = ({ smsStatus }: SmsStatusBadgeProps) => {
+  if (!smsStatus) return null;
+
+  const style = statusStyles[smsStatus.status];
+  const title = smsStatus.lastError ? `${smsStatus.recipientPhone}: ${smsStatus.lastError}` : smsStatus.recipientPhone;
+
+  return (
+    <Badge className={`border-transparent ${style.className}`} title={title}>
+      SMS: {style.label}
+    </Badge>
+  );
+};
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Radio, Scan, Pencil, Check, WifiOff } from "lucide-react";
+import type { ScannerStation } from "@/hooks/useRealtimeEvent";
+
+interface StationPresenceProps {
+  stations: ScannerStation[];
+  stationId: string;
+  stationName: string;
+  onRenameStation: (name: string) => void;
+  isConnected: boolean;
+}
+
+export const StationPresence = ({ stations, stationId, stationName, onRenameStation, isConnected }: StationPresenceProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [nameInput, setNameInput] = useState(stationName);
+
+  const scanningCount = stations.filter(s => s.scanning).length;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    onRenameStation(nameInput);
+    setIsEditing(false);
+  };
+
+  return (
+    <Card className="shadow-elegant mb-6">
+      <CardContent className="flex flex-col md:flex-row md:items-center gap-4 py-4">
+        <div className="flex items-center gap-2 shrink-0">
+          {isConnected ? (
+            <Radio className="w-4 h-4 text-success" />
+          ) : (
+            <WifiOff className="w-4 h-4 text-destructive" />
+          )}
+          <span className="font-medium">
+            {isConnected ? 'Live' : 'Not connected'}
+          </span>
+          <span className="text-sm text-muted-foreground">
+            {stations.length} {stations.length === 1 ? 'station' : 'stations'} online, {scanningCount} scanning
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 flex-1">
+          {stations.map(station => (
+            <Badge
+              key={station.stationId}
+              variant={station.stationId === stationId ? 'default' : 'secondary'}
+              className="flex items-center gap-1"
+              title={station.userEmail}
+            >
+              {station.scanning && <Scan className="w-3 h-3" />}
+              {station.name}
+              {station.stationId === stationId && ' (this device)'}
+            </Badge>
+          ))}
+        </div>
+
+        {isEditing ? (
+          <form onSubmit={handleSave} className="flex items-center gap-2">
+            <Input
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              placeholder="Station name, e.g. Door A"
+              className="h-8 w-44"
+              autoFocus
+            />
+            <Button type="submit" size="sm" variant="outline" disabled={!nameInput.trim()}>
+              <Check className="w-4 h-4" />
+            </Button>
+          </form>
+        ) : (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              setNameInput(stationName);
+              setIsEditing(true);
+            }}
+            className="flex items-center gap-1"
+          >
+            <Pencil className="w-3 h-3" />
+            Rename this station
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
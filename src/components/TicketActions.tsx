@@ -0,0 +1,88 @@
+import { Button } from "@/components/ui/button";
+import { CalendarPlus, Download, Wallet } from "lucide-react";
+import { buildCalendarFile, calendarFileName } from "@/lib/calendar";
+import type { CalendarEvent } from "@/lib/calendar";
+import type { WalletLinks } from "@/lib/emailTemplate";
+
+interface TicketActionsProps {
+  attendeeName: string;
+  // id of the QRCodeSVG to download
+  qrElementId: string;
+  event?: CalendarEvent;
+  walletLinks?: WalletLinks;
+}
+
+// Download, calendar and wallet buttons under an attendee's QR code, on the
+// registration success and ticket pages
+export const TicketActions = ({ attendeeName, qrElementId, event, walletLinks }: TicketActionsProps) => {
+  const downloadQRCode = () => {
+    const svg = document.getElementById(qrElementId);
+    if (!svg) return;
+
+    const svgData = new XMLSerializer().serializeToString(svg);
+    const canvas = document.createElement("canvas");
+    canvas.width = 200;
+    canvas.height = 200;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const img = new Image();
+    img.onload = () => {
+      ctx.fillStyle = "white";
+      ctx.fillRect(0, 0, 200, 200);
+      ctx.drawImage(img, 0, 0, 200, 200);
+
+      const link = document.createElement("a");
+      link.download = `${attendeeName.replace(/\s+/g, "_")}_QR.png`;
+      link.href = canvas.toDataURL();
+      link.click();
+    };
+
+    img.src = "data:image/svg+xml;base64," + btoa(svgData);
+  };
+
+  const calendarFile = event ? buildCalendarFile(event) : null;
+
+  const downloadCalendarFile = () => {
+    if (!event || !calendarFile) return;
+
+    const url = URL.createObjectURL(new Blob([calendarFile], { type: "text/calendar;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.download = calendarFileName(event);
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button onClick={downloadQRCode} className="w-full" variant="outline">
+        <Download className="w-4 h-4 mr-2" />
+        Download QR Code
+      </Button>
+      {calendarFile && (
+        <Button onClick={downloadCalendarFile} className="w-full" variant="outline">
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          Add to Calendar
+        </Button>
+      )}
+      {walletLinks?.apple && (
+        <Button asChild className="w-full" variant="outline">
+          <a href={walletLinks.apple}>
+            <Wallet className="w-4 h-4 mr-2" />
+            Add to Apple Wallet
+          </a>
+        </Button>
+      )}
+      {walletLinks?.google && (
+        <Button asChild className="w-full" variant="outline">
+          <a href={walletLinks.google} target="_blank" rel="noopener noreferrer">
+            <Wallet className="w-4 h-4 mr-2" />
+            Save to Google Wallet
+          </a>
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import { Ticket } from "lucide-react";
+import type { TicketType } from "@/hooks/useTicketTypes";
+
+interface TicketTypeBadgeProps {
+  ticketType?: TicketType;
+  className?: string;
+}
+
+// Colour-coded tier badge; renders nothing for attendees without a ticket type
+export const TicketTypeBadge = ({ ticketType, className = "" }: TicketTypeBadgeProps) => {
+  if (!ticketType) return null;
+
+  return (
+    <Badge
+      className={`border-transparent text-white ${className}`}
+      style={{ backgroundColor: ticketType.color }}
+    >
+      <Ticket className="w-3 h-3 mr-1" />
+      {ticketType.name}
+    </Badge>
+  );
+};
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Ticket, Plus, Pencil, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { TicketTypeBadge } from "./TicketTypeBadge";
+import type { TicketType, TicketTypeInput } from "@/hooks/useTicketTypes";
+import type { EventSession } from "@/hooks/useSessions";
+
+interface TicketTypeManagerProps {
+  ticketTypes: TicketType[];
+  sessions: EventSession[];
+  // Number of attendees holding each ticket type, keyed by ticket type id
+  holderCounts: Record<string, number>;
+  onCreateTicketType?: (input: TicketTypeInput) => Promise<unknown>;
+  onUpdateTicketType?: (ticketType: TicketType, input: TicketTypeInput) => Promise<unknown>;
+  onDeleteTicketType?: (ticketType: TicketType) => Promise<unknown>;
+}
+
+const emptyForm: TicketTypeInput = {
+  name: "",
+  color: "#6b7280",
+  allSessions: true,
+  sessionIds: []
+};
+
+export const TicketTypeManager = ({ ticketTypes, sessions, holderCounts, onCreateTicketType, onUpdateTicketType, onDeleteTicketType }: TicketTypeManagerProps) => {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<TicketType | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<TicketTypeInput>(emptyForm);
+  const canManage = !!onCreateTicketType;
+
+  const openDialog = (ticketType?: TicketType) => {
+    setEditing(ticketType || null);
+    setFormData(ticketType
+      ? { name: ticketType.name, color: ticketType.color, allSessions: ticketType.allSessions, sessionIds: ticketType.sessionIds }
+      : emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const toggleSession = (sessionId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      sessionIds: checked
+        ? [...prev.sessionIds, sessionId]
+        : prev.sessionIds.filter(id => id !== sessionId)
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a ticket type name",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        await onUpdateTicketType?.(editing, formData);
+      } else {
+        await onCreateTicketType?.(formData);
+      }
+      toast({
+        title: editing ? "Ticket Type Updated" : "Ticket Type Created",
+        description: `${formData.name} has been saved`,
+      });
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Error saving ticket type:', error);
+      toast({
+        title: "Error",
+        description: error?.code === '23505'
+          ? "A ticket type with this name already exists"
+          : "Failed to save ticket type",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (ticketType: TicketType) => {
+    if (!onDeleteTicketType) return;
+    const holders = holderCounts[ticketType.id] || 0;
+    const message = holders > 0
+      ? `Delete "${ticketType.name}"? ${holders} attendees will be left without a ticket type (unrestricted access).`
+      : `Delete "${ticketType.name}"?`;
+    if (!window.confirm(message)) return;
+
+    try {
+      await onDeleteTicketType(ticketType);
+      toast({
+        title: "Ticket Type Deleted",
+        description: `${ticketType.name} has been removed`,
+      });
+    } catch (error) {
+      console.error('Error deleting ticket type:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete ticket type",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const describeAccess = (ticketType: TicketType) => {
+    if (ticketType.allSessions) return "All sessions";
+    const names = sessions.filter(s => ticketType.sessionIds.includes(s.id)).map(s => s.name);
+    return names.length > 0 ? names.join(", ") : "Event entrance only";
+  };
+
+  return (
+    <Card className="shadow-elegant">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Ticket className="w-5 h-5" />
+            Ticket Types & Access
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Which sessions each ticket tier may enter. The scanner rejects holders without access.
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openDialog()} className="bg-gradient-primary hover:shadow-glow">
+            <Plus className="w-4 h-4 mr-2" />
+            New Ticket Type
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {ticketTypes.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No ticket types yet
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ticket Type</TableHead>
+                  <TableHead>Session Access</TableHead>
+                  <TableHead>Holders</TableHead>
+                  {canManage && <TableHead className="w-[100px]"></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ticketTypes.map((ticketType) => (
+                  <TableRow key={ticketType.id}>
+                    <TableCell>
+                      <TicketTypeBadge ticketType={ticketType} />
+                    </TableCell>
+                    <TableCell className="text-sm">{describeAccess(ticketType)}</TableCell>
+                    <TableCell>{holderCounts[ticketType.id] || 0}</TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(ticketType)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          {onDeleteTicketType && (
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(ticketType)}>
+                              <Trash2 className="w-4 h-4 text-destructive" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Ticket Type" : "Create Ticket Type"}</DialogTitle>
+            <DialogDescription>
+              Attendees with this ticket type may enter the event and the sessions selected below.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-[1fr_auto] gap-4">
+              <div>
+                <Label htmlFor="ticket-type-name">Name</Label>
+                <Input
+                  id="ticket-type-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. VIP"
+                />
+              </div>
+              <div>
+                <Label htmlFor="ticket-type-color">Colour</Label>
+                <Input
+                  id="ticket-type-color"
+                  type="color"
+                  value={formData.color}
+                  onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                  className="w-16 p-1"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="ticket-type-all-sessions">Access to all sessions</Label>
+              <Switch
+                id="ticket-type-all-sessions"
+                checked={formData.allSessions}
+                onCheckedChange={(checked) => setFormData({ ...formData, allSessions: checked })}
+              />
+            </div>
+            {!formData.allSessions && (
+              <div className="space-y-2 max-h-60 overflow-y-auto rounded-md border p-3">
+                {sessions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No sessions yet. Holders can only use the event entrance.</p>
+                ) : (
+                  sessions.map(session => (
+                    <div key={session.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`ticket-session-${session.id}`}
+                        checked={formData.sessionIds.includes(session.id)}
+                        onCheckedChange={(checked) => toggleSession(session.id, checked as boolean)}
+                      />
+                      <Label htmlFor={`ticket-session-${session.id}`} className="font-normal">
+                        {session.name}{session.room ? ` (${session.room})` : ''}
+                      </Label>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+            <Button type="submit" className="w-full bg-gradient-primary" disabled={isSaving}>
+              {isSaving ? "Saving..." : editing ? "Save Changes" : "Create Ticket Type"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
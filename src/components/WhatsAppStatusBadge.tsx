@@ -0,0 +1,28 @@
+import { Badge } from "@/components/ui/badge";
+import type { AttendeeWhatsAppStatus } from "@/hooks/useWhatsAppMessages";
+
+interface WhatsAppStatusBadgeProps {
+  whatsAppStatus?: AttendeeWhatsAppStatus;
+}
+
+const statusStyles: Record<AttendeeWhatsAppStatus['status'], { label: string; className: string }> = {
+  sending: { label: "Sending", className: "bg-warning text-warning-foreground" },
+  sent: { label: "Sent", className: "bg-primary text-primary-foreground" },
+  delivered: { label: "Delivered", className: "bg-success text-success-foreground" },
+  read: { label: "Read", className: "bg-success text-success-foreground" },
+  failed: { label: "Failed", className: "bg-destructive text-destructive-foreground" },
+};
+
+// The attendee's latest WhatsApp message as reported by the Cloud API. Renders
+// nothing if never sent one.
+export const WhatsAppStatusBadge = ({ whatsAppStatus }: WhatsAppStatusBadgeProps) => {
+  if (!whatsAppStatus) return null;
+
+  const style = statusStyles[whatsAppStatus.status];
+
+  return (
+    <Badge className={`border-transparent ${style.className}`} title={whatsAppStatus.lastError}>
+      WhatsApp: {style.label}
+    </Badge>
+  );
+};
@@ -0,0 +1,207 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export type EmailAudience = 'all' | 'unsent' | 'not_checked_in' | 'filtered';
+
+export type EmailDeliveryStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'bounced';
+
+export interface EmailCampaignFilters {
+  ticketTypeId?: string;
+  registrationType?: string;
+  attendeeIds?: string[];
+}
+
+export interface EmailCampaignContent {
+  subject?: string;
+  message?: string;
+}
+
+export interface EmailCampaign {
+  id: string;
+  audience: EmailAudience;
+  status: 'queued' | 'sending' | 'completed' | 'cancelled';
+  totalCount: number;
+  sentCount: number;
+  failedCount: number;
+  createdBy?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export interface AttendeeEmailStatus {
+  status: EmailDeliveryStatus;
+  attempts: number;
+  lastError?: string;
+  updatedAt: Date;
+}
+
+// What Resend reported for an attendee's latest email, through resend-webhook
+export type DeliveryEventType = 'delivered' | 'bounced' | 'complained' | 'opened';
+
+export interface AttendeeDeliveryStatus {
+  status: DeliveryEventType;
+  detail?: string;
+  occurredAt: Date;
+}
+
+// Whether the attendee probably never got their QR code
+export const isDeliveryProblem = (delivery?: AttendeeDeliveryStatus) => {
+  return delivery?.status === 'bounced' || delivery?.status === 'complained';
+};
+
+// How often to refresh progress while a campaign is still sending
+const POLL_INTERVAL_MS = 5000;
+// Delivery webhooks keep arriving after sending is done
+const IDLE_POLL_INTERVAL_MS = 60000;
+const RECENT_CAMPAIGN_LIMIT = 10;
+
+export const isCampaignActive = (campaign: EmailCampaign) => {
+  return campaign.status === 'queued' || campaign.status === 'sending';
+};
+
+// Wake the process-email-queue worker after queueing. Not awaited: the worker answers
+// only once its batch run is over, and progress is picked up by polling.
+export const startEmailWorker = () => {
+  supabase.functions.invoke('process-email-queue', { body: {} }).then(({ error }) => {
+    if (error) {
+      console.error('Error running email worker:', error);
+    }
+  });
+};
+
+export const useEmailCampaigns = (eventId?: string) => {
+  const [campaigns, setCampaigns] = useState<EmailCampaign[]>([]);
+  const [emailStatuses, setEmailStatuses] = useState<Record<string, AttendeeEmailStatus>>({});
+  const [deliveryStatuses, setDeliveryStatuses] = useState<Record<string, AttendeeDeliveryStatus>>({});
+
+  const loadCampaigns = useCallback(async () => {
+    if (!eventId) {
+      setCampaigns([]);
+      setEmailStatuses({});
+      setDeliveryStatuses({});
+      return;
+    }
+
+    try {
+      const [campaignResult, statusResult, deliveryResult] = await Promise.all([
+        supabase
+          .from('email_campaigns')
+          .select('*')
+          .eq('event_id', eventId)
+          .order('created_at', { ascending: false })
+          .limit(RECENT_CAMPAIGN_LIMIT),
+        supabase.rpc('get_email_statuses', { event_id_param: eventId }),
+        supabase.rpc('get_email_delivery_statuses', { event_id_param: eventId }),
+      ]);
+
+      if (campaignResult.error) {
+        console.error('Error loading email campaigns:', campaignResult.error);
+      } else {
+        setCampaigns((campaignResult.data || []).map(campaign => ({
+          id: campaign.id,
+          audience: campaign.audience as EmailAudience,
+          status: campaign.status as EmailCampaign['status'],
+          totalCount: campaign.total_count,
+          sentCount: campaign.sent_count,
+          failedCount: campaign.failed_count,
+          createdBy: campaign.created_by_email || undefined,
+          createdAt: new Date(campaign.created_at),
+          completedAt: campaign.completed_at ? new Date(campaign.completed_at) : undefined,
+        })));
+      }
+
+      if (statusResult.error) {
+        console.error('Error loading email statuses:', statusResult.error);
+      } else {
+        setEmailStatuses(Object.fromEntries((statusResult.data || []).map(row => [row.attendee_id, {
+          status: row.status as EmailDeliveryStatus,
+          attempts: row.attempts,
+          lastError: row.last_error || undefined,
+          updatedAt: new Date(row.updated_at),
+        }])));
+      }
+
+      if (deliveryResult.error) {
+        console.error('Error loading email delivery statuses:', deliveryResult.error);
+      } else {
+        setDeliveryStatuses(Object.fromEntries((deliveryResult.data || []).map(row => [row.attendee_id, {
+          status: row.delivery_status as DeliveryEventType,
+          detail: row.detail || undefined,
+          occurredAt: new Date(row.occurred_at),
+        }])));
+      }
+    } catch (error) {
+      console.error('Error loading email campaigns:', error);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  const hasActiveCampaign = campaigns.some(isCampaignActive);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const interval = setInterval(loadCampaigns, hasActiveCampaign ? POLL_INTERVAL_MS : IDLE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [eventId, hasActiveCampaign, loadCampaigns]);
+
+  /**
+   * Queue one email per matching attendee with the `queue_email_campaign` database
+   * function and wake the `process-email-queue` worker. Returns how many were queued.
+   */
+  const queueCampaign = useCallback(async (audience: EmailAudience, filters: EmailCampaignFilters, content: EmailCampaignContent) => {
+    if (!eventId) return 0;
+
+    const { data, error } = await supabase.rpc('queue_email_campaign', {
+      event_id_param: eventId,
+      audience_param: audience,
+      filters_param: {
+        ...(filters.ticketTypeId ? { ticket_type_id: filters.ticketTypeId } : {}),
+        ...(filters.registrationType ? { registration_type: filters.registrationType } : {}),
+        ...(filters.attendeeIds ? { attendee_ids: filters.attendeeIds } : {}),
+      },
+      subject_param: content.subject || undefined,
+      // The event's saved template is snapshotted by the database
+      message_param: content.message || undefined,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const queuedCount = data?.[0]?.queued_count ?? 0;
+
+    if (queuedCount > 0) {
+      startEmailWorker();
+    }
+
+    await loadCampaigns();
+    return queuedCount;
+  }, [eventId, loadCampaigns]);
+
+  // Stop a campaign's unsent messages; returns how many were cancelled
+  const cancelCampaign = useCallback(async (campaignId: string) => {
+    const { data, error } = await supabase.rpc('cancel_email_campaign', {
+      campaign_id_param: campaignId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    await loadCampaigns();
+    return data ?? 0;
+  }, [loadCampaigns]);
+
+  return {
+    campaigns,
+    emailStatuses,
+    deliveryStatuses,
+    queueCampaign,
+    cancelCampaign,
+    reload: loadCampaigns,
+  };
+};
@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { defaultEmailTemplate, normalizeTemplate, validateTemplate } from '@/lib/emailTemplate';
+import type { EmailTemplate } from '@/lib/emailTemplate';
+
+export interface EmailTemplateVersion {
+  id: string;
+  version: number;
+  template: EmailTemplate;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export const useEmailTemplate = (eventId?: string) => {
+  // Newest first; the first entry is the template in use
+  const [versions, setVersions] = useState<EmailTemplateVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    if (!eventId) {
+      setVersions([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('email_template_versions')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('version', { ascending: false });
+
+      if (error) {
+        console.error('Error loading email template:', error);
+        return;
+      }
+
+      setVersions((data || []).map(row => ({
+        id: row.id,
+        version: row.version,
+        // Versions saved before the block editor are converted on load
+        template: normalizeTemplate(row.content),
+        createdBy: row.created_by_email || undefined,
+        createdAt: new Date(row.created_at),
+      })));
+    } catch (error) {
+      console.error('Error loading email template:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  // Save as a new version; restoring an old version goes through here too
+  const saveTemplate = useCallback(async (template: EmailTemplate) => {
+    if (!eventId) return undefined;
+
+    validateTemplate(template);
+
+    const { data, error } = await supabase.rpc('save_email_template', {
+      event_id_param: eventId,
+      content_param: template as unknown as Json,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    await loadVersions();
+    return data;
+  }, [eventId, loadVersions]);
+
+  return {
+    template: versions[0]?.template ?? defaultEmailTemplate,
+    // False until the event's template is saved for the first time
+    isSaved: versions.length > 0,
+    versions,
+    loading,
+    saveTemplate,
+    reload: loadVersions,
+  };
+};
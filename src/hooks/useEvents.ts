@@ -0,0 +1,203 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_EVENT_TIME_ZONE } from '@/lib/emailTemplate';
+import { fromZonedInputValue } from '@/lib/timeZone';
+
+const SELECTED_EVENT_KEY = 'selectedEventId';
+const CACHED_EVENTS_KEY = 'cachedEvents';
+
+export interface EventInfo {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  venue?: string;
+  startsAt?: Date;
+  endsAt?: Date;
+  // IANA zone the event's date is shown in to attendees
+  timeZone: string;
+  // Shown as the organiser of the calendar invite
+  organizerName?: string;
+  organizerEmail?: string;
+  isActive: boolean;
+  // Whether short pre-signature QR codes are still accepted at the scanner
+  acceptLegacyQr: boolean;
+}
+
+export interface NewEventInput {
+  name: string;
+  slug?: string;
+  description?: string;
+  venue?: string;
+  // datetime-local values, in the event's time zone
+  startsAt?: string;
+  endsAt?: string;
+  timeZone: string;
+  organizerName?: string;
+  organizerEmail?: string;
+}
+
+// The slug is left out: changing it would break printed registration links
+export type EventDetailsInput = Omit<NewEventInput, 'slug'>;
+
+const eventDetailsRow = (input: EventDetailsInput) => {
+  const timeZone = input.timeZone.trim();
+  return {
+    name: input.name.trim(),
+    description: input.description || null,
+    venue: input.venue || null,
+    starts_at: input.startsAt ? fromZonedInputValue(input.startsAt, timeZone).toISOString() : null,
+    ends_at: input.endsAt ? fromZonedInputValue(input.endsAt, timeZone).toISOString() : null,
+    time_zone: timeZone,
+    organizer_name: input.organizerName?.trim() || null,
+    organizer_email: input.organizerEmail?.trim().toLowerCase() || null,
+  };
+};
+
+// Turn an event name into a URL-safe slug for /register/:eventSlug
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export const useEvents = () => {
+  const [events, setEvents] = useState<EventInfo[]>([]);
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(() => {
+    return localStorage.getItem(SELECTED_EVENT_KEY);
+  });
+  const [loading, setLoading] = useState(true);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('events')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading events:', error);
+        // Keep the scanner usable offline with the last known event list
+        const cached = localStorage.getItem(CACHED_EVENTS_KEY);
+        if (cached) {
+          setEvents(JSON.parse(cached).map((event: EventInfo) => ({
+            ...event,
+            startsAt: event.startsAt ? new Date(event.startsAt) : undefined,
+            endsAt: event.endsAt ? new Date(event.endsAt) : undefined,
+            timeZone: event.timeZone || DEFAULT_EVENT_TIME_ZONE,
+          })));
+        }
+        return;
+      }
+
+      const formattedEvents: EventInfo[] = (data || []).map(event => ({
+        id: event.id,
+        name: event.name,
+        slug: event.slug,
+        description: event.description || undefined,
+        venue: event.venue || undefined,
+        startsAt: event.starts_at ? new Date(event.starts_at) : undefined,
+        endsAt: event.ends_at ? new Date(event.ends_at) : undefined,
+        timeZone: event.time_zone,
+        organizerName: event.organizer_name || undefined,
+        organizerEmail: event.organizer_email || undefined,
+        isActive: event.is_active,
+        acceptLegacyQr: event.accept_legacy_qr,
+      }));
+
+      setEvents(formattedEvents);
+      localStorage.setItem(CACHED_EVENTS_KEY, JSON.stringify(formattedEvents));
+
+      // Fall back to the most recent event when nothing (or a deleted event) is selected
+      setSelectedEventId(current => {
+        if (current && formattedEvents.some(e => e.id === current)) {
+          return current;
+        }
+        const fallback = formattedEvents[0]?.id ?? null;
+        if (fallback) {
+          localStorage.setItem(SELECTED_EVENT_KEY, fallback);
+        } else {
+          localStorage.removeItem(SELECTED_EVENT_KEY);
+        }
+        return fallback;
+      });
+    } catch (error) {
+      console.error('Error loading events:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const selectEvent = useCallback((eventId: string) => {
+    localStorage.setItem(SELECTED_EVENT_KEY, eventId);
+    setSelectedEventId(eventId);
+  }, []);
+
+  const createEvent = useCallback(async (input: NewEventInput) => {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('events')
+      .insert({
+        ...eventDetailsRow(input),
+        slug: slugify(input.slug || input.name),
+        created_by: user?.id ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await loadEvents();
+    selectEvent(data.id);
+    return data;
+  }, [loadEvents, selectEvent]);
+
+  const updateEvent = useCallback(async (eventId: string, input: EventDetailsInput) => {
+    const { error } = await supabase
+      .from('events')
+      .update(eventDetailsRow(input))
+      .eq('id', eventId);
+
+    if (error) {
+      throw error;
+    }
+
+    await loadEvents();
+  }, [loadEvents]);
+
+  const setAcceptLegacyQr = useCallback(async (eventId: string, acceptLegacyQr: boolean) => {
+    const { error } = await supabase
+      .from('events')
+      .update({ accept_legacy_qr: acceptLegacyQr })
+      .eq('id', eventId);
+
+    if (error) {
+      throw error;
+    }
+
+    setEvents(prev => prev.map(e => e.id === eventId ? { ...e, acceptLegacyQr } : e));
+  }, []);
+
+  const selectedEvent = events.find(e => e.id === selectedEventId) || null;
+
+  return {
+    events,
+    selectedEvent,
+    loading,
+    selectEvent,
+    createEvent,
+    updateEvent,
+    setAcceptLegacyQr,
+    reload: loadEvents,
+  };
+};
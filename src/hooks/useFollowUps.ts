@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { followUpTemplate, validateTemplate } from '@/lib/emailTemplate';
+import type { EmailTemplate, FollowUpContent } from '@/lib/emailTemplate';
+import type { Attendee } from '@/components/EventDashboard';
+import { startEmailWorker } from './useEmailCampaigns';
+
+export type Attendance = 'attended' | 'no_show';
+
+// Who a follow-up goes to; fields left out don't narrow the audience
+export interface FollowUpSegment {
+  attendance?: Attendance;
+  registrationType?: 'pre_registered' | 'walk_in';
+  // Matched case-insensitively; '' stands for attendees without a company
+  companies?: string[];
+}
+
+export interface FollowUpResult {
+  id: string;
+  segment: FollowUpSegment;
+  subject: string;
+  status: 'queued' | 'sending' | 'completed' | 'cancelled';
+  totalCount: number;
+  sentCount: number;
+  failedCount: number;
+  deliveredCount: number;
+  openedCount: number;
+  // Bounces and spam complaints
+  bouncedCount: number;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+const normalizeCompany = (company?: string | null) => (company || '').trim().toLowerCase();
+
+// Attendees with a check-in instance came even if their check-in was undone later
+export const hasAttended = (attendee: Attendee, admittedIds: Set<string>) => {
+  return attendee.checkedIn || admittedIds.has(attendee.id);
+};
+
+// Client-side preview of queue_email_campaign's segment filter
+export const matchesSegment = (attendee: Attendee, segment: FollowUpSegment, admittedIds: Set<string>) => {
+  if (!attendee.email?.trim()) return false;
+  if (segment.attendance && (segment.attendance === 'attended') !== hasAttended(attendee, admittedIds)) return false;
+  if (segment.registrationType && (attendee.registrationType || 'pre_registered') !== segment.registrationType) return false;
+  if (segment.companies && !segment.companies.map(normalizeCompany).includes(normalizeCompany(attendee.company))) return false;
+  return true;
+};
+
+const POLL_INTERVAL_MS = 5000;
+// Delivery webhooks keep arriving after sending is done
+const IDLE_POLL_INTERVAL_MS = 60000;
+
+export const useFollowUps = (eventId?: string) => {
+  const [results, setResults] = useState<FollowUpResult[]>([]);
+
+  const loadResults = useCallback(async () => {
+    if (!eventId) {
+      setResults([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_follow_up_results', { event_id_param: eventId });
+
+      if (error) {
+        console.error('Error loading follow-up results:', error);
+        return;
+      }
+
+      setResults((data || []).map(row => {
+        const filters = (row.filters || {}) as { attendance?: Attendance; registration_type?: FollowUpSegment['registrationType']; companies?: string[] };
+        return {
+          id: row.campaign_id,
+          segment: {
+            attendance: filters.attendance,
+            registrationType: filters.registration_type,
+            companies: filters.companies,
+          },
+          subject: row.subject || '',
+          status: row.status as FollowUpResult['status'],
+          totalCount: row.total_count,
+          sentCount: row.sent_count,
+          failedCount: row.failed_count,
+          deliveredCount: row.delivered_count,
+          openedCount: row.opened_count,
+          bouncedCount: row.bounced_count,
+          createdBy: row.created_by_email || undefined,
+          createdAt: new Date(row.created_at),
+        };
+      }));
+    } catch (error) {
+      console.error('Error loading follow-up results:', error);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadResults();
+  }, [loadResults]);
+
+  const hasActiveFollowUp = results.some(result => result.status === 'queued' || result.status === 'sending');
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const interval = setInterval(loadResults, hasActiveFollowUp ? POLL_INTERVAL_MS : IDLE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [eventId, hasActiveFollowUp, loadResults]);
+
+  /**
+   * Queue a follow-up to everyone in the segment as an email campaign, styled like
+   * the event's template but without the QR code. Returns how many were queued.
+   */
+  const queueFollowUp = useCallback(async (segment: FollowUpSegment, content: FollowUpContent, eventTemplate: EmailTemplate) => {
+    if (!eventId) return 0;
+
+    const template = followUpTemplate(eventTemplate, content);
+    validateTemplate(template, { requireQrBlock: false });
+
+    const { data, error } = await supabase.rpc('queue_email_campaign', {
+      event_id_param: eventId,
+      audience_param: 'filtered',
+      filters_param: {
+        ...(segment.attendance ? { attendance: segment.attendance } : {}),
+        ...(segment.registrationType ? { registration_type: segment.registrationType } : {}),
+        ...(segment.companies ? { companies: segment.companies } : {}),
+      },
+      template_param: template as unknown as Json,
+      kind_param: 'follow_up',
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const queuedCount = data?.[0]?.queued_count ?? 0;
+
+    if (queuedCount > 0) {
+      startEmailWorker();
+    }
+
+    await loadResults();
+    return queuedCount;
+  }, [eventId, loadResults]);
+
+  return {
+    followUps: results,
+    queueFollowUp,
+    reload: loadResults,
+  };
+};
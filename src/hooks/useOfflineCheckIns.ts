@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { checkInByQrCode, getGuestType, isNetworkError, getGuestLabel } from '@/lib/checkin';
+import type { CheckInResult } from '@/lib/checkin';
+import {
+  enqueueCheckIn,
+  getPendingCheckIns,
+  markPendingCheckInFailed,
+  removePendingCheckIn,
+} from '@/lib/offlineCheckinStore';
+import type { CachedCheckinInstance } from '@/lib/offlineCheckinStore';
+import { isSignedQrPayload, getSignedPayloadAttendeeId } from '@/lib/qrPayload';
+import type { Attendee } from '@/components/EventDashboard';
+import type { LogEntry } from '@/components/LogsView';
+
+interface UseOfflineCheckInsOptions {
+  eventId?: string;
+  onLog?: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  onSynced?: () => void;
+}
+
+export const useOfflineCheckIns = ({ eventId, onLog, onSynced }: UseOfflineCheckInsOptions) => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  // Pending scans the server failed on; they no longer hold up the rest of the queue
+  const [failedCount, setFailedCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const isSyncingRef = useRef(false);
+
+  // Keep the latest callbacks without re-registering listeners on every render
+  const onLogRef = useRef(onLog);
+  const onSyncedRef = useRef(onSynced);
+  onLogRef.current = onLog;
+  onSyncedRef.current = onSynced;
+
+  const refreshPendingCount = useCallback(async () => {
+    if (!eventId) {
+      setPendingCount(0);
+      setFailedCount(0);
+      return;
+    }
+    try {
+      const pending = await getPendingCheckIns(eventId);
+      setPendingCount(pending.length);
+      setFailedCount(pending.filter(item => item.syncError).length);
+    } catch (error) {
+      console.error('Error reading offline check-in queue:', error);
+    }
+  }, [eventId]);
+
+  // Store a scan locally, validating it against the cached attendee list
+  const queueCheckIn = useCallback(async (
+    qrCode: string,
+    attendees: Attendee[],
+    checkinInstances: CachedCheckinInstance[]
+  ): Promise<CheckInResult> => {
+    if (!eventId) {
+      return { status: 'invalid_qr' };
+    }
+
+    let attendee: Attendee | undefined;
+    if (isSignedQrPayload(qrCode)) {
+      // Signatures need the server, but a token must match the cached copy exactly
+      attendee = attendees.find(a => a.qrToken === qrCode);
+      if (!attendee) {
+        const embeddedId = getSignedPayloadAttendeeId(qrCode);
+        if (!embeddedId || attendees.some(a => a.id === embeddedId)) {
+          return { status: 'forged_qr' };
+        }
+      }
+    } else {
+      attendee = attendees.find(a => a.qrCode === qrCode);
+    }
+
+    if (!attendee) {
+      return { status: 'invalid_qr' };
+    }
+
+    const pending = await getPendingCheckIns(eventId);
+    const attendeeInstances = checkinInstances.filter(i => i.attendee_id === attendee.id);
+    const recordedNumbers = attendeeInstances.map(i => i.checkin_number);
+    const pendingNumbers = pending
+      .filter(p => p.attendeeId === attendee.id)
+      .map(p => p.provisionalNumber);
+    const scannedAt = new Date();
+
+    // Someone from the party who checked out is coming back; the server records it as a re-entry
+    const returning = attendeeInstances
+      .filter(i => !i.on_site && i.checked_out_at && !pendingNumbers.includes(i.checkin_number))
+      .sort((a, b) => a.checkin_number - b.checkin_number)[0];
+    const provisionalNumber = returning?.checkin_number ?? Math.max(0, ...recordedNumbers, ...pendingNumbers) + 1;
+
+    // Enforce the allowance from the cached copy; the server re-checks on sync
+    if (!returning && attendee.allowedGuests != null && provisionalNumber > attendee.allowedGuests + 1) {
+      return {
+        status: 'guest_limit_reached',
+        attendeeId: attendee.id,
+        attendeeName: attendee.name,
+        attendeeEmail: attendee.email,
+        checkinNumber: provisionalNumber - 1,
+        allowedGuests: attendee.allowedGuests,
+      };
+    }
+
+    await enqueueCheckIn({
+      eventId,
+      qrCode,
+      attendeeId: attendee.id,
+      attendeeName: attendee.name,
+      attendeeEmail: attendee.email,
+      provisionalNumber,
+      scannedAt,
+    });
+    setPendingCount(pending.length + 1);
+
+    return {
+      status: 'queued',
+      attendeeId: attendee.id,
+      attendeeName: attendee.name,
+      attendeeEmail: attendee.email,
+      checkinNumber: provisionalNumber,
+      guestType: getGuestType(provisionalNumber),
+      checkedInAt: scannedAt,
+    };
+  }, [eventId]);
+
+  // Replay queued scans in the order they were made
+  const syncPending = useCallback(async () => {
+    if (!eventId || isSyncingRef.current || !navigator.onLine) return;
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    let syncedCount = 0;
+
+    try {
+      const pending = await getPendingCheckIns(eventId);
+
+      for (const item of pending) {
+        let result: CheckInResult;
+        try {
+          result = await checkInByQrCode(item.qrCode, item.eventId, { scannedAt: new Date(item.scannedAt) });
+        } catch (error) {
+          if (isNetworkError(error)) {
+            // Connection dropped again; keep the rest of the queue for the next attempt
+            break;
+          }
+          console.error('Error syncing offline check-in:', error);
+          const message = (error as Error)?.message || 'Unknown error';
+          // Keep the scan for the next sync but move on, so one bad scan does not hold up the rest
+          await markPendingCheckInFailed(item, message);
+          if (!item.syncError) {
+            onLogRef.current?.({
+              type: 'checkin',
+              action: 'Offline check-in sync failed',
+              user: item.attendeeName,
+              email: item.attendeeEmail,
+              details: `QR Code: ${item.qrCode} - ${message}`,
+              status: 'error'
+            });
+          }
+          continue;
+        }
+
+        await removePendingCheckIn(item.id);
+        syncedCount++;
+
+        if (result.status === 're_entered') {
+          // The server recognised a returning party member; no new guest was counted
+          onLogRef.current?.({
+            type: 'checkin',
+            action: `${getGuestLabel(result.checkinNumber)} re-entered (synced from offline)`,
+            user: result.attendeeName,
+            email: result.attendeeEmail,
+            details: `QR Code: ${item.qrCode} - Re-entry of check-in #${result.checkinNumber}`,
+            status: 'success'
+          });
+          continue;
+        }
+
+        if (result.status !== 'checked_in') {
+          onLogRef.current?.({
+            type: 'checkin',
+            action: 'Offline check-in rejected',
+            user: item.attendeeName,
+            email: item.attendeeEmail,
+            details: result.status === 'guest_limit_reached'
+              ? `QR Code: ${item.qrCode} - Guest limit reached (${result.allowedGuests} plus guests allowed)`
+              : result.status === 'revoked_qr'
+                ? `QR Code: ${item.qrCode} was revoked before the scan was synced`
+                : `QR Code: ${item.qrCode} was not accepted by the server`,
+            status: 'error'
+          });
+          continue;
+        }
+
+        // Another device may have checked the same guest in while this one was offline
+        const renumbered = result.checkinNumber !== item.provisionalNumber;
+        onLogRef.current?.({
+          type: 'checkin',
+          action: `${getGuestLabel(result.checkinNumber)} checked in (synced from offline)`,
+          user: result.attendeeName,
+          email: result.attendeeEmail,
+          details: renumbered
+            ? `QR Code: ${item.qrCode} - Recorded offline as #${item.provisionalNumber}, stored as #${result.checkinNumber}`
+            : `QR Code: ${item.qrCode} - Check-in #${result.checkinNumber}`,
+          status: 'success'
+        });
+      }
+    } catch (error) {
+      console.error('Error syncing offline check-ins:', error);
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+      await refreshPendingCount();
+      if (syncedCount > 0) {
+        onSyncedRef.current?.();
+      }
+    }
+  }, [eventId, refreshPendingCount]);
+
+  useEffect(() => {
+    refreshPendingCount();
+    syncPending();
+  }, [refreshPendingCount, syncPending]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncPending();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncPending]);
+
+  return {
+    isOnline,
+    pendingCount,
+    failedCount,
+    isSyncing,
+    queueCheckIn,
+    syncPending,
+  };
+};
@@ -0,0 +1,172 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Tables } from '@/integrations/supabase/types';
+
+const STATION_ID_KEY = 'stationId';
+const STATION_NAME_KEY = 'stationName';
+
+export interface ScannerStation {
+  stationId: string;
+  name: string;
+  userEmail?: string;
+  // True while the station has the check-in tab open
+  scanning: boolean;
+  onlineAt: string;
+}
+
+interface UseRealtimeEventOptions {
+  eventId?: string;
+  userEmail?: string;
+  scanning: boolean;
+  onAttendeeChange?: (payload: RealtimePostgresChangesPayload<Tables<'attendees'>>) => void;
+  onCheckinInstanceChange?: (payload: RealtimePostgresChangesPayload<Tables<'checkin_instances'>>) => void;
+  onSessionCheckinChange?: (payload: RealtimePostgresChangesPayload<Tables<'session_checkins'>>) => void;
+  // Called when the channel reconnects, since changes made while disconnected are not replayed
+  onResync?: () => void;
+}
+
+// Each browser keeps a stable station id so reloads do not show up as new stations
+const getStationId = () => {
+  let stationId = localStorage.getItem(STATION_ID_KEY);
+  if (!stationId) {
+    stationId = crypto.randomUUID();
+    localStorage.setItem(STATION_ID_KEY, stationId);
+  }
+  return stationId;
+};
+
+export const useRealtimeEvent = ({
+  eventId,
+  userEmail,
+  scanning,
+  onAttendeeChange,
+  onCheckinInstanceChange,
+  onSessionCheckinChange,
+  onResync,
+}: UseRealtimeEventOptions) => {
+  const [stationId] = useState(getStationId);
+  const [stationName, setStationNameState] = useState(() => {
+    return localStorage.getItem(STATION_NAME_KEY) || `Station ${stationId.slice(0, 4).toUpperCase()}`;
+  });
+  const [stations, setStations] = useState<ScannerStation[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  // Keep the latest callbacks without resubscribing on every render
+  const onAttendeeChangeRef = useRef(onAttendeeChange);
+  const onCheckinInstanceChangeRef = useRef(onCheckinInstanceChange);
+  const onSessionCheckinChangeRef = useRef(onSessionCheckinChange);
+  const onResyncRef = useRef(onResync);
+  onAttendeeChangeRef.current = onAttendeeChange;
+  onCheckinInstanceChangeRef.current = onCheckinInstanceChange;
+  onSessionCheckinChangeRef.current = onSessionCheckinChange;
+  onResyncRef.current = onResync;
+
+  const stationRef = useRef<ScannerStation>();
+  stationRef.current = {
+    stationId,
+    name: stationName,
+    userEmail,
+    scanning,
+    onlineAt: stationRef.current?.onlineAt || new Date().toISOString(),
+  };
+
+  useEffect(() => {
+    if (!eventId) {
+      setStations([]);
+      setIsConnected(false);
+      return;
+    }
+
+    let hasSubscribed = false;
+    const channel = supabase.channel(`event-${eventId}`, {
+      config: { presence: { key: stationId } },
+    });
+
+    // Realtime does not deliver deletes to filtered subscriptions, and on tables with
+    // RLS the old row only carries its id. Deletes are received for every event;
+    // ids are unique, so an id that is not in the local list changes nothing.
+    channel
+      .on<Tables<'attendees'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'attendees', filter: `event_id=eq.${eventId}` },
+        payload => onAttendeeChangeRef.current?.(payload)
+      )
+      .on<Tables<'attendees'>>(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'attendees' },
+        payload => onAttendeeChangeRef.current?.(payload)
+      )
+      .on<Tables<'checkin_instances'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'checkin_instances', filter: `event_id=eq.${eventId}` },
+        payload => onCheckinInstanceChangeRef.current?.(payload)
+      )
+      .on<Tables<'checkin_instances'>>(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'checkin_instances' },
+        payload => onCheckinInstanceChangeRef.current?.(payload)
+      )
+      .on<Tables<'session_checkins'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'session_checkins', filter: `event_id=eq.${eventId}` },
+        payload => onSessionCheckinChangeRef.current?.(payload)
+      )
+      .on<Tables<'session_checkins'>>(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'session_checkins' },
+        payload => onSessionCheckinChangeRef.current?.(payload)
+      )
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<ScannerStation>();
+        // A station with several tabs open is listed once, using its latest state
+        const activeStations = Object.values(state)
+          .map(presences => presences[presences.length - 1])
+          .filter(Boolean)
+          .sort((a, b) => a.name.localeCompare(b.name));
+        setStations(activeStations);
+      })
+      .subscribe(async status => {
+        if (status === 'SUBSCRIBED') {
+          setIsConnected(true);
+          await channel.track(stationRef.current);
+          if (hasSubscribed) {
+            onResyncRef.current?.();
+          }
+          hasSubscribed = true;
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          setIsConnected(false);
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, stationId]);
+
+  // Re-announce this station when its name or scanning state changes
+  useEffect(() => {
+    if (isConnected) {
+      channelRef.current?.track(stationRef.current);
+    }
+  }, [isConnected, stationName, scanning, userEmail]);
+
+  const setStationName = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    localStorage.setItem(STATION_NAME_KEY, trimmed);
+    setStationNameState(trimmed);
+  };
+
+  return {
+    stationId,
+    stationName,
+    setStationName,
+    stations,
+    isConnected,
+  };
+};
@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Who a reminder goes to; attendees without an email address are always skipped
+export type ReminderAudience = 'all' | 'not_checked_in';
+
+export interface ReminderRule {
+  id: string;
+  name: string;
+  hoursBefore: number;
+  audience: ReminderAudience;
+  subject?: string;
+  message?: string;
+  enabled: boolean;
+  // Attendees this rule has emailed so far
+  sentCount: number;
+  lastQueuedAt?: Date;
+  createdBy?: string;
+}
+
+export interface ReminderRuleInput {
+  name: string;
+  hoursBefore: number;
+  audience: ReminderAudience;
+  subject?: string;
+  message?: string;
+  enabled: boolean;
+}
+
+// The send-reminders cron job picks up due rules this often
+export const REMINDER_CHECK_INTERVAL_MINUTES = 15;
+
+// When a rule is due, or undefined while the event has no start time
+export const reminderSendTime = (rule: Pick<ReminderRule, 'hoursBefore'>, startsAt?: Date) => {
+  return startsAt ? new Date(startsAt.getTime() - rule.hoursBefore * 60 * 60 * 1000) : undefined;
+};
+
+// Sent counts change as the cron job runs
+const POLL_INTERVAL_MS = 60000;
+
+const toRow = (input: ReminderRuleInput) => ({
+  name: input.name.trim(),
+  hours_before: input.hoursBefore,
+  audience: input.audience,
+  subject: input.subject?.trim() || null,
+  message: input.message?.trim() || null,
+  enabled: input.enabled,
+});
+
+export const useReminderRules = (eventId?: string) => {
+  const [rules, setRules] = useState<ReminderRule[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    if (!eventId) {
+      setRules([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('reminder_rules')
+        .select('*, reminder_sends(count)')
+        .eq('event_id', eventId)
+        .order('hours_before', { ascending: false });
+
+      if (error) {
+        console.error('Error loading reminder rules:', error);
+        return;
+      }
+
+      setRules((data || []).map(rule => ({
+        id: rule.id,
+        name: rule.name,
+        hoursBefore: rule.hours_before,
+        audience: rule.audience as ReminderAudience,
+        subject: rule.subject || undefined,
+        message: rule.message || undefined,
+        enabled: rule.enabled,
+        sentCount: rule.reminder_sends?.[0]?.count ?? 0,
+        lastQueuedAt: rule.last_queued_at ? new Date(rule.last_queued_at) : undefined,
+        createdBy: rule.created_by_email || undefined,
+      })));
+    } catch (error) {
+      console.error('Error loading reminder rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const interval = setInterval(loadRules, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [eventId, loadRules]);
+
+  const createRule = useCallback(async (input: ReminderRuleInput) => {
+    if (!eventId) return;
+
+    const { error } = await supabase
+      .from('reminder_rules')
+      .insert({ event_id: eventId, ...toRow(input) });
+
+    if (error) {
+      throw error;
+    }
+
+    await loadRules();
+  }, [eventId, loadRules]);
+
+  const updateRule = useCallback(async (ruleId: string, input: ReminderRuleInput) => {
+    const { error } = await supabase
+      .from('reminder_rules')
+      .update(toRow(input))
+      .eq('id', ruleId);
+
+    if (error) {
+      throw error;
+    }
+
+    await loadRules();
+  }, [loadRules]);
+
+  const deleteRule = useCallback(async (ruleId: string) => {
+    const { error } = await supabase
+      .from('reminder_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      throw error;
+    }
+
+    setRules(prev => prev.filter(rule => rule.id !== ruleId));
+  }, []);
+
+  return {
+    rules,
+    loading,
+    createRule,
+    updateRule,
+    deleteRule,
+    reload: loadRules,
+  };
+};
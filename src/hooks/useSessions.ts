@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface EventSession {
+  id: string;
+  name: string;
+  track?: string;
+  room?: string;
+  startsAt: Date;
+  endsAt: Date;
+  // Seat limit; undefined means unlimited
+  capacity?: number;
+}
+
+export interface SessionCheckin {
+  id: string;
+  sessionId: string;
+  attendeeId: string;
+  checkedInAt: Date;
+}
+
+export interface NewSessionInput {
+  name: string;
+  track?: string;
+  room?: string;
+  startsAt: string;
+  endsAt: string;
+  capacity?: number;
+}
+
+const toSession = (session: Tables<'sessions'>): EventSession => ({
+  id: session.id,
+  name: session.name,
+  track: session.track || undefined,
+  room: session.room || undefined,
+  startsAt: new Date(session.starts_at),
+  endsAt: new Date(session.ends_at),
+  capacity: session.capacity ?? undefined,
+});
+
+export const toSessionCheckin = (checkin: Tables<'session_checkins'>): SessionCheckin => ({
+  id: checkin.id,
+  sessionId: checkin.session_id,
+  attendeeId: checkin.attendee_id,
+  checkedInAt: new Date(checkin.checked_in_at),
+});
+
+export const useSessions = (eventId?: string) => {
+  const [sessions, setSessions] = useState<EventSession[]>([]);
+  const [sessionCheckins, setSessionCheckins] = useState<SessionCheckin[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    if (!eventId) {
+      setSessions([]);
+      setSessionCheckins([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const [sessionsResult, checkinsResult] = await Promise.all([
+        supabase
+          .from('sessions')
+          .select('*')
+          .eq('event_id', eventId)
+          .order('starts_at', { ascending: true }),
+        supabase
+          .from('session_checkins')
+          .select('*')
+          .eq('event_id', eventId),
+      ]);
+
+      if (sessionsResult.error) {
+        console.error('Error loading sessions:', sessionsResult.error);
+        return;
+      }
+      if (checkinsResult.error) {
+        console.error('Error loading session check-ins:', checkinsResult.error);
+        return;
+      }
+
+      setSessions((sessionsResult.data || []).map(toSession));
+      setSessionCheckins((checkinsResult.data || []).map(toSessionCheckin));
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const createSession = useCallback(async (input: NewSessionInput) => {
+    if (!eventId) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await supabase
+      .from('sessions')
+      .insert({
+        event_id: eventId,
+        name: input.name.trim(),
+        track: input.track?.trim() || null,
+        room: input.room?.trim() || null,
+        starts_at: new Date(input.startsAt).toISOString(),
+        ends_at: new Date(input.endsAt).toISOString(),
+        capacity: input.capacity ?? null,
+        created_by: user?.id ?? null,
+      });
+
+    if (error) {
+      throw error;
+    }
+
+    await loadSessions();
+  }, [eventId, loadSessions]);
+
+  const deleteSession = useCallback(async (sessionId: string) => {
+    const { error } = await supabase
+      .from('sessions')
+      .delete()
+      .eq('id', sessionId);
+
+    if (error) {
+      throw error;
+    }
+
+    setSessions(prev => prev.filter(s => s.id !== sessionId));
+    setSessionCheckins(prev => prev.filter(c => c.sessionId !== sessionId));
+  }, []);
+
+  // Apply a realtime insert from another device
+  const applySessionCheckin = useCallback((checkin: SessionCheckin) => {
+    setSessionCheckins(prev => [...prev.filter(c => c.id !== checkin.id), checkin]);
+  }, []);
+
+  // Realtime deletes only carry the row's id
+  const removeSessionCheckin = useCallback((checkinId: string) => {
+    setSessionCheckins(prev => prev.filter(c => c.id !== checkinId));
+  }, []);
+
+  return {
+    sessions,
+    sessionCheckins,
+    loading,
+    createSession,
+    deleteSession,
+    applySessionCheckin,
+    removeSessionCheckin,
+    reload: loadSessions,
+  };
+};
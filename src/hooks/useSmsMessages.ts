@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export type SmsDeliveryStatus = 'sending' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+export interface AttendeeSmsStatus {
+  status: SmsDeliveryStatus;
+  // E.164, as texted
+  recipientPhone: string;
+  lastError?: string;
+  updatedAt: Date;
+}
+
+export interface SmsSendResult {
+  sent: number;
+  failed: number;
+  // Selected attendees without a phone number
+  skipped: number;
+}
+
+// The send-sms function's per-request limit
+const SEND_CHUNK_SIZE = 100;
+// Delivery callbacks keep arriving after sending is done
+const POLL_INTERVAL_MS = 60000;
+
+export const useSmsMessages = (eventId?: string) => {
+  const [smsStatuses, setSmsStatuses] = useState<Record<string, AttendeeSmsStatus>>({});
+
+  const loadStatuses = useCallback(async () => {
+    if (!eventId) {
+      setSmsStatuses({});
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_sms_statuses', { event_id_param: eventId });
+
+    if (error) {
+      console.error('Error loading SMS statuses:', error);
+      return;
+    }
+
+    setSmsStatuses(Object.fromEntries((data || []).map(row => [row.attendee_id, {
+      status: row.status as SmsDeliveryStatus,
+      recipientPhone: row.recipient_phone,
+      lastError: row.last_error || undefined,
+      updatedAt: new Date(row.updated_at),
+    }])));
+  }, [eventId]);
+
+  useEffect(() => {
+    loadStatuses();
+  }, [loadStatuses]);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const interval = setInterval(loadStatuses, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [eventId, loadStatuses]);
+
+  /**
+   * Text each attendee a short link to their QR code through the `send-sms` edge
+   * function, in chunks of its per-request limit.
+   */
+  const sendSms = useCallback(async (attendeeIds: string[]): Promise<SmsSendResult> => {
+    const total: SmsSendResult = { sent: 0, failed: 0, skipped: 0 };
+    if (!eventId || attendeeIds.length === 0) return total;
+
+    try {
+      for (let i = 0; i < attendeeIds.length; i += SEND_CHUNK_SIZE) {
+        const { data, error } = await supabase.functions.invoke('send-sms', {
+          body: { eventId, attendeeIds: attendeeIds.slice(i, i + SEND_CHUNK_SIZE) },
+        });
+
+        if (error) {
+          throw error;
+        }
+        if (!data?.success) {
+          throw new Error(data?.error || 'Failed to send SMS messages');
+        }
+
+        total.sent += data.sent;
+        total.failed += data.failed;
+        total.skipped += data.skipped;
+      }
+    } finally {
+      await loadStatuses();
+    }
+
+    return total;
+  }, [eventId, loadStatuses]);
+
+  return {
+    smsStatuses,
+    sendSms,
+    reload: loadStatuses,
+  };
+};
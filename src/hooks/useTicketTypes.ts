@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TicketType {
+  id: string;
+  name: string;
+  color: string;
+  // When false, holders may only enter the sessions in sessionIds
+  allSessions: boolean;
+  sessionIds: string[];
+}
+
+export interface TicketTypeInput {
+  name: string;
+  color: string;
+  allSessions: boolean;
+  sessionIds: string[];
+}
+
+// Whether a ticket type may enter a session; attendees without a type are unrestricted
+export const canAccessSession = (ticketType: TicketType | undefined, sessionId: string) => {
+  return !ticketType || ticketType.allSessions || ticketType.sessionIds.includes(sessionId);
+};
+
+// Case-insensitive lookup used by the CSV import
+export const findTicketTypeByName = (ticketTypes: TicketType[], name: string) => {
+  const normalized = name.trim().toLowerCase();
+  return ticketTypes.find(t => t.name.toLowerCase() === normalized);
+};
+
+export const useTicketTypes = (eventId?: string) => {
+  const [ticketTypes, setTicketTypes] = useState<TicketType[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadTicketTypes = useCallback(async () => {
+    if (!eventId) {
+      setTicketTypes([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('ticket_types')
+        .select('*, ticket_type_sessions(session_id)')
+        .eq('event_id', eventId)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error loading ticket types:', error);
+        return;
+      }
+
+      setTicketTypes((data || []).map(ticketType => ({
+        id: ticketType.id,
+        name: ticketType.name,
+        color: ticketType.color,
+        allSessions: ticketType.all_sessions,
+        sessionIds: (ticketType.ticket_type_sessions || []).map(s => s.session_id),
+      })));
+    } catch (error) {
+      console.error('Error loading ticket types:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadTicketTypes();
+  }, [loadTicketTypes]);
+
+  const replaceSessionAccess = async (ticketTypeId: string, sessionIds: string[]) => {
+    const { error: deleteError } = await supabase
+      .from('ticket_type_sessions')
+      .delete()
+      .eq('ticket_type_id', ticketTypeId);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    if (sessionIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('ticket_type_sessions')
+      .insert(sessionIds.map(sessionId => ({ ticket_type_id: ticketTypeId, session_id: sessionId })));
+
+    if (error) {
+      throw error;
+    }
+  };
+
+  const createTicketType = useCallback(async (input: TicketTypeInput) => {
+    if (!eventId) return;
+
+    const { data, error } = await supabase
+      .from('ticket_types')
+      .insert({
+        event_id: eventId,
+        name: input.name.trim(),
+        color: input.color,
+        all_sessions: input.allSessions,
+        sort_order: ticketTypes.length,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!input.allSessions) {
+      await replaceSessionAccess(data.id, input.sessionIds);
+    }
+
+    await loadTicketTypes();
+  }, [eventId, ticketTypes.length, loadTicketTypes]);
+
+  const updateTicketType = useCallback(async (ticketTypeId: string, input: TicketTypeInput) => {
+    const { error } = await supabase
+      .from('ticket_types')
+      .update({
+        name: input.name.trim(),
+        color: input.color,
+        all_sessions: input.allSessions,
+      })
+      .eq('id', ticketTypeId);
+
+    if (error) {
+      throw error;
+    }
+
+    await replaceSessionAccess(ticketTypeId, input.allSessions ? [] : input.sessionIds);
+    await loadTicketTypes();
+  }, [loadTicketTypes]);
+
+  const deleteTicketType = useCallback(async (ticketTypeId: string) => {
+    const { error } = await supabase
+      .from('ticket_types')
+      .delete()
+      .eq('id', ticketTypeId);
+
+    if (error) {
+      throw error;
+    }
+
+    setTicketTypes(prev => prev.filter(t => t.id !== ticketTypeId));
+  }, []);
+
+  return {
+    ticketTypes,
+    loading,
+    createTicketType,
+    updateTicketType,
+    deleteTicketType,
+    reload: loadTicketTypes,
+  };
+};
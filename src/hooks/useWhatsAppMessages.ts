@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export type WhatsAppDeliveryStatus = 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface AttendeeWhatsAppStatus {
+  status: WhatsAppDeliveryStatus;
+  lastError?: string;
+  updatedAt: Date;
+}
+
+export interface WhatsAppSendResult {
+  sent: number;
+  failed: number;
+  // Selected attendees without a phone number
+  skipped: number;
+}
+
+// The send-whatsapp function's per-request limit
+const SEND_CHUNK_SIZE = 100;
+// Status webhooks keep arriving after sending is done
+const POLL_INTERVAL_MS = 60000;
+
+export const useWhatsAppMessages = (eventId?: string) => {
+  const [whatsAppStatuses, setWhatsAppStatuses] = useState<Record<string, AttendeeWhatsAppStatus>>({});
+
+  const loadStatuses = useCallback(async () => {
+    if (!eventId) {
+      setWhatsAppStatuses({});
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_whatsapp_statuses', { event_id_param: eventId });
+
+    if (error) {
+      console.error('Error loading WhatsApp statuses:', error);
+      return;
+    }
+
+    setWhatsAppStatuses(Object.fromEntries((data || []).map(row => [row.attendee_id, {
+      status: row.status as WhatsAppDeliveryStatus,
+      lastError: row.last_error || undefined,
+      updatedAt: new Date(row.updated_at),
+    }])));
+  }, [eventId]);
+
+  useEffect(() => {
+    loadStatuses();
+  }, [loadStatuses]);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const interval = setInterval(loadStatuses, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [eventId, loadStatuses]);
+
+  /**
+   * Send each attendee their QR code as a WhatsApp template message through the
+   * `send-whatsapp` edge function, in chunks of its per-request limit.
+   */
+  const sendWhatsApp = useCallback(async (attendeeIds: string[]): Promise<WhatsAppSendResult> => {
+    const total: WhatsAppSendResult = { sent: 0, failed: 0, skipped: 0 };
+    if (!eventId || attendeeIds.length === 0) return total;
+
+    try {
+      for (let i = 0; i < attendeeIds.length; i += SEND_CHUNK_SIZE) {
+        const { data, error } = await supabase.functions.invoke('send-whatsapp', {
+          body: { eventId, attendeeIds: attendeeIds.slice(i, i + SEND_CHUNK_SIZE) },
+        });
+
+        if (error) {
+          throw error;
+        }
+        if (!data?.success) {
+          throw new Error(data?.error || 'Failed to send WhatsApp messages');
+        }
+
+        total.sent += data.sent;
+        total.failed += data.failed;
+        total.skipped += data.skipped;
+      }
+    } finally {
+      await loadStatuses();
+    }
+
+    return total;
+  }, [eventId, loadStatuses]);
+
+  return {
+    whatsAppStatuses,
+    sendWhatsApp,
+    reload: loadStatuses,
+  };
+};
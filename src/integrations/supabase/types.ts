@@ -17,8 +17,11 @@ export type Database = {
       activity_logs: {
         Row: {
           action: string
+          actor_email: string | null
+          actor_id: string | null
           created_at: string
           details: string | null
+          event_id: string | null
           id: string
           metadata: Json | null
           status: string
@@ -29,8 +32,11 @@ export type Database = {
         }
         Insert: {
           action: string
+          actor_email?: string | null
+          actor_id?: string | null
           created_at?: string
           details?: string | null
+          event_id?: string | null
           id?: string
           metadata?: Json | null
           status: string
@@ -41,8 +47,11 @@ export type Database = {
         }
         Update: {
           action?: string
+          actor_email?: string | null
+          actor_id?: string | null
           created_at?: string
           details?: string | null
+          event_id?: string | null
           id?: string
           metadata?: Json | null
           status?: string
@@ -51,76 +60,183 @@ export type Database = {
           user_email?: string | null
           user_name?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "activity_logs_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendee_audit: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          attendee_id: string
+          changes: Json
+          created_at: string
+          details: string | null
+          event_id: string | null
+          id: string
+          status: string | null
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          attendee_id: string
+          changes?: Json
+          created_at?: string
+          details?: string | null
+          event_id?: string | null
+          id?: string
+          status?: string | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          attendee_id?: string
+          changes?: Json
+          created_at?: string
+          details?: string | null
+          event_id?: string | null
+          id?: string
+          status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendee_audit_attendee_id_fkey"
+            columns: ["attendee_id"]
+            isOneToOne: false
+            referencedRelation: "attendees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendee_audit_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       attendees: {
         Row: {
+          allowed_guests: number | null
           checked_in: boolean
           checked_in_at: string | null
           company: string | null
           created_at: string
           email: string
+          event_id: string
           id: string
           name: string
           phone: string | null
           qr_code: string | null
+          qr_token: string | null
           registration_type: string
+          ticket_type_id: string | null
           updated_at: string
         }
         Insert: {
+          allowed_guests?: number | null
           checked_in?: boolean
           checked_in_at?: string | null
           company?: string | null
           created_at?: string
           email: string
+          event_id: string
           id?: string
           name: string
           phone?: string | null
           qr_code?: string | null
+          qr_token?: string | null
           registration_type?: string
+          ticket_type_id?: string | null
           updated_at?: string
         }
         Update: {
+          allowed_guests?: number | null
           checked_in?: boolean
           checked_in_at?: string | null
           company?: string | null
           created_at?: string
           email?: string
+          event_id?: string
           id?: string
           name?: string
           phone?: string | null
           qr_code?: string | null
+          qr_token?: string | null
           registration_type?: string
+          ticket_type_id?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "attendees_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendees_ticket_type_id_fkey"
+            columns: ["ticket_type_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_types"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       checkin_instances: {
         Row: {
           attendee_id: string
           checked_in_at: string
+          checked_out_at: string | null
           checkin_number: number
           created_at: string
+          dwell_seconds: number
+          event_id: string
           guest_type: string
           id: string
+          last_entry_at: string | null
+          on_site: boolean
+          override_by: string | null
           qr_code: string
         }
         Insert: {
           attendee_id: string
           checked_in_at?: string
+          checked_out_at?: string | null
           checkin_number?: number
           created_at?: string
+          dwell_seconds?: number
+          event_id: string
           guest_type?: string
           id?: string
+          last_entry_at?: string | null
+          on_site?: boolean
+          override_by?: string | null
           qr_code: string
         }
         Update: {
           attendee_id?: string
           checked_in_at?: string
+          checked_out_at?: string | null
           checkin_number?: number
           created_at?: string
+          dwell_seconds?: number
+          event_id?: string
           guest_type?: string
           id?: string
+          last_entry_at?: string | null
+          on_site?: boolean
+          override_by?: string | null
           qr_code?: string
         }
         Relationships: [
@@ -131,166 +247,1279 @@ export type Database = {
             referencedRelation: "attendees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "checkin_instances_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      invited_users: {
+      checkin_movements: {
         Row: {
-          email: string
+          attendee_id: string
+          checkin_instance_id: string
+          direction: string
+          event_id: string
           id: string
-          invited_at: string
-          invited_by: string | null
+          occurred_at: string
+          recorded_by: string | null
+        }
+        Insert: {
+          attendee_id: string
+          checkin_instance_id: string
+          direction: string
+          event_id: string
+          id?: string
+          occurred_at?: string
+          recorded_by?: string | null
+        }
+        Update: {
+          attendee_id?: string
+          checkin_instance_id?: string
+          direction?: string
+          event_id?: string
+          id?: string
+          occurred_at?: string
+          recorded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checkin_movements_attendee_id_fkey"
+            columns: ["attendee_id"]
+            isOneToOne: false
+            referencedRelation: "attendees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checkin_movements_checkin_instance_id_fkey"
+            columns: ["checkin_instance_id"]
+            isOneToOne: false
+            referencedRelation: "checkin_instances"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checkin_movements_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_campaigns: {
+        Row: {
+          audience: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          event_id: string
+          failed_count: number
+          filters: Json
+          id: string
+          kind: string
+          message: string | null
+          reminder_rule_id: string | null
+          sent_count: number
+          started_at: string | null
           status: string
-          used_at: string | null
+          subject: string | null
+          template: Json | null
+          template_version: number | null
+          total_count: number
         }
         Insert: {
-          email: string
+          audience: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          event_id: string
+          failed_count?: number
+          filters?: Json
           id?: string
-          invited_at?: string
-          invited_by?: string | null
+          kind?: string
+          message?: string | null
+          reminder_rule_id?: string | null
+          sent_count?: number
+          started_at?: string | null
           status?: string
-          used_at?: string | null
+          subject?: string | null
+          template?: Json | null
+          template_version?: number | null
+          total_count?: number
         }
         Update: {
-          email?: string
+          audience?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          event_id?: string
+          failed_count?: number
+          filters?: Json
           id?: string
-          invited_at?: string
-          invited_by?: string | null
+          kind?: string
+          message?: string | null
+          reminder_rule_id?: string | null
+          sent_count?: number
+          started_at?: string | null
           status?: string
-          used_at?: string | null
+          subject?: string | null
+          template?: Json | null
+          template_version?: number | null
+          total_count?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "email_campaigns_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_campaigns_reminder_rule_id_fkey"
+            columns: ["reminder_rule_id"]
+            isOneToOne: false
+            referencedRelation: "reminder_rules"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      email_delivery_events: {
         Row: {
+          attendee_id: string
           created_at: string
-          email: string
-          full_name: string | null
+          detail: string | null
+          email_created_at: string
+          email_message_id: string | null
+          event_id: string
+          event_type: string
           id: string
-          updated_at: string
-          user_id: string
+          occurred_at: string
+          payload: Json
+          provider_message_id: string
+          recipient_email: string | null
+          webhook_id: string
         }
         Insert: {
+          attendee_id: string
           created_at?: string
-          email: string
-          full_name?: string | null
+          detail?: string | null
+          email_created_at: string
+          email_message_id?: string | null
+          event_id: string
+          event_type: string
           id?: string
-          updated_at?: string
-          user_id: string
+          occurred_at: string
+          payload?: Json
+          provider_message_id: string
+          recipient_email?: string | null
+          webhook_id: string
         }
         Update: {
+          attendee_id?: string
           created_at?: string
-          email?: string
-          full_name?: string | null
+          detail?: string | null
+          email_created_at?: string
+          email_message_id?: string | null
+          event_id?: string
+          event_type?: string
           id?: string
-          updated_at?: string
-          user_id?: string
+          occurred_at?: string
+          payload?: Json
+          provider_message_id?: string
+          recipient_email?: string | null
+          webhook_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "email_delivery_events_attendee_id_fkey"
+            columns: ["attendee_id"]
+            isOneToOne: false
+            referencedRelation: "attendees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_delivery_events_email_message_id_fkey"
+            columns: ["email_message_id"]
+            isOneToOne: false
+            referencedRelation: "email_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_delivery_events_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      registration_rate_limits: {
+      email_messages: {
         Row: {
-          attempt_count: number
-          client_ip: string
+          attempts: number
+          attendee_id: string
+          campaign_id: string
+          created_at: string
+          event_id: string
           id: string
-          last_attempt: string
-          window_start: string
+          last_error: string | null
+          next_attempt_at: string
+          provider_message_id: string | null
+          recipient_email: string
+          sent_at: string | null
+          status: string
+          updated_at: string
         }
         Insert: {
-          attempt_count?: number
-          client_ip: string
+          attempts?: number
+          attendee_id: string
+          campaign_id: string
+          created_at?: string
+          event_id: string
           id?: string
-          last_attempt?: string
-          window_start?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          provider_message_id?: string | null
+          recipient_email: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
         }
         Update: {
-          attempt_count?: number
-          client_ip?: string
+          attempts?: number
+          attendee_id?: string
+          campaign_id?: string
+          created_at?: string
+          event_id?: string
           id?: string
-          last_attempt?: string
-          window_start?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          provider_message_id?: string | null
+          recipient_email?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "email_messages_attendee_id_fkey"
+            columns: ["attendee_id"]
+            isOneToOne: false
+            referencedRelation: "attendees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_messages_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_messages_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      registration_tokens: {
+      email_template_versions: {
         Row: {
+          content: Json
           created_at: string
           created_by: string | null
-          current_uses: number
-          expires_at: string
+          created_by_email: string | null
+          event_id: string
           id: string
-          is_active: boolean
-          max_uses: number
-          notes: string | null
-          token: string
-          used_at: string | null
-          used_by_email: string | null
+          version: number
         }
         Insert: {
+          content: Json
           created_at?: string
           created_by?: string | null
-          current_uses?: number
-          expires_at: string
+          created_by_email?: string | null
+          event_id: string
           id?: string
-          is_active?: boolean
-          max_uses?: number
-          notes?: string | null
-          token: string
-          used_at?: string | null
-          used_by_email?: string | null
+          version: number
         }
         Update: {
+          content?: Json
           created_at?: string
           created_by?: string | null
-          current_uses?: number
-          expires_at?: string
+          created_by_email?: string | null
+          event_id?: string
           id?: string
-          is_active?: boolean
-          max_uses?: number
-          notes?: string | null
-          token?: string
-          used_at?: string | null
-          used_by_email?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_template_versions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_worker_lease: {
+        Row: {
+          holder: string | null
+          id: number
+          locked_until: string
+        }
+        Insert: {
+          holder?: string | null
+          id?: number
+          locked_until?: string
+        }
+        Update: {
+          holder?: string | null
+          id?: number
+          locked_until?: string
         }
         Relationships: []
       }
-      user_roles: {
+      events: {
         Row: {
+          accept_legacy_qr: boolean
           created_at: string
+          created_by: string | null
+          description: string | null
+          ends_at: string | null
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          is_active: boolean
+          name: string
+          organizer_email: string | null
+          organizer_name: string | null
+          slug: string
+          starts_at: string | null
+          time_zone: string
+          updated_at: string
+          venue: string | null
         }
         Insert: {
+          accept_legacy_qr?: boolean
           created_at?: string
+          created_by?: string | null
+          description?: string | null
+          ends_at?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          is_active?: boolean
+          name: string
+          organizer_email?: string | null
+          organizer_name?: string | null
+          slug: string
+          starts_at?: string | null
+          time_zone?: string
+          updated_at?: string
+          venue?: string | null
         }
         Update: {
+          accept_legacy_qr?: boolean
           created_at?: string
+          created_by?: string | null
+          description?: string | null
+          ends_at?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id?: string
+          is_active?: boolean
+          name?: string
+          organizer_email?: string | null
+          organizer_name?: string | null
+          slug?: string
+          starts_at?: string | null
+          time_zone?: string
+          updated_at?: string
+          venue?: string | null
         }
         Relationships: []
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      cleanup_expired_tokens: {
-        Args: Record<PropertyKey, never>
-        Returns: undefined
-      }
+      invited_users: {
+        Row: {
+          email: string
+          id: string
+          invited_at: string
+          invited_by: string | null
+          status: string
+          used_at: string | null
+        }
+        Insert: {
+          email: string
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          status?: string
+          used_at?: string | null
+        }
+        Update: {
+          email?: string
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          status?: string
+          used_at?: string | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          full_name: string | null
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      qr_signing_keys: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          secret: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          secret?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
+      registration_rate_limits: {
+        Row: {
+          attempt_count: number
+          client_ip: string
+          id: string
+          last_attempt: string
+          window_start: string
+        }
+        Insert: {
+          attempt_count?: number
+          client_ip: string
+          id?: string
+          last_attempt?: string
+          window_start?: string
+        }
+        Update: {
+          attempt_count?: number
+          client_ip?: string
+          id?: string
+          last_attempt?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      registration_tokens: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          current_uses: number
+          event_id: string | null
+          expires_at: string
+          id: string
+          is_active: boolean
+          max_uses: number
+          notes: string | null
+          token: string
+          used_at: string | null
+          used_by_email: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          current_uses?: number
+          event_id?: string | null
+          expires_at: string
+          id?: string
+          is_active?: boolean
+          max_uses?: number
+          notes?: string | null
+          token: string
+          used_at?: string | null
+          used_by_email?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          current_uses?: number
+          event_id?: string | null
+          expires_at?: string
+          id?: string
+          is_active?: boolean
+          max_uses?: number
+          notes?: string | null
+          token?: string
+          used_at?: string | null
+          used_by_email?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registration_tokens_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reminder_rules: {
+        Row: {
+          audience: string
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          enabled: boolean
+          event_id: string
+          hours_before: number
+          id: string
+          last_queued_at: string | null
+          message: string | null
+          name: string
+          subject: string | null
+          updated_at: string
+        }
+        Insert: {
+          audience?: string
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          enabled?: boolean
+          event_id: string
+          hours_before: number
+          id?: string
+          last_queued_at?: string | null
+          message?: string | null
+          name: string
+          subject?: string | null
+          updated_at?: string
+        }
+        Update: {
+          audience?: string
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          enabled?: boolean
+          event_id?: string
+          hours_before?: number
+          id?: string
+          last_queued_at?: string | null
+          message?: string | null
+          name?: string
+          subject?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_rules_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reminder_sends: {
+        Row: {
+          attendee_id: string
+          created_at: string
+          email_message_id: string | null
+          rule_id: string
+        }
+        Insert: {
+          attendee_id: string
+          created_at?: string
+          email_message_id?: string | null
+          rule_id: string
+        }
+        Update: {
+          attendee_id?: string
+          created_at?: string
+          email_message_id?: string | null
+          rule_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_sends_attendee_id_fkey"
+            columns: ["attendee_id"]
+            isOneToOne: false
+            referencedRelation: "attendees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reminder_sends_email_message_id_fkey"
+            columns: ["email_message_id"]
+            isOneToOne: false
+            referencedRelation: "email_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reminder_sends_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "reminder_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      revoked_qr_codes: {
+        Row: {
+          attendee_id: string
+          event_id: string | null
+          id: string
+          qr_code: string | null
+          qr_token: string | null
+          reason: string | null
+          revoked_at: string
+          revoked_by: string | null
+        }
+        Insert: {
+          attendee_id: string
+          event_id?: string | null
+          id?: string
+          qr_code?: string | null
+          qr_token?: string | null
+          reason?: string | null
+          revoked_at?: string
+          revoked_by?: string | null
+        }
+        Update: {
+          attendee_id?: string
+          event_id?: string | null
+          id?: string
+          qr_code?: string | null
+          qr_token?: string | null
+          reason?: string | null
+          revoked_at?: string
+          revoked_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "revoked_qr_codes_attendee_id_fkey"
+            columns: ["attendee_id"]
+            isOneToOne: false
+            referencedRelation: "attendees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "revoked_qr_codes_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_checkins: {
+        Row: {
+          attendee_id: string
+          checked_in_at: string
+          checked_in_by: string | null
+          event_id: string
+          id: string
+          session_id: string
+        }
+        Insert: {
+          attendee_id: string
+          checked_in_at?: string
+          checked_in_by?: string | null
+          event_id: string
+          id?: string
+          session_id: string
+        }
+        Update: {
+          attendee_id?: string
+          checked_in_at?: string
+          checked_in_by?: string | null
+          event_id?: string
+          id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_checkins_attendee_id_fkey"
+            columns: ["attendee_id"]
+            isOneToOne: false
+            referencedRelation: "attendees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_checkins_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_checkins_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sessions: {
+        Row: {
+          capacity: number | null
+          created_at: string
+          created_by: string | null
+          ends_at: string
+          event_id: string
+          id: string
+          name: string
+          room: string | null
+          starts_at: string
+          track: string | null
+          updated_at: string
+        }
+        Insert: {
+          capacity?: number | null
+          created_at?: string
+          created_by?: string | null
+          ends_at: string
+          event_id: string
+          id?: string
+          name: string
+          room?: string | null
+          starts_at: string
+          track?: string | null
+          updated_at?: string
+        }
+        Update: {
+          capacity?: number | null
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string
+          event_id?: string
+          id?: string
+          name?: string
+          room?: string | null
+          starts_at?: string
+          track?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sessions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_messages: {
+        Row: {
+          attendee_id: string
+          body: string | null
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          delivered_at: string | null
+          event_id: string
+          id: string
+          last_error: string | null
+          link_code: string
+          provider: string | null
+          provider_message_id: string | null
+          qr_token: string | null
+          recipient_phone: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attendee_id: string
+          body?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          delivered_at?: string | null
+          event_id: string
+          id?: string
+          last_error?: string | null
+          link_code?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          qr_token?: string | null
+          recipient_phone: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attendee_id?: string
+          body?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          delivered_at?: string | null
+          event_id?: string
+          id?: string
+          last_error?: string | null
+          link_code?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          qr_token?: string | null
+          recipient_phone?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_messages_attendee_id_fkey"
+            columns: ["attendee_id"]
+            isOneToOne: false
+            referencedRelation: "attendees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_messages_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_link_requests: {
+        Row: {
+          client_ip: string
+          created_at: string
+          email: string
+          id: string
+        }
+        Insert: {
+          client_ip: string
+          created_at?: string
+          email: string
+          id?: string
+        }
+        Update: {
+          client_ip?: string
+          created_at?: string
+          email?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      ticket_type_sessions: {
+        Row: {
+          session_id: string
+          ticket_type_id: string
+        }
+        Insert: {
+          session_id: string
+          ticket_type_id: string
+        }
+        Update: {
+          session_id?: string
+          ticket_type_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_type_sessions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_type_sessions_ticket_type_id_fkey"
+            columns: ["ticket_type_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_types: {
+        Row: {
+          all_sessions: boolean
+          color: string
+          created_at: string
+          event_id: string
+          id: string
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          all_sessions?: boolean
+          color?: string
+          created_at?: string
+          event_id: string
+          id?: string
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          all_sessions?: boolean
+          color?: string
+          created_at?: string
+          event_id?: string
+          id?: string
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_types_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      whatsapp_messages: {
+        Row: {
+          attendee_id: string
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          delivered_at: string | null
+          event_id: string
+          id: string
+          last_error: string | null
+          provider_message_id: string | null
+          read_at: string | null
+          recipient_phone: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attendee_id: string
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          delivered_at?: string | null
+          event_id: string
+          id?: string
+          last_error?: string | null
+          provider_message_id?: string | null
+          read_at?: string | null
+          recipient_phone: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attendee_id?: string
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          delivered_at?: string | null
+          event_id?: string
+          id?: string
+          last_error?: string | null
+          provider_message_id?: string | null
+          read_at?: string | null
+          recipient_phone?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "whatsapp_messages_attendee_id_fkey"
+            columns: ["attendee_id"]
+            isOneToOne: false
+            referencedRelation: "attendees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_messages_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      acquire_email_worker_lease: {
+        Args: {
+          holder_param: string
+          lease_seconds_param: number
+        }
+        Returns: boolean
+      }
+      apply_sms_status: {
+        Args: {
+          error_param?: string
+          provider_message_id_param: string
+          status_param: string
+        }
+        Returns: {
+          attendee_id: string
+          body: string | null
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          delivered_at: string | null
+          event_id: string
+          id: string
+          last_error: string | null
+          link_code: string
+          provider: string | null
+          provider_message_id: string | null
+          qr_token: string | null
+          recipient_phone: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }[]
+      }
+      apply_whatsapp_status: {
+        Args: {
+          error_param?: string
+          occurred_at_param: string
+          provider_message_id_param: string
+          status_param: string
+        }
+        Returns: {
+          attendee_id: string
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          delivered_at: string | null
+          event_id: string
+          id: string
+          last_error: string | null
+          provider_message_id: string | null
+          read_at: string | null
+          recipient_phone: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }[]
+      }
+      base64url_decode: {
+        Args: { data: string }
+        Returns: string
+      }
+      base64url_encode: {
+        Args: { data: string }
+        Returns: string
+      }
+      cancel_email_campaign: {
+        Args: { campaign_id_param: string }
+        Returns: number
+      }
+      check_in_attendee: {
+        Args: {
+          event_id_param: string
+          override_limit_param?: boolean
+          qr_code_param: string
+          scanned_at_param?: string
+        }
+        Returns: {
+          allowed_guests: number
+          attendee_email: string
+          attendee_id: string
+          attendee_name: string
+          checked_in_at: string
+          checkin_number: number
+          guest_type: string
+          result_status: string
+        }[]
+      }
+      check_in_session: {
+        Args: {
+          qr_code_param: string
+          scanned_at_param?: string
+          session_id_param: string
+        }
+        Returns: {
+          attendee_email: string
+          attendee_id: string
+          attendee_name: string
+          checked_in_at: string
+          result_status: string
+          session_attendance: number
+          session_capacity: number
+          ticket_type_name: string
+        }[]
+      }
+      check_out_attendee: {
+        Args: {
+          event_id_param: string
+          qr_code_param: string
+          scanned_at_param?: string
+        }
+        Returns: {
+          attendee_email: string
+          attendee_id: string
+          attendee_name: string
+          checked_out_at: string
+          checkin_number: number
+          dwell_seconds: number
+          guest_type: string
+          remaining_on_site: number
+          result_status: string
+        }[]
+      }
+      claim_email_messages: {
+        Args: { batch_size_param: number }
+        Returns: {
+          attempts: number
+          attendee_id: string
+          campaign_id: string
+          created_at: string
+          event_id: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          provider_message_id: string | null
+          recipient_email: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }[]
+      }
+      cleanup_expired_tokens: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      current_actor_email: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      find_revoked_qr: {
+        Args: {
+          event_id_param: string
+          qr_code_param: string
+        }
+        Returns: {
+          attendee_email: string
+          attendee_id: string
+          attendee_name: string
+          reason: string
+          revoked_at: string
+        }[]
+      }
       get_checkin_count_for_qr: {
         Args: { qr_code_param: string }
         Returns: number
       }
+      get_email_delivery_statuses: {
+        Args: { event_id_param: string }
+        Returns: {
+          attendee_id: string
+          delivery_status: string
+          detail: string
+          occurred_at: string
+        }[]
+      }
+      get_email_statuses: {
+        Args: { event_id_param: string }
+        Returns: {
+          attempts: number
+          attendee_id: string
+          last_error: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      get_follow_up_results: {
+        Args: { event_id_param: string }
+        Returns: {
+          bounced_count: number
+          campaign_id: string
+          created_at: string
+          created_by_email: string
+          delivered_count: number
+          failed_count: number
+          filters: Json
+          opened_count: number
+          sent_count: number
+          status: string
+          subject: string
+          total_count: number
+        }[]
+      }
       get_guest_type: {
         Args: { checkin_num: number }
         Returns: string
       }
+      get_sms_statuses: {
+        Args: { event_id_param: string }
+        Returns: {
+          attendee_id: string
+          last_error: string
+          recipient_phone: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      get_whatsapp_statuses: {
+        Args: { event_id_param: string }
+        Returns: {
+          attendee_id: string
+          last_error: string
+          status: string
+          updated_at: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -306,10 +1535,131 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      is_valid_time_zone: {
+        Args: { _time_zone: string }
+        Returns: boolean
+      }
+      merge_attendees: {
+        Args: {
+          duplicate_ids_param: string[]
+          survivor_id_param: string
+        }
+        Returns: {
+          merged_count: number
+          moved_checkins: number
+          result_status: string
+          survivor_qr_code: string
+        }[]
+      }
+      queue_due_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          campaign_id: string
+          queued_count: number
+          rule_id: string
+        }[]
+      }
+      queue_email_campaign: {
+        Args: {
+          audience_param: string
+          event_id_param: string
+          filters_param?: Json
+          kind_param?: string
+          message_param?: string
+          subject_param?: string
+          template_param?: Json
+        }
+        Returns: {
+          campaign_id: string
+          queued_count: number
+        }[]
+      }
+      queue_sms_messages: {
+        Args: {
+          attendee_ids_param: string[]
+          event_id_param: string
+        }
+        Returns: {
+          message_id: string
+        }[]
+      }
+      queue_whatsapp_messages: {
+        Args: {
+          attendee_ids_param: string[]
+          event_id_param: string
+        }
+        Returns: {
+          message_id: string
+        }[]
+      }
+      record_ticket_link_request: {
+        Args: {
+          client_ip_param: string
+          email_param: string
+        }
+        Returns: boolean
+      }
+      reissue_attendee_qr: {
+        Args: {
+          attendee_id_param: string
+          reason_param?: string
+        }
+        Returns: {
+          new_qr_code: string
+          new_qr_token: string
+          result_status: string
+        }[]
+      }
+      release_email_worker_lease: {
+        Args: { holder_param: string }
+        Returns: undefined
+      }
+      resolve_qr_attendee: {
+        Args: {
+          event_id_param: string
+          qr_code_param: string
+        }
+        Returns: {
+          attendee_id: string
+          resolve_status: string
+        }[]
+      }
+      save_email_template: {
+        Args: {
+          content_param: Json
+          event_id_param: string
+        }
+        Returns: number
+      }
+      sign_qr_payload: {
+        Args: {
+          _attendee_id: string
+          _event_id: string
+          _issued_at?: string
+        }
+        Returns: string
+      }
+      sms_status_rank: {
+        Args: { status_param: string }
+        Returns: number
+      }
       user_has_platform_access: {
         Args: { _user_id: string }
         Returns: boolean
       }
+      verify_qr_token: {
+        Args: { _token: string }
+        Returns: {
+          attendee_id: string
+          event_id: string
+          issued_at: string
+          verification_status: string
+        }[]
+      }
+      whatsapp_status_rank: {
+        Args: { status_param: string }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "super_admin" | "admin" | "user"
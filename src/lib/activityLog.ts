@@ -0,0 +1,187 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { LogEntry } from "@/components/LogsView";
+import type { Json } from "@/integrations/supabase/types";
+
+const PENDING_LOGS_KEY = 'pendingActivityLogs';
+
+export type NewLogEntry = Omit<LogEntry, 'id' | 'timestamp' | 'actor'>;
+
+export interface LogFilters {
+  search?: string;
+  type?: string;
+  status?: string;
+}
+
+export interface LogStats {
+  success: number;
+  error: number;
+  checkins: number;
+  emails: number;
+  whatsapp: number;
+}
+
+interface PendingLog {
+  eventId: string | null;
+  entry: NewLogEntry;
+  timestamp: string;
+  metadata?: Json;
+}
+
+type ActivityLogRow = {
+  id: string;
+  timestamp: string;
+  type: string;
+  action: string;
+  user_name: string | null;
+  user_email: string | null;
+  details: string | null;
+  status: string;
+  actor_email: string | null;
+};
+
+const toLogEntry = (row: ActivityLogRow): LogEntry => ({
+  id: row.id,
+  timestamp: new Date(row.timestamp),
+  type: row.type as LogEntry['type'],
+  action: row.action,
+  user: row.user_name || undefined,
+  email: row.user_email || undefined,
+  details: row.details || undefined,
+  status: row.status as LogEntry['status'],
+  actor: row.actor_email || undefined,
+});
+
+const readPendingLogs = (): PendingLog[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_LOGS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const insertLogs = async (logs: PendingLog[]) => {
+  const { error } = await supabase
+    .from('activity_logs')
+    .insert(logs.map(log => ({
+      event_id: log.eventId,
+      type: log.entry.type,
+      action: log.entry.action,
+      user_name: log.entry.user || null,
+      user_email: log.entry.email || null,
+      details: log.entry.details || null,
+      status: log.entry.status,
+      timestamp: log.timestamp,
+      metadata: log.metadata ?? null,
+    })));
+
+  if (error) throw error;
+};
+
+/**
+ * Store a log entry in activity_logs. The staff member is attributed by the
+ * database trigger. Entries that fail to send (e.g. offline) are kept locally
+ * and retried by flushPendingLogs.
+ */
+export const writeActivityLog = async (eventId: string | null, entry: NewLogEntry, metadata?: Json) => {
+  const log: PendingLog = { eventId, entry, timestamp: new Date().toISOString(), metadata };
+
+  try {
+    await insertLogs([log]);
+  } catch (error) {
+    console.error('Error saving activity log, keeping it for retry:', error);
+    localStorage.setItem(PENDING_LOGS_KEY, JSON.stringify([...readPendingLogs(), log]));
+  }
+};
+
+export const flushPendingLogs = async () => {
+  const pending = readPendingLogs();
+  if (pending.length === 0) return 0;
+
+  try {
+    await insertLogs(pending);
+    localStorage.removeItem(PENDING_LOGS_KEY);
+    return pending.length;
+  } catch (error) {
+    console.error('Error flushing pending activity logs:', error);
+    return 0;
+  }
+};
+
+export const fetchActivityLogs = async (
+  eventId: string,
+  { search, type, status }: LogFilters,
+  page: number,
+  pageSize: number
+): Promise<{ logs: LogEntry[]; total: number }> => {
+  let query = supabase
+    .from('activity_logs')
+    .select('id, timestamp, type, action, user_name, user_email, details, status, actor_email', { count: 'exact' })
+    .eq('event_id', eventId);
+
+  if (type && type !== 'all') {
+    query = query.eq('type', type);
+  }
+  if (status && status !== 'all') {
+    query = query.eq('status', status);
+  }
+  const term = search?.trim().replace(/[%,()]/g, ' ');
+  if (term) {
+    query = query.or(
+      ['action', 'user_name', 'user_email', 'details', 'actor_email']
+        .map(column => `${column}.ilike.%${term}%`)
+        .join(',')
+    );
+  }
+
+  const from = page * pageSize;
+  const { data, error, count } = await query
+    .order('timestamp', { ascending: false })
+    .range(from, from + pageSize - 1);
+  if (error) throw error;
+
+  return { logs: (data || []).map(toLogEntry), total: count || 0 };
+};
+
+// Every log matching the filters, newest first, fetched in pages (used for CSV export)
+export const fetchAllActivityLogs = async (eventId: string, filters: LogFilters): Promise<LogEntry[]> => {
+  const pageSize = 1000;
+  const all: LogEntry[] = [];
+
+  for (let page = 0; ; page++) {
+    const { logs, total } = await fetchActivityLogs(eventId, filters, page, pageSize);
+    all.push(...logs);
+    if (all.length >= total || logs.length < pageSize) break;
+  }
+
+  return all;
+};
+
+export const fetchLogStats = async (eventId: string): Promise<LogStats> => {
+  const countWhere = async (column: 'status' | 'type', value: string) => {
+    const { count, error } = await supabase
+      .from('activity_logs')
+      .select('id', { count: 'exact', head: true })
+      .match({ event_id: eventId, [column]: value });
+    if (error) throw error;
+    return count || 0;
+  };
+
+  const [success, errorCount, checkins, emails, whatsapp] = await Promise.all([
+    countWhere('status', 'success'),
+    countWhere('status', 'error'),
+    countWhere('type', 'checkin'),
+    countWhere('type', 'email_sent'),
+    countWhere('type', 'whatsapp_sent'),
+  ]);
+
+  return { success, error: errorCount, checkins, emails, whatsapp };
+};
+
+export const deleteEventLogs = async (eventId: string) => {
+  const { error } = await supabase
+    .from('activity_logs')
+    .delete()
+    .eq('event_id', eventId);
+
+  if (error) throw error;
+};
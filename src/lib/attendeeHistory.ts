@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type AttendeeHistoryKind =
+  | 'created'
+  | 'updated'
+  | 'qr_reissued'
+  | 'email_sent'
+  | 'whatsapp_sent'
+  | 'sms_sent'
+  | 'checked_in'
+  | 'checked_out';
+
+export interface FieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+export interface AttendeeHistoryEntry {
+  id: string;
+  kind: AttendeeHistoryKind;
+  timestamp: Date;
+  actor?: string;
+  details?: string;
+  status?: string;
+  changes?: Record<string, FieldChange>;
+}
+
+/**
+ * Build an attendee's timeline, newest first, from the `attendee_audit` table and
+ * their `checkin_instances` rows.
+ */
+export const fetchAttendeeHistory = async (attendeeId: string): Promise<AttendeeHistoryEntry[]> => {
+  const [auditResult, checkinResult] = await Promise.all([
+    supabase
+      .from('attendee_audit')
+      .select('*')
+      .eq('attendee_id', attendeeId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('checkin_instances')
+      .select('*')
+      .eq('attendee_id', attendeeId)
+      .order('checked_in_at', { ascending: false }),
+  ]);
+
+  if (auditResult.error) throw auditResult.error;
+  if (checkinResult.error) throw checkinResult.error;
+
+  const auditEntries: AttendeeHistoryEntry[] = (auditResult.data || []).map(row => ({
+    id: row.id,
+    kind: row.action as AttendeeHistoryKind,
+    timestamp: new Date(row.created_at),
+    actor: row.actor_email || undefined,
+    details: row.details || undefined,
+    status: row.status || undefined,
+    changes: (row.changes as unknown as Record<string, FieldChange>) || undefined,
+  }));
+
+  const checkinEntries = (checkinResult.data || []).flatMap(instance => {
+    const label = `Check-in #${instance.checkin_number} (${instance.guest_type})`;
+    const entries: AttendeeHistoryEntry[] = [{
+      id: `${instance.id}-in`,
+      kind: 'checked_in',
+      timestamp: new Date(instance.checked_in_at),
+      details: instance.override_by ? `${label} - admitted over the guest limit` : label,
+    }];
+    if (instance.checked_out_at) {
+      entries.push({
+        id: `${instance.id}-out`,
+        kind: 'checked_out',
+        timestamp: new Date(instance.checked_out_at),
+        details: `${label}${instance.on_site ? ' - has since re-entered' : ''}`,
+      });
+    }
+    return entries;
+  });
+
+  return [...auditEntries, ...checkinEntries].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+};
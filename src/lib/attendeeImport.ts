@@ -0,0 +1,237 @@
+import ExcelJS from 'exceljs';
+import Papa from 'papaparse';
+import type { Attendee } from '@/components/EventDashboard';
+import type { TicketType } from '@/hooks/useTicketTypes';
+import { findTicketTypeByName } from '@/hooks/useTicketTypes';
+
+export type NewAttendee = Omit<Attendee, 'id' | 'checkedIn' | 'qrCode'>;
+
+export type ImportField = 'name' | 'email' | 'phone' | 'company' | 'allowedGuests' | 'ticketType';
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  // Lower-case header names recognised when guessing the mapping
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'full name', 'full_name', 'fullname', 'attendee', 'attendee name'] },
+  { field: 'email', label: 'Email', required: true, aliases: ['email', 'email address', 'email_address', 'e-mail', 'mail'] },
+  { field: 'phone', label: 'Phone', required: false, aliases: ['phone', 'phone number', 'phone_number', 'mobile', 'telephone', 'tel'] },
+  { field: 'company', label: 'Company', required: false, aliases: ['company', 'organisation', 'organization', 'employer', 'company name'] },
+  { field: 'allowedGuests', label: 'Plus Guests Allowed', required: false, aliases: ['allowed_guests', 'allowed guests', 'plus ones', 'plus_ones', 'guests'] },
+  { field: 'ticketType', label: 'Ticket Type', required: false, aliases: ['ticket_type', 'ticket type', 'tier', 'ticket'] },
+];
+
+// Maps each attendee field to a column header in the uploaded file
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ValidImportRow {
+  // 1-based data row number, matching what users see in a spreadsheet below the header
+  rowNumber: number;
+  attendee: NewAttendee;
+}
+
+export interface RejectedImportRow {
+  rowNumber: number;
+  data: Record<string, string>;
+  reason: string;
+}
+
+export interface ImportValidation {
+  valid: ValidImportRow[];
+  rejected: RejectedImportRow[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Spreadsheets often repeat or omit header labels, which would collide as object keys
+const uniqueHeaders = (headers: string[]) => {
+  const seen = new Map<string, number>();
+  return headers.map((header, index) => {
+    const base = header.trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+};
+
+const parseCsv = (file: File): Promise<ParsedSheet> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      skipEmptyLines: 'greedy',
+      complete: (results) => {
+        const [headerRow = [], ...dataRows] = results.data;
+        const headers = uniqueHeaders(headerRow);
+        resolve({
+          headers,
+          rows: dataRows.map(values =>
+            Object.fromEntries(headers.map((header, i) => [header, (values[i] ?? '').toString().trim()]))
+          ),
+        });
+      },
+      error: (error) => reject(error),
+    });
+  });
+};
+
+const parseXlsx = async (file: File): Promise<ParsedSheet> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet || sheet.rowCount === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const columnCount = sheet.getRow(1).cellCount;
+  const headerCells: string[] = [];
+  for (let col = 1; col <= columnCount; col++) {
+    headerCells.push(sheet.getRow(1).getCell(col).text);
+  }
+  const headers = uniqueHeaders(headerCells);
+
+  const rows: Record<string, string>[] = [];
+  for (let rowIndex = 2; rowIndex <= sheet.rowCount; rowIndex++) {
+    const row = sheet.getRow(rowIndex);
+    const values = headers.map((_, i) => row.getCell(i + 1).text.trim());
+    if (values.some(Boolean)) {
+      rows.push(Object.fromEntries(headers.map((header, i) => [header, values[i]])));
+    }
+  }
+
+  return { headers, rows };
+};
+
+/**
+ * Read the first sheet of an uploaded CSV or XLSX file. The first row is treated as
+ * the header; every value is returned as trimmed text.
+ */
+export const parseImportFile = async (file: File): Promise<ParsedSheet> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx')) {
+    return parseXlsx(file);
+  }
+  if (name.endsWith('.csv') || file.type === 'text/csv') {
+    return parseCsv(file);
+  }
+  throw new Error('Unsupported file type. Please upload a .csv or .xlsx file.');
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const match = headers.find(header => !used.has(header) && aliases.includes(header.toLowerCase().trim()));
+    if (match) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  });
+
+  return mapping;
+};
+
+// Blank means unlimited plus guests; anything else must be a whole number >= 0
+export const parseAllowedGuests = (value: string): number | null | undefined => {
+  const trimmed = value?.toString().trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+/**
+ * Split mapped rows into importable attendees and rejected rows with a reason each.
+ * Emails already registered for the event, or repeated within the file, are rejected.
+ */
+export const validateImportRows = (
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  existingAttendees: Attendee[],
+  ticketTypes: TicketType[] = []
+): ImportValidation => {
+  const valid: ValidImportRow[] = [];
+  const rejected: RejectedImportRow[] = [];
+  const existingEmails = new Set(existingAttendees.map(a => a.email.trim().toLowerCase()));
+  const fileEmails = new Map<string, number>();
+
+  const read = (row: Record<string, string>, field: ImportField) => {
+    const header = mapping[field];
+    return header ? (row[header] ?? '').trim() : '';
+  };
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const reject = (reason: string) => rejected.push({ rowNumber, data: row, reason });
+
+    const name = read(row, 'name');
+    const email = read(row, 'email');
+    const normalizedEmail = email.toLowerCase();
+    const allowedGuestsValue = read(row, 'allowedGuests');
+    const allowedGuests = parseAllowedGuests(allowedGuestsValue);
+    const ticketTypeValue = read(row, 'ticketType');
+    const ticketType = ticketTypeValue ? findTicketTypeByName(ticketTypes, ticketTypeValue) : undefined;
+
+    if (!name || !email) {
+      reject(`Missing ${!name && !email ? 'name and email' : !name ? 'name' : 'email'}`);
+    } else if (!EMAIL_PATTERN.test(email)) {
+      reject(`Invalid email format - ${email}`);
+    } else if (existingEmails.has(normalizedEmail)) {
+      reject('Duplicate - email is already registered for this event');
+    } else if (fileEmails.has(normalizedEmail)) {
+      reject(`Duplicate - same email as row ${fileEmails.get(normalizedEmail)}`);
+    } else if (allowedGuests === undefined) {
+      reject(`Invalid plus guests value - ${allowedGuestsValue}`);
+    } else if (ticketTypeValue && !ticketType) {
+      reject(`Unknown ticket type - ${ticketTypeValue}`);
+    } else {
+      fileEmails.set(normalizedEmail, rowNumber);
+      valid.push({
+        rowNumber,
+        attendee: {
+          name,
+          email,
+          phone: read(row, 'phone'),
+          company: read(row, 'company'),
+          allowedGuests,
+          ticketTypeId: ticketType?.id ?? null,
+        },
+      });
+    }
+  });
+
+  return { valid, rejected };
+};
+
+/**
+ * Download the rejected rows as CSV with their original columns, so they can be fixed
+ * and uploaded again, plus the row number and rejection reason.
+ */
+export const downloadRejectedRows = (headers: string[], rejected: RejectedImportRow[], fileName: string) => {
+  const csvString = Papa.unparse({
+    fields: ['Row', ...headers, 'Reason'],
+    data: rejected.map(r => [r.rowNumber, ...headers.map(h => r.data[h] ?? ''), r.reason]),
+  });
+
+  const blob = new Blob([csvString], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${fileName.replace(/\.(csv|xlsx)$/i, '')}-rejected-${new Date().toISOString().split('T')[0]}.csv`;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+export interface BulkAddResult {
+  insertedCount: number;
+  // Indexes into the submitted list for rows the database refused
+  failed: { index: number; reason: string }[];
+}
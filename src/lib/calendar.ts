@@ -0,0 +1,3 @@
+// Calendar files are built next to the edge functions that attach them to QR
+// emails; the registration page downloads the same file.
+export * from '../../supabase/functions/_shared/calendar.ts';
@@ -0,0 +1,245 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// 'queued' means the scan was stored offline and will be sent when the connection returns
+// 'forged_qr' is a signed code whose signature does not verify (tampered or made up);
+// 'legacy_qr_disabled' is a short code scanned after the event stopped accepting them;
+// 'revoked_qr' is a code that was replaced when an admin reissued the attendee's QR code;
+// 're_entered' is a party member coming back after checking out (no new guest is counted)
+export type CheckInStatus =
+  | 'checked_in'
+  | 're_entered'
+  | 'checked_out'
+  | 'not_on_site'
+  | 'invalid_qr'
+  | 'forged_qr'
+  | 'legacy_qr_disabled'
+  | 'revoked_qr'
+  | 'queued'
+  | 'guest_limit_reached';
+
+export interface CheckInResult {
+  status: CheckInStatus;
+  attendeeId?: string;
+  attendeeName?: string;
+  attendeeEmail?: string;
+  checkinNumber?: number;
+  guestType?: string;
+  checkedInAt?: Date;
+  // Extra guests the code may admit after its owner; undefined means unlimited
+  allowedGuests?: number;
+  // Check-out only
+  checkedOutAt?: Date;
+  dwellSeconds?: number;
+  remainingOnSite?: number;
+  // Revoked codes only, filled in from find_revoked_qr
+  revokedAt?: Date;
+}
+
+export interface CheckInOptions {
+  scannedAt?: Date;
+  // Admin-only: admit a guest beyond the attendee's allowance
+  overrideLimit?: boolean;
+}
+
+/**
+ * Check an attendee in through the `check_in_attendee` database function, which
+ * assigns the check-in number under a row lock so concurrent scanners never
+ * record the same number twice.
+ */
+export const checkInByQrCode = async (
+  qrCode: string,
+  eventId: string,
+  { scannedAt, overrideLimit }: CheckInOptions = {}
+): Promise<CheckInResult> => {
+  const { data, error } = await supabase.rpc('check_in_attendee', {
+    qr_code_param: qrCode,
+    event_id_param: eventId,
+    scanned_at_param: scannedAt?.toISOString(),
+    override_limit_param: overrideLimit ?? false,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data?.[0];
+  if (!row || row.result_status === 'invalid_qr') {
+    return { status: 'invalid_qr' };
+  }
+
+  if (row.result_status === 'forged_qr' || row.result_status === 'legacy_qr_disabled' || row.result_status === 'revoked_qr') {
+    return { status: row.result_status };
+  }
+
+  if (row.result_status === 'guest_limit_reached') {
+    return {
+      status: 'guest_limit_reached',
+      attendeeId: row.attendee_id,
+      attendeeName: row.attendee_name,
+      attendeeEmail: row.attendee_email,
+      checkinNumber: row.checkin_number,
+      allowedGuests: row.allowed_guests,
+    };
+  }
+
+  return {
+    status: row.result_status === 're_entered' ? 're_entered' : 'checked_in',
+    attendeeId: row.attendee_id,
+    attendeeName: row.attendee_name,
+    attendeeEmail: row.attendee_email,
+    checkinNumber: row.checkin_number,
+    guestType: row.guest_type,
+    checkedInAt: new Date(row.checked_in_at),
+    allowedGuests: row.allowed_guests ?? undefined,
+  };
+};
+
+/**
+ * Record that one member of the attendee's party left the venue, through the
+ * `check_out_attendee` database function. Scanning the same code at the entrance
+ * afterwards re-admits them without counting a new guest.
+ */
+export const checkOutByQrCode = async (
+  qrCode: string,
+  eventId: string,
+  { scannedAt }: Pick<CheckInOptions, 'scannedAt'> = {}
+): Promise<CheckInResult> => {
+  const { data, error } = await supabase.rpc('check_out_attendee', {
+    qr_code_param: qrCode,
+    event_id_param: eventId,
+    scanned_at_param: scannedAt?.toISOString(),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data?.[0];
+  if (!row || row.result_status === 'invalid_qr') {
+    return { status: 'invalid_qr' };
+  }
+
+  if (row.result_status === 'forged_qr' || row.result_status === 'legacy_qr_disabled' || row.result_status === 'revoked_qr') {
+    return { status: row.result_status };
+  }
+
+  if (row.result_status === 'not_on_site') {
+    return {
+      status: 'not_on_site',
+      attendeeId: row.attendee_id,
+      attendeeName: row.attendee_name,
+      attendeeEmail: row.attendee_email,
+    };
+  }
+
+  return {
+    status: 'checked_out',
+    attendeeId: row.attendee_id,
+    attendeeName: row.attendee_name,
+    attendeeEmail: row.attendee_email,
+    checkinNumber: row.checkin_number,
+    guestType: row.guest_type,
+    checkedOutAt: new Date(row.checked_out_at),
+    dwellSeconds: row.dwell_seconds,
+    remainingOnSite: row.remaining_on_site,
+  };
+};
+
+export type SessionCheckInStatus =
+  | 'checked_in'
+  | 'already_checked_in'
+  | 'session_full'
+  | 'access_denied'
+  | 'session_not_found'
+  | 'invalid_qr'
+  | 'forged_qr'
+  | 'legacy_qr_disabled'
+  | 'revoked_qr';
+
+export interface SessionCheckInResult {
+  status: SessionCheckInStatus;
+  attendeeId?: string;
+  attendeeName?: string;
+  attendeeEmail?: string;
+  // The attendee's ticket type, shown on the tier badge and access-denied message
+  ticketTypeName?: string;
+  checkedInAt?: Date;
+  attendance?: number;
+  // Undefined means the session has no seat limit
+  capacity?: number;
+  revokedAt?: Date;
+}
+
+/**
+ * Admit an attendee to a breakout session with their event QR code, through the
+ * `check_in_session` database function. Each attendee is recorded once per session.
+ */
+export const checkInToSession = async (qrCode: string, sessionId: string): Promise<SessionCheckInResult> => {
+  const { data, error } = await supabase.rpc('check_in_session', {
+    qr_code_param: qrCode,
+    session_id_param: sessionId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data?.[0];
+  if (!row) {
+    return { status: 'invalid_qr' };
+  }
+
+  return {
+    status: row.result_status as SessionCheckInStatus,
+    attendeeId: row.attendee_id ?? undefined,
+    attendeeName: row.attendee_name ?? undefined,
+    attendeeEmail: row.attendee_email ?? undefined,
+    ticketTypeName: row.ticket_type_name ?? undefined,
+    checkedInAt: row.checked_in_at ? new Date(row.checked_in_at) : undefined,
+    attendance: row.session_attendance ?? undefined,
+    capacity: row.session_capacity ?? undefined,
+  };
+};
+
+// True when a failed request should be queued for later rather than reported as an error
+export const isNetworkError = (error: unknown) => {
+  if (!navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  const message = (error as { message?: string })?.message || '';
+  return /failed to fetch|network|load failed/i.test(message);
+};
+
+// Mirrors the get_guest_type database function for check-ins numbered offline
+export const getGuestType = (checkinNumber: number) => {
+  return checkinNumber === 1 ? 'original' :
+    checkinNumber === 2 ? 'plus_one' :
+    checkinNumber === 3 ? 'plus_two' :
+    checkinNumber === 4 ? 'plus_three' :
+    `plus_${checkinNumber - 1}`;
+};
+
+// Human readable label for a check-in number, e.g. "Plus One Guest"
+export const getGuestLabel = (checkinNumber: number) => {
+  return checkinNumber === 1 ? 'Original Guest' :
+    checkinNumber === 2 ? 'Plus One Guest' :
+    checkinNumber === 3 ? 'Plus Two Guest' :
+    `Plus ${checkinNumber - 1} Guest`;
+};
+
+// Total time a checked-in person has spent inside, including their current visit
+export const getDwellSeconds = (
+  instance: { dwell_seconds?: number; on_site?: boolean; last_entry_at?: string | null; checked_in_at: string },
+  now: Date = new Date()
+) => {
+  const completed = instance.dwell_seconds ?? 0;
+  if (!instance.on_site) return completed;
+  const enteredAt = new Date(instance.last_entry_at || instance.checked_in_at);
+  return completed + Math.max(0, Math.floor((now.getTime() - enteredAt.getTime()) / 1000));
+};
+
+// Compact duration such as "2h 05m" or "12m"
+export const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes.toString().padStart(2, '0')}m` : `${minutes}m`;
+};
@@ -0,0 +1,170 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Attendee } from '@/components/EventDashboard';
+
+export type DuplicateReason = 'email' | 'phone' | 'name';
+
+export interface DuplicateGroup {
+  // Stable key built from the member ids
+  id: string;
+  attendees: Attendee[];
+  reasons: DuplicateReason[];
+}
+
+export interface MergeResult {
+  status: 'merged' | 'survivor_not_found' | 'invalid_duplicates';
+  mergedCount: number;
+  movedCheckins: number;
+  survivorQrCode?: string;
+}
+
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+// Lower-cases and drops +tags; Gmail also ignores dots in the local part
+export const normalizeEmail = (email: string) => {
+  const [local = '', domain = ''] = email.trim().toLowerCase().split('@');
+  if (!domain) return local;
+  const untagged = local.split('+')[0];
+  if (GMAIL_DOMAINS.includes(domain)) {
+    return `${untagged.replace(/\./g, '')}@gmail.com`;
+  }
+  return `${untagged}@${domain}`;
+};
+
+// Compares the last 9 digits so "+44 7700 900123" and "07700 900123" match
+export const normalizePhone = (phone?: string) => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-9) : '';
+};
+
+// Accents, punctuation and word order are ignored: "Dupont, Zoë" matches "Zoe Dupont"
+export const normalizeName = (name: string) => {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+};
+
+const levenshtein = (a: string, b: string) => {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short names need a closer match, so "Ann" and "Dan" are not flagged
+const isSimilarName = (a: string, b: string) => {
+  if (!a || !b) return false;
+  const allowed = Math.min(a.length, b.length) >= 8 ? 2 : 1;
+  return Math.abs(a.length - b.length) <= allowed && levenshtein(a, b) <= allowed;
+};
+
+/**
+ * Group attendees that are probably the same person: same normalised email, same
+ * phone number, or a near-identical name. Groups are transitive, so A~B and B~C
+ * end up in one group.
+ */
+export const findDuplicateGroups = (attendees: Attendee[]): DuplicateGroup[] => {
+  const parent = attendees.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const edges: { a: number; b: number; reason: DuplicateReason }[] = [];
+
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    edges.push({ a, b, reason });
+    parent[find(a)] = find(b);
+  };
+
+  const linkByKey = (keyOf: (attendee: Attendee) => string, reason: DuplicateReason) => {
+    const firstByKey = new Map<string, number>();
+    attendees.forEach((attendee, index) => {
+      const key = keyOf(attendee);
+      if (!key) return;
+      const first = firstByKey.get(key);
+      if (first === undefined) {
+        firstByKey.set(key, index);
+      } else {
+        link(first, index, reason);
+      }
+    });
+  };
+
+  linkByKey(a => a.email ? normalizeEmail(a.email) : '', 'email');
+  linkByKey(a => normalizePhone(a.phone), 'phone');
+
+  // Fuzzy names are only compared within a block sharing the first two letters,
+  // which keeps large guest lists from needing every pair compared
+  const names = attendees.map(a => normalizeName(a.name));
+  const blocks = new Map<string, number[]>();
+  names.forEach((name, index) => {
+    if (!name) return;
+    const block = name.slice(0, 2);
+    blocks.set(block, [...(blocks.get(block) || []), index]);
+  });
+  blocks.forEach(indexes => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        if (isSimilarName(names[indexes[i]], names[indexes[j]])) {
+          link(indexes[i], indexes[j], 'name');
+        }
+      }
+    }
+  });
+
+  const groups = new Map<number, { members: number[]; reasons: Set<DuplicateReason> }>();
+  attendees.forEach((_, index) => {
+    const root = find(index);
+    const group = groups.get(root) || { members: [], reasons: new Set<DuplicateReason>() };
+    group.members.push(index);
+    groups.set(root, group);
+  });
+  edges.forEach(({ a, reason }) => groups.get(find(a))?.reasons.add(reason));
+
+  return Array.from(groups.values())
+    .filter(group => group.members.length > 1)
+    .map(group => {
+      const members = group.members.map(i => attendees[i]);
+      return {
+        id: members.map(a => a.id).sort().join(':'),
+        attendees: members,
+        reasons: (['email', 'phone', 'name'] as DuplicateReason[]).filter(r => group.reasons.has(r)),
+      };
+    })
+    .sort((a, b) => b.attendees.length - a.attendees.length);
+};
+
+/**
+ * Merge duplicates into the survivor with the `merge_attendees` database function.
+ * The survivor keeps its QR code and receives the duplicates' check-ins.
+ */
+export const mergeAttendees = async (survivorId: string, duplicateIds: string[]): Promise<MergeResult> => {
+  const { data, error } = await supabase.rpc('merge_attendees', {
+    survivor_id_param: survivorId,
+    duplicate_ids_param: duplicateIds,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data?.[0];
+  return {
+    status: (row?.result_status ?? 'invalid_duplicates') as MergeResult['status'],
+    mergedCount: row?.merged_count ?? 0,
+    movedCheckins: row?.moved_checkins ?? 0,
+    survivorQrCode: row?.survivor_qr_code ?? undefined,
+  };
+};
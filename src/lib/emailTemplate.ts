@@ -0,0 +1,3 @@
+// The email template engine lives with the edge functions that send the emails;
+// the dashboard uses the same file so its preview matches what is delivered.
+export * from '../../supabase/functions/_shared/email-template.ts';
@@ -0,0 +1,115 @@
+import type { Attendee } from "@/components/EventDashboard";
+
+const DB_NAME = 'zap-checkin-offline';
+const DB_VERSION = 1;
+const EVENT_CACHE_STORE = 'eventCache';
+const PENDING_STORE = 'pendingCheckins';
+
+export interface CachedCheckinInstance {
+  attendee_id: string;
+  qr_code: string;
+  checkin_number: number;
+  guest_type: string;
+  checked_in_at: string;
+  on_site?: boolean;
+  checked_out_at?: string | null;
+}
+
+export interface EventCache {
+  eventId: string;
+  attendees: Attendee[];
+  checkinInstances: CachedCheckinInstance[];
+  cachedAt: Date;
+}
+
+export interface PendingCheckIn {
+  id?: number;
+  eventId: string;
+  qrCode: string;
+  attendeeId: string;
+  attendeeName: string;
+  attendeeEmail: string;
+  // Number shown to staff while offline; the server may assign a different one on sync
+  provisionalNumber: number;
+  scannedAt: Date;
+  // Why the server rejected the last sync attempt; the scan is retried on every sync
+  syncError?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(EVENT_CACHE_STORE)) {
+        db.createObjectStore(EVENT_CACHE_STORE, { keyPath: 'eventId' });
+      }
+      if (!db.objectStoreNames.contains(PENDING_STORE)) {
+        const store = db.createObjectStore(PENDING_STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('eventId', 'eventId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const cacheEventData = (
+  eventId: string,
+  attendees: Attendee[],
+  checkinInstances: CachedCheckinInstance[]
+) => {
+  const entry: EventCache = { eventId, attendees, checkinInstances, cachedAt: new Date() };
+  return runRequest(EVENT_CACHE_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const getCachedEventData = async (eventId: string): Promise<EventCache | null> => {
+  const entry = await runRequest<EventCache | undefined>(EVENT_CACHE_STORE, 'readonly', store => store.get(eventId));
+  return entry ?? null;
+};
+
+export const enqueueCheckIn = (checkIn: Omit<PendingCheckIn, 'id'>) => {
+  return runRequest(PENDING_STORE, 'readwrite', store => store.add(checkIn));
+};
+
+// Pending check-ins for an event, oldest first so they sync in scan order
+export const getPendingCheckIns = async (eventId: string): Promise<PendingCheckIn[]> => {
+  const items = await runRequest<PendingCheckIn[]>(PENDING_STORE, 'readonly', store =>
+    store.index('eventId').getAll(eventId)
+  );
+  return items.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+export const markPendingCheckInFailed = (checkIn: PendingCheckIn, syncError: string) => {
+  return runRequest(PENDING_STORE, 'readwrite', store => store.put({ ...checkIn, syncError }));
+};
+
+export const removePendingCheckIn = (id: number) => {
+  return runRequest(PENDING_STORE, 'readwrite', store => store.delete(id));
+};
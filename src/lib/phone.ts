@@ -0,0 +1,3 @@
+// Phone normalisation lives next to the SMS and WhatsApp edge functions; the
+// dashboard uses it to tell which attendees can be messaged.
+export * from '../../supabase/functions/_shared/phone.ts';
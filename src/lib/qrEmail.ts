@@ -0,0 +1,53 @@
+import QRCode from 'qrcode';
+import { supabase } from '@/integrations/supabase/client';
+import { getQrPayload } from '@/lib/qrPayload';
+
+export interface QrEmailRecipient {
+  // The email goes to the attendee's saved address and is tagged with the id so
+  // delivery webhooks can be matched back to them
+  id: string;
+  qrCode?: string;
+  qrToken?: string;
+}
+
+export interface QrEmailOptions {
+  // Styled image from the QR generator; a plain code is rendered when omitted
+  qrImageData?: string;
+  defaultMessage?: string;
+  // Overrides the subject line of the event's saved template
+  subject?: string;
+}
+
+// Plain black-on-white QR image of the attendee's signed token (or legacy code)
+export const renderQrImage = (recipient: Pick<QrEmailRecipient, 'qrCode' | 'qrToken'>) => {
+  return QRCode.toDataURL(getQrPayload(recipient), {
+    width: 200,
+    margin: 2,
+    color: {
+      dark: '#000000',
+      light: '#FFFFFF'
+    }
+  });
+};
+
+/**
+ * Email an attendee their QR code through the `send-qr-email` edge function, which
+ * renders the event's saved template. Logging is left to the caller, which knows
+ * whether this was a manual send or an automatic resend.
+ */
+export const sendQrEmail = async (recipient: QrEmailRecipient, { qrImageData, defaultMessage, subject }: QrEmailOptions = {}) => {
+  const { data, error } = await supabase.functions.invoke('send-qr-email', {
+    body: {
+      attendee: { id: recipient.id },
+      qrImageData: qrImageData || await renderQrImage(recipient),
+      defaultMessage,
+      subject
+    }
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+};
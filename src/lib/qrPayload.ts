@@ -0,0 +1,31 @@
+// Signed QR payloads look like ZC1.<payload>.<mac>; see the sign_qr_payload database function.
+// Signatures can only be checked by the server (the key never leaves the database),
+// so this module only handles the format and picks what goes into QR images.
+export const SIGNED_QR_PREFIX = 'ZC1.';
+
+export const isSignedQrPayload = (text: string) => text.trim().startsWith(SIGNED_QR_PREFIX);
+
+/**
+ * Attendee id embedded in a signed payload, or null when the text is not a
+ * well-formed ZC1 token. Used by the offline scanner to spot tampered codes.
+ */
+export const getSignedPayloadAttendeeId = (text: string): string | null => {
+  const parts = text.trim().split('.');
+  if (parts.length !== 3 || `${parts[0]}.` !== SIGNED_QR_PREFIX) return null;
+
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const bytes = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    if (bytes.length !== 36) return null;
+
+    const hex = Array.from(bytes.slice(0, 16), c => c.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  } catch {
+    return null;
+  }
+};
+
+// Content to encode in an attendee's QR image: the signed token when available
+export const getQrPayload = (attendee: { qrCode?: string; qrToken?: string }) => {
+  return attendee.qrToken || attendee.qrCode || '';
+};
@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ReissueResult {
+  status: 'reissued' | 'attendee_not_found';
+  qrCode?: string;
+  qrToken?: string;
+}
+
+export interface RevokedQrCode {
+  id: string;
+  qrCode?: string;
+  reason?: string;
+  revokedAt: Date;
+}
+
+export interface RevokedQrOwner {
+  attendeeId: string;
+  attendeeName: string;
+  attendeeEmail: string;
+  revokedAt: Date;
+  reason?: string;
+}
+
+/**
+ * Replace an attendee's short code and signed token with the `reissue_attendee_qr`
+ * database function. The old pair is kept in `revoked_qr_codes`, so scanning it
+ * reports 'revoked_qr' instead of an unknown code.
+ */
+export const reissueQrCode = async (attendeeId: string, reason?: string): Promise<ReissueResult> => {
+  const { data, error } = await supabase.rpc('reissue_attendee_qr', {
+    attendee_id_param: attendeeId,
+    reason_param: reason || undefined,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data?.[0];
+  return {
+    status: (row?.result_status ?? 'attendee_not_found') as ReissueResult['status'],
+    qrCode: row?.new_qr_code ?? undefined,
+    qrToken: row?.new_qr_token ?? undefined,
+  };
+};
+
+// Codes the attendee held before, newest first
+export const fetchRevokedQrCodes = async (attendeeId: string): Promise<RevokedQrCode[]> => {
+  const { data, error } = await supabase
+    .from('revoked_qr_codes')
+    .select('id, qr_code, reason, revoked_at')
+    .eq('attendee_id', attendeeId)
+    .order('revoked_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    qrCode: row.qr_code || undefined,
+    reason: row.reason || undefined,
+    revokedAt: new Date(row.revoked_at),
+  }));
+};
+
+// Who a scanned revoked code belonged to; undefined when the code is not revoked
+export const findRevokedQr = async (qrCode: string, eventId: string): Promise<RevokedQrOwner | undefined> => {
+  const { data, error } = await supabase.rpc('find_revoked_qr', {
+    qr_code_param: qrCode,
+    event_id_param: eventId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data?.[0];
+  if (!row) return undefined;
+
+  return {
+    attendeeId: row.attendee_id,
+    attendeeName: row.attendee_name,
+    attendeeEmail: row.attendee_email,
+    revokedAt: new Date(row.revoked_at),
+    reason: row.reason || undefined,
+  };
+};
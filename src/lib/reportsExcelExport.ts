@@ -21,9 +21,38 @@ interface CheckinInstance {
   qr_code: string;
 }
 
+interface Session {
+  id: string;
+  name: string;
+  track?: string;
+  room?: string;
+  startsAt: Date;
+  endsAt: Date;
+  capacity?: number;
+}
+
+interface SessionCheckin {
+  sessionId: string;
+  attendeeId: string;
+  checkedInAt: Date;
+}
+
+// Excel sheet names are limited to 31 characters and may not contain : \ / ? * [ ]
+const toSheetName = (name: string, usedNames: Set<string>) => {
+  const base = name.replace(/[:\\/?*[\]]/g, ' ').trim().substring(0, 28) || 'Session';
+  let sheetName = base;
+  for (let suffix = 2; usedNames.has(sheetName.toLowerCase()); suffix++) {
+    sheetName = `${base.substring(0, 27)} ${suffix}`;
+  }
+  usedNames.add(sheetName.toLowerCase());
+  return sheetName;
+};
+
 export const exportReportsToExcel = async (
   attendees: Attendee[],
-  checkinInstances: CheckinInstance[]
+  checkinInstances: CheckinInstance[],
+  sessions: Session[] = [],
+  sessionCheckins: SessionCheckin[] = []
 ) => {
   const workbook = new ExcelJS.Workbook();
   
@@ -343,6 +372,110 @@ export const exportReportsToExcel = async (
   addDataRow('Pending', stats.pending);
   addDataRow('Check-in Rate', `${stats.checkInRate}%`, true);
 
+  // ============= SESSION SHEETS =============
+  if (sessions.length > 0) {
+    const usedNames = new Set(['attendees', 'check-in instances', 'summary statistics', 'sessions']);
+
+    const styleHeader = (sheet: ExcelJS.Worksheet) => {
+      sheet.getRow(1).eachCell((cell) => {
+        cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+        cell.fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FF1E40AF' },
+        };
+        cell.alignment = { vertical: 'middle', horizontal: 'center' };
+        cell.border = {
+          top: { style: 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' },
+        };
+      });
+    };
+
+    const styleRow = (row: ExcelJS.Row, index: number) => {
+      row.eachCell((cell) => {
+        if (index % 2 === 0) {
+          cell.fill = {
+            type: 'pattern',
+            pattern: 'solid',
+            fgColor: { argb: 'FFF3F4F6' },
+          };
+        }
+        cell.border = {
+          top: { style: 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' },
+        };
+      });
+    };
+
+    // Overview of every session
+    const sessionsSheet = workbook.addWorksheet('Sessions');
+    sessionsSheet.columns = [
+      { header: 'Session', key: 'name', width: 30 },
+      { header: 'Track', key: 'track', width: 18 },
+      { header: 'Room', key: 'room', width: 18 },
+      { header: 'Starts', key: 'startsAt', width: 20 },
+      { header: 'Ends', key: 'endsAt', width: 20 },
+      { header: 'Capacity', key: 'capacity', width: 12 },
+      { header: 'Attendance', key: 'attendance', width: 12 },
+      { header: 'Fill Rate', key: 'fillRate', width: 12 },
+    ];
+    styleHeader(sessionsSheet);
+
+    sessions.forEach((session, index) => {
+      const attendance = sessionCheckins.filter(c => c.sessionId === session.id).length;
+      const row = sessionsSheet.addRow({
+        name: session.name,
+        track: session.track || '',
+        room: session.room || '',
+        startsAt: session.startsAt.toLocaleString(),
+        endsAt: session.endsAt.toLocaleString(),
+        capacity: session.capacity ?? 'No limit',
+        attendance,
+        fillRate: session.capacity ? `${Math.round((attendance / session.capacity) * 100)}%` : '',
+      });
+      styleRow(row, index);
+    });
+
+    // One attendance sheet per session
+    sessions.forEach((session) => {
+      const sheet = workbook.addWorksheet(toSheetName(session.name, usedNames));
+      sheet.columns = [
+        { header: 'Name', key: 'name', width: 25 },
+        { header: 'Email', key: 'email', width: 30 },
+        { header: 'Company', key: 'company', width: 25 },
+        { header: 'QR Code', key: 'qrCode', width: 20 },
+        { header: 'Session Check-In Time', key: 'checkInTime', width: 22 },
+      ];
+      styleHeader(sheet);
+
+      const attended = sessionCheckins
+        .filter(c => c.sessionId === session.id)
+        .sort((a, b) => a.checkedInAt.getTime() - b.checkedInAt.getTime());
+
+      attended.forEach((checkin, index) => {
+        const attendee = attendees.find(a => a.id === checkin.attendeeId);
+        const row = sheet.addRow({
+          name: attendee?.name || 'Unknown',
+          email: attendee?.email || 'Unknown',
+          company: attendee?.company || 'N/A',
+          qrCode: attendee?.qrCode || '',
+          checkInTime: checkin.checkedInAt.toLocaleString(),
+        });
+        styleRow(row, index);
+      });
+
+      sheet.autoFilter = {
+        from: 'A1',
+        to: `E${attended.length + 1}`,
+      };
+    });
+  }
+
   // Generate and download the file
   const buffer = await workbook.xlsx.writeBuffer();
   const blob = new Blob([buffer], { 
@@ -0,0 +1,44 @@
+// Event times are entered in the event's own time zone rather than the browser's,
+// so an event set up from another city still starts at its local time.
+
+// Not in the ES2020 lib typings, but available in every current browser
+type IntlWithTimeZones = typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// IANA names for the time zone picker; empty where the browser can't list them
+export const supportedTimeZones = (): string[] => (Intl as IntlWithTimeZones).supportedValuesOf?.('timeZone') ?? [];
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock time of a date in a time zone, as a datetime-local input value (yyyy-MM-ddTHH:mm)
+export const toZonedInputValue = (date: Date | undefined, timeZone: string) => {
+  if (!date) return '';
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
+};
+
+// The moment a datetime-local input value stands for in a time zone
+export const fromZonedInputValue = (value: string, timeZone: string) => {
+  const asUtc = new Date(`${value}Z`);
+  // How far the zone's clock is ahead of UTC at that moment
+  const offset = new Date(`${toZonedInputValue(asUtc, timeZone)}Z`).getTime() - asUtc.getTime();
+  return new Date(asUtc.getTime() - offset);
+};
@@ -1,14 +1,16 @@
-import { useLocation, useNavigate } from "react-router-dom";
-import { Button } from "@/components/ui/button";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { QRCodeSVG } from "qrcode.react";
-import { Download, UserPlus } from "lucide-react";
+import { UserPlus } from "lucide-react";
 import { useEffect } from "react";
+import type { CalendarEvent } from "@/lib/calendar";
+import type { WalletLinks } from "@/lib/emailTemplate";
+import { TicketActions } from "@/components/TicketActions";
 
 const RegistrationSuccess = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const attendeeData = location.state as { name: string; qr_code: string } | null;
+  const attendeeData = location.state as { name: string; qr_code: string; qr_token?: string; event_name?: string; event?: CalendarEvent; wallet_links?: WalletLinks } | null;
 
   useEffect(() => {
     // Redirect to register page if no attendee data
@@ -17,35 +19,6 @@ const RegistrationSuccess = () => {
     }
   }, [attendeeData, navigate]);
 
-  const downloadQRCode = () => {
-    if (!attendeeData) return;
-    
-    const svg = document.getElementById("attendee-qr-code");
-    if (!svg) return;
-
-    const svgData = new XMLSerializer().serializeToString(svg);
-    const canvas = document.createElement("canvas");
-    canvas.width = 200;
-    canvas.height = 200;
-    
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    const img = new Image();
-    img.onload = () => {
-      ctx.fillStyle = "white";
-      ctx.fillRect(0, 0, 200, 200);
-      ctx.drawImage(img, 0, 0, 200, 200);
-      
-      const link = document.createElement("a");
-      link.download = `${attendeeData.name.replace(/\s+/g, "_")}_QR.png`;
-      link.href = canvas.toDataURL();
-      link.click();
-    };
-    
-    img.src = "data:image/svg+xml;base64," + btoa(svgData);
-  };
-
   if (!attendeeData) {
     return null;
   }
@@ -59,7 +32,7 @@ const RegistrationSuccess = () => {
           </div>
           <CardTitle className="text-2xl text-foreground">Registration Complete!</CardTitle>
           <CardDescription>
-            Welcome, {attendeeData.name}! Here's your QR code for check-in.
+            Welcome, {attendeeData.name}! Here's your QR code for check-in{attendeeData.event_name ? ` at ${attendeeData.event_name}` : ""}.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -67,7 +40,7 @@ const RegistrationSuccess = () => {
             <div className="bg-white p-4 rounded-lg">
               <QRCodeSVG
                 id="attendee-qr-code"
-                value={attendeeData.qr_code}
+                value={attendeeData.qr_token || attendeeData.qr_code}
                 size={150}
                 level="M"
               />
@@ -79,16 +52,26 @@ const RegistrationSuccess = () => {
             <p className="text-2xl font-mono font-bold text-foreground">{attendeeData.qr_code}</p>
           </div>
 
-          <div className="space-y-3">
-            <Button onClick={downloadQRCode} className="w-full" variant="outline">
-              <Download className="w-4 h-4 mr-2" />
-              Download QR Code
-            </Button>
-          </div>
+          <TicketActions
+            attendeeName={attendeeData.name}
+            qrElementId="attendee-qr-code"
+            event={attendeeData.event}
+            walletLinks={attendeeData.wallet_links}
+          />
+
+          {attendeeData.qr_token && (
+            <p className="text-xs text-muted-foreground text-center">
+              Bookmark{" "}
+              <Link to={`/ticket/${encodeURIComponent(attendeeData.qr_token)}`} className="text-primary underline">
+                your ticket page
+              </Link>
+              {" "}to come back to this QR code later.
+            </p>
+          )}
 
           <div className="text-xs text-muted-foreground text-center space-y-2">
             <p className="font-medium">What's next?</p>
-            <p>1. Save or download your QR code</p>
+            <p>1. Save or download your QR code, or add it to your wallet</p>
             <p>2. Show this QR code at the event entrance for quick check-in</p>
             <p>3. You can close this page now</p>
           </div>
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -10,6 +10,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { toast } from "sonner";
 import { QRCodeSVG } from "qrcode.react";
 import { Download, UserPlus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
 
 const registrationSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -21,7 +22,31 @@ type RegistrationForm = z.infer<typeof registrationSchema>;
 
 const SelfRegister = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [eventName, setEventName] = useState<string | null>(null);
   const navigate = useNavigate();
+  const { eventSlug } = useParams<{ eventSlug: string }>();
+
+  useEffect(() => {
+    if (!eventSlug) return;
+
+    const loadEvent = async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('name')
+        .eq('slug', eventSlug)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error loading event:", error);
+        return;
+      }
+
+      setEventName(data?.name ?? null);
+    };
+
+    loadEvent();
+  }, [eventSlug]);
 
   const form = useForm<RegistrationForm>({
     resolver: zodResolver(registrationSchema),
@@ -46,6 +71,7 @@ const SelfRegister = () => {
           email: data.email,
           phone: null,
           company: data.company || null,
+          event_slug: eventSlug || null,
         }),
       });
 
@@ -58,7 +84,7 @@ const SelfRegister = () => {
 
       toast.success("Registration successful! Your QR code is ready.");
       navigate("/registration-success", { 
-        state: { name: data.name, qr_code: result.qr_code } 
+        state: { name: data.name, qr_code: result.qr_code, qr_token: result.qr_token, event_name: result.event_name, event: result.event, wallet_links: result.wallet_links } 
       });
       
     } catch (error) {
@@ -75,7 +101,7 @@ const SelfRegister = () => {
         <CardHeader className="text-center">
           <CardTitle className="text-2xl text-foreground">Walk-in Registration</CardTitle>
           <CardDescription>
-            Register for the event and get your QR code instantly
+            Register for {eventName || "the event"} and get your QR code instantly
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -146,8 +172,14 @@ const SelfRegister = () => {
             </form>
           </Form>
 
-          <div className="mt-6 text-xs text-muted-foreground text-center">
+          <div className="mt-6 text-xs text-muted-foreground text-center space-y-2">
             <p>After registration, you'll receive a unique QR code for event check-in.</p>
+            <p>
+              Already registered?{" "}
+              <Link to={eventSlug ? `/ticket?event=${encodeURIComponent(eventSlug)}` : "/ticket"} className="text-primary underline">
+                Get your ticket again
+              </Link>
+            </p>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { QRCodeSVG } from "qrcode.react";
+import { CalendarDays, Loader2, MapPin, Ticket as TicketIcon } from "lucide-react";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { formatEventDate } from "@/lib/emailTemplate";
+import type { CalendarEvent } from "@/lib/calendar";
+import type { WalletLinks } from "@/lib/emailTemplate";
+import { TicketActions } from "@/components/TicketActions";
+import { ResendTicketForm } from "@/components/ResendTicketForm";
+
+interface TicketData {
+  attendee: {
+    name: string;
+    qr_code: string;
+    qr_token: string;
+    checked_in: boolean;
+    ticket_type: string | null;
+  };
+  event: CalendarEvent;
+  wallet_links: WalletLinks;
+}
+
+// An attendee's personal ticket, reached from links in emails and texts:
+// /ticket/<qr_token>. Without a token, or with one that was reissued, the page
+// offers to email the current link instead.
+const Ticket = () => {
+  const { token } = useParams<{ token: string }>();
+  const [searchParams] = useSearchParams();
+  const eventSlug = searchParams.get("event") || undefined;
+  const [ticket, setTicket] = useState<TicketData | null>(null);
+  const [loading, setLoading] = useState(!!token);
+  // Network or server trouble, as opposed to a link that no longer works
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadTicket = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.functions.invoke('ticket', { body: { token } });
+
+      if (error) {
+        console.error("Error loading ticket:", error);
+        setTicket(null);
+        setLoadFailed(!(error instanceof FunctionsHttpError && error.context.status === 404));
+      } else {
+        setTicket(data as TicketData);
+      }
+      setLoading(false);
+    };
+
+    loadTicket();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center p-4">
+        <Loader2 className="w-8 h-8 animate-spin text-primary-foreground" />
+      </div>
+    );
+  }
+
+  if (!ticket && loadFailed) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center p-4">
+        <Card className="w-full max-w-md shadow-elegant">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl text-foreground">Could Not Load Your Ticket</CardTitle>
+            <CardDescription>Please check your connection and reload the page.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!ticket) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center p-4">
+        <Card className="w-full max-w-md shadow-elegant">
+          <CardHeader className="text-center">
+            <div className="mx-auto w-12 h-12 bg-primary rounded-full flex items-center justify-center mb-4">
+              <TicketIcon className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <CardTitle className="text-2xl text-foreground">{token ? "Ticket Link Expired" : "Find My Ticket"}</CardTitle>
+            <CardDescription>
+              {token
+                ? "This link is no longer valid, usually because your QR code was reissued. Enter your email and we'll send you the current one."
+                : "Enter the email you registered with and we'll send you a link to your ticket."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResendTicketForm eventSlug={eventSlug} />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { attendee, event } = ticket;
+  const eventDate = formatEventDate(event.startsAt, event.timeZone);
+
+  return (
+    <div className="min-h-screen bg-gradient-hero flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-elegant">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl text-foreground">{event.name}</CardTitle>
+          <CardDescription className="space-y-1">
+            {eventDate && (
+              <span className="flex items-center justify-center gap-1">
+                <CalendarDays className="w-4 h-4" />
+                {eventDate}
+              </span>
+            )}
+            {event.venue && (
+              <span className="flex items-center justify-center gap-1">
+                <MapPin className="w-4 h-4" />
+                {event.venue}
+              </span>
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="text-center space-y-2">
+            <p className="text-lg font-semibold text-foreground">{attendee.name}</p>
+            <div className="flex justify-center gap-2">
+              {attendee.ticket_type && <Badge variant="secondary">{attendee.ticket_type}</Badge>}
+              {attendee.checked_in && <Badge className="bg-success text-success-foreground">Checked In</Badge>}
+            </div>
+          </div>
+
+          <div className="flex justify-center">
+            <div className="bg-white p-4 rounded-lg">
+              <QRCodeSVG
+                id="ticket-qr-code"
+                value={attendee.qr_token || attendee.qr_code}
+                size={200}
+                level="M"
+              />
+            </div>
+          </div>
+
+          <div className="text-center">
+            <p className="text-sm text-muted-foreground mb-2">Your QR Code:</p>
+            <p className="text-2xl font-mono font-bold text-foreground">{attendee.qr_code}</p>
+          </div>
+
+          <TicketActions
+            attendeeName={attendee.name}
+            qrElementId="ticket-qr-code"
+            event={event}
+            walletLinks={ticket.wallet_links}
+          />
+
+          <p className="text-xs text-muted-foreground text-center">
+            Show this QR code at the event entrance. Keep this link private: anyone with it can use your ticket.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Ticket;
@@ -1,38 +1,29 @@
 import { supabase } from "@/integrations/supabase/client";
 
-export const uploadBannerToStorage = async () => {
-  try {
-    // Convert the banner image to base64
-    const response = await fetch('/assets/email-banner.png');
-    const blob = await response.blob();
-    
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = async () => {
-        try {
-          const base64Data = reader.result as string;
-          
-          // Call the upload-banner edge function
-          const { data, error } = await supabase.functions.invoke('upload-banner', {
-            body: { imageData: base64Data }
-          });
+const readAsDataUrl = (file: File) => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
 
-          if (error) {
-            console.error('Error uploading banner:', error);
-            reject(error);
-          } else {
-            console.log('Banner uploaded successfully:', data);
-            resolve(data);
-          }
-        } catch (err) {
-          reject(err);
-        }
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
-  } catch (error) {
-    console.error('Error preparing banner for upload:', error);
+// Upload a banner for an event's email template; each upload gets its own file,
+// so saved template versions keep their banner. Returns the public URL.
+export const uploadEmailBanner = async (eventId: string, file: File) => {
+  const imageData = await readAsDataUrl(file);
+
+  const { data, error } = await supabase.functions.invoke('upload-banner', {
+    body: { imageData, eventId }
+  });
+
+  if (error) {
     throw error;
   }
-};
\ No newline at end of file
+  if (!data?.url) {
+    throw new Error(data?.error || 'Banner upload failed');
+  }
+
+  return data.url as string;
+};
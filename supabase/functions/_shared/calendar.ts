@@ -0,0 +1,136 @@
+// RFC 5545 calendar files for an event. Shared by the edge functions, which attach
+// the file to QR emails, and the registration success page, which offers the same
+// file as a download (through src/lib/calendar.ts).
+
+export interface CalendarEvent {
+  id: string;
+  name: string;
+  description?: string | null;
+  venue?: string | null;
+  startsAt?: Date | string | null;
+  endsAt?: Date | string | null;
+  organizerName?: string | null;
+  organizerEmail?: string | null;
+  // IANA zone the event's date is shown in; the .ics file itself uses UTC
+  timeZone?: string | null;
+}
+
+// Columns needed from the events table, for edge functions that select them
+export const CALENDAR_EVENT_COLUMNS = 'id, name, description, venue, starts_at, ends_at, organizer_name, organizer_email, time_zone';
+
+export interface CalendarEventRow {
+  id: string;
+  name: string;
+  description: string | null;
+  venue: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  organizer_name: string | null;
+  organizer_email: string | null;
+  time_zone: string;
+}
+
+// Events saved without an end time still need one in most calendar apps
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+// Content lines are folded at 75 octets (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+const PRODUCT_ID = '-//Juspay//Event Check-In//EN';
+
+export const calendarEventFromRow = (row: CalendarEventRow): CalendarEvent => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  venue: row.venue,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  organizerName: row.organizer_name,
+  organizerEmail: row.organizer_email,
+  timeZone: row.time_zone,
+});
+
+const escapeText = (text: string) => text
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Parameter values such as CN can't be escaped, only quoted
+const quoteParam = (value: string) => `"${value.replace(/["\r\n]/g, '')}"`;
+
+// UTC form, e.g. 20261019T093000Z
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const toDate = (value?: Date | string | null) => {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+};
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (utf8Length(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// Events without a start time can't be put in a calendar
+export const hasCalendarDetails = (event: CalendarEvent) => {
+  return toDate(event.startsAt) !== null;
+};
+
+/**
+ * Build the .ics file for an event, or null when it has no start time. The UID
+ * only depends on the event, so a resent invite updates the calendar entry
+ * instead of adding a second one.
+ */
+export const buildCalendarFile = (event: CalendarEvent, now: Date = new Date()): string | null => {
+  const startsAt = toDate(event.startsAt);
+  if (!startsAt) return null;
+
+  const endsAt = toDate(event.endsAt);
+  const end = endsAt && endsAt > startsAt ? endsAt : new Date(startsAt.getTime() + DEFAULT_DURATION_MS);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.id}@event-checkin`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(startsAt)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(event.name)}`,
+  ];
+
+  if (event.description?.trim()) {
+    lines.push(`DESCRIPTION:${escapeText(event.description.trim())}`);
+  }
+  if (event.venue?.trim()) {
+    lines.push(`LOCATION:${escapeText(event.venue.trim())}`);
+  }
+  if (event.organizerEmail?.trim()) {
+    const commonName = event.organizerName?.trim() ? `;CN=${quoteParam(event.organizerName.trim())}` : '';
+    lines.push(`ORGANIZER${commonName}:mailto:${event.organizerEmail.trim()}`);
+  }
+
+  lines.push('STATUS:CONFIRMED', 'TRANSP:OPAQUE', 'END:VEVENT', 'END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const calendarFileName = (event: CalendarEvent) => {
+  const base = event.name.trim().replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${base || 'event'}.ics`;
+};
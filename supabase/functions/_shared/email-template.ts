@@ -0,0 +1,438 @@
+// Placeholder engine and HTML for QR code emails. Plain TypeScript without Deno or
+// browser APIs: the edge functions import it directly and the dashboard through
+// src/lib/emailTemplate.ts, so the editor preview is the email that gets sent.
+
+export interface EmailTheme {
+  // Headings, borders, the QR code frame and buttons
+  primaryColor: string;
+  textColor: string;
+  backgroundColor: string;
+}
+
+export type EmailBlock =
+  | { id: string; type: 'header'; imageUrl: string; alt: string }
+  | { id: string; type: 'text'; style: 'heading' | 'paragraph'; text: string }
+  | { id: string; type: 'qr'; instructions: string; showCode: boolean; showWalletLinks?: boolean }
+  | { id: string; type: 'button'; label: string; url: string }
+  | { id: string; type: 'footer'; text: string };
+
+export type EmailBlockType = EmailBlock['type'];
+
+// Links to the attendee's wallet-pass downloads; missing when that wallet isn't set up
+export interface WalletLinks {
+  apple?: string;
+  google?: string;
+}
+
+export interface EmailTemplate {
+  subject: string;
+  // The HTML document title, shown by some mail clients
+  headerTitle: string;
+  theme: EmailTheme;
+  blocks: EmailBlock[];
+}
+
+// Shape saved before the block editor; still found in older template versions
+interface LegacyEmailTemplate {
+  subject: string;
+  greeting: string;
+  mainMessage: string;
+  qrInstructions: string;
+  closingMessage: string;
+  senderName: string;
+  headerTitle: string;
+}
+
+export const PLACEHOLDERS = ['name', 'company', 'qrCode', 'eventName', 'eventDate', 'venue'] as const;
+
+export type Placeholder = typeof PLACEHOLDERS[number];
+
+export type PlaceholderValues = Record<Placeholder, string>;
+
+// Templates written before the engine existed only knew {attendeeName}
+const PLACEHOLDER_ALIASES: Record<string, Placeholder> = {
+  attendeeName: 'name',
+};
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Events created before they had a time zone of their own were shown in this one;
+// edge functions run in UTC, so the zone is always passed explicitly
+export const DEFAULT_EVENT_TIME_ZONE = 'Asia/Kolkata';
+
+export const DEFAULT_BANNER_URL = 'https://dth95m2xtyv8v.cloudfront.net/tesseract/assets/hyper-checkout/gffinviteheader.png';
+
+export const defaultEmailTheme: EmailTheme = {
+  primaryColor: '#052659',
+  textColor: '#374151',
+  backgroundColor: '#f9f9f9',
+};
+
+export const defaultEmailTemplate: EmailTemplate = {
+  subject: "Your Event QR Code - {name}",
+  headerTitle: "Your Event QR Code",
+  theme: defaultEmailTheme,
+  blocks: [
+    { id: 'header', type: 'header', imageUrl: DEFAULT_BANNER_URL, alt: 'Event Banner' },
+    { id: 'greeting', type: 'text', style: 'heading', text: "Hello {name}!" },
+    { id: 'message', type: 'text', style: 'paragraph', text: "Here's your QR code for the event. Please save this image and present it at check-in." },
+    { id: 'qr', type: 'qr', instructions: "Your unique QR code:", showCode: true },
+    { id: 'closing', type: 'text', style: 'paragraph', text: "We look forward to seeing you at the event!" },
+  ],
+};
+
+// Starting content for a block added in the editor
+export const createBlock = (type: EmailBlockType, id: string): EmailBlock => {
+  switch (type) {
+    case 'header':
+      return { id, type, imageUrl: DEFAULT_BANNER_URL, alt: 'Event Banner' };
+    case 'text':
+      return { id, type, style: 'paragraph', text: '' };
+    case 'qr':
+      return { id, type, instructions: "Your unique QR code:", showCode: true, showWalletLinks: false };
+    case 'button':
+      return { id, type, label: 'Add to calendar', url: 'https://' };
+    case 'footer':
+      return { id, type, text: '' };
+  }
+};
+
+const defaultLegacyTemplate: LegacyEmailTemplate = {
+  subject: "Your Event QR Code - {attendeeName}",
+  greeting: "Hello {attendeeName}!",
+  mainMessage: "Here's your QR code for the event. Please save this image and present it at check-in.",
+  qrInstructions: "Your unique QR code:",
+  closingMessage: "We look forward to seeing you at the event!",
+  senderName: "",
+  headerTitle: "Your Event QR Code",
+};
+
+/**
+ * Bring saved content to the current shape. Versions saved before the block editor
+ * become the same blocks the old fixed layout showed.
+ */
+export const normalizeTemplate = (content: unknown): EmailTemplate => {
+  if (!content) return defaultEmailTemplate;
+
+  const saved = content as Partial<EmailTemplate & LegacyEmailTemplate>;
+
+  if (Array.isArray(saved.blocks)) {
+    return {
+      subject: saved.subject ?? defaultEmailTemplate.subject,
+      headerTitle: saved.headerTitle ?? defaultEmailTemplate.headerTitle,
+      theme: { ...defaultEmailTheme, ...(saved.theme || {}) },
+      blocks: saved.blocks,
+    };
+  }
+
+  const legacy = { ...defaultLegacyTemplate, ...saved };
+  const blocks: EmailBlock[] = [
+    { id: 'header', type: 'header', imageUrl: DEFAULT_BANNER_URL, alt: 'Event Banner' },
+    { id: 'greeting', type: 'text', style: 'heading', text: legacy.greeting },
+    { id: 'message', type: 'text', style: 'paragraph', text: legacy.mainMessage },
+    { id: 'qr', type: 'qr', instructions: legacy.qrInstructions, showCode: true },
+    { id: 'closing', type: 'text', style: 'paragraph', text: legacy.closingMessage },
+  ];
+  if (legacy.senderName.trim()) {
+    blocks.push({ id: 'footer', type: 'footer', text: `**${legacy.senderName}**` });
+  }
+
+  return {
+    subject: legacy.subject,
+    headerTitle: legacy.headerTitle,
+    theme: defaultEmailTheme,
+    blocks,
+  };
+};
+
+/**
+ * Per-send overrides from the dashboard: a subject line, and a message that
+ * replaces the first paragraph (the main message in the default layout).
+ */
+export const applyOverrides = (template: EmailTemplate, { subject, message }: { subject?: string; message?: string }): EmailTemplate => {
+  const messageIndex = message ? template.blocks.findIndex(b => b.type === 'text' && b.style === 'paragraph') : -1;
+
+  return {
+    ...template,
+    subject: subject || template.subject,
+    blocks: template.blocks.map((block, index) => (
+      index === messageIndex && block.type === 'text' ? { ...block, text: message } : block
+    )),
+  };
+};
+
+export interface FollowUpContent {
+  subject: string;
+  message: string;
+  // Optional call to action, e.g. a survey link
+  buttonLabel?: string;
+  buttonUrl?: string;
+}
+
+/**
+ * A post-event email in the look of the event's template: its theme, header image
+ * and footer around a greeting, the message and an optional button. It has no QR
+ * code block, so it is validated with requireQrBlock off.
+ */
+export const followUpTemplate = (base: EmailTemplate, content: FollowUpContent): EmailTemplate => {
+  const header = base.blocks.find(block => block.type === 'header');
+  const footer = base.blocks.find(block => block.type === 'footer');
+  const buttonUrl = content.buttonUrl?.trim();
+
+  return {
+    subject: content.subject,
+    headerTitle: '{eventName}',
+    theme: base.theme,
+    blocks: [
+      ...(header ? [header] : []),
+      { id: 'greeting', type: 'text', style: 'heading', text: "Hello {name}!" },
+      { id: 'message', type: 'text', style: 'paragraph', text: content.message },
+      ...(buttonUrl ? [{ id: 'button', type: 'button' as const, label: content.buttonLabel?.trim() || 'Open', url: buttonUrl }] : []),
+      ...(footer ? [footer] : []),
+    ],
+  };
+};
+
+const resolvePlaceholder = (key: string): Placeholder | undefined => {
+  return (PLACEHOLDERS as readonly string[]).includes(key) ? key as Placeholder : PLACEHOLDER_ALIASES[key];
+};
+
+export const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => ({
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}[char] as string));
+
+export const formatEventDate = (date?: Date | string | null, timeZone?: string | null) => {
+  if (!date) return '';
+  return new Intl.DateTimeFormat('en-US', {
+    dateStyle: 'long',
+    timeStyle: 'short',
+    timeZone: timeZone || DEFAULT_EVENT_TIME_ZONE,
+  }).format(new Date(date));
+};
+
+export const placeholderValues = (
+  attendee: { name: string; company?: string | null; qrCode?: string | null },
+  event?: { name?: string | null; startsAt?: Date | string | null; venue?: string | null; timeZone?: string | null } | null
+): PlaceholderValues => ({
+  name: attendee.name,
+  company: attendee.company || '',
+  qrCode: attendee.qrCode || '',
+  eventName: event?.name || '',
+  eventDate: formatEventDate(event?.startsAt, event?.timeZone),
+  venue: event?.venue || '',
+});
+
+// Every piece of organiser-written text in the template
+const templateTexts = (template: EmailTemplate) => [
+  template.subject,
+  template.headerTitle,
+  ...template.blocks.flatMap(block => {
+    switch (block.type) {
+      case 'header': return [block.alt];
+      case 'text': return [block.text];
+      case 'qr': return [block.instructions];
+      case 'button': return [block.label, block.url];
+      case 'footer': return [block.text];
+    }
+  }),
+];
+
+// Placeholders the engine does not know, e.g. a typo like {nmae}, in the order they appear
+export const findUnknownPlaceholders = (template: EmailTemplate) => {
+  const unknown = new Set<string>();
+  for (const text of templateTexts(template)) {
+    for (const [match, key] of String(text ?? '').matchAll(PLACEHOLDER_PATTERN)) {
+      if (!resolvePlaceholder(key)) unknown.add(match);
+    }
+  }
+  return [...unknown];
+};
+
+// Everything that would stop the template from being saved or sent
+export const findTemplateProblems = (template: EmailTemplate, { requireQrBlock = true } = {}) => {
+  const problems: string[] = [];
+  const unknown = findUnknownPlaceholders(template);
+
+  if (unknown.length > 0) {
+    problems.push(`Unknown placeholder${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`);
+  }
+
+  for (const [key, color] of Object.entries(template.theme)) {
+    if (!COLOR_PATTERN.test(color)) {
+      problems.push(`Theme colour ${key} must be a hex colour like #052659`);
+    }
+  }
+
+  for (const block of template.blocks) {
+    if (block.type === 'button' && !/^(https?:\/\/\S+|mailto:\S+)$/.test(block.url.trim())) {
+      problems.push(`Button "${block.label}" needs a link starting with https://, http:// or mailto:`);
+    }
+    if (block.type === 'header' && !/^https?:\/\/\S+$/.test(block.imageUrl.trim())) {
+      problems.push('Header image needs an uploaded banner or an image URL');
+    }
+  }
+
+  if (requireQrBlock && !template.blocks.some(block => block.type === 'qr')) {
+    problems.push('The template needs a QR code block');
+  }
+
+  return problems;
+};
+
+export const validateTemplate = (template: EmailTemplate, options: { requireQrBlock?: boolean } = {}) => {
+  const problems = findTemplateProblems(template, options);
+  if (problems.length > 0) {
+    throw new Error(`Invalid email template: ${problems.join('; ')}`);
+  }
+};
+
+// Plain-text fill, for the subject line
+export const fillPlaceholders = (text: string, values: PlaceholderValues) => {
+  return text.replace(PLACEHOLDER_PATTERN, (match, key) => {
+    const placeholder = resolvePlaceholder(key);
+    return placeholder ? values[placeholder] : match;
+  });
+};
+
+// Template text as HTML: the organiser's text and the attendee's values are both
+// escaped; **bold** and line breaks are the only markup allowed
+const fillHtml = (text: string, values: PlaceholderValues) => {
+  const markup = escapeHtml(text)
+    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\n/g, '<br>');
+  return markup.replace(PLACEHOLDER_PATTERN, (match, key) => {
+    const placeholder = resolvePlaceholder(key);
+    return placeholder ? escapeHtml(values[placeholder]) : match;
+  });
+};
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+const FONT = "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif";
+
+const renderWalletLinks = (links: WalletLinks, theme: EmailTheme) => {
+  const anchors = [
+    links.apple && `<a href="${escapeHtml(links.apple)}" style="color: ${theme.primaryColor}; font-weight: 600;">Add to Apple Wallet</a>`,
+    links.google && `<a href="${escapeHtml(links.google)}" style="color: ${theme.primaryColor}; font-weight: 600;">Save to Google Wallet</a>`,
+  ].filter(Boolean);
+
+  return anchors.length > 0
+    ? `<p style="margin: 16px 0 0 0; font-size: 14px;">${anchors.join(' &nbsp;|&nbsp; ')}</p>`
+    : '';
+};
+
+const renderBlock = (block: EmailBlock, theme: EmailTheme, values: PlaceholderValues, qrImageUrl: string, walletLinks: WalletLinks) => {
+  const text = (value: string) => escapeHtml(fillPlaceholders(value, values));
+  const html = (value: string) => fillHtml(value, values);
+
+  switch (block.type) {
+    case 'header':
+      return `
+                    <tr>
+                        <td align="center">
+                            <img src="${text(block.imageUrl)}" alt="${text(block.alt)}" style="width: 100%; max-width: 600px; height: auto; display: block;" />
+                        </td>
+                    </tr>`;
+    case 'text':
+      return block.style === 'heading' ? `
+                    <tr>
+                        <td style="padding: 30px 30px 0 30px;">
+                            <h2 style="color: ${theme.primaryColor}; margin: 0; font-size: 24px; font-family: ${FONT};">${html(block.text)}</h2>
+                        </td>
+                    </tr>` : `
+                    <tr>
+                        <td style="padding: 20px 30px 0 30px;">
+                            <p style="color: ${theme.textColor}; font-size: 16px; line-height: 1.6; margin: 0;">
+                                ${html(block.text)}
+                            </p>
+                        </td>
+                    </tr>`;
+    case 'qr':
+      return `
+                    <tr>
+                        <td align="center" style="padding: 30px;">
+                            <table border="0" cellpadding="20" cellspacing="0" role="presentation" style="width:100%; background-color: #f3f4f6; border-radius: 8px; text-align: center;">
+                                <tr>
+                                    <td align="center">
+                                        <p style="color: ${theme.primaryColor}; margin: 0 0 16px 0; font-size: 16px;">${html(block.instructions)}</p>
+                                        <img src="${escapeHtml(qrImageUrl)}" alt="Your Event QR Code" width="250" style="width: 250px; height: auto; border: 3px solid ${theme.primaryColor}; border-radius: 12px; display: block;" />
+                                        ${block.showCode ? `<p style="background: #ffffff; padding: 12px 16px; border-radius: 6px; font-family: 'Courier New', monospace; font-size: 18px; font-weight: 600; color: ${theme.primaryColor}; margin: 16px auto 0 auto; border: 1px solid #e5e7eb; letter-spacing: 1px; max-width: 80%;">
+                                            ${escapeHtml(values.qrCode)}
+                                        </p>` : ''}
+                                        ${block.showWalletLinks ? renderWalletLinks(walletLinks, theme) : ''}
+                                    </td>
+                                </tr>
+                            </table>
+                        </td>
+                    </tr>`;
+    case 'button':
+      return `
+                    <tr>
+                        <td align="center" style="padding: 20px 30px 0 30px;">
+                            <a href="${text(block.url)}" style="display: inline-block; background-color: ${theme.primaryColor}; color: #ffffff; padding: 12px 28px; border-radius: 6px; font-size: 16px; font-weight: 600; text-decoration: none;">${html(block.label)}</a>
+                        </td>
+                    </tr>`;
+    case 'footer':
+      return `
+                    <tr>
+                        <td align="center" style="background-color: #f8fafc; padding: 30px; border-top: 1px solid #e5e7eb; color: ${theme.textColor}; font-size: 14px; line-height: 1.5;">
+                            ${html(block.text)}
+                        </td>
+                    </tr>`;
+  }
+};
+
+export const renderQrEmail = (
+  template: EmailTemplate,
+  values: PlaceholderValues,
+  qrImageUrl: string,
+  walletLinks: WalletLinks = {}
+): RenderedEmail => {
+  const { theme } = template;
+  // Keep the last text block clear of the footer or the card edge
+  const spacer = `
+                    <tr>
+                        <td style="padding: 0 0 30px 0;"></td>
+                    </tr>`;
+  const blocks = template.blocks.map(block => renderBlock(block, theme, values, qrImageUrl, walletLinks));
+  const footerIndex = template.blocks.findIndex(block => block.type === 'footer');
+  blocks.splice(footerIndex === -1 ? blocks.length : footerIndex, 0, spacer);
+
+  return {
+    subject: fillPlaceholders(template.subject, values),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Type" content="text/html; charset=UTF-8">
+    <title>${escapeHtml(fillPlaceholders(template.headerTitle, values))}</title>
+    <style>
+        @media only screen and (max-width: 600px) {
+            .email-container { width: 100% !important; }
+        }
+    </style>
+</head>
+<body style="margin: 0; padding: 20px; background-color: ${theme.backgroundColor}; font-family: ${FONT};">
+    <center>
+        <div class="email-container" style="max-width: 600px; margin: 0 auto;">
+            <table align="center" border="0" cellpadding="0" cellspacing="0" role="presentation" style="width:100%; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1); overflow: hidden;">
+                <tbody>${blocks.join('')}
+                </tbody>
+            </table>
+        </div>
+    </center>
+</body>
+</html>
+`,
+  };
+};
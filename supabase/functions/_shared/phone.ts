@@ -0,0 +1,44 @@
+// Phone numbers as attendees type them, turned into E.164 (+<country><number>) for
+// SMS and WhatsApp. Shared by the edge functions and the dashboard (src/lib/phone.ts),
+// so both agree on which numbers can be messaged.
+
+// Attendees are mostly registered with Indian numbers and no country code
+export const DEFAULT_COUNTRY_CODE = '91';
+
+// National significant numbers without a country code are 10 digits in India
+const NATIONAL_NUMBER_LENGTH = 10;
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Normalise a phone number to E.164, or null when it can't be one. Numbers
+ * written with +, 00 or a country code are kept as international; a national
+ * number (optionally with a leading trunk 0) gets the default country code.
+ */
+export const toE164 = (phone: string | null | undefined, defaultCountryCode = DEFAULT_COUNTRY_CODE): string | null => {
+  if (!phone) return null;
+
+  const trimmed = phone.trim();
+  // Extensions are not reachable by SMS
+  const number = trimmed.split(/\s*(?:ext\.?|x|#)\s*\d+$/i)[0];
+  if (/[^\d\s()+.\-/]/.test(number)) return null;
+
+  const digits = number.replace(/\D/g, '');
+  let international: string;
+
+  if (number.startsWith('+')) {
+    international = digits;
+  } else if (digits.startsWith('00')) {
+    international = digits.slice(2);
+  } else if (digits.length === NATIONAL_NUMBER_LENGTH + 1 && digits.startsWith('0')) {
+    international = defaultCountryCode + digits.slice(1);
+  } else if (digits.length === NATIONAL_NUMBER_LENGTH) {
+    international = defaultCountryCode + digits;
+  } else {
+    // Already has a country code, just without the +
+    international = digits;
+  }
+
+  const e164 = `+${international}`;
+  return E164_PATTERN.test(e164) ? e164 : null;
+};
@@ -0,0 +1,37 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+// Caller checks for functions that act on an event with the service role on behalf
+// of a dashboard user: upload-banner, send-qr-email, process-email-queue,
+// send-whatsapp and send-sms.
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * A client that acts with the caller's session, so RPCs made through it run their
+ * own access checks and record the dashboard user as the actor.
+ */
+export const createUserClient = (authHeader: string) =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+
+/**
+ * Check that the request comes from a signed-in user with platform access (see
+ * user_has_platform_access). Returns the status to reject the request with, or
+ * null when the caller may go ahead.
+ */
+export const checkPlatformAccess = async (authHeader: string | null): Promise<401 | 403 | null> => {
+  if (!authHeader) return 401;
+
+  const userClient = createUserClient(authHeader);
+
+  const { data: { user }, error: authError } = await userClient.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (authError || !user) return 401;
+
+  const { data: hasAccess, error: accessError } = await userClient.rpc('user_has_platform_access', { _user_id: user.id });
+  if (accessError) {
+    throw new Error(`Failed to check access: ${accessError.message}`);
+  }
+
+  return hasAccess ? null : 403;
+};
@@ -0,0 +1,50 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { normalizeTemplate, type EmailTemplate } from "./email-template.ts";
+import { buildCalendarFile, calendarFileName, type CalendarEvent } from "./calendar.ts";
+
+// Shared by send-qr-email and process-email-queue so single and bulk sends look the same
+
+export const EMAIL_SENDER = "Juspay Communications <marketing@juspay.in>";
+
+// Turn Resend errors into messages an organiser can act on
+export const describeResendError = (error: { message?: string }) => {
+  if (error.message?.includes('verify a domain') || error.message?.includes('domain is not verified')) {
+    return 'Domain not verified. With the test domain, you can only send emails to your own verified Resend account email. To send to other recipients, verify your domain at resend.com/domains.';
+  }
+
+  if (error.message?.includes('testing emails to your own email')) {
+    return 'With the test domain, you can only send emails to your own verified Resend account email address. To send to other recipients, verify a custom domain at resend.com/domains.';
+  }
+
+  return `Resend API error: ${error.message || JSON.stringify(error)}`;
+};
+
+// The event's newest saved template, or the default before one is saved
+export const fetchEventTemplate = async (supabase: SupabaseClient, eventId: string): Promise<EmailTemplate> => {
+  const { data, error } = await supabase
+    .from('email_template_versions')
+    .select('content')
+    .eq('event_id', eventId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load email template: ${error.message}`);
+  }
+
+  return normalizeTemplate(data?.content);
+};
+
+// The event as an .ics attachment; left out when the event has no start time yet
+export const calendarAttachment = (event: CalendarEvent | null) => {
+  const calendar = event && buildCalendarFile(event);
+  if (!calendar) return [];
+
+  return [{
+    filename: calendarFileName(event),
+    content: encodeBase64(new TextEncoder().encode(calendar)),
+    contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+  }];
+};
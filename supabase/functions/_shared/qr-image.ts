@@ -0,0 +1,33 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import QRCode from "npm:qrcode@1.5.3";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+// Server-rendered QR images, for sends that don't come with an image from the
+// dashboard: campaign emails and WhatsApp messages.
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Render the attendee's current code once and keep it at a path derived from the
+// payload, so a reissued code never reuses the old image
+export const getQrImage = async (supabase: SupabaseClient, attendeeId: string, payload: string) => {
+  const png: Uint8Array = await QRCode.toBuffer(payload, { width: 250, margin: 2 });
+  const filePath = `attendees/${attendeeId}/qr-${(await sha256Hex(payload)).slice(0, 16)}.png`;
+
+  const { error } = await supabase.storage
+    .from('qr-codes')
+    .upload(filePath, png, {
+      contentType: 'image/png',
+      upsert: true,
+      cacheControl: '3600',
+    });
+
+  if (error) {
+    throw new Error(`Failed to upload QR image to storage: ${error.message}`);
+  }
+
+  const { data } = supabase.storage.from('qr-codes').getPublicUrl(filePath);
+  return { url: data.publicUrl, base64: encodeBase64(png) };
+};
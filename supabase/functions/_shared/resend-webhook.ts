@@ -0,0 +1,46 @@
+import { encode as encodeBase64, decode as decodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { timingSafeEqual } from "./http.ts";
+
+// Resend signs webhooks the Svix way: HMAC-SHA256 over "{id}.{timestamp}.{body}"
+// with the base64 part of the whsec_ secret. Shared by resend-webhook and the
+// local stub that posts sample payloads to it.
+
+// Reject deliveries older (or newer) than this to stop replays
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+export interface WebhookHeaders {
+  id: string;
+  timestamp: string;
+  signature: string;
+}
+
+export const sign = async (secret: string, id: string, timestamp: string, body: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    decodeBase64(secret.replace(/^whsec_/, '')),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${id}.${timestamp}.${body}`));
+  return `v1,${encodeBase64(new Uint8Array(mac))}`;
+};
+
+// Throws with the reason when the request was not signed with the secret
+export const verify = async (secret: string, headers: WebhookHeaders, body: string, now = Date.now()) => {
+  if (!headers.id || !headers.timestamp || !headers.signature) {
+    throw new Error('Missing webhook signature headers');
+  }
+
+  const timestamp = Number(headers.timestamp);
+  if (!Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > TIMESTAMP_TOLERANCE_SECONDS) {
+    throw new Error('Webhook timestamp outside the allowed window');
+  }
+
+  const expected = await sign(secret, headers.id, headers.timestamp, body);
+  // The header may carry several space-separated signatures during secret rotation
+  const matches = headers.signature.split(' ').some(candidate => timingSafeEqual(candidate, expected));
+  if (!matches) {
+    throw new Error('Invalid webhook signature');
+  }
+};
@@ -0,0 +1,163 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { timingSafeEqual } from "./http.ts";
+
+// SMS providers behind one interface, chosen with SMS_PROVIDER. Used by send-sms
+// and by sms-status, which receives the provider's delivery callbacks.
+
+export type SmsStatus = 'sending' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+export interface SmsMessage {
+  // E.164
+  to: string;
+  body: string;
+  // Where the provider reports delivery status
+  statusCallbackUrl?: string;
+}
+
+export interface SmsSendResult {
+  providerMessageId: string;
+  status: SmsStatus;
+}
+
+export interface SmsStatusUpdate {
+  providerMessageId: string;
+  // null for provider states that have no counterpart in ours; those are ignored
+  status: SmsStatus | null;
+  error?: string;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+  /**
+   * Read a status callback. `url` is the callback URL as given to the provider,
+   * for signature checks. Resolves to null when the request is not authentic.
+   */
+  parseStatusCallback(req: Request, url: string): Promise<SmsStatusUpdate | null>;
+}
+
+// ============================================
+// Twilio-compatible HTTP contract
+// ============================================
+// POST {SMS_API_URL}/2010-04-01/Accounts/{sid}/Messages.json with a form body and
+// basic auth; callbacks are form posts signed with X-Twilio-Signature. Twilio
+// itself and several other providers speak it.
+
+interface TwilioConfig {
+  apiUrl: string;
+  accountSid: string;
+  authToken: string;
+  // A sender number, or a messaging service that picks one
+  from?: string;
+  messagingServiceSid?: string;
+}
+
+// Twilio's many message states, reduced to ours
+const twilioStatuses: Record<string, SmsStatus> = {
+  accepted: 'sent',
+  scheduled: 'sent',
+  queued: 'sent',
+  sending: 'sent',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'delivered',
+  undelivered: 'undelivered',
+  failed: 'failed',
+  canceled: 'failed',
+};
+
+const getTwilioConfig = (): TwilioConfig | null => {
+  const accountSid = Deno.env.get('SMS_ACCOUNT_SID');
+  const authToken = Deno.env.get('SMS_AUTH_TOKEN');
+  const from = Deno.env.get('SMS_FROM') || undefined;
+  const messagingServiceSid = Deno.env.get('SMS_MESSAGING_SERVICE_SID') || undefined;
+  if (!accountSid || !authToken || (!from && !messagingServiceSid)) return null;
+
+  return {
+    apiUrl: (Deno.env.get('SMS_API_URL') || 'https://api.twilio.com').replace(/\/+$/, ''),
+    accountSid,
+    authToken,
+    from,
+    messagingServiceSid,
+  };
+};
+
+// Base64 HMAC-SHA1 of the URL followed by every POST parameter, sorted by name
+const twilioSignature = async (authToken: string, url: string, params: URLSearchParams) => {
+  const data = url + [...params.keys()].sort().map(key => key + params.get(key)).join('');
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  return encodeBase64(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data)));
+};
+
+const createTwilioProvider = (): SmsProvider | null => {
+  const config = getTwilioConfig();
+  if (!config) return null;
+
+  return {
+    name: 'twilio',
+
+    async send(message) {
+      const form = new URLSearchParams({ To: message.to, Body: message.body });
+      if (config.messagingServiceSid) {
+        form.set('MessagingServiceSid', config.messagingServiceSid);
+      } else {
+        form.set('From', config.from!);
+      }
+      if (message.statusCallbackUrl) {
+        form.set('StatusCallback', message.statusCallbackUrl);
+      }
+
+      const response = await fetch(`${config.apiUrl}/2010-04-01/Accounts/${config.accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${config.accountSid}:${config.authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: form,
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.sid) {
+        const code = result.code ? ` (code ${result.code})` : '';
+        throw new Error(`SMS provider error: ${result.message || response.statusText}${code}`);
+      }
+
+      return {
+        providerMessageId: result.sid,
+        // The provider took the message, whatever it calls that state
+        status: twilioStatuses[result.status] ?? 'sent',
+      };
+    },
+
+    async parseStatusCallback(req, url) {
+      const params = new URLSearchParams(await req.text());
+      const signature = req.headers.get('X-Twilio-Signature');
+      if (!signature || !timingSafeEqual(signature, await twilioSignature(config.authToken, url, params))) {
+        return null;
+      }
+
+      const errorCode = params.get('ErrorCode');
+      return {
+        providerMessageId: params.get('MessageSid') ?? '',
+        status: twilioStatuses[params.get('MessageStatus') ?? ''] ?? null,
+        error: errorCode ? `Delivery failed (error ${errorCode})` : undefined,
+      };
+    },
+  };
+};
+
+// Add other providers here; each returns null when it isn't configured
+const providers: Record<string, () => SmsProvider | null> = {
+  twilio: createTwilioProvider,
+};
+
+export const getSmsProvider = (): SmsProvider | null => {
+  const create = providers[Deno.env.get('SMS_PROVIDER') || 'twilio'];
+  return create ? create() : null;
+};
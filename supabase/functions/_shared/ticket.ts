@@ -0,0 +1,6 @@
+// The attendee's personal ticket page in the dashboard app, /ticket/<qr_token>.
+// The signed QR token is the credential, so a reissued code retires the old link.
+
+const SITE_URL = Deno.env.get('SITE_URL') || 'https://juspayconnect.online';
+
+export const ticketPageUrl = (qrToken: string) => `${SITE_URL}/ticket/${encodeURIComponent(qrToken)}`;
@@ -0,0 +1,93 @@
+import type { WalletLinks } from "./email-template.ts";
+
+// Wallet passes are served by the wallet-pass function from the attendee's signed
+// QR token, so links can go in emails and on the registration page without login.
+
+export type WalletFormat = 'apple' | 'google';
+
+// What goes on the pass, for both wallets
+export interface WalletPassDetails {
+  attendeeId: string;
+  attendeeName: string;
+  eventId: string;
+  eventName: string;
+  venue?: string;
+  // ISO 8601
+  startsAt?: string;
+  endsAt?: string;
+  organizerName: string;
+  ticketType?: string;
+  // The same content as the QR image in the attendee's email, so the scanner reads it
+  barcodeValue: string;
+  // The short code printed under the barcode for manual entry
+  qrCode: string;
+  // Background colour, from the event's email template theme
+  color: string;
+}
+
+// Multi-line PEMs are often stored in secrets with escaped newlines
+const readPem = (name: string) => Deno.env.get(name)?.replace(/\\n/g, '\n');
+
+export interface AppleWalletConfig {
+  passTypeIdentifier: string;
+  teamIdentifier: string;
+  certificate: string;
+  privateKey: string;
+  privateKeyPassphrase?: string;
+  // Apple Worldwide Developer Relations intermediate certificate
+  wwdrCertificate: string;
+}
+
+export interface GoogleWalletConfig {
+  issuerId: string;
+  serviceAccountEmail: string;
+  privateKey: string;
+}
+
+export const getAppleWalletConfig = (): AppleWalletConfig | null => {
+  const passTypeIdentifier = Deno.env.get('APPLE_PASS_TYPE_ID');
+  const teamIdentifier = Deno.env.get('APPLE_TEAM_ID');
+  const certificate = readPem('APPLE_PASS_CERTIFICATE');
+  const privateKey = readPem('APPLE_PASS_PRIVATE_KEY');
+  const wwdrCertificate = readPem('APPLE_WWDR_CERTIFICATE');
+
+  if (!passTypeIdentifier || !teamIdentifier || !certificate || !privateKey || !wwdrCertificate) {
+    return null;
+  }
+
+  return {
+    passTypeIdentifier,
+    teamIdentifier,
+    certificate,
+    privateKey,
+    privateKeyPassphrase: Deno.env.get('APPLE_PASS_KEY_PASSPHRASE') || undefined,
+    wwdrCertificate,
+  };
+};
+
+export const getGoogleWalletConfig = (): GoogleWalletConfig | null => {
+  const issuerId = Deno.env.get('GOOGLE_WALLET_ISSUER_ID');
+  const serviceAccountEmail = Deno.env.get('GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL');
+  const privateKey = readPem('GOOGLE_WALLET_PRIVATE_KEY');
+
+  if (!issuerId || !serviceAccountEmail || !privateKey) {
+    return null;
+  }
+
+  return { issuerId, serviceAccountEmail, privateKey };
+};
+
+export const walletPassUrl = (qrToken: string, format: WalletFormat) => {
+  const params = new URLSearchParams({ token: qrToken, format });
+  return `${Deno.env.get('SUPABASE_URL')}/functions/v1/wallet-pass?${params}`;
+};
+
+// Links for the wallets that are set up; none for attendees without a signed token
+export const getWalletLinks = (qrToken?: string | null): WalletLinks => {
+  if (!qrToken) return {};
+
+  return {
+    apple: getAppleWalletConfig() ? walletPassUrl(qrToken, 'apple') : undefined,
+    google: getGoogleWalletConfig() ? walletPassUrl(qrToken, 'google') : undefined,
+  };
+};
@@ -0,0 +1,127 @@
+import { toE164 } from "./phone.ts";
+import { timingSafeEqual } from "./http.ts";
+
+// WhatsApp Business Cloud API: template messages out, status webhooks in. Shared
+// by send-whatsapp, whatsapp-webhook and the local mock of the Graph API.
+//
+// The message template (WHATSAPP_TEMPLATE_NAME) must be approved in WhatsApp
+// Manager with an image header and three body variables: {{1}} attendee name,
+// {{2}} event name, {{3}} the short QR code.
+
+const DEFAULT_API_URL = 'https://graph.facebook.com/v20.0';
+
+export type WhatsAppStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface WhatsAppConfig {
+  // Point at the mock server for local testing
+  apiUrl: string;
+  phoneNumberId: string;
+  accessToken: string;
+  templateName: string;
+  templateLanguage: string;
+}
+
+export interface WhatsAppTemplateMessage {
+  to: string;
+  imageUrl: string;
+  attendeeName: string;
+  eventName: string;
+  qrCode: string;
+}
+
+// One entry of value.statuses in a webhook payload
+export interface WhatsAppStatusUpdate {
+  id: string;
+  status: string;
+  timestamp: string;
+  recipient_id: string;
+  errors?: { code: number; title?: string; message?: string; error_data?: { details?: string } }[];
+}
+
+export interface WhatsAppWebhookPayload {
+  object: string;
+  entry?: {
+    id: string;
+    changes?: { field: string; value: { statuses?: WhatsAppStatusUpdate[] } }[];
+  }[];
+}
+
+export const getWhatsAppConfig = (): WhatsAppConfig | null => {
+  const phoneNumberId = Deno.env.get('WHATSAPP_PHONE_NUMBER_ID');
+  const accessToken = Deno.env.get('WHATSAPP_ACCESS_TOKEN');
+  if (!phoneNumberId || !accessToken) return null;
+
+  return {
+    apiUrl: (Deno.env.get('WHATSAPP_API_URL') || DEFAULT_API_URL).replace(/\/+$/, ''),
+    phoneNumberId,
+    accessToken,
+    templateName: Deno.env.get('WHATSAPP_TEMPLATE_NAME') || 'event_qr_code',
+    templateLanguage: Deno.env.get('WHATSAPP_TEMPLATE_LANGUAGE') || 'en',
+  };
+};
+
+// The Cloud API takes E.164 without the +
+export const toWhatsAppNumber = (phone: string) => toE164(phone)?.slice(1) ?? null;
+
+export const describeWhatsAppError = (error?: { code?: number; title?: string; message?: string; error_data?: { details?: string } }) => {
+  if (!error) return 'Unknown WhatsApp error';
+  const detail = error.error_data?.details || error.message || error.title || 'Unknown WhatsApp error';
+  return error.code ? `${detail} (code ${error.code})` : detail;
+};
+
+// Send the QR template message; resolves to the WhatsApp message id (wamid)
+export const sendTemplateMessage = async (config: WhatsAppConfig, message: WhatsAppTemplateMessage) => {
+  const response = await fetch(`${config.apiUrl}/${config.phoneNumberId}/messages`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${config.accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to: message.to,
+      type: 'template',
+      template: {
+        name: config.templateName,
+        language: { code: config.templateLanguage },
+        components: [
+          { type: 'header', parameters: [{ type: 'image', image: { link: message.imageUrl } }] },
+          {
+            type: 'body',
+            parameters: [
+              { type: 'text', text: message.attendeeName },
+              { type: 'text', text: message.eventName },
+              { type: 'text', text: message.qrCode },
+            ],
+          },
+        ],
+      },
+    }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.messages?.[0]?.id) {
+    throw new Error(`WhatsApp API error: ${describeWhatsAppError(result.error)}`);
+  }
+
+  return result.messages[0].id as string;
+};
+
+// Meta signs webhook bodies with the app secret: X-Hub-Signature-256: sha256=<hex>
+export const signPayload = async (appSecret: string, body: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(appSecret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return `sha256=${Array.from(new Uint8Array(mac)).map(b => b.toString(16).padStart(2, '0')).join('')}`;
+};
+
+export const verifySignature = async (appSecret: string, body: string, signature: string | null) => {
+  if (!signature) return false;
+  return timingSafeEqual(signature, await signPayload(appSecret, body));
+};
@@ -0,0 +1,283 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { Resend } from "npm:resend@4.0.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { EMAIL_SENDER, calendarAttachment, describeResendError } from "../_shared/qr-email.ts";
+import { getQrImage } from "../_shared/qr-image.ts";
+import { getWalletLinks } from "../_shared/wallet-pass.ts";
+import { checkPlatformAccess } from "../_shared/platform-access.ts";
+import { CALENDAR_EVENT_COLUMNS, calendarEventFromRow, type CalendarEventRow } from "../_shared/calendar.ts";
+import {
+  applyOverrides,
+  normalizeTemplate,
+  placeholderValues,
+  renderQrEmail,
+  validateTemplate,
+} from "../_shared/email-template.ts";
+import { corsHeaders, json, errorMessage, sleep } from "../_shared/http.ts";
+
+// Drains the email_messages queue filled by queue_email_campaign. Invoked by the
+// dashboard after queueing a campaign, and by send-reminders and itself with the
+// service role key; it keeps going until the queue is empty, handing over to a
+// fresh invocation when its time budget runs out.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const BATCH_SIZE = 10;
+// Resend allows 2 requests per second by default
+const SEND_INTERVAL_MS = 600;
+const MAX_ATTEMPTS = 3;
+// Retries wait 30s, then 60s
+const RETRY_BASE_SECONDS = 30;
+const LEASE_SECONDS = 90;
+// Stay well inside the edge function wall-clock limit
+const TIME_BUDGET_MS = 60_000;
+
+interface EmailMessage {
+  id: string;
+  campaign_id: string;
+  event_id: string;
+  attendee_id: string;
+  recipient_email: string;
+  attempts: number;
+}
+
+interface Campaign {
+  id: string;
+  // Follow-ups go out after the event, without the QR code or calendar invite
+  kind: 'qr' | 'follow_up';
+  subject: string | null;
+  message: string | null;
+  // Snapshot of the event's template when the campaign was queued
+  template: unknown;
+  created_by: string | null;
+  created_by_email: string | null;
+  events: CalendarEventRow | null;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+  const workerId = crypto.randomUUID();
+  const startedAt = Date.now();
+  const campaigns = new Map<string, Campaign>();
+  let sent = 0;
+  let failed = 0;
+  let leaseLost = false;
+
+  try {
+    // verify_jwt also lets the public anon key through
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${supabaseServiceRoleKey}`) {
+      const accessStatus = await checkPlatformAccess(authHeader);
+      if (accessStatus) {
+        return json({ success: false, error: accessStatus === 401 ? 'Unauthorized' : 'Access denied' }, accessStatus);
+      }
+    }
+
+    if (!Deno.env.get('RESEND_API_KEY')) {
+      throw new Error('Resend API key not configured');
+    }
+
+    const { data: acquired, error: leaseError } = await supabase.rpc('acquire_email_worker_lease', {
+      holder_param: workerId,
+      lease_seconds_param: LEASE_SECONDS,
+    });
+    if (leaseError) throw leaseError;
+
+    // Another invocation is already sending; it will pick up the new rows too
+    if (!acquired) {
+      return json({ success: true, skipped: true });
+    }
+
+    const getCampaign = async (campaignId: string) => {
+      if (!campaigns.has(campaignId)) {
+        const { data, error } = await supabase
+          .from('email_campaigns')
+          .select(`id, kind, subject, message, template, created_by, created_by_email, events(${CALENDAR_EVENT_COLUMNS})`)
+          .eq('id', campaignId)
+          .single();
+        if (error) throw error;
+        campaigns.set(campaignId, data as Campaign);
+      }
+      return campaigns.get(campaignId)!;
+    };
+
+    // campaign is undefined when it could not be loaded
+    const logSend = async (message: EmailMessage, attendeeName: string | null, campaign: Campaign | undefined, status: 'success' | 'error', details: string) => {
+      const label = campaign?.kind === 'follow_up' ? 'Follow-up email' : 'QR code email';
+      await supabase.from('activity_logs').insert({
+        event_id: message.event_id,
+        type: 'email_sent',
+        action: status === 'success' ? `${label} sent successfully` : `${label} sending failed`,
+        user_name: attendeeName,
+        user_email: message.recipient_email,
+        details,
+        status,
+        actor_id: campaign?.created_by ?? null,
+        actor_email: campaign?.created_by_email ?? null,
+        metadata: { attendee_id: message.attendee_id, campaign_id: message.campaign_id, email_message_id: message.id },
+      });
+    };
+
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data: batch, error: claimError } = await supabase.rpc('claim_email_messages', {
+        batch_size_param: BATCH_SIZE,
+      });
+      if (claimError) throw claimError;
+      if (!batch || batch.length === 0) break;
+
+      for (const message of batch as EmailMessage[]) {
+        const { data: attendee } = await supabase
+          .from('attendees')
+          .select('name, email, company, qr_code, qr_token')
+          .eq('id', message.attendee_id)
+          .maybeSingle();
+
+        let campaign: Campaign | undefined;
+
+        try {
+          if (!attendee) {
+            throw new Error('Attendee no longer exists');
+          }
+
+          campaign = await getCampaign(message.campaign_id);
+          const isFollowUp = campaign.kind === 'follow_up';
+
+          const qr = isFollowUp ? null : await getQrImage(supabase, message.attendee_id, attendee.qr_token || attendee.qr_code);
+          const template = applyOverrides(normalizeTemplate(campaign.template), {
+            subject: campaign.subject || undefined,
+            message: campaign.message || undefined,
+          });
+          validateTemplate(template, { requireQrBlock: !isFollowUp });
+          const email = renderQrEmail(
+            template,
+            placeholderValues(
+              { name: attendee.name, company: attendee.company, qrCode: attendee.qr_code },
+              campaign.events && { name: campaign.events.name, startsAt: campaign.events.starts_at, venue: campaign.events.venue, timeZone: campaign.events.time_zone }
+            ),
+            qr?.url ?? '',
+            getWalletLinks(attendee.qr_token)
+          );
+
+          const emailResponse = await resend.emails.send({
+            from: EMAIL_SENDER,
+            // The attendee's current address, in case it was corrected after queueing
+            to: [attendee.email || message.recipient_email],
+            subject: email.subject,
+            html: email.html,
+            attachments: qr ? [
+              {
+                filename: `qr-code-${attendee.name.replace(/\s+/g, '-')}.png`,
+                content: qr.base64,
+                contentType: 'image/png',
+                contentId: 'qr-code'
+              },
+              ...calendarAttachment(campaign.events && calendarEventFromRow(campaign.events))
+            ] : [],
+            tags: [
+              { name: 'email_message_id', value: message.id },
+              { name: 'campaign_id', value: message.campaign_id },
+              { name: 'attendee_id', value: message.attendee_id },
+            ],
+          });
+
+          if (emailResponse.error) {
+            throw new Error(describeResendError(emailResponse.error));
+          }
+
+          await supabase
+            .from('email_messages')
+            .update({
+              status: 'sent',
+              provider_message_id: emailResponse.data?.id ?? null,
+              sent_at: new Date().toISOString(),
+              last_error: null,
+            })
+            .eq('id', message.id);
+
+          await logSend(message, attendee.name, campaign, 'success', isFollowUp ? email.subject : `QR Code: ${attendee.qr_code} - campaign email`);
+          sent++;
+        } catch (error) {
+          const reason = errorMessage(error);
+          const finalAttempt = message.attempts >= MAX_ATTEMPTS || !attendee;
+          console.error(`Email ${message.id} attempt ${message.attempts} failed:`, reason);
+
+          await supabase
+            .from('email_messages')
+            .update({
+              status: finalAttempt ? 'failed' : 'queued',
+              last_error: reason,
+              next_attempt_at: new Date(Date.now() + RETRY_BASE_SECONDS * 1000 * 2 ** (message.attempts - 1)).toISOString(),
+            })
+            .eq('id', message.id);
+
+          if (finalAttempt) {
+            await logSend(message, attendee?.name ?? null, campaign, 'error', `Error: ${reason} (after ${message.attempts} attempts)`);
+            failed++;
+          }
+        }
+
+        await sleep(SEND_INTERVAL_MS);
+      }
+
+      const { data: renewed, error: renewError } = await supabase.rpc('acquire_email_worker_lease', {
+        holder_param: workerId,
+        lease_seconds_param: LEASE_SECONDS,
+      });
+      // The lease ran out and another invocation took over; leave the queue to it
+      if (renewError || !renewed) {
+        console.warn(`Email worker ${workerId} lost its lease:`, renewError?.message ?? 'held by another worker');
+        leaseLost = true;
+        break;
+      }
+    }
+
+    await supabase.rpc('release_email_worker_lease', { holder_param: workerId });
+
+    // Hand over if there is more to send, including retries that are not due yet
+    const { count: remaining } = await supabase
+      .from('email_messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'queued');
+
+    if (!leaseLost && remaining && remaining > 0) {
+      const { data: nextDue } = await supabase
+        .from('email_messages')
+        .select('next_attempt_at')
+        .eq('status', 'queued')
+        .order('next_attempt_at', { ascending: true })
+        .limit(1)
+        .single();
+      const waitMs = Math.max(0, new Date(nextDue?.next_attempt_at ?? Date.now()).getTime() - Date.now());
+
+      EdgeRuntime.waitUntil(
+        sleep(Math.min(waitMs, 30_000)).then(() => fetch(`${supabaseUrl}/functions/v1/process-email-queue`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${supabaseServiceRoleKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: '{}',
+        }))
+      );
+    }
+
+    console.log(`Email worker ${workerId}: ${sent} sent, ${failed} failed, ${remaining ?? 0} still queued`);
+
+    return json({ success: true, sent, failed, remaining: remaining ?? 0 });
+  } catch (error) {
+    console.error('Error in process-email-queue function:', error);
+    await supabase.rpc('release_email_worker_lease', { holder_param: workerId });
+    return json({ success: false, error: errorMessage(error) }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,152 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { Resend } from "npm:resend@4.0.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { EMAIL_SENDER, describeResendError } from "../_shared/qr-email.ts";
+import { escapeHtml, formatEventDate } from "../_shared/email-template.ts";
+import { ticketPageUrl } from "../_shared/ticket.ts";
+import { corsHeaders, json } from "../_shared/http.ts";
+
+// "Resend my ticket": emails links to the ticket pages of every upcoming event the
+// address is registered for. Receiving the email is the verification, so the
+// response is the same whether or not the address is registered.
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+// A mailbox registered for more events than this gets the most recent ones
+const MAX_TICKETS = 5;
+
+interface TicketRow {
+  id: string;
+  name: string;
+  email: string;
+  qr_code: string;
+  qr_token: string | null;
+  event_id: string;
+  events: { name: string; slug: string; starts_at: string | null; ends_at: string | null; time_zone: string } | null;
+}
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+// Events that are over are left out; ones without dates are kept
+const isUpcoming = (ticket: TicketRow) => {
+  const endsAt = ticket.events?.ends_at || ticket.events?.starts_at;
+  return !endsAt || new Date(endsAt).getTime() > Date.now() - 24 * 60 * 60 * 1000;
+};
+
+const renderEmail = (tickets: TicketRow[]) => {
+  const items = tickets.map(ticket => {
+    const date = formatEventDate(ticket.events?.starts_at, ticket.events?.time_zone);
+    return `
+      <tr>
+        <td style="padding: 16px 0; border-bottom: 1px solid #e5e7eb;">
+          <p style="margin: 0 0 4px; font-weight: 600; color: #111827;">${escapeHtml(ticket.events?.name ?? '')}</p>
+          ${date ? `<p style="margin: 0 0 12px; color: #6b7280; font-size: 14px;">${escapeHtml(date)}</p>` : ''}
+          <a href="${escapeHtml(ticketPageUrl(ticket.qr_token!))}" style="display: inline-block; padding: 10px 20px; background: #052659; color: #ffffff; text-decoration: none; border-radius: 6px; font-size: 14px;">View my ticket</a>
+        </td>
+      </tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin: 0; padding: 24px; background: #f3f4f6; font-family: Arial, sans-serif;">
+    <table role="presentation" width="100%" style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 8px; padding: 24px;">
+      <tr><td>
+        <h1 style="margin: 0 0 8px; font-size: 20px; color: #111827;">Hi ${escapeHtml(tickets[0].name)},</h1>
+        <p style="margin: 0 0 8px; color: #374151;">Here ${tickets.length === 1 ? 'is the link to your ticket' : 'are the links to your tickets'}. Open it at the entrance to show your QR code.</p>
+      </td></tr>
+      ${items}
+      <tr><td style="padding-top: 16px; color: #9ca3af; font-size: 12px;">
+        You are receiving this because someone asked to resend tickets for this email address. If it wasn't you, you can ignore this email.
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { email, event_slug } = await req.json();
+
+    if (!email || typeof email !== 'string' || !isValidEmail(email.trim())) {
+      return json({ error: 'Valid email is required' }, 400);
+    }
+    const address = email.trim().toLowerCase().substring(0, 255);
+
+    const clientIP = req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+                     req.headers.get('x-real-ip') ||
+                     'unknown';
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: allowed, error: limitError } = await supabase.rpc('record_ticket_link_request', {
+      email_param: address,
+      client_ip_param: clientIP,
+    });
+    if (limitError) throw limitError;
+
+    if (!allowed) {
+      return json({ error: 'Too many requests. Please try again in an hour.' }, 429);
+    }
+
+    const { data, error } = await supabase
+      .from('attendees')
+      .select('id, name, email, qr_code, qr_token, event_id, events(name, slug, starts_at, ends_at, time_zone)')
+      .ilike('email', address)
+      .not('qr_token', 'is', null)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+
+    const slug = typeof event_slug === 'string' ? event_slug.trim().toLowerCase() : '';
+    const tickets = ((data ?? []) as unknown as TicketRow[])
+      // ilike treats _ and % in the address as wildcards
+      .filter(ticket => ticket.email.toLowerCase() === address)
+      .filter(ticket => ticket.events && isUpcoming(ticket) && (!slug || ticket.events.slug === slug))
+      .slice(0, MAX_TICKETS);
+
+    if (tickets.length === 0) {
+      console.log('Ticket resend requested for an address with no upcoming tickets');
+      return json({ success: true });
+    }
+
+    const emailResponse = await resend.emails.send({
+      from: EMAIL_SENDER,
+      to: [address],
+      subject: tickets.length === 1 ? `Your ticket for ${tickets[0].events!.name}` : 'Your event tickets',
+      html: renderEmail(tickets),
+    });
+
+    if (emailResponse.error) {
+      throw new Error(describeResendError(emailResponse.error));
+    }
+
+    for (const ticket of tickets) {
+      await supabase.from('activity_logs').insert({
+        event_id: ticket.event_id,
+        type: 'email_sent',
+        action: 'Ticket link resent on request',
+        user_name: ticket.name,
+        user_email: address,
+        details: `QR Code: ${ticket.qr_code} - requested from the ticket page`,
+        status: 'success',
+        metadata: { attendee_id: ticket.id, client_ip: clientIP },
+      });
+    }
+
+    console.log(`Ticket links resent for ${tickets.length} registrations`);
+    return json({ success: true });
+  } catch (error) {
+    console.error('Error in resend-ticket function:', error);
+    return json({ error: 'Could not send your ticket. Please try again later.' }, 500);
+  }
+};
+
+serve(handler);
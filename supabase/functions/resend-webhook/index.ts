@@ -0,0 +1,171 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { verify } from "../_shared/resend-webhook.ts";
+import { json } from "../_shared/http.ts";
+
+// Receives Resend delivery webhooks and records them against the attendee the
+// email was for. Emails are matched through the tags set when sending:
+// email_message_id for campaign emails, attendee_id for single sends.
+
+const trackedEvents: Record<string, 'delivered' | 'bounced' | 'complained' | 'opened'> = {
+  'email.delivered': 'delivered',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+  'email.opened': 'opened',
+};
+
+interface ResendWebhookEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    created_at: string;
+    to?: string[];
+    subject?: string;
+    bounce?: { message?: string; type?: string };
+    // Resend sends tags as an object; older payloads used a name/value list
+    tags?: Record<string, string> | { name: string; value: string }[];
+  };
+}
+
+interface EmailTarget {
+  eventId: string;
+  attendeeId: string;
+  emailMessageId: string | null;
+}
+
+const getTag = (tags: ResendWebhookEvent['data']['tags'], name: string) => {
+  if (!tags) return undefined;
+  if (Array.isArray(tags)) return tags.find(tag => tag.name === name)?.value;
+  return tags[name];
+};
+
+const findTarget = async (supabase: SupabaseClient, event: ResendWebhookEvent): Promise<EmailTarget | null> => {
+  const messageId = getTag(event.data.tags, 'email_message_id');
+  const messageQuery = supabase.from('email_messages').select('id, event_id, attendee_id');
+  const { data: message } = messageId
+    ? await messageQuery.eq('id', messageId).maybeSingle()
+    : await messageQuery.eq('provider_message_id', event.data.email_id).maybeSingle();
+
+  if (message) {
+    return { eventId: message.event_id, attendeeId: message.attendee_id, emailMessageId: message.id };
+  }
+
+  const attendeeId = getTag(event.data.tags, 'attendee_id');
+  if (!attendeeId) return null;
+
+  const { data: attendee } = await supabase
+    .from('attendees')
+    .select('id, event_id')
+    .eq('id', attendeeId)
+    .maybeSingle();
+
+  return attendee ? { eventId: attendee.event_id, attendeeId: attendee.id, emailMessageId: null } : null;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const secret = Deno.env.get('RESEND_WEBHOOK_SECRET');
+  if (!secret) {
+    console.error('RESEND_WEBHOOK_SECRET not found in environment variables');
+    return json({ error: 'Webhook secret not configured' }, 500);
+  }
+
+  const body = await req.text();
+
+  try {
+    await verify(secret, {
+      id: req.headers.get('svix-id') ?? '',
+      timestamp: req.headers.get('svix-timestamp') ?? '',
+      signature: req.headers.get('svix-signature') ?? '',
+    }, body);
+  } catch (error) {
+    console.warn('Rejected webhook:', error instanceof Error ? error.message : error);
+    return json({ error: 'Invalid signature' }, 401);
+  }
+
+  try {
+    const event: ResendWebhookEvent = JSON.parse(body);
+    const eventType = trackedEvents[event.type];
+
+    // Acknowledge everything else so Resend does not retry it
+    if (!eventType) {
+      return json({ success: true, ignored: event.type });
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const target = await findTarget(supabase, event);
+
+    if (!target) {
+      console.log(`No attendee for email ${event.data.email_id} (${event.type})`);
+      return json({ success: true, ignored: 'unknown email' });
+    }
+
+    const detail = eventType === 'bounced'
+      ? event.data.bounce?.message || 'Bounced'
+      : eventType === 'complained' ? 'Marked as spam' : null;
+    const recipientEmail = event.data.to?.[0] ?? null;
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('email_delivery_events')
+      .upsert({
+        webhook_id: req.headers.get('svix-id'),
+        event_id: target.eventId,
+        attendee_id: target.attendeeId,
+        email_message_id: target.emailMessageId,
+        provider_message_id: event.data.email_id,
+        event_type: eventType,
+        recipient_email: recipientEmail,
+        detail,
+        email_created_at: event.data.created_at,
+        occurred_at: event.created_at,
+        payload: event,
+      }, { onConflict: 'webhook_id', ignoreDuplicates: true })
+      .select('id');
+
+    if (insertError) throw insertError;
+
+    // A redelivery of an event we already have
+    if (!inserted || inserted.length === 0) {
+      return json({ success: true, duplicate: true });
+    }
+
+    if (eventType === 'bounced' && target.emailMessageId) {
+      await supabase
+        .from('email_messages')
+        .update({ status: 'bounced', last_error: detail })
+        .eq('id', target.emailMessageId);
+    }
+
+    if (eventType === 'bounced' || eventType === 'complained') {
+      const { data: attendee } = await supabase
+        .from('attendees')
+        .select('name')
+        .eq('id', target.attendeeId)
+        .maybeSingle();
+
+      await supabase.from('activity_logs').insert({
+        event_id: target.eventId,
+        type: 'email_sent',
+        action: eventType === 'bounced' ? 'QR code email bounced' : 'QR code email marked as spam',
+        user_name: attendee?.name ?? null,
+        user_email: recipientEmail,
+        details: detail,
+        status: 'error',
+        metadata: { attendee_id: target.attendeeId, email_message_id: target.emailMessageId, provider_message_id: event.data.email_id },
+      });
+    }
+
+    console.log(`Recorded ${eventType} for attendee ${target.attendeeId}`);
+    return json({ success: true });
+  } catch (error) {
+    console.error('Error in resend-webhook function:', error);
+    // Non-2xx makes Resend retry later
+    return json({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,63 @@
+import { sign } from "../_shared/resend-webhook.ts";
+
+// Local stub for resend-webhook: posts signed sample Resend events, the same way
+// Resend does, so delivery tracking can be tried without sending real email.
+//
+//   RESEND_WEBHOOK_SECRET=whsec_... deno run --allow-net --allow-env \
+//     supabase/functions/resend-webhook/post-sample-events.ts <attendee-id> [event ...]
+//
+// Events default to delivered and opened; also available: bounced, complained,
+// and sent (which the webhook ignores). Set WEBHOOK_URL to target a deployed
+// function instead of `supabase functions serve`. Pass --bad-signature to check
+// that unsigned requests are rejected.
+
+const WEBHOOK_URL = Deno.env.get('WEBHOOK_URL') ?? 'http://127.0.0.1:54321/functions/v1/resend-webhook';
+
+const args = Deno.args.filter(arg => !arg.startsWith('--'));
+const badSignature = Deno.args.includes('--bad-signature');
+const [attendeeId, ...requested] = args;
+const secret = Deno.env.get('RESEND_WEBHOOK_SECRET');
+
+if (!attendeeId || !secret) {
+  console.error('Usage: RESEND_WEBHOOK_SECRET=whsec_... post-sample-events.ts <attendee-id> [delivered|opened|bounced|complained|sent ...]');
+  Deno.exit(1);
+}
+
+const emailId = crypto.randomUUID();
+const emailCreatedAt = new Date().toISOString();
+
+const samplePayload = (event: string) => ({
+  type: `email.${event}`,
+  created_at: new Date().toISOString(),
+  data: {
+    email_id: emailId,
+    created_at: emailCreatedAt,
+    from: 'Juspay Communications <marketing@juspay.in>',
+    to: ['attendee@example.com'],
+    subject: 'Your Event QR Code',
+    tags: { attendee_id: attendeeId },
+    ...(event === 'bounced'
+      ? { bounce: { type: 'Permanent', subType: 'General', message: 'The recipient\'s mailbox does not exist.' } }
+      : {}),
+  },
+});
+
+for (const event of requested.length > 0 ? requested : ['delivered', 'opened']) {
+  const body = JSON.stringify(samplePayload(event));
+  const id = `msg_${crypto.randomUUID()}`;
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = badSignature ? 'v1,invalid' : await sign(secret, id, timestamp, body);
+
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'svix-id': id,
+      'svix-timestamp': timestamp,
+      'svix-signature': signature,
+    },
+    body,
+  });
+
+  console.log(`email.${event}: ${response.status} ${await response.text()}`);
+}
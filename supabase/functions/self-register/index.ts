@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CALENDAR_EVENT_COLUMNS, calendarEventFromRow } from '../_shared/calendar.ts';
+import { getWalletLinks } from '../_shared/wallet-pass.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,11 +14,14 @@ const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT = 5; // 5 registrations per hour per IP
 const RATE_LIMIT_WINDOW = 60 * 60 * 1000; // 1 hour in milliseconds
 
+// Short code for manual entry; the QR image itself carries the signed qr_token
+// that the database generates on insert
 function generateSecureQRCode(): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  const randomValues = crypto.getRandomValues(new Uint32Array(8));
   let result = '';
-  for (let i = 0; i < 6; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  for (let i = 0; i < 8; i++) {
+    result += chars.charAt(randomValues[i] % chars.length);
   }
   return result;
 }
@@ -70,7 +75,7 @@ serve(async (req) => {
       });
     }
 
-    const { name, email, phone, company } = await req.json();
+    const { name, email, phone, company, event_slug } = await req.json();
 
     // Validate required fields
     if (!name || typeof name !== 'string' || name.trim().length === 0) {
@@ -111,12 +116,35 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Check if email already exists
+    // Resolve the event being registered for; links without a slug go to the latest active event
+    let eventQuery = supabase
+      .from('events')
+      .select(CALENDAR_EVENT_COLUMNS)
+      .eq('is_active', true);
+
+    if (event_slug && typeof event_slug === 'string') {
+      eventQuery = eventQuery.eq('slug', event_slug.trim().toLowerCase());
+    }
+
+    const { data: event } = await eventQuery
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!event) {
+      return new Response(JSON.stringify({ error: 'Event not found or registration is closed' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Check if email already exists for this event
     const { data: existingAttendee } = await supabase
       .from('attendees')
       .select('id')
+      .eq('event_id', event.id)
       .eq('email', sanitizedData.email)
-      .single();
+      .maybeSingle();
 
     if (existingAttendee) {
       return new Response(JSON.stringify({ error: 'Email already registered' }), {
@@ -136,8 +164,9 @@ serve(async (req) => {
         qr_code: qrCode,
         registration_type: 'walk_in',
         checked_in: false,
+        event_id: event.id,
       })
-      .select('id, qr_code')
+      .select('id, qr_code, qr_token')
       .single();
 
     if (error) {
@@ -158,6 +187,7 @@ serve(async (req) => {
         user_email: sanitizedData.email,
         details: `Walk-in registration via QR code`,
         status: 'success',
+        event_id: event.id,
         metadata: { 
           registration_type: 'walk_in',
           qr_code: qrCode,
@@ -169,6 +199,12 @@ serve(async (req) => {
     return new Response(JSON.stringify({ 
       success: true, 
       qr_code: qrCode,
+      qr_token: data.qr_token,
+      event_name: event.name,
+      // For the "Add to calendar" download on the success page
+      event: calendarEventFromRow(event),
+      // Links to wallet passes, for the wallets that are set up
+      wallet_links: getWalletLinks(data.qr_token),
       message: 'Registration successful!' 
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
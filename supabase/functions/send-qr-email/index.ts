@@ -1,6 +1,11 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { Resend } from "npm:resend@4.0.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { EMAIL_SENDER, calendarAttachment, describeResendError, fetchEventTemplate } from "../_shared/qr-email.ts";
+import { getWalletLinks } from "../_shared/wallet-pass.ts";
+import { UUID_PATTERN, checkPlatformAccess } from "../_shared/platform-access.ts";
+import { CALENDAR_EVENT_COLUMNS, calendarEventFromRow, type CalendarEventRow } from "../_shared/calendar.ts";
+import { applyOverrides, placeholderValues, renderQrEmail, validateTemplate } from "../_shared/email-template.ts";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 
@@ -9,25 +14,16 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface EmailTemplate {
-  subject: string;
-  greeting: string;
-  mainMessage: string;
-  qrInstructions: string;
-  closingMessage: string;
-  senderName: string;
-  headerTitle: string;
-}
-
 interface SendQREmailRequest {
   attendee: {
-    name: string;
-    email: string;
-    qrCode: string;
+    // The email goes to the attendee's saved address, tagged with the id so
+    // delivery webhooks can be matched to them
+    id: string;
   };
   qrImageData: string;
   defaultMessage?: string;
-  emailTemplate?: EmailTemplate;
+  // Overrides the template's subject line
+  subject?: string;
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -37,31 +33,28 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { attendee, qrImageData, defaultMessage, emailTemplate }: SendQREmailRequest = await req.json();
-
-    // Use provided template or default values
-    const template: EmailTemplate = emailTemplate || {
-      subject: "Your Event QR Code - {attendeeName}",
-      greeting: "Hello {attendeeName}!",
-      mainMessage: "Here's your QR code for the event. Please save this image and present it at check-in.",
-      qrInstructions: "Your unique QR code:",
-      closingMessage: "We look forward to seeing you at the event!",
-      senderName: "",
-      headerTitle: "Your Event QR Code"
-    };
-
-    // Replace placeholders with actual attendee data
-    const personalizedTemplate = {
-      subject: template.subject.replace('{attendeeName}', attendee.name),
-      greeting: template.greeting.replace('{attendeeName}', attendee.name),
-      mainMessage: defaultMessage || template.mainMessage,
-      qrInstructions: template.qrInstructions,
-      closingMessage: template.closingMessage,
-      senderName: template.senderName,
-      headerTitle: template.headerTitle
-    };
+    // Only dashboard users may send QR codes; the service role below can read any attendee
+    const accessStatus = await checkPlatformAccess(req.headers.get('Authorization'));
+    if (accessStatus) {
+      return new Response(
+        JSON.stringify({ success: false, error: accessStatus === 401 ? 'Unauthorized' : 'Access denied' }),
+        {
+          status: accessStatus,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
 
-    console.log(`Sending QR code email to ${attendee.name} (${attendee.email})`);
+    const { attendee, qrImageData, defaultMessage, subject }: SendQREmailRequest = await req.json();
+    if (typeof attendee?.id !== 'string' || !UUID_PATTERN.test(attendee.id)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'A valid attendee id is required' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      );
+    }
 
     // Check if Resend API key is configured
     const resendApiKey = Deno.env.get('RESEND_API_KEY');
@@ -108,20 +101,45 @@ const handler = async (req: Request): Promise<Response> => {
     }
     const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
 
-    // Check if banner exists and upload if not
-    const bannerPath = 'email-banner.png';
-    const { data: bannerExists } = await supabase.storage
-      .from('qr-codes')
-      .list('', { search: bannerPath });
-    
-    if (!bannerExists || bannerExists.length === 0) {
-      // Upload banner image (this would need the actual image data in a real scenario)
-      console.log('Banner not found in storage, but continuing with URL reference');
+    // The event's stored template and the attendee's details as saved, so every
+    // device sends the same email
+    const { data: attendeeRow, error: attendeeError } = await supabase
+      .from('attendees')
+      .select(`name, email, company, qr_code, qr_token, event_id, events(${CALENDAR_EVENT_COLUMNS})`)
+      .eq('id', attendee.id)
+      .maybeSingle();
+
+    if (attendeeError) {
+      throw new Error(`Failed to load attendee: ${attendeeError.message}`);
+    }
+
+    if (!attendeeRow) {
+      throw new Error('Attendee not found');
     }
 
+    // The QR code and wallet links below belong to this attendee, so they only go to their own address
+    if (!attendeeRow.email?.trim()) {
+      throw new Error('Attendee has no email address');
+    }
+    const recipient = { name: attendeeRow.name, email: attendeeRow.email.trim() };
+
+    const event = attendeeRow.events as unknown as CalendarEventRow | null;
+    let template = await fetchEventTemplate(supabase, attendeeRow.event_id);
+    const values = placeholderValues(
+      { name: attendeeRow.name, company: attendeeRow.company, qrCode: attendeeRow.qr_code },
+      event && { name: event.name, startsAt: event.starts_at, venue: event.venue, timeZone: event.time_zone }
+    );
+    const calendarEvent = event && calendarEventFromRow(event);
+    const walletLinks = getWalletLinks(attendeeRow.qr_token);
+
+    console.log(`Sending QR code email to ${recipient.name} (${recipient.email})`);
+
+    template = applyOverrides(template, { subject, message: defaultMessage });
+    validateTemplate(template);
+
     // Prepare file path and bytes
-    const safeEmail = attendee.email.replace(/[^a-zA-Z0-9.@_-]/g, '-');
-    const safeName = attendee.name.replace(/[^a-zA-Z0-9._-]/g, '-');
+    const safeEmail = recipient.email.replace(/[^a-zA-Z0-9.@_-]/g, '-');
+    const safeName = recipient.name.replace(/[^a-zA-Z0-9._-]/g, '-');
     const filePath = `attendees/${safeEmail}/${safeName}-qr-${Date.now()}.png`;
 
     const binaryString = atob(base64Data);
@@ -150,123 +168,33 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log('QR image uploaded to storage. URL:', qrPublicUrl);
 
+    const email = renderQrEmail(template, values, qrPublicUrl, walletLinks);
+
     console.log('Attempting to send email via Resend...');
 
     // Send email using Resend with enhanced HTML and fallback
     const emailResponse = await resend.emails.send({
-      from: "Juspay Communications <marketing@juspay.in>",
-      to: [attendee.email],
-      subject: personalizedTemplate.subject,
-      html: `
-        <!DOCTYPE html>
-<html>
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <meta http-equiv="Content-Type" content="text/html; charset=UTF-8">
-    <title>${personalizedTemplate.headerTitle}</title>
-    <link href="https://fonts.googleapis.com/css?family=Segoe+UI" rel="stylesheet">
-    <style>
-        @media only screen and (max-width: 600px) {
-            .email-container { width: 100% !important; }
-        }
-    </style>
-</head>
-<body style="margin: 0; padding: 20px; background-color: #f9f9f9; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
-    <center>
-        <div style="max-width: 600px; margin: 0 auto;">
-            <table align="center" border="0" cellpadding="0" cellspacing="0" role="presentation" style="width:100%; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1); overflow: hidden;">
-                <tbody>
-                    <tr>
-                        <td align="center">
-                            <img src="https://dth95m2xtyv8v.cloudfront.net/tesseract/assets/hyper-checkout/gffinviteheader.png" alt="GFF 2025 After Party" style="width: 100%; max-width: 600px; height: auto; display: block;" />
-                        </td>
-                    </tr>
-                    <tr>
-                        <td style="padding: 40px 30px;">
-                            <table border="0" cellpadding="0" cellspacing="0" role="presentation" style="width:100%;">
-                                <tbody>
-                                    <tr>
-                                        <td>
-                                            <h2 style="color: #052659; margin: 0 0 20px 0; font-size: 24px; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">${personalizedTemplate.greeting}</h2>
-                                            <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 30px 0;">
-                                                ${personalizedTemplate.mainMessage.replace(/\n/g, '<br>')}
-                                            </p>
-                                        </td>
-                                    </tr>
-                                    <tr>
-                                        <td align="center" style="padding: 30px 0;">
-                                            <table border="0" cellpadding="20" cellspacing="0" role="presentation" style="background-color: #f8fafc; border-radius: 12px; border: 2px dashed #e5e7eb;">
-                                                <tr>
-                                                    <td align="center">
-                                                        <img src="${qrPublicUrl}" alt="Your Event QR Code" width="250" style="width: 250px; height: auto; border: 3px solid #052659; border-radius: 12px; box-shadow: 0 4px 8px rgba(5, 38, 89, 0.2); display: block;" />
-                                                    </td>
-                                                </tr>
-                                            </table>
-                                        </td>
-                                    </tr>
-                                    <tr>
-                                        <td align="center" style="padding: 30px 0;">
-                                            <table border="0" cellpadding="20" cellspacing="0" role="presentation" style="width:100%; background-color: #f3f4f6; border-radius: 8px; text-align: center;">
-                                                <tr>
-                                                    <td>
-                                                        <p style="color: #052659; margin: 0 0 10px 0; font-size: 16px;">${personalizedTemplate.qrInstructions}</p>
-                                                        <p style="background: #ffffff; padding: 12px 16px; border-radius: 6px; font-family: 'Courier New', monospace; font-size: 18px; font-weight: 600; color: #052659; margin: 0 auto; border: 1px solid #e5e7eb; letter-spacing: 1px; max-width: 80%;">
-                                                            ${attendee.qrCode}
-                                                        </p>
-                                                    </td>
-                                                </tr>
-                                            </table>
-                                        </td>
-                                    </tr>
-                                    <tr>
-                                        <td>
-                                            <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 30px 0 0 0;">
-                                                ${personalizedTemplate.closingMessage.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>').replace(/\n/g, '<br>')}
-                                            </p>
-                                        </td>
-                                    </tr>
-                                </tbody>
-                            </table>
-                        </td>
-                    </tr>
-                    ${personalizedTemplate.senderName ? `<tr>
-                        <td align="center" style="background-color: #f8fafc; padding: 30px; border-top: 1px solid #e5e7eb;">
-                            <strong style="color: #052659; font-size: 14px;">${personalizedTemplate.senderName}</strong>
-                        </td>
-                    </tr>` : ''}
-                </tbody>
-            </table>
-        </div>
-        </center>
-</body>
-</html>
-      `,
+      from: EMAIL_SENDER,
+      to: [recipient.email],
+      subject: email.subject,
+      html: email.html,
       attachments: [
         {
-          filename: `qr-code-${attendee.name.replace(/\s+/g, '-')}.png`,
+          filename: `qr-code-${recipient.name.replace(/\s+/g, '-')}.png`,
           content: base64Data,
           contentType: mimeType,
           contentId: 'qr-code'
-        }
-      ]
+        },
+        ...calendarAttachment(calendarEvent)
+      ],
+      tags: [{ name: 'attendee_id', value: attendee.id }]
     });
 
     console.log('Resend API response:', JSON.stringify(emailResponse, null, 2));
 
     if (emailResponse.error) {
       console.error('Resend API error:', emailResponse.error);
-      
-      // Handle specific Resend errors with helpful messages
-      if (emailResponse.error.message?.includes('verify a domain') || emailResponse.error.message?.includes('domain is not verified')) {
-        throw new Error('Domain not verified. With the test domain, you can only send emails to your own verified Resend account email. To send to other recipients, verify your domain at resend.com/domains.');
-      }
-      
-      if (emailResponse.error.message?.includes('testing emails to your own email')) {
-        throw new Error('With the test domain, you can only send emails to your own verified Resend account email address. To send to other recipients, verify a custom domain at resend.com/domains.');
-      }
-      
-      throw new Error(`Resend API error: ${emailResponse.error.message || JSON.stringify(emailResponse.error)}`);
+      throw new Error(describeResendError(emailResponse.error));
     }
 
     console.log('Email sent successfully. Email ID:', emailResponse.data?.id);
@@ -274,7 +202,7 @@ const handler = async (req: Request): Promise<Response> => {
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: `QR code email sent successfully to ${attendee.name}`,
+        message: `QR code email sent successfully to ${recipient.name}`,
         emailId: emailResponse.data?.id,
         resendResponse: emailResponse
       }),
@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders, json, errorMessage } from "../_shared/http.ts";
+
+// Runs the events' reminder rules. Called every 15 minutes by the send-reminders
+// cron job: queue_due_reminders queues an email campaign per due rule, and the
+// process-email-queue worker renders and sends them like any other QR email.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+interface QueuedReminder {
+  rule_id: string;
+  campaign_id: string;
+  queued_count: number;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // verify_jwt also lets the public anon key through; only the cron job may run reminders
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceRoleKey}`) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+    const { data, error } = await supabase.rpc('queue_due_reminders');
+    if (error) throw error;
+
+    const queued = (data ?? []) as QueuedReminder[];
+    if (queued.length === 0) {
+      return json({ success: true, queued: 0, reminders: [] });
+    }
+
+    const { data: rules, error: rulesError } = await supabase
+      .from('reminder_rules')
+      .select('id, event_id, name, hours_before, created_by, created_by_email')
+      .in('id', queued.map(reminder => reminder.rule_id));
+    if (rulesError) {
+      throw new Error(`Failed to load reminder rules: ${rulesError.message}`);
+    }
+    const rulesById = new Map((rules ?? []).map(rule => [rule.id, rule]));
+
+    for (const reminder of queued) {
+      const rule = rulesById.get(reminder.rule_id);
+      if (!rule) continue;
+
+      await supabase.from('activity_logs').insert({
+        event_id: rule.event_id,
+        type: 'system',
+        action: 'Reminder emails queued',
+        details: `${rule.name} - ${reminder.queued_count} emails (${rule.hours_before}h before the event)`,
+        status: 'success',
+        actor_id: rule.created_by,
+        actor_email: rule.created_by_email,
+        metadata: { reminder_rule_id: rule.id, campaign_id: reminder.campaign_id },
+      });
+    }
+
+    // The worker answers only once its batch run is over, so it is not awaited
+    EdgeRuntime.waitUntil(
+      fetch(`${supabaseUrl}/functions/v1/process-email-queue`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${supabaseServiceRoleKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: '{}',
+      })
+    );
+
+    const total = queued.reduce((sum, reminder) => sum + reminder.queued_count, 0);
+    console.log(`Reminders: ${total} emails queued for ${queued.length} rules`);
+
+    return json({
+      success: true,
+      queued: total,
+      reminders: queued.map(reminder => ({
+        ruleId: reminder.rule_id,
+        campaignId: reminder.campaign_id,
+        queued: reminder.queued_count,
+      })),
+    });
+  } catch (error) {
+    console.error('Error in send-reminders function:', error);
+    return json({ success: false, error: errorMessage(error) }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,196 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { toE164 } from "../_shared/phone.ts";
+import { getSmsProvider } from "../_shared/sms.ts";
+import { corsHeaders, json, errorMessage, sleep } from "../_shared/http.ts";
+import { createUserClient } from "../_shared/platform-access.ts";
+
+// Texts attendees a short link to their ticket page through the SMS provider. Each
+// send is recorded in sms_messages; sms-status follows it to delivered or failed.
+
+// Larger selections are split into several requests by the dashboard
+const MAX_RECIPIENTS = 100;
+const SEND_INTERVAL_MS = 100;
+// Keeps the text within two SMS segments even with a long event name
+const MAX_EVENT_NAME_LENGTH = 40;
+
+interface SendSmsRequest {
+  eventId: string;
+  attendeeIds: string[];
+}
+
+interface SmsMessageRow {
+  id: string;
+  event_id: string;
+  attendee_id: string;
+  recipient_phone: string;
+  link_code: string;
+  created_by: string | null;
+  created_by_email: string | null;
+}
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+const smsBody = (attendeeName: string, eventName: string, link: string) => {
+  const firstName = attendeeName.trim().split(/\s+/)[0];
+  return `Hi ${firstName}, your ticket for ${truncate(eventName, MAX_EVENT_NAME_LENGTH)}: ${link}`;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'Missing authorization header' }, 401);
+    }
+
+    const provider = getSmsProvider();
+    if (!provider) {
+      throw new Error('SMS provider not configured');
+    }
+
+    const { eventId, attendeeIds }: SendSmsRequest = await req.json();
+    if (!eventId || !Array.isArray(attendeeIds) || attendeeIds.length === 0) {
+      return json({ error: 'eventId and attendeeIds are required' }, 400);
+    }
+    if (attendeeIds.length > MAX_RECIPIENTS) {
+      return json({ error: `At most ${MAX_RECIPIENTS} attendees per request` }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const linkBaseUrl = (Deno.env.get('SMS_LINK_BASE_URL') || `${supabaseUrl}/functions/v1/ticket-link`).replace(/\/+$/, '');
+
+    const { data: queued, error: queueError } = await createUserClient(authHeader).rpc('queue_sms_messages', {
+      event_id_param: eventId,
+      attendee_ids_param: attendeeIds,
+    });
+    if (queueError) {
+      const status = queueError.code === '42501' ? 403 : 500;
+      return json({ error: queueError.message }, status);
+    }
+
+    const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('name')
+      .eq('id', eventId)
+      .single();
+    if (eventError) {
+      throw new Error(`Failed to load event: ${eventError.message}`);
+    }
+
+    // The queue only hands back ids; link codes are read with the service role
+    const { data: queuedMessages, error: messagesError } = await supabase
+      .from('sms_messages')
+      .select('id, event_id, attendee_id, recipient_phone, link_code, created_by, created_by_email')
+      .in('id', (queued ?? []).map((row: { message_id: string }) => row.message_id));
+    if (messagesError) {
+      throw new Error(`Failed to load queued messages: ${messagesError.message}`);
+    }
+
+    const messages = (queuedMessages ?? []) as SmsMessageRow[];
+    const { data: attendees, error: attendeesError } = await supabase
+      .from('attendees')
+      .select('id, name, qr_code')
+      .in('id', messages.map(message => message.attendee_id));
+    if (attendeesError) {
+      throw new Error(`Failed to load attendees: ${attendeesError.message}`);
+    }
+    const attendeesById = new Map((attendees ?? []).map(attendee => [attendee.id, attendee]));
+
+    const results: { attendeeId: string; status: 'sent' | 'failed'; error?: string }[] = [];
+
+    for (const message of messages) {
+      const attendee = attendeesById.get(message.attendee_id)!;
+      const to = toE164(message.recipient_phone);
+
+      try {
+        if (!to) {
+          throw new Error(`Invalid phone number: ${message.recipient_phone}`);
+        }
+
+        const body = smsBody(attendee.name, event.name, `${linkBaseUrl}/${message.link_code}`);
+        await supabase
+          .from('sms_messages')
+          .update({ recipient_phone: to, body, provider: provider.name })
+          .eq('id', message.id);
+
+        const result = await provider.send({
+          to,
+          body,
+          statusCallbackUrl: `${supabaseUrl}/functions/v1/sms-status`,
+        });
+
+        // Status callbacks can arrive before this update; they only move the status forward
+        await supabase
+          .from('sms_messages')
+          .update({ provider_message_id: result.providerMessageId, sent_at: new Date().toISOString() })
+          .eq('id', message.id);
+        await supabase
+          .from('sms_messages')
+          .update({ status: result.status })
+          .eq('id', message.id)
+          .eq('status', 'sending');
+
+        await supabase.from('activity_logs').insert({
+          event_id: message.event_id,
+          type: 'sms_sent',
+          action: 'QR code link sent via SMS',
+          user_name: attendee.name,
+          details: `QR Code: ${attendee.qr_code} - ${to}`,
+          status: 'success',
+          actor_id: message.created_by,
+          actor_email: message.created_by_email,
+          metadata: { attendee_id: attendee.id, sms_message_id: message.id, provider_message_id: result.providerMessageId },
+        });
+
+        results.push({ attendeeId: attendee.id, status: 'sent' });
+      } catch (error) {
+        const reason = errorMessage(error);
+        console.error(`SMS ${message.id} failed:`, reason);
+
+        await supabase
+          .from('sms_messages')
+          .update({ status: 'failed', last_error: reason })
+          .eq('id', message.id);
+
+        await supabase.from('activity_logs').insert({
+          event_id: message.event_id,
+          type: 'sms_sent',
+          action: 'SMS sending failed',
+          user_name: attendee.name,
+          details: `Error: ${reason}`,
+          status: 'error',
+          actor_id: message.created_by,
+          actor_email: message.created_by_email,
+          metadata: { attendee_id: attendee.id, sms_message_id: message.id },
+        });
+
+        results.push({ attendeeId: attendee.id, status: 'failed', error: reason });
+      }
+
+      await sleep(SEND_INTERVAL_MS);
+    }
+
+    const sent = results.filter(result => result.status === 'sent').length;
+    console.log(`SMS via ${provider.name}: ${sent} sent, ${results.length - sent} failed, ${attendeeIds.length - messages.length} without a phone number`);
+
+    return json({
+      success: true,
+      sent,
+      failed: results.length - sent,
+      skipped: attendeeIds.length - messages.length,
+      results,
+    });
+  } catch (error) {
+    console.error('Error in send-sms function:', error);
+    return json({ success: false, error: errorMessage(error) }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,185 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { getQrImage } from "../_shared/qr-image.ts";
+import { getWhatsAppConfig, sendTemplateMessage, toWhatsAppNumber } from "../_shared/whatsapp.ts";
+import { corsHeaders, json, errorMessage, sleep } from "../_shared/http.ts";
+import { createUserClient } from "../_shared/platform-access.ts";
+
+// Sends attendees their QR code as a WhatsApp template message. Each send is
+// recorded in whatsapp_messages; whatsapp-webhook follows it to delivered/read.
+//
+// Set WHATSAPP_API_URL to the mock server (mock-cloud-api.ts) to try it locally.
+
+// Larger selections are split into several requests by the dashboard
+const MAX_RECIPIENTS = 100;
+// Well under the Cloud API's per-number throughput limit
+const SEND_INTERVAL_MS = 100;
+
+interface SendWhatsAppRequest {
+  eventId: string;
+  attendeeIds: string[];
+}
+
+interface WhatsAppMessage {
+  id: string;
+  event_id: string;
+  attendee_id: string;
+  recipient_phone: string;
+  created_by: string | null;
+  created_by_email: string | null;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'Missing authorization header' }, 401);
+    }
+
+    const config = getWhatsAppConfig();
+    if (!config) {
+      throw new Error('WhatsApp Cloud API not configured');
+    }
+
+    const { eventId, attendeeIds }: SendWhatsAppRequest = await req.json();
+    if (!eventId || !Array.isArray(attendeeIds) || attendeeIds.length === 0) {
+      return json({ error: 'eventId and attendeeIds are required' }, 400);
+    }
+    if (attendeeIds.length > MAX_RECIPIENTS) {
+      return json({ error: `At most ${MAX_RECIPIENTS} attendees per request` }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+    const { data: queued, error: queueError } = await createUserClient(authHeader).rpc('queue_whatsapp_messages', {
+      event_id_param: eventId,
+      attendee_ids_param: attendeeIds,
+    });
+    if (queueError) {
+      const status = queueError.code === '42501' ? 403 : 500;
+      return json({ error: queueError.message }, status);
+    }
+
+    const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('name')
+      .eq('id', eventId)
+      .single();
+    if (eventError) {
+      throw new Error(`Failed to load event: ${eventError.message}`);
+    }
+
+    // The queue only hands back ids; the rows are read with the service role
+    const { data: queuedMessages, error: messagesError } = await supabase
+      .from('whatsapp_messages')
+      .select('id, event_id, attendee_id, recipient_phone, created_by, created_by_email')
+      .in('id', (queued ?? []).map((row: { message_id: string }) => row.message_id));
+    if (messagesError) {
+      throw new Error(`Failed to load queued messages: ${messagesError.message}`);
+    }
+
+    const messages = (queuedMessages ?? []) as WhatsAppMessage[];
+    const { data: attendees, error: attendeesError } = await supabase
+      .from('attendees')
+      .select('id, name, qr_code, qr_token')
+      .in('id', messages.map(message => message.attendee_id));
+    if (attendeesError) {
+      throw new Error(`Failed to load attendees: ${attendeesError.message}`);
+    }
+    const attendeesById = new Map((attendees ?? []).map(attendee => [attendee.id, attendee]));
+
+    const results: { attendeeId: string; status: 'sent' | 'failed'; error?: string }[] = [];
+
+    for (const message of messages) {
+      const attendee = attendeesById.get(message.attendee_id)!;
+
+      try {
+        const to = toWhatsAppNumber(message.recipient_phone);
+        if (!to) {
+          throw new Error(`Invalid phone number: ${message.recipient_phone}`);
+        }
+
+        const qr = await getQrImage(supabase, attendee.id, attendee.qr_token || attendee.qr_code);
+        const providerMessageId = await sendTemplateMessage(config, {
+          to,
+          imageUrl: qr.url,
+          attendeeName: attendee.name,
+          eventName: event.name,
+          qrCode: attendee.qr_code,
+        });
+
+        // Status webhooks can arrive before this update; they only move the status forward
+        await supabase
+          .from('whatsapp_messages')
+          .update({ provider_message_id: providerMessageId, sent_at: new Date().toISOString() })
+          .eq('id', message.id);
+        await supabase
+          .from('whatsapp_messages')
+          .update({ status: 'sent' })
+          .eq('id', message.id)
+          .eq('status', 'sending');
+
+        await supabase.from('activity_logs').insert({
+          event_id: message.event_id,
+          type: 'whatsapp_sent',
+          action: 'QR code sent via WhatsApp',
+          user_name: attendee.name,
+          details: `QR Code: ${attendee.qr_code} - ${message.recipient_phone}`,
+          status: 'success',
+          actor_id: message.created_by,
+          actor_email: message.created_by_email,
+          metadata: { attendee_id: attendee.id, whatsapp_message_id: message.id, provider_message_id: providerMessageId },
+        });
+
+        results.push({ attendeeId: attendee.id, status: 'sent' });
+      } catch (error) {
+        const reason = errorMessage(error);
+        console.error(`WhatsApp message ${message.id} failed:`, reason);
+
+        await supabase
+          .from('whatsapp_messages')
+          .update({ status: 'failed', last_error: reason })
+          .eq('id', message.id);
+
+        await supabase.from('activity_logs').insert({
+          event_id: message.event_id,
+          type: 'whatsapp_sent',
+          action: 'WhatsApp message failed',
+          user_name: attendee.name,
+          details: `Error: ${reason}`,
+          status: 'error',
+          actor_id: message.created_by,
+          actor_email: message.created_by_email,
+          metadata: { attendee_id: attendee.id, whatsapp_message_id: message.id },
+        });
+
+        results.push({ attendeeId: attendee.id, status: 'failed', error: reason });
+      }
+
+      await sleep(SEND_INTERVAL_MS);
+    }
+
+    const sent = results.filter(result => result.status === 'sent').length;
+    console.log(`WhatsApp: ${sent} sent, ${results.length - sent} failed, ${attendeeIds.length - messages.length} without a phone number`);
+
+    return json({
+      success: true,
+      sent,
+      failed: results.length - sent,
+      skipped: attendeeIds.length - messages.length,
+      results,
+    });
+  } catch (error) {
+    console.error('Error in send-whatsapp function:', error);
+    return json({ success: false, error: errorMessage(error) }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,107 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { signPayload } from "../_shared/whatsapp.ts";
+
+// Local stand-in for the WhatsApp Cloud API: accepts template messages the way
+// the Graph API does and posts signed sent, delivered and read webhooks back to
+// whatsapp-webhook, so bulk sends can be tried without a Meta business account.
+//
+//   WHATSAPP_APP_SECRET=test-secret deno run --allow-net --allow-env \
+//     supabase/functions/send-whatsapp/mock-cloud-api.ts
+//
+// Then serve the functions with WHATSAPP_API_URL=http://host.docker.internal:8787,
+// any WHATSAPP_PHONE_NUMBER_ID / WHATSAPP_ACCESS_TOKEN, and the same
+// WHATSAPP_APP_SECRET. Numbers ending in 0000 are rejected like unregistered
+// WhatsApp accounts; numbers ending in 1111 are accepted and then fail delivery.
+// Set WEBHOOK_URL to target a deployed function instead of `supabase functions serve`.
+
+const PORT = Number(Deno.env.get('PORT') ?? 8787);
+const WEBHOOK_URL = Deno.env.get('WEBHOOK_URL') ?? 'http://127.0.0.1:54321/functions/v1/whatsapp-webhook';
+// Between status webhooks for a message
+const STATUS_DELAY_MS = 1500;
+
+const appSecret = Deno.env.get('WHATSAPP_APP_SECRET');
+
+if (!appSecret) {
+  console.error('Usage: WHATSAPP_APP_SECRET=... mock-cloud-api.ts');
+  Deno.exit(1);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const graphError = (status: number, code: number, message: string) => new Response(
+  JSON.stringify({ error: { message, type: 'OAuthException', code, error_data: { details: message } } }),
+  { status, headers: { 'Content-Type': 'application/json' } }
+);
+
+const postStatus = async (phoneNumberId: string, messageId: string, recipient: string, status: string) => {
+  const body = JSON.stringify({
+    object: 'whatsapp_business_account',
+    entry: [{
+      id: 'mock-waba',
+      changes: [{
+        field: 'messages',
+        value: {
+          messaging_product: 'whatsapp',
+          metadata: { phone_number_id: phoneNumberId },
+          statuses: [{
+            id: messageId,
+            status,
+            timestamp: String(Math.floor(Date.now() / 1000)),
+            recipient_id: recipient,
+            ...(status === 'failed'
+              ? { errors: [{ code: 131026, title: 'Message undeliverable', error_data: { details: 'Message undeliverable' } }] }
+              : {}),
+          }],
+        },
+      }],
+    }],
+  });
+
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Hub-Signature-256': await signPayload(appSecret, body),
+    },
+    body,
+  });
+  console.log(`${status.padEnd(9)} ${messageId} -> ${response.status} ${await response.text()}`);
+};
+
+const deliver = async (phoneNumberId: string, messageId: string, recipient: string) => {
+  const statuses = recipient.endsWith('1111') ? ['sent', 'failed'] : ['sent', 'delivered', 'read'];
+  for (const status of statuses) {
+    await sleep(STATUS_DELAY_MS);
+    await postStatus(phoneNumberId, messageId, recipient, status);
+  }
+};
+
+serve(async (req) => {
+  const match = new URL(req.url).pathname.match(/^\/([^/]+)\/messages$/);
+  if (req.method !== 'POST' || !match) {
+    return graphError(404, 100, 'Unsupported request');
+  }
+  if (!req.headers.get('Authorization')?.startsWith('Bearer ')) {
+    return graphError(401, 190, 'Invalid OAuth access token');
+  }
+
+  const message = await req.json();
+  if (message.messaging_product !== 'whatsapp' || message.type !== 'template' || !message.template?.name) {
+    return graphError(400, 100, 'Invalid parameter');
+  }
+
+  const recipient = String(message.to ?? '');
+  if (recipient.endsWith('0000')) {
+    return graphError(400, 131030, 'Recipient phone number not in allowed list');
+  }
+
+  const messageId = `wamid.mock-${crypto.randomUUID()}`;
+  console.log(`accepted  ${messageId} template=${message.template.name} to=${recipient}`);
+  deliver(match[1], messageId, recipient).catch(error => console.error('Webhook delivery failed:', error));
+
+  return new Response(JSON.stringify({
+    messaging_product: 'whatsapp',
+    contacts: [{ input: recipient, wa_id: recipient }],
+    messages: [{ id: messageId }],
+  }), { headers: { 'Content-Type': 'application/json' } });
+}, { port: PORT });
@@ -0,0 +1,75 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { getSmsProvider } from "../_shared/sms.ts";
+import { json } from "../_shared/http.ts";
+
+// Delivery status callbacks from the SMS provider. send-sms gives this function's
+// URL with every message, so nothing has to be set up on the provider's side.
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const provider = getSmsProvider();
+  if (!provider) {
+    console.error('SMS provider not configured');
+    return json({ error: 'SMS provider not configured' }, 500);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  // The URL the provider signed, which is not req.url behind the functions gateway
+  const update = await provider.parseStatusCallback(req, `${supabaseUrl}/functions/v1/sms-status`);
+  if (!update) {
+    console.warn('Rejected status callback: invalid signature');
+    return json({ error: 'Invalid signature' }, 401);
+  }
+
+  if (!update.status) {
+    return json({ success: true, ignored: 'unknown status' });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: updated, error } = await supabase.rpc('apply_sms_status', {
+      provider_message_id_param: update.providerMessageId,
+      status_param: update.status,
+      error_param: update.error,
+    });
+    if (error) throw error;
+
+    // Unknown message, or a status older than the one we have
+    const message = updated?.[0];
+    if (!message) {
+      return json({ success: true, ignored: update.status });
+    }
+
+    if (update.status === 'undelivered' || update.status === 'failed') {
+      const { data: attendee } = await supabase
+        .from('attendees')
+        .select('name')
+        .eq('id', message.attendee_id)
+        .maybeSingle();
+
+      await supabase.from('activity_logs').insert({
+        event_id: message.event_id,
+        type: 'sms_sent',
+        action: 'SMS not delivered',
+        user_name: attendee?.name ?? null,
+        details: `Error: ${update.error || update.status} - ${message.recipient_phone}`,
+        status: 'error',
+        metadata: { attendee_id: message.attendee_id, sms_message_id: message.id, provider_message_id: update.providerMessageId },
+      });
+    }
+
+    console.log(`SMS ${update.providerMessageId} is ${update.status}`);
+    return json({ success: true });
+  } catch (error) {
+    console.error('Error in sms-status function:', error);
+    // Non-2xx makes the provider retry later
+    return json({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+serve(handler);
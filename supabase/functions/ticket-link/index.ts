@@ -0,0 +1,59 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { ticketPageUrl } from "../_shared/ticket.ts";
+
+// The short links in SMS messages:
+//
+//   GET /ticket-link/<link_code>  -> redirect to the attendee's ticket page
+//
+// Each code belongs to one sms_messages row. The link stops working once the
+// attendee's QR code is reissued, the same as the code it was sent for.
+
+const textResponse = (message: string, status: number) => new Response(message, {
+  status,
+  headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+});
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method !== 'GET') {
+    return textResponse('Method not allowed', 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    const code = url.pathname.split('/').filter(Boolean).pop();
+    if (!code || code === 'ticket-link') {
+      return textResponse('Ticket link not found', 404);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: message, error } = await supabase
+      .from('sms_messages')
+      .select('qr_token, attendees(qr_token)')
+      .eq('link_code', code)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load ticket link: ${error.message}`);
+    }
+    if (!message?.attendees?.qr_token) {
+      return textResponse('Ticket link not found', 404);
+    }
+
+    const currentToken = message.attendees.qr_token;
+    if (message.qr_token !== currentToken) {
+      return textResponse('This ticket link is no longer valid. Ask the organiser to resend your QR code.', 410);
+    }
+
+    return new Response(null, {
+      status: 302,
+      headers: { Location: ticketPageUrl(currentToken), 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Error in ticket-link function:', error);
+    return textResponse('Could not open your ticket. Please try again later.', 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,60 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { CALENDAR_EVENT_COLUMNS, calendarEventFromRow, type CalendarEventRow } from "../_shared/calendar.ts";
+import { getWalletLinks } from "../_shared/wallet-pass.ts";
+import { corsHeaders, json } from "../_shared/http.ts";
+
+// What the public ticket page (/ticket/:token) shows: the attendee's QR code,
+// the event, and calendar and wallet links. Only attendees' current tokens work.
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { token } = await req.json();
+    if (!token || typeof token !== 'string') {
+      return json({ error: 'Token is required' }, 400);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: attendee, error } = await supabase
+      .from('attendees')
+      .select(`name, qr_code, qr_token, checked_in, ticket_types(name), events(${CALENDAR_EVENT_COLUMNS})`)
+      .eq('qr_token', token)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load attendee: ${error.message}`);
+    }
+    if (!attendee || !attendee.events) {
+      return json({ error: 'This ticket link is no longer valid' }, 404);
+    }
+
+    // Only what the attendee already has in their QR email
+    return json({
+      success: true,
+      attendee: {
+        name: attendee.name,
+        qr_code: attendee.qr_code,
+        qr_token: attendee.qr_token,
+        checked_in: attendee.checked_in,
+        ticket_type: attendee.ticket_types?.name ?? null,
+      },
+      event: calendarEventFromRow(attendee.events as unknown as CalendarEventRow),
+      wallet_links: getWalletLinks(attendee.qr_token),
+    });
+  } catch (error) {
+    console.error('Error in ticket function:', error);
+    return json({ error: 'Could not load your ticket. Please try again later.' }, 500);
+  }
+};
+
+serve(handler);
@@ -1,10 +1,17 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { UUID_PATTERN, checkPlatformAccess } from "../_shared/platform-access.ts";
+import { corsHeaders, json } from "../_shared/http.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// Banners are stored per event and never overwritten, so every template version
+// keeps pointing at the image it was saved with
+const ALLOWED_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
 };
+const MAX_BANNER_BYTES = 2 * 1024 * 1024;
 
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
@@ -14,7 +21,12 @@ const handler = async (req: Request): Promise<Response> => {
 
   try {
     console.log('Starting banner upload process...');
-    
+
+    const accessStatus = await checkPlatformAccess(req.headers.get('Authorization'));
+    if (accessStatus) {
+      return json({ success: false, error: accessStatus === 401 ? 'Unauthorized' : 'Access denied' }, accessStatus);
+    }
+
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
     if (!supabaseUrl || !supabaseServiceRoleKey) {
@@ -23,17 +35,39 @@ const handler = async (req: Request): Promise<Response> => {
     const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
 
     // Get the banner image data from the request
-    const { imageData } = await req.json();
+    const { imageData, eventId } = await req.json();
     
     if (!imageData) {
       throw new Error('No image data provided');
     }
+    // The id becomes part of the storage path
+    if (typeof eventId !== 'string' || !UUID_PATTERN.test(eventId)) {
+      return json({ success: false, error: 'A valid event id is required' }, 400);
+    }
+
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('id')
+      .eq('id', eventId)
+      .maybeSingle();
+    if (eventError) {
+      throw new Error(`Failed to load event: ${eventError.message}`);
+    }
+    if (!event) {
+      return json({ success: false, error: 'Event not found' }, 404);
+    }
 
     // Process base64 image data
     const parts = imageData.split(',');
     if (parts.length !== 2) {
       throw new Error('Invalid base64 data format');
     }
+
+    const mimeType = parts[0].match(/^data:(.*?);base64$/)?.[1] ?? '';
+    const extension = ALLOWED_TYPES[mimeType];
+    if (!extension) {
+      throw new Error('Banner must be a PNG, JPEG, GIF or WebP image');
+    }
     
     const base64Data = parts[1].trim();
     const binaryString = atob(base64Data);
@@ -42,15 +76,20 @@ const handler = async (req: Request): Promise<Response> => {
       bytes[i] = binaryString.charCodeAt(i);
     }
 
-    console.log('Uploading banner to storage...');
+    if (bytes.length > MAX_BANNER_BYTES) {
+      throw new Error('Banner must be 2 MB or smaller');
+    }
+
+    const filePath = `email-banners/${eventId}/${crypto.randomUUID()}.${extension}`;
+    console.log('Uploading banner to storage:', filePath);
 
     // Upload banner to storage
     const uploadResult = await supabase.storage
       .from('qr-codes')
-      .upload('email-banner.png', bytes, {
-        contentType: 'image/png',
-        upsert: true,
-        cacheControl: '3600',
+      .upload(filePath, bytes, {
+        contentType: mimeType,
+        upsert: false,
+        cacheControl: '31536000',
       });
 
     if (uploadResult.error) {
@@ -62,13 +101,14 @@ const handler = async (req: Request): Promise<Response> => {
 
     const { data: publicUrlData } = supabase.storage
       .from('qr-codes')
-      .getPublicUrl('email-banner.png');
+      .getPublicUrl(filePath);
 
     return new Response(
       JSON.stringify({ 
         success: true, 
         message: 'Banner uploaded successfully',
-        url: publicUrlData.publicUrl
+        url: publicUrlData.publicUrl,
+        path: filePath
       }),
       {
         status: 200,
@@ -79,12 +119,12 @@ const handler = async (req: Request): Promise<Response> => {
       }
     );
 
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error in upload-banner function:', error);
     return new Response(
       JSON.stringify({ 
         success: false, 
-        error: error.message 
+        error: error instanceof Error ? error.message : String(error)
       }),
       {
         status: 500,
@@ -0,0 +1,113 @@
+import forge from "npm:node-forge@1.3.1";
+import { zipSync } from "npm:fflate@0.8.2";
+import type { AppleWalletConfig, WalletPassDetails } from "../_shared/wallet-pass.ts";
+
+// Builds a signed .pkpass bundle: pass.json, images, manifest.json with the SHA-1
+// of every file, and a detached PKCS #7 signature of the manifest.
+
+const encoder = new TextEncoder();
+
+const sha1Hex = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-1', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// #052659 -> rgb(5, 38, 89), the colour format pass.json expects
+const toRgb = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+const buildPassJson = (details: WalletPassDetails, config: AppleWalletConfig) => {
+  const secondaryFields = [{ key: 'attendee', label: 'ATTENDEE', value: details.attendeeName }];
+  if (details.ticketType) {
+    secondaryFields.push({ key: 'ticket', label: 'TICKET', value: details.ticketType });
+  }
+
+  const auxiliaryFields: Record<string, string>[] = [];
+  if (details.startsAt) {
+    auxiliaryFields.push({ key: 'starts', label: 'DATE', value: details.startsAt, dateStyle: 'PKDateStyleMedium', timeStyle: 'PKDateStyleShort' });
+  }
+  if (details.venue) {
+    auxiliaryFields.push({ key: 'venue', label: 'VENUE', value: details.venue });
+  }
+
+  return {
+    formatVersion: 1,
+    passTypeIdentifier: config.passTypeIdentifier,
+    teamIdentifier: config.teamIdentifier,
+    serialNumber: details.attendeeId,
+    organizationName: details.organizerName,
+    description: `${details.eventName} ticket`,
+    logoText: details.eventName,
+    foregroundColor: 'rgb(255, 255, 255)',
+    labelColor: 'rgb(255, 255, 255)',
+    backgroundColor: toRgb(details.color),
+    ...(details.startsAt ? { relevantDate: details.startsAt } : {}),
+    ...(details.endsAt ? { expirationDate: details.endsAt } : {}),
+    barcodes: [{
+      format: 'PKBarcodeFormatQR',
+      message: details.barcodeValue,
+      messageEncoding: 'iso-8859-1',
+      altText: details.qrCode,
+    }],
+    eventTicket: {
+      primaryFields: [{ key: 'event', label: 'EVENT', value: details.eventName }],
+      secondaryFields,
+      auxiliaryFields,
+    },
+  };
+};
+
+const signManifest = (manifest: Uint8Array, config: AppleWalletConfig) => {
+  const certificate = forge.pki.certificateFromPem(config.certificate);
+  const key = config.privateKeyPassphrase
+    ? forge.pki.decryptRsaPrivateKey(config.privateKey, config.privateKeyPassphrase)
+    : forge.pki.privateKeyFromPem(config.privateKey);
+  if (!key) {
+    throw new Error('Could not read the Apple pass private key; check APPLE_PASS_KEY_PASSPHRASE');
+  }
+
+  const signedData = forge.pkcs7.createSignedData();
+  signedData.content = forge.util.createBuffer(new TextDecoder().decode(manifest), 'utf8');
+  signedData.addCertificate(forge.pki.certificateFromPem(config.wwdrCertificate));
+  signedData.addCertificate(certificate);
+  signedData.addSigner({
+    key,
+    certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      // Filled in by forge when signing
+      { type: forge.pki.oids.signingTime },
+    ],
+  });
+  signedData.sign({ detached: true });
+
+  const der = forge.asn1.toDer(signedData.toAsn1()).getBytes();
+  return Uint8Array.from(der, char => char.charCodeAt(0));
+};
+
+export const buildApplePass = async (details: WalletPassDetails, config: AppleWalletConfig, logo: Uint8Array) => {
+  const files: Record<string, Uint8Array> = {
+    'pass.json': encoder.encode(JSON.stringify(buildPassJson(details, config))),
+    // Wallet scales these down; one image keeps the bundle configurable from a single URL
+    'icon.png': logo,
+    'icon@2x.png': logo,
+    'logo.png': logo,
+    'logo@2x.png': logo,
+  };
+
+  const manifest: Record<string, string> = {};
+  for (const [name, bytes] of Object.entries(files)) {
+    manifest[name] = await sha1Hex(bytes);
+  }
+  const manifestBytes = encoder.encode(JSON.stringify(manifest));
+
+  return zipSync({
+    ...files,
+    'manifest.json': manifestBytes,
+    'signature': signManifest(manifestBytes, config),
+  });
+};
@@ -0,0 +1,125 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { fetchEventTemplate } from "../_shared/qr-email.ts";
+import {
+  getAppleWalletConfig,
+  getGoogleWalletConfig,
+  type WalletFormat,
+  type WalletPassDetails,
+} from "../_shared/wallet-pass.ts";
+import { corsHeaders } from "../_shared/http.ts";
+import { buildApplePass } from "./apple.ts";
+import { buildGoogleWalletUrl } from "./google.ts";
+
+// Serves an attendee's wallet pass from the links in QR emails and on the
+// registration success page:
+//
+//   GET /wallet-pass?token=<qr_token>&format=apple   -> .pkpass download
+//   GET /wallet-pass?token=<qr_token>&format=google  -> redirect to Google Wallet
+//
+// The signed QR token is the credential, the same as at the check-in desk. A
+// reissued QR code invalidates links to the old pass.
+
+const SITE_URL = Deno.env.get('SITE_URL') || 'https://juspayconnect.online';
+// icon.png and logo.png of Apple passes
+const LOGO_URL = Deno.env.get('WALLET_PASS_LOGO_URL') || `${SITE_URL}/assets/juspay-logo.png`;
+const DEFAULT_ORGANIZER = 'Juspay';
+
+// Attendees open these links in a browser, so errors are plain text
+const textResponse = (message: string, status: number) => new Response(message, {
+  status,
+  headers: { 'Content-Type': 'text/plain; charset=utf-8', ...corsHeaders },
+});
+
+const fetchLogo = async () => {
+  const response = await fetch(LOGO_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to load pass logo from ${LOGO_URL}: ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return textResponse('Method not allowed', 405);
+  }
+
+  try {
+    const params = new URL(req.url).searchParams;
+    const token = params.get('token');
+    const format = params.get('format') as WalletFormat | null;
+
+    if (!token || (format !== 'apple' && format !== 'google')) {
+      return textResponse('A token and a format of apple or google are required', 400);
+    }
+
+    const appleConfig = format === 'apple' ? getAppleWalletConfig() : null;
+    const googleConfig = format === 'google' ? getGoogleWalletConfig() : null;
+    if (!appleConfig && !googleConfig) {
+      return textResponse(`${format === 'apple' ? 'Apple' : 'Google'} Wallet passes are not set up for this event`, 503);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: attendee, error } = await supabase
+      .from('attendees')
+      .select('id, name, qr_code, qr_token, event_id, ticket_types(name), events(name, venue, starts_at, ends_at, organizer_name)')
+      .eq('qr_token', token)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load attendee: ${error.message}`);
+    }
+    if (!attendee || !attendee.events) {
+      return textResponse('This ticket link is no longer valid. Ask the organiser to resend your QR code.', 404);
+    }
+
+    const template = await fetchEventTemplate(supabase, attendee.event_id);
+    const details: WalletPassDetails = {
+      attendeeId: attendee.id,
+      attendeeName: attendee.name,
+      eventId: attendee.event_id,
+      eventName: attendee.events.name,
+      venue: attendee.events.venue || undefined,
+      startsAt: attendee.events.starts_at || undefined,
+      endsAt: attendee.events.ends_at || undefined,
+      organizerName: attendee.events.organizer_name || DEFAULT_ORGANIZER,
+      ticketType: attendee.ticket_types?.name || undefined,
+      barcodeValue: attendee.qr_token || attendee.qr_code,
+      qrCode: attendee.qr_code,
+      color: template.theme.primaryColor,
+    };
+
+    if (appleConfig) {
+      const pass = await buildApplePass(details, appleConfig, await fetchLogo());
+      console.log('Apple Wallet pass issued for attendee', attendee.id);
+
+      return new Response(pass, {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/vnd.apple.pkpass',
+          'Content-Disposition': `attachment; filename="ticket-${attendee.qr_code}.pkpass"`,
+          ...corsHeaders,
+        },
+      });
+    }
+
+    const saveUrl = await buildGoogleWalletUrl(details, googleConfig!);
+    console.log('Google Wallet link issued for attendee', attendee.id);
+
+    return new Response(null, {
+      status: 302,
+      headers: { Location: saveUrl, ...corsHeaders },
+    });
+  } catch (error) {
+    console.error('Error in wallet-pass function:', error);
+    return textResponse('Could not create your wallet pass. Please try again later.', 500);
+  }
+};
+
+serve(handler);
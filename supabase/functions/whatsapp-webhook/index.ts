@@ -0,0 +1,96 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { describeWhatsAppError, verifySignature, type WhatsAppWebhookPayload } from "../_shared/whatsapp.ts";
+import { json } from "../_shared/http.ts";
+
+// Receives WhatsApp Cloud API webhooks (Meta app dashboard -> WhatsApp ->
+// Configuration). The callback URL is this function; WHATSAPP_VERIFY_TOKEN is the
+// verify token entered there and WHATSAPP_APP_SECRET the app's secret, used to
+// check the X-Hub-Signature-256 of every delivery. Subscribe to "messages".
+
+const trackedStatuses = new Set(['sent', 'delivered', 'read', 'failed']);
+
+const handler = async (req: Request): Promise<Response> => {
+  // Subscription handshake when the callback URL is saved
+  if (req.method === 'GET') {
+    const params = new URL(req.url).searchParams;
+    const verifyToken = Deno.env.get('WHATSAPP_VERIFY_TOKEN');
+
+    if (verifyToken && params.get('hub.mode') === 'subscribe' && params.get('hub.verify_token') === verifyToken) {
+      return new Response(params.get('hub.challenge') ?? '', { status: 200 });
+    }
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const appSecret = Deno.env.get('WHATSAPP_APP_SECRET');
+  if (!appSecret) {
+    console.error('WHATSAPP_APP_SECRET not configured');
+    return json({ error: 'Webhook secret not configured' }, 500);
+  }
+
+  const body = await req.text();
+
+  if (!await verifySignature(appSecret, body, req.headers.get('X-Hub-Signature-256'))) {
+    console.warn('Rejected webhook: invalid signature');
+    return json({ error: 'Invalid signature' }, 401);
+  }
+
+  try {
+    const payload: WhatsAppWebhookPayload = JSON.parse(body);
+    const statuses = (payload.entry ?? [])
+      .flatMap(entry => entry.changes ?? [])
+      .flatMap(change => change.value.statuses ?? [])
+      .filter(update => trackedStatuses.has(update.status));
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    let applied = 0;
+
+    for (const update of statuses) {
+      const reason = update.status === 'failed' ? describeWhatsAppError(update.errors?.[0]) : null;
+
+      const { data: updated, error } = await supabase.rpc('apply_whatsapp_status', {
+        provider_message_id_param: update.id,
+        status_param: update.status,
+        occurred_at_param: new Date(Number(update.timestamp) * 1000).toISOString(),
+        error_param: reason,
+      });
+      if (error) throw error;
+
+      // Unknown message, or a status older than the one we have
+      const message = updated?.[0];
+      if (!message) continue;
+      applied++;
+
+      if (update.status === 'failed') {
+        const { data: attendee } = await supabase
+          .from('attendees')
+          .select('name')
+          .eq('id', message.attendee_id)
+          .maybeSingle();
+
+        await supabase.from('activity_logs').insert({
+          event_id: message.event_id,
+          type: 'whatsapp_sent',
+          action: 'WhatsApp message not delivered',
+          user_name: attendee?.name ?? null,
+          details: `Error: ${reason} - ${message.recipient_phone}`,
+          status: 'error',
+          metadata: { attendee_id: message.attendee_id, whatsapp_message_id: message.id, provider_message_id: update.id },
+        });
+      }
+    }
+
+    console.log(`Applied ${applied} of ${statuses.length} WhatsApp status updates`);
+    return json({ success: true, applied });
+  } catch (error) {
+    console.error('Error in whatsapp-webhook function:', error);
+    // Non-2xx makes Meta retry later
+    return json({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,108 @@
+-- Multi-event support: introduce a first-class events table and scope
+-- attendees, check-ins, registration tokens and activity logs to an event
+
+-- ============================================
+-- 1. Create EVENTS table
+-- ============================================
+CREATE TABLE public.events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  description TEXT,
+  venue TEXT,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT events_slug_format CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$')
+);
+
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_events_updated_at
+BEFORE UPDATE ON public.events
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Platform users can see every event; the public registration page only needs active ones
+CREATE POLICY "Authenticated users can view events"
+ON public.events
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+CREATE POLICY "Public can view active events"
+ON public.events
+FOR SELECT
+TO anon
+USING (is_active = true);
+
+CREATE POLICY "Admins can create events"
+ON public.events
+FOR INSERT
+TO authenticated
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update events"
+ON public.events
+FOR UPDATE
+TO authenticated
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete events"
+ON public.events
+FOR DELETE
+TO authenticated
+USING (is_admin(auth.uid()));
+
+-- ============================================
+-- 2. Default event for existing data
+-- ============================================
+INSERT INTO public.events (name, slug, description)
+VALUES ('Default Event', 'default-event', 'Attendees registered before multi-event support');
+
+-- ============================================
+-- 3. Scope existing tables to an event
+-- ============================================
+ALTER TABLE public.attendees
+ADD COLUMN event_id UUID REFERENCES public.events(id) ON DELETE CASCADE;
+
+ALTER TABLE public.checkin_instances
+ADD COLUMN event_id UUID REFERENCES public.events(id) ON DELETE CASCADE;
+
+ALTER TABLE public.registration_tokens
+ADD COLUMN event_id UUID REFERENCES public.events(id) ON DELETE CASCADE;
+
+ALTER TABLE public.activity_logs
+ADD COLUMN event_id UUID REFERENCES public.events(id) ON DELETE SET NULL;
+
+-- Backfill everything into the default event
+UPDATE public.attendees
+SET event_id = (SELECT id FROM public.events WHERE slug = 'default-event')
+WHERE event_id IS NULL;
+
+UPDATE public.checkin_instances ci
+SET event_id = a.event_id
+FROM public.attendees a
+WHERE ci.attendee_id = a.id AND ci.event_id IS NULL;
+
+UPDATE public.registration_tokens
+SET event_id = (SELECT id FROM public.events WHERE slug = 'default-event')
+WHERE event_id IS NULL;
+
+UPDATE public.activity_logs
+SET event_id = (SELECT id FROM public.events WHERE slug = 'default-event')
+WHERE event_id IS NULL;
+
+-- Attendees and check-ins must always belong to an event
+ALTER TABLE public.attendees ALTER COLUMN event_id SET NOT NULL;
+ALTER TABLE public.checkin_instances ALTER COLUMN event_id SET NOT NULL;
+
+-- Indexes for event-scoped lookups
+CREATE INDEX idx_attendees_event_id ON public.attendees(event_id);
+CREATE INDEX idx_checkin_instances_event_id ON public.checkin_instances(event_id);
+CREATE INDEX idx_registration_tokens_event_id ON public.registration_tokens(event_id);
+CREATE INDEX idx_activity_logs_event_id ON public.activity_logs(event_id);
@@ -0,0 +1,61 @@
+-- Atomic check-in: validate the QR code, assign the next check-in number under a
+-- row lock, record the instance and flip checked_in in a single transaction.
+-- Replaces the client-side count-then-insert flow, which let two scanners at the
+-- same door both record the same check-in number.
+CREATE OR REPLACE FUNCTION public.check_in_attendee(qr_code_param TEXT, event_id_param UUID)
+RETURNS TABLE (
+  result_status TEXT,
+  attendee_id UUID,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  checkin_number INTEGER,
+  guest_type TEXT,
+  checked_in_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendee public.attendees%ROWTYPE;
+  _next_number INTEGER;
+  _guest_type TEXT;
+  _now TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the attendee row so concurrent scans of the same code are serialised
+  SELECT a.* INTO _attendee
+  FROM public.attendees a
+  WHERE a.qr_code = TRIM(qr_code_param)
+    AND a.event_id = event_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'invalid_qr'::TEXT, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::INTEGER, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(ci.checkin_number), 0) + 1 INTO _next_number
+  FROM public.checkin_instances ci
+  WHERE ci.attendee_id = _attendee.id;
+
+  _guest_type := get_guest_type(_next_number);
+
+  INSERT INTO public.checkin_instances (attendee_id, qr_code, checkin_number, guest_type, checked_in_at, event_id)
+  VALUES (_attendee.id, _attendee.qr_code, _next_number, _guest_type, _now, _attendee.event_id);
+
+  -- Only the first check-in marks the attendee as arrived
+  IF _next_number = 1 THEN
+    UPDATE public.attendees
+    SET checked_in = true, checked_in_at = _now
+    WHERE id = _attendee.id;
+  END IF;
+
+  RETURN QUERY SELECT 'checked_in'::TEXT, _attendee.id, _attendee.name, _attendee.email, _next_number, _guest_type, _now;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_attendee(TEXT, UUID) TO authenticated;
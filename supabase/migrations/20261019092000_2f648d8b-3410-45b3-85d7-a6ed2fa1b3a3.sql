@@ -0,0 +1,66 @@
+-- Offline check-in sync: let queued scans keep the time they were actually made.
+-- Recreate check_in_attendee with an optional scanned_at_param (defaults to now()).
+DROP FUNCTION IF EXISTS public.check_in_attendee(TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.check_in_attendee(
+  qr_code_param TEXT,
+  event_id_param UUID,
+  scanned_at_param TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  result_status TEXT,
+  attendee_id UUID,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  checkin_number INTEGER,
+  guest_type TEXT,
+  checked_in_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendee public.attendees%ROWTYPE;
+  _next_number INTEGER;
+  _guest_type TEXT;
+  -- Never accept timestamps from the future; offline devices may have drifting clocks
+  _now TIMESTAMP WITH TIME ZONE := LEAST(COALESCE(scanned_at_param, now()), now());
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the attendee row so concurrent scans of the same code are serialised
+  SELECT a.* INTO _attendee
+  FROM public.attendees a
+  WHERE a.qr_code = TRIM(qr_code_param)
+    AND a.event_id = event_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'invalid_qr'::TEXT, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::INTEGER, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(ci.checkin_number), 0) + 1 INTO _next_number
+  FROM public.checkin_instances ci
+  WHERE ci.attendee_id = _attendee.id;
+
+  _guest_type := get_guest_type(_next_number);
+
+  INSERT INTO public.checkin_instances (attendee_id, qr_code, checkin_number, guest_type, checked_in_at, event_id)
+  VALUES (_attendee.id, _attendee.qr_code, _next_number, _guest_type, _now, _attendee.event_id);
+
+  -- Only the first check-in marks the attendee as arrived
+  IF _next_number = 1 THEN
+    UPDATE public.attendees
+    SET checked_in = true, checked_in_at = _now
+    WHERE id = _attendee.id;
+  END IF;
+
+  RETURN QUERY SELECT 'checked_in'::TEXT, _attendee.id, _attendee.name, _attendee.email, _next_number, _guest_type, _now;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_attendee(TEXT, UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,93 @@
+-- Per-attendee plus-one allowance.
+-- allowed_guests is the number of extra people a QR code may admit after its owner;
+-- NULL keeps the previous unlimited behaviour for existing attendees.
+ALTER TABLE public.attendees
+ADD COLUMN allowed_guests INTEGER CHECK (allowed_guests IS NULL OR allowed_guests >= 0);
+
+-- Record which admin admitted a guest beyond the allowance
+ALTER TABLE public.checkin_instances
+ADD COLUMN override_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Recreate check_in_attendee with the allowance check and an admin override flag
+DROP FUNCTION IF EXISTS public.check_in_attendee(TEXT, UUID, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.check_in_attendee(
+  qr_code_param TEXT,
+  event_id_param UUID,
+  scanned_at_param TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  override_limit_param BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  result_status TEXT,
+  attendee_id UUID,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  checkin_number INTEGER,
+  guest_type TEXT,
+  checked_in_at TIMESTAMP WITH TIME ZONE,
+  allowed_guests INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendee public.attendees%ROWTYPE;
+  _next_number INTEGER;
+  _guest_type TEXT;
+  _override_by UUID;
+  -- Never accept timestamps from the future; offline devices may have drifting clocks
+  _now TIMESTAMP WITH TIME ZONE := LEAST(COALESCE(scanned_at_param, now()), now());
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  IF override_limit_param AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can override the guest limit' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the attendee row so concurrent scans of the same code are serialised
+  SELECT a.* INTO _attendee
+  FROM public.attendees a
+  WHERE a.qr_code = TRIM(qr_code_param)
+    AND a.event_id = event_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'invalid_qr'::TEXT, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::INTEGER, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(ci.checkin_number), 0) + 1 INTO _next_number
+  FROM public.checkin_instances ci
+  WHERE ci.attendee_id = _attendee.id;
+
+  -- The owner is check-in #1, so the allowance covers numbers up to allowed_guests + 1
+  IF _attendee.allowed_guests IS NOT NULL AND _next_number > _attendee.allowed_guests + 1 THEN
+    IF NOT override_limit_param THEN
+      RETURN QUERY SELECT 'guest_limit_reached'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+        _next_number - 1, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, _attendee.allowed_guests;
+      RETURN;
+    END IF;
+    _override_by := auth.uid();
+  END IF;
+
+  _guest_type := get_guest_type(_next_number);
+
+  INSERT INTO public.checkin_instances (attendee_id, qr_code, checkin_number, guest_type, checked_in_at, event_id, override_by)
+  VALUES (_attendee.id, _attendee.qr_code, _next_number, _guest_type, _now, _attendee.event_id, _override_by);
+
+  -- Only the first check-in marks the attendee as arrived
+  IF _next_number = 1 THEN
+    UPDATE public.attendees
+    SET checked_in = true, checked_in_at = _now
+    WHERE id = _attendee.id;
+  END IF;
+
+  RETURN QUERY SELECT 'checked_in'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+    _next_number, _guest_type, _now, _attendee.allowed_guests;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_attendee(TEXT, UUID, TIMESTAMP WITH TIME ZONE, BOOLEAN) TO authenticated;
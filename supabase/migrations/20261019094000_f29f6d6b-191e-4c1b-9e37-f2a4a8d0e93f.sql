@@ -0,0 +1,277 @@
+-- Signed QR payloads.
+-- New QR codes carry an HMAC-SHA256 signed token over attendee id, event id and
+-- issue time: ZC1.<base64url(attendee_id || event_id || issued_at)>.<base64url(mac)>
+-- The short qr_code stays for manual entry and for legacy codes during migration.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ============================================
+-- 1. Signing keys (never exposed to clients)
+-- ============================================
+CREATE TABLE public.qr_signing_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- RLS with no policies: only SECURITY DEFINER functions and the service role can read keys
+ALTER TABLE public.qr_signing_keys ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.qr_signing_keys DEFAULT VALUES;
+
+-- ============================================
+-- 2. Token columns and per-event legacy switch
+-- ============================================
+ALTER TABLE public.attendees
+ADD COLUMN qr_token TEXT UNIQUE;
+
+-- Admins can turn off short legacy codes once every attendee has a signed QR
+ALTER TABLE public.events
+ADD COLUMN accept_legacy_qr BOOLEAN NOT NULL DEFAULT true;
+
+-- ============================================
+-- 3. Signing and verification helpers
+-- ============================================
+CREATE OR REPLACE FUNCTION public.base64url_encode(data BYTEA)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT rtrim(translate(encode(data, 'base64'), E'+/\n', '-_'), '=');
+$$;
+
+CREATE OR REPLACE FUNCTION public.base64url_decode(data TEXT)
+RETURNS BYTEA
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT decode(
+    translate(data, '-_', '+/') || repeat('=', (4 - length(data) % 4) % 4),
+    'base64'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.sign_qr_payload(_attendee_id UUID, _event_id UUID, _issued_at TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payload BYTEA;
+  _secret BYTEA;
+BEGIN
+  SELECT secret INTO _secret
+  FROM public.qr_signing_keys
+  WHERE is_active = true
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF _secret IS NULL THEN
+    RAISE EXCEPTION 'No active QR signing key';
+  END IF;
+
+  _payload := decode(replace(_attendee_id::text, '-', ''), 'hex')
+    || decode(replace(_event_id::text, '-', ''), 'hex')
+    || int4send(extract(epoch FROM _issued_at)::INTEGER);
+
+  -- A 128-bit truncated MAC keeps the QR compact while staying unforgeable
+  RETURN 'ZC1.' || base64url_encode(_payload) || '.'
+    || base64url_encode(substring(extensions.hmac(_payload, _secret, 'sha256') FROM 1 FOR 16));
+END;
+$$;
+
+-- Returns 'valid' with the embedded ids, 'forged' when the MAC does not match any
+-- active key, or 'malformed' when the text is not a ZC1 token at all
+CREATE OR REPLACE FUNCTION public.verify_qr_token(_token TEXT)
+RETURNS TABLE (
+  verification_status TEXT,
+  attendee_id UUID,
+  event_id UUID,
+  issued_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parts TEXT[];
+  _payload BYTEA;
+  _mac BYTEA;
+  _hex TEXT;
+BEGIN
+  _parts := string_to_array(_token, '.');
+
+  IF array_length(_parts, 1) <> 3 OR _parts[1] <> 'ZC1' THEN
+    RETURN QUERY SELECT 'malformed'::TEXT, NULL::UUID, NULL::UUID, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  BEGIN
+    _payload := base64url_decode(_parts[2]);
+    _mac := base64url_decode(_parts[3]);
+  EXCEPTION WHEN OTHERS THEN
+    RETURN QUERY SELECT 'malformed'::TEXT, NULL::UUID, NULL::UUID, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END;
+
+  IF length(_payload) <> 36 OR length(_mac) <> 16 THEN
+    RETURN QUERY SELECT 'malformed'::TEXT, NULL::UUID, NULL::UUID, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.qr_signing_keys k
+    WHERE k.is_active = true
+      AND substring(extensions.hmac(_payload, k.secret, 'sha256') FROM 1 FOR 16) = _mac
+  ) THEN
+    RETURN QUERY SELECT 'forged'::TEXT, NULL::UUID, NULL::UUID, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  _hex := encode(_payload, 'hex');
+  RETURN QUERY SELECT
+    'valid'::TEXT,
+    substring(_hex FROM 1 FOR 32)::UUID,
+    substring(_hex FROM 33 FOR 32)::UUID,
+    to_timestamp(('x' || substring(_hex FROM 65 FOR 8))::bit(32)::INTEGER);
+END;
+$$;
+
+-- ============================================
+-- 4. Sign every attendee on insert, backfill existing rows
+-- ============================================
+CREATE OR REPLACE FUNCTION public.set_attendee_qr_token()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.qr_token IS NULL THEN
+    NEW.qr_token := sign_qr_payload(NEW.id, NEW.event_id, now());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_attendee_qr_token
+BEFORE INSERT ON public.attendees
+FOR EACH ROW
+EXECUTE FUNCTION public.set_attendee_qr_token();
+
+UPDATE public.attendees
+SET qr_token = sign_qr_payload(id, event_id, created_at)
+WHERE qr_token IS NULL;
+
+-- ============================================
+-- 5. check_in_attendee: verify signed tokens, keep legacy codes working
+-- ============================================
+DROP FUNCTION IF EXISTS public.check_in_attendee(TEXT, UUID, TIMESTAMP WITH TIME ZONE, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.check_in_attendee(
+  qr_code_param TEXT,
+  event_id_param UUID,
+  scanned_at_param TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  override_limit_param BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  result_status TEXT,
+  attendee_id UUID,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  checkin_number INTEGER,
+  guest_type TEXT,
+  checked_in_at TIMESTAMP WITH TIME ZONE,
+  allowed_guests INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendee public.attendees%ROWTYPE;
+  _code TEXT := TRIM(qr_code_param);
+  _verification RECORD;
+  _next_number INTEGER;
+  _guest_type TEXT;
+  _override_by UUID;
+  -- Never accept timestamps from the future; offline devices may have drifting clocks
+  _now TIMESTAMP WITH TIME ZONE := LEAST(COALESCE(scanned_at_param, now()), now());
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  IF override_limit_param AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can override the guest limit' USING ERRCODE = '42501';
+  END IF;
+
+  IF _code LIKE 'ZC1.%' THEN
+    SELECT * INTO _verification FROM verify_qr_token(_code);
+
+    IF _verification.verification_status <> 'valid' THEN
+      RETURN QUERY SELECT 'forged_qr'::TEXT, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::INTEGER, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER;
+      RETURN;
+    END IF;
+
+    -- The token must still be the attendee's current one; lock the row to serialise scans
+    SELECT a.* INTO _attendee
+    FROM public.attendees a
+    WHERE a.id = _verification.attendee_id
+      AND a.event_id = event_id_param
+      AND a.qr_token = _code
+    FOR UPDATE;
+  ELSE
+    IF NOT EXISTS (SELECT 1 FROM public.events e WHERE e.id = event_id_param AND e.accept_legacy_qr) THEN
+      RETURN QUERY SELECT 'legacy_qr_disabled'::TEXT, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::INTEGER, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER;
+      RETURN;
+    END IF;
+
+    SELECT a.* INTO _attendee
+    FROM public.attendees a
+    WHERE a.qr_code = _code
+      AND a.event_id = event_id_param
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'invalid_qr'::TEXT, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::INTEGER, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(ci.checkin_number), 0) + 1 INTO _next_number
+  FROM public.checkin_instances ci
+  WHERE ci.attendee_id = _attendee.id;
+
+  -- The owner is check-in #1, so the allowance covers numbers up to allowed_guests + 1
+  IF _attendee.allowed_guests IS NOT NULL AND _next_number > _attendee.allowed_guests + 1 THEN
+    IF NOT override_limit_param THEN
+      RETURN QUERY SELECT 'guest_limit_reached'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+        _next_number - 1, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, _attendee.allowed_guests;
+      RETURN;
+    END IF;
+    _override_by := auth.uid();
+  END IF;
+
+  _guest_type := get_guest_type(_next_number);
+
+  INSERT INTO public.checkin_instances (attendee_id, qr_code, checkin_number, guest_type, checked_in_at, event_id, override_by)
+  VALUES (_attendee.id, _attendee.qr_code, _next_number, _guest_type, _now, _attendee.event_id, _override_by);
+
+  -- Only the first check-in marks the attendee as arrived
+  IF _next_number = 1 THEN
+    UPDATE public.attendees
+    SET checked_in = true, checked_in_at = _now
+    WHERE id = _attendee.id;
+  END IF;
+
+  RETURN QUERY SELECT 'checked_in'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+    _next_number, _guest_type, _now, _attendee.allowed_guests;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_attendee(TEXT, UUID, TIMESTAMP WITH TIME ZONE, BOOLEAN) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.sign_qr_payload(UUID, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,36 @@
+-- Persist dashboard activity logs with staff attribution.
+-- user_name/user_email describe the attendee an action was about; actor_* record
+-- the signed-in staff member who performed it and are always set server-side.
+ALTER TABLE public.activity_logs
+ADD COLUMN actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN actor_email TEXT;
+
+CREATE OR REPLACE FUNCTION public.set_activity_log_actor()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Edge functions insert with the service role (no auth.uid()) and keep their own values
+  IF auth.uid() IS NOT NULL THEN
+    NEW.actor_id := auth.uid();
+    NEW.actor_email := COALESCE(
+      (SELECT p.email FROM public.profiles p WHERE p.user_id = auth.uid()),
+      auth.jwt() ->> 'email'
+    );
+  END IF;
+  NEW.timestamp := COALESCE(NEW.timestamp, now());
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_activity_log_actor
+BEFORE INSERT ON public.activity_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.set_activity_log_actor();
+
+-- Indexes for the paginated, filterable logs view
+CREATE INDEX idx_activity_logs_event_timestamp ON public.activity_logs(event_id, timestamp DESC);
+CREATE INDEX idx_activity_logs_type ON public.activity_logs(type);
+CREATE INDEX idx_activity_logs_status ON public.activity_logs(status);
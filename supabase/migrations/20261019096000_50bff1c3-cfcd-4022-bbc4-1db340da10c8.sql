@@ -0,0 +1,8 @@
+-- Broadcast attendee and check-in changes to every open dashboard and scanner.
+-- REPLICA IDENTITY FULL includes the old row in UPDATE/DELETE payloads so
+-- clients can filter deletions by event_id.
+ALTER TABLE public.attendees REPLICA IDENTITY FULL;
+ALTER TABLE public.checkin_instances REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.attendees;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.checkin_instances;
@@ -0,0 +1,315 @@
+-- Check-out and re-entry tracking.
+-- Each checkin_instances row is one admitted person; it now also tracks whether
+-- that person is currently inside. Every entry and exit is recorded in
+-- checkin_movements so headcounts and dwell times can be audited.
+
+-- ============================================
+-- 1. On-site state on check-in instances
+-- ============================================
+ALTER TABLE public.checkin_instances
+ADD COLUMN on_site BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN last_entry_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN checked_out_at TIMESTAMP WITH TIME ZONE,
+-- Time spent inside across completed visits; the current visit is added on the client
+ADD COLUMN dwell_seconds INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.checkin_instances
+SET last_entry_at = checked_in_at;
+
+-- Nobody is still inside an event that has already ended
+UPDATE public.checkin_instances ci
+SET on_site = false
+FROM public.events e
+WHERE e.id = ci.event_id
+  AND e.ends_at IS NOT NULL
+  AND e.ends_at < now();
+
+CREATE INDEX idx_checkin_instances_on_site ON public.checkin_instances(event_id) WHERE on_site;
+
+-- ============================================
+-- 2. Movement history
+-- ============================================
+CREATE TABLE public.checkin_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  attendee_id UUID NOT NULL REFERENCES public.attendees(id) ON DELETE CASCADE,
+  checkin_instance_id UUID NOT NULL REFERENCES public.checkin_instances(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL CHECK (direction IN ('entry', 'exit')),
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_checkin_movements_event ON public.checkin_movements(event_id, occurred_at DESC);
+CREATE INDEX idx_checkin_movements_instance ON public.checkin_movements(checkin_instance_id);
+
+-- Rows are only written by check_in_attendee / check_out_attendee
+ALTER TABLE public.checkin_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view checkin movements"
+ON public.checkin_movements
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+INSERT INTO public.checkin_movements (event_id, attendee_id, checkin_instance_id, direction, occurred_at)
+SELECT ci.event_id, ci.attendee_id, ci.id, 'entry', ci.checked_in_at
+FROM public.checkin_instances ci;
+
+-- ============================================
+-- 3. Shared QR lookup
+-- ============================================
+-- Resolves a scanned code to an attendee of the event using the same rules as
+-- check-in: signed tokens must verify and be current, legacy codes must be enabled.
+CREATE OR REPLACE FUNCTION public.resolve_qr_attendee(
+  qr_code_param TEXT,
+  event_id_param UUID
+)
+RETURNS TABLE (
+  resolve_status TEXT,
+  attendee_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code TEXT := TRIM(qr_code_param);
+  _verification RECORD;
+  _attendee_id UUID;
+BEGIN
+  IF _code LIKE 'ZC1.%' THEN
+    SELECT * INTO _verification FROM verify_qr_token(_code);
+
+    IF _verification.verification_status <> 'valid' THEN
+      RETURN QUERY SELECT 'forged_qr'::TEXT, NULL::UUID;
+      RETURN;
+    END IF;
+
+    SELECT a.id INTO _attendee_id
+    FROM public.attendees a
+    WHERE a.id = _verification.attendee_id
+      AND a.event_id = event_id_param
+      AND a.qr_token = _code;
+  ELSE
+    IF NOT EXISTS (SELECT 1 FROM public.events e WHERE e.id = event_id_param AND e.accept_legacy_qr) THEN
+      RETURN QUERY SELECT 'legacy_qr_disabled'::TEXT, NULL::UUID;
+      RETURN;
+    END IF;
+
+    SELECT a.id INTO _attendee_id
+    FROM public.attendees a
+    WHERE a.qr_code = _code
+      AND a.event_id = event_id_param;
+  END IF;
+
+  IF _attendee_id IS NULL THEN
+    RETURN QUERY SELECT 'invalid_qr'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'valid'::TEXT, _attendee_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_qr_attendee(TEXT, UUID) FROM PUBLIC, anon;
+
+-- ============================================
+-- 4. check_in_attendee: re-admit people who stepped out
+-- ============================================
+DROP FUNCTION IF EXISTS public.check_in_attendee(TEXT, UUID, TIMESTAMP WITH TIME ZONE, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.check_in_attendee(
+  qr_code_param TEXT,
+  event_id_param UUID,
+  scanned_at_param TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  override_limit_param BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  result_status TEXT,
+  attendee_id UUID,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  checkin_number INTEGER,
+  guest_type TEXT,
+  checked_in_at TIMESTAMP WITH TIME ZONE,
+  allowed_guests INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendee public.attendees%ROWTYPE;
+  _resolved RECORD;
+  _returning public.checkin_instances%ROWTYPE;
+  _next_number INTEGER;
+  _guest_type TEXT;
+  _override_by UUID;
+  -- Never accept timestamps from the future; offline devices may have drifting clocks
+  _now TIMESTAMP WITH TIME ZONE := LEAST(COALESCE(scanned_at_param, now()), now());
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  IF override_limit_param AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can override the guest limit' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _resolved FROM resolve_qr_attendee(qr_code_param, event_id_param);
+
+  IF _resolved.resolve_status <> 'valid' THEN
+    RETURN QUERY SELECT _resolved.resolve_status, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::INTEGER, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  -- Lock the attendee row to serialise concurrent scans of the same code
+  SELECT a.* INTO _attendee
+  FROM public.attendees a
+  WHERE a.id = _resolved.attendee_id
+  FOR UPDATE;
+
+  -- Someone from this party who checked out is coming back: re-admit them
+  -- instead of counting a new guest against the allowance
+  SELECT ci.* INTO _returning
+  FROM public.checkin_instances ci
+  WHERE ci.attendee_id = _attendee.id
+    AND NOT ci.on_site
+    AND ci.checked_out_at IS NOT NULL
+  ORDER BY ci.checkin_number
+  LIMIT 1;
+
+  IF FOUND THEN
+    UPDATE public.checkin_instances
+    SET on_site = true, last_entry_at = _now
+    WHERE id = _returning.id;
+
+    INSERT INTO public.checkin_movements (event_id, attendee_id, checkin_instance_id, direction, occurred_at, recorded_by)
+    VALUES (_attendee.event_id, _attendee.id, _returning.id, 'entry', _now, auth.uid());
+
+    RETURN QUERY SELECT 're_entered'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+      _returning.checkin_number, _returning.guest_type, _now, _attendee.allowed_guests;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(ci.checkin_number), 0) + 1 INTO _next_number
+  FROM public.checkin_instances ci
+  WHERE ci.attendee_id = _attendee.id;
+
+  -- The owner is check-in #1, so the allowance covers numbers up to allowed_guests + 1
+  IF _attendee.allowed_guests IS NOT NULL AND _next_number > _attendee.allowed_guests + 1 THEN
+    IF NOT override_limit_param THEN
+      RETURN QUERY SELECT 'guest_limit_reached'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+        _next_number - 1, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, _attendee.allowed_guests;
+      RETURN;
+    END IF;
+    _override_by := auth.uid();
+  END IF;
+
+  _guest_type := get_guest_type(_next_number);
+
+  INSERT INTO public.checkin_instances (attendee_id, qr_code, checkin_number, guest_type, checked_in_at, last_entry_at, event_id, override_by)
+  VALUES (_attendee.id, _attendee.qr_code, _next_number, _guest_type, _now, _now, _attendee.event_id, _override_by)
+  RETURNING * INTO _returning;
+
+  INSERT INTO public.checkin_movements (event_id, attendee_id, checkin_instance_id, direction, occurred_at, recorded_by)
+  VALUES (_attendee.event_id, _attendee.id, _returning.id, 'entry', _now, auth.uid());
+
+  -- Only the first check-in marks the attendee as arrived
+  IF _next_number = 1 THEN
+    UPDATE public.attendees
+    SET checked_in = true, checked_in_at = _now
+    WHERE id = _attendee.id;
+  END IF;
+
+  RETURN QUERY SELECT 'checked_in'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+    _next_number, _guest_type, _now, _attendee.allowed_guests;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_attendee(TEXT, UUID, TIMESTAMP WITH TIME ZONE, BOOLEAN) TO authenticated;
+
+-- ============================================
+-- 5. check_out_attendee
+-- ============================================
+-- Marks the most recently admitted person of the party who is still inside as
+-- having left. Returns 'not_on_site' when nobody from the party is inside.
+CREATE OR REPLACE FUNCTION public.check_out_attendee(
+  qr_code_param TEXT,
+  event_id_param UUID,
+  scanned_at_param TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  result_status TEXT,
+  attendee_id UUID,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  checkin_number INTEGER,
+  guest_type TEXT,
+  checked_out_at TIMESTAMP WITH TIME ZONE,
+  dwell_seconds INTEGER,
+  remaining_on_site INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendee public.attendees%ROWTYPE;
+  _resolved RECORD;
+  _instance public.checkin_instances%ROWTYPE;
+  _dwell INTEGER;
+  _remaining INTEGER;
+  _now TIMESTAMP WITH TIME ZONE := LEAST(COALESCE(scanned_at_param, now()), now());
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _resolved FROM resolve_qr_attendee(qr_code_param, event_id_param);
+
+  IF _resolved.resolve_status <> 'valid' THEN
+    RETURN QUERY SELECT _resolved.resolve_status, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::INTEGER, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  SELECT a.* INTO _attendee
+  FROM public.attendees a
+  WHERE a.id = _resolved.attendee_id
+  FOR UPDATE;
+
+  SELECT ci.* INTO _instance
+  FROM public.checkin_instances ci
+  WHERE ci.attendee_id = _attendee.id
+    AND ci.on_site
+  ORDER BY ci.checkin_number DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_on_site'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+      NULL::INTEGER, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER, 0;
+    RETURN;
+  END IF;
+
+  _dwell := _instance.dwell_seconds
+    + GREATEST(0, EXTRACT(EPOCH FROM (_now - COALESCE(_instance.last_entry_at, _instance.checked_in_at)))::INTEGER);
+
+  UPDATE public.checkin_instances
+  SET on_site = false, checked_out_at = _now, dwell_seconds = _dwell
+  WHERE id = _instance.id;
+
+  INSERT INTO public.checkin_movements (event_id, attendee_id, checkin_instance_id, direction, occurred_at, recorded_by)
+  VALUES (_attendee.event_id, _attendee.id, _instance.id, 'exit', _now, auth.uid());
+
+  SELECT COUNT(*)::INTEGER INTO _remaining
+  FROM public.checkin_instances ci
+  WHERE ci.attendee_id = _attendee.id
+    AND ci.on_site;
+
+  RETURN QUERY SELECT 'checked_out'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+    _instance.checkin_number, _instance.guest_type, _now, _dwell, _remaining;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_out_attendee(TEXT, UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
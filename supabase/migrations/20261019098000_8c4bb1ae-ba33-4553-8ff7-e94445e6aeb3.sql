@@ -0,0 +1,175 @@
+-- Breakout sessions and per-session attendance.
+-- Attendees are admitted to a session with their existing event QR code.
+
+-- ============================================
+-- 1. Sessions
+-- ============================================
+CREATE TABLE public.sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  track TEXT,
+  room TEXT,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- NULL means no seat limit
+  capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT sessions_time_window_check CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_sessions_event_starts ON public.sessions(event_id, starts_at);
+
+ALTER TABLE public.sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_sessions_updated_at
+BEFORE UPDATE ON public.sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Authenticated users can view sessions"
+ON public.sessions
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+CREATE POLICY "Admins can create sessions"
+ON public.sessions
+FOR INSERT
+TO authenticated
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update sessions"
+ON public.sessions
+FOR UPDATE
+TO authenticated
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete sessions"
+ON public.sessions
+FOR DELETE
+TO authenticated
+USING (is_admin(auth.uid()));
+
+-- ============================================
+-- 2. Session attendance
+-- ============================================
+CREATE TABLE public.session_checkins (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  attendee_id UUID NOT NULL REFERENCES public.attendees(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  checked_in_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  checked_in_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE (session_id, attendee_id)
+);
+
+CREATE INDEX idx_session_checkins_event ON public.session_checkins(event_id);
+
+-- Rows are only written by check_in_session
+ALTER TABLE public.session_checkins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view session checkins"
+ON public.session_checkins
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+CREATE POLICY "Admins can delete session checkins"
+ON public.session_checkins
+FOR DELETE
+TO authenticated
+USING (is_admin(auth.uid()));
+
+ALTER TABLE public.session_checkins REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.session_checkins;
+
+-- ============================================
+-- 3. check_in_session
+-- ============================================
+-- Admits an attendee to a session once. The session row is locked so the
+-- capacity check holds when several doors scan at the same time.
+CREATE OR REPLACE FUNCTION public.check_in_session(
+  qr_code_param TEXT,
+  session_id_param UUID,
+  scanned_at_param TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  result_status TEXT,
+  attendee_id UUID,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  checked_in_at TIMESTAMP WITH TIME ZONE,
+  session_attendance INTEGER,
+  session_capacity INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.sessions%ROWTYPE;
+  _attendee public.attendees%ROWTYPE;
+  _resolved RECORD;
+  _existing_at TIMESTAMP WITH TIME ZONE;
+  _attendance INTEGER;
+  _now TIMESTAMP WITH TIME ZONE := LEAST(COALESCE(scanned_at_param, now()), now());
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT s.* INTO _session
+  FROM public.sessions s
+  WHERE s.id = session_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'session_not_found'::TEXT, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _resolved FROM resolve_qr_attendee(qr_code_param, _session.event_id);
+
+  IF _resolved.resolve_status <> 'valid' THEN
+    RETURN QUERY SELECT _resolved.resolve_status, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER, _session.capacity;
+    RETURN;
+  END IF;
+
+  SELECT a.* INTO _attendee
+  FROM public.attendees a
+  WHERE a.id = _resolved.attendee_id;
+
+  SELECT COUNT(*)::INTEGER INTO _attendance
+  FROM public.session_checkins sc
+  WHERE sc.session_id = _session.id;
+
+  SELECT sc.checked_in_at INTO _existing_at
+  FROM public.session_checkins sc
+  WHERE sc.session_id = _session.id
+    AND sc.attendee_id = _attendee.id;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'already_checked_in'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+      _existing_at, _attendance, _session.capacity;
+    RETURN;
+  END IF;
+
+  IF _session.capacity IS NOT NULL AND _attendance >= _session.capacity THEN
+    RETURN QUERY SELECT 'session_full'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+      NULL::TIMESTAMP WITH TIME ZONE, _attendance, _session.capacity;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.session_checkins (session_id, attendee_id, event_id, checked_in_at, checked_in_by)
+  VALUES (_session.id, _attendee.id, _session.event_id, _now, auth.uid());
+
+  RETURN QUERY SELECT 'checked_in'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+    _now, _attendance + 1, _session.capacity;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_session(TEXT, UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
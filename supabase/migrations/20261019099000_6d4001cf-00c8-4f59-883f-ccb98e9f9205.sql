@@ -0,0 +1,222 @@
+-- Ticket types (VIP, Speaker, Staff, General, ...) with per-session access.
+-- A ticket type either opens every session or only the sessions listed in
+-- ticket_type_sessions. Attendees without a ticket type are unrestricted.
+
+-- ============================================
+-- 1. Ticket types
+-- ============================================
+CREATE TABLE public.ticket_types (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Badge colour shown at the scanner, as #rrggbb
+  color TEXT NOT NULL DEFAULT '#6b7280' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  all_sessions BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_ticket_types_event_name ON public.ticket_types(event_id, lower(name));
+
+ALTER TABLE public.ticket_types ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_ticket_types_updated_at
+BEFORE UPDATE ON public.ticket_types
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Authenticated users can view ticket types"
+ON public.ticket_types
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+CREATE POLICY "Admins can create ticket types"
+ON public.ticket_types
+FOR INSERT
+TO authenticated
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update ticket types"
+ON public.ticket_types
+FOR UPDATE
+TO authenticated
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete ticket types"
+ON public.ticket_types
+FOR DELETE
+TO authenticated
+USING (is_admin(auth.uid()));
+
+-- ============================================
+-- 2. Session access per ticket type
+-- ============================================
+CREATE TABLE public.ticket_type_sessions (
+  ticket_type_id UUID NOT NULL REFERENCES public.ticket_types(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  PRIMARY KEY (ticket_type_id, session_id)
+);
+
+ALTER TABLE public.ticket_type_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view ticket type sessions"
+ON public.ticket_type_sessions
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+CREATE POLICY "Admins can manage ticket type sessions"
+ON public.ticket_type_sessions
+FOR ALL
+TO authenticated
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
+
+-- ============================================
+-- 3. Attendee ticket type
+-- ============================================
+ALTER TABLE public.attendees
+ADD COLUMN ticket_type_id UUID REFERENCES public.ticket_types(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_attendees_ticket_type ON public.attendees(ticket_type_id);
+
+-- ============================================
+-- 4. Default ticket types for every event
+-- ============================================
+CREATE OR REPLACE FUNCTION public.seed_default_ticket_types()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.ticket_types (event_id, name, color, sort_order)
+  VALUES
+    (NEW.id, 'General', '#6b7280', 0),
+    (NEW.id, 'VIP', '#d97706', 1),
+    (NEW.id, 'Speaker', '#7c3aed', 2),
+    (NEW.id, 'Staff', '#2563eb', 3);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seed_default_ticket_types
+AFTER INSERT ON public.events
+FOR EACH ROW
+EXECUTE FUNCTION public.seed_default_ticket_types();
+
+INSERT INTO public.ticket_types (event_id, name, color, sort_order)
+SELECT e.id, t.name, t.color, t.sort_order
+FROM public.events e
+CROSS JOIN (VALUES
+  ('General', '#6b7280', 0),
+  ('VIP', '#d97706', 1),
+  ('Speaker', '#7c3aed', 2),
+  ('Staff', '#2563eb', 3)
+) AS t(name, color, sort_order);
+
+-- ============================================
+-- 5. check_in_session: enforce ticket access
+-- ============================================
+DROP FUNCTION IF EXISTS public.check_in_session(TEXT, UUID, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.check_in_session(
+  qr_code_param TEXT,
+  session_id_param UUID,
+  scanned_at_param TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  result_status TEXT,
+  attendee_id UUID,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  checked_in_at TIMESTAMP WITH TIME ZONE,
+  session_attendance INTEGER,
+  session_capacity INTEGER,
+  ticket_type_name TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.sessions%ROWTYPE;
+  _attendee public.attendees%ROWTYPE;
+  _ticket_type public.ticket_types%ROWTYPE;
+  _resolved RECORD;
+  _existing_at TIMESTAMP WITH TIME ZONE;
+  _attendance INTEGER;
+  _now TIMESTAMP WITH TIME ZONE := LEAST(COALESCE(scanned_at_param, now()), now());
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT s.* INTO _session
+  FROM public.sessions s
+  WHERE s.id = session_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'session_not_found'::TEXT, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER, NULL::INTEGER, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _resolved FROM resolve_qr_attendee(qr_code_param, _session.event_id);
+
+  IF _resolved.resolve_status <> 'valid' THEN
+    RETURN QUERY SELECT _resolved.resolve_status, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER, _session.capacity, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT a.* INTO _attendee
+  FROM public.attendees a
+  WHERE a.id = _resolved.attendee_id;
+
+  SELECT tt.* INTO _ticket_type
+  FROM public.ticket_types tt
+  WHERE tt.id = _attendee.ticket_type_id;
+
+  SELECT COUNT(*)::INTEGER INTO _attendance
+  FROM public.session_checkins sc
+  WHERE sc.session_id = _session.id;
+
+  IF _ticket_type.id IS NOT NULL AND NOT _ticket_type.all_sessions AND NOT EXISTS (
+    SELECT 1 FROM public.ticket_type_sessions tts
+    WHERE tts.ticket_type_id = _ticket_type.id
+      AND tts.session_id = _session.id
+  ) THEN
+    RETURN QUERY SELECT 'access_denied'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+      NULL::TIMESTAMP WITH TIME ZONE, _attendance, _session.capacity, _ticket_type.name;
+    RETURN;
+  END IF;
+
+  SELECT sc.checked_in_at INTO _existing_at
+  FROM public.session_checkins sc
+  WHERE sc.session_id = _session.id
+    AND sc.attendee_id = _attendee.id;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'already_checked_in'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+      _existing_at, _attendance, _session.capacity, _ticket_type.name;
+    RETURN;
+  END IF;
+
+  IF _session.capacity IS NOT NULL AND _attendance >= _session.capacity THEN
+    RETURN QUERY SELECT 'session_full'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+      NULL::TIMESTAMP WITH TIME ZONE, _attendance, _session.capacity, _ticket_type.name;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.session_checkins (session_id, attendee_id, event_id, checked_in_at, checked_in_by)
+  VALUES (_session.id, _attendee.id, _session.event_id, _now, auth.uid());
+
+  RETURN QUERY SELECT 'checked_in'::TEXT, _attendee.id, _attendee.name, _attendee.email,
+    _now, _attendance + 1, _session.capacity, _ticket_type.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_session(TEXT, UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,132 @@
+-- Per-attendee change history.
+-- attendee_audit is written only by triggers: profile edits and QR reissues from
+-- attendees, and email/WhatsApp sends from activity_logs. Check-ins are read from
+-- checkin_instances directly.
+
+-- ============================================
+-- 1. Audit table
+-- ============================================
+CREATE TABLE public.attendee_audit (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attendee_id UUID NOT NULL REFERENCES public.attendees(id) ON DELETE CASCADE,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  -- created, updated, qr_reissued, email_sent, whatsapp_sent
+  action TEXT NOT NULL,
+  -- For updates: { field: { "old": ..., "new": ... } }
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  details TEXT,
+  status TEXT,
+  actor_id UUID,
+  actor_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_attendee_audit_attendee ON public.attendee_audit(attendee_id, created_at DESC);
+
+ALTER TABLE public.attendee_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view attendee audit"
+ON public.attendee_audit
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+-- ============================================
+-- 2. Helper: who is making the change
+-- ============================================
+CREATE OR REPLACE FUNCTION public.current_actor_email()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT p.email FROM public.profiles p WHERE p.user_id = auth.uid()),
+    auth.jwt() ->> 'email'
+  );
+$$;
+
+-- ============================================
+-- 3. Record profile edits and QR reissues
+-- ============================================
+CREATE OR REPLACE FUNCTION public.record_attendee_audit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _changes JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.attendee_audit (attendee_id, event_id, action, details, actor_id, actor_email)
+    VALUES (NEW.id, NEW.event_id, 'created', NEW.registration_type, auth.uid(), current_actor_email());
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value)), '{}'::jsonb)
+  INTO _changes
+  FROM jsonb_each(to_jsonb(NEW)) n
+  JOIN jsonb_each(to_jsonb(OLD)) o USING (key)
+  WHERE n.key IN ('name', 'email', 'phone', 'company', 'registration_type', 'allowed_guests', 'ticket_type_id')
+    AND n.value IS DISTINCT FROM o.value;
+
+  IF _changes <> '{}'::jsonb THEN
+    INSERT INTO public.attendee_audit (attendee_id, event_id, action, changes, actor_id, actor_email)
+    VALUES (NEW.id, NEW.event_id, 'updated', _changes, auth.uid(), current_actor_email());
+  END IF;
+
+  IF NEW.qr_code IS DISTINCT FROM OLD.qr_code
+     OR (OLD.qr_token IS NOT NULL AND NEW.qr_token IS DISTINCT FROM OLD.qr_token) THEN
+    INSERT INTO public.attendee_audit (attendee_id, event_id, action, changes, actor_id, actor_email)
+    VALUES (
+      NEW.id, NEW.event_id, 'qr_reissued',
+      jsonb_build_object('qr_code', jsonb_build_object('old', OLD.qr_code, 'new', NEW.qr_code)),
+      auth.uid(), current_actor_email()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_attendee_audit
+AFTER INSERT OR UPDATE ON public.attendees
+FOR EACH ROW
+EXECUTE FUNCTION public.record_attendee_audit();
+
+-- ============================================
+-- 4. Record email and WhatsApp sends
+-- ============================================
+-- Sends are logged to activity_logs by the client and edge functions; copy them to
+-- the recipient's history, matched by metadata.attendee_id or by email within the event
+CREATE OR REPLACE FUNCTION public.record_attendee_message_audit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.type NOT IN ('email_sent', 'whatsapp_sent') OR NEW.status = 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.attendee_audit (attendee_id, event_id, action, details, status, actor_id, actor_email, created_at)
+  SELECT a.id, a.event_id, NEW.type, COALESCE(NEW.action || ' - ' || NEW.details, NEW.action), NEW.status,
+    NEW.actor_id, NEW.actor_email, NEW.timestamp
+  FROM public.attendees a
+  WHERE a.event_id = NEW.event_id
+    AND (
+      a.id::TEXT = NEW.metadata ->> 'attendee_id'
+      OR (NEW.metadata ->> 'attendee_id' IS NULL AND lower(a.email) = lower(NEW.user_email))
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_attendee_message_audit
+AFTER INSERT ON public.activity_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.record_attendee_message_audit();
@@ -0,0 +1,249 @@
+-- QR code revocation and reissue.
+-- Reissuing gives the attendee a new short code and a freshly signed token. The old
+-- pair is kept in revoked_qr_codes so scanners can tell a revoked code apart from
+-- one that was never valid, and point the holder to the help desk.
+
+-- ============================================
+-- 1. Revoked codes
+-- ============================================
+CREATE TABLE public.revoked_qr_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attendee_id UUID NOT NULL REFERENCES public.attendees(id) ON DELETE CASCADE,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  qr_code TEXT,
+  qr_token TEXT,
+  reason TEXT,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_revoked_qr_codes_attendee ON public.revoked_qr_codes(attendee_id, revoked_at DESC);
+CREATE INDEX idx_revoked_qr_codes_code ON public.revoked_qr_codes(event_id, qr_code);
+CREATE INDEX idx_revoked_qr_codes_token ON public.revoked_qr_codes(qr_token);
+
+-- Rows are only written by reissue_attendee_qr
+ALTER TABLE public.revoked_qr_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view revoked QR codes"
+ON public.revoked_qr_codes
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+-- ============================================
+-- 2. reissue_attendee_qr
+-- ============================================
+CREATE OR REPLACE FUNCTION public.reissue_attendee_qr(
+  attendee_id_param UUID,
+  reason_param TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  result_status TEXT,
+  new_qr_code TEXT,
+  new_qr_token TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendee public.attendees%ROWTYPE;
+  _chars CONSTANT TEXT := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  _bytes BYTEA;
+  _code TEXT;
+  _token TEXT;
+  _issued_at TIMESTAMP WITH TIME ZONE;
+  _reason TEXT := NULLIF(TRIM(reason_param), '');
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT a.* INTO _attendee
+  FROM public.attendees a
+  WHERE a.id = attendee_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'attendee_not_found'::TEXT, NULL::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  -- Six characters rather than four, and never a code that was handed out before
+  LOOP
+    _bytes := extensions.gen_random_bytes(6);
+    _code := '';
+    FOR i IN 0..5 LOOP
+      _code := _code || substr(_chars, get_byte(_bytes, i) % 36 + 1, 1);
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.attendees a WHERE a.qr_code = _code)
+      AND NOT EXISTS (SELECT 1 FROM public.revoked_qr_codes r WHERE r.qr_code = _code);
+  END LOOP;
+
+  -- Tokens are signed to the second; make sure two quick reissues never produce the same one
+  SELECT v.issued_at INTO _issued_at
+  FROM verify_qr_token(COALESCE(_attendee.qr_token, '')) v
+  WHERE v.verification_status = 'valid';
+
+  _token := sign_qr_payload(
+    _attendee.id,
+    _attendee.event_id,
+    GREATEST(now(), COALESCE(_issued_at, now()) + INTERVAL '1 second')
+  );
+
+  INSERT INTO public.revoked_qr_codes (attendee_id, event_id, qr_code, qr_token, reason, revoked_by)
+  VALUES (_attendee.id, _attendee.event_id, _attendee.qr_code, _attendee.qr_token, _reason, auth.uid());
+
+  -- record_attendee_audit logs the change as qr_reissued
+  UPDATE public.attendees
+  SET qr_code = _code, qr_token = _token
+  WHERE id = _attendee.id;
+
+  IF _reason IS NOT NULL THEN
+    UPDATE public.attendee_audit
+    SET details = _reason
+    WHERE id = (
+      SELECT au.id FROM public.attendee_audit au
+      WHERE au.attendee_id = _attendee.id AND au.action = 'qr_reissued'
+      ORDER BY au.created_at DESC
+      LIMIT 1
+    );
+  END IF;
+
+  RETURN QUERY SELECT 'reissued'::TEXT, _code, _token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reissue_attendee_qr(UUID, TEXT) FROM PUBLIC, anon;
+
+-- ============================================
+-- 3. resolve_qr_attendee: report revoked codes
+-- ============================================
+-- A code still held by an attendee always wins, so a short code that was revoked
+-- and later generated again for someone else keeps working for the new holder.
+CREATE OR REPLACE FUNCTION public.resolve_qr_attendee(
+  qr_code_param TEXT,
+  event_id_param UUID
+)
+RETURNS TABLE (
+  resolve_status TEXT,
+  attendee_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code TEXT := TRIM(qr_code_param);
+  _verification RECORD;
+  _attendee_id UUID;
+  _revoked_owner UUID;
+BEGIN
+  IF _code LIKE 'ZC1.%' THEN
+    SELECT * INTO _verification FROM verify_qr_token(_code);
+
+    IF _verification.verification_status <> 'valid' THEN
+      RETURN QUERY SELECT 'forged_qr'::TEXT, NULL::UUID;
+      RETURN;
+    END IF;
+
+    SELECT a.id INTO _attendee_id
+    FROM public.attendees a
+    WHERE a.id = _verification.attendee_id
+      AND a.event_id = event_id_param
+      AND a.qr_token = _code;
+
+    IF _attendee_id IS NULL THEN
+      SELECT r.attendee_id INTO _revoked_owner
+      FROM public.revoked_qr_codes r
+      WHERE r.qr_token = _code
+        AND r.event_id = event_id_param
+      LIMIT 1;
+    END IF;
+  ELSE
+    SELECT a.id INTO _attendee_id
+    FROM public.attendees a
+    WHERE a.qr_code = _code
+      AND a.event_id = event_id_param;
+
+    IF _attendee_id IS NULL THEN
+      SELECT r.attendee_id INTO _revoked_owner
+      FROM public.revoked_qr_codes r
+      WHERE r.qr_code = _code
+        AND r.event_id = event_id_param
+      ORDER BY r.revoked_at DESC
+      LIMIT 1;
+    END IF;
+
+    -- Revoked short codes are reported even when legacy codes are turned off
+    IF _revoked_owner IS NULL
+       AND NOT EXISTS (SELECT 1 FROM public.events e WHERE e.id = event_id_param AND e.accept_legacy_qr) THEN
+      RETURN QUERY SELECT 'legacy_qr_disabled'::TEXT, NULL::UUID;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF _revoked_owner IS NOT NULL THEN
+    RETURN QUERY SELECT 'revoked_qr'::TEXT, _revoked_owner;
+    RETURN;
+  END IF;
+
+  IF _attendee_id IS NULL THEN
+    RETURN QUERY SELECT 'invalid_qr'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'valid'::TEXT, _attendee_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_qr_attendee(TEXT, UUID) FROM PUBLIC, anon;
+
+-- ============================================
+-- 4. find_revoked_qr: who a revoked code belonged to
+-- ============================================
+-- check_in_attendee and friends only pass the 'revoked_qr' status through; scanners
+-- call this to show the holder's name and resend their current code
+CREATE OR REPLACE FUNCTION public.find_revoked_qr(
+  qr_code_param TEXT,
+  event_id_param UUID
+)
+RETURNS TABLE (
+  attendee_id UUID,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  reason TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _resolved RECORD;
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _resolved FROM resolve_qr_attendee(qr_code_param, event_id_param);
+
+  IF _resolved.resolve_status <> 'revoked_qr' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT a.id, a.name, a.email, r.revoked_at, r.reason
+  FROM public.attendees a
+  JOIN public.revoked_qr_codes r ON r.attendee_id = a.id
+  WHERE a.id = _resolved.attendee_id
+    AND (r.qr_code = TRIM(qr_code_param) OR r.qr_token = TRIM(qr_code_param))
+  ORDER BY r.revoked_at DESC
+  LIMIT 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_revoked_qr(TEXT, UUID) FROM PUBLIC, anon;
@@ -0,0 +1,346 @@
+-- Server-side bulk email.
+-- A campaign snapshots the message and template and queues one email_messages row
+-- per recipient. The process-email-queue edge function claims due rows in small
+-- batches, sends them through Resend at a throttled rate and retries failures with
+-- backoff. Only one worker sends at a time, guarded by a lease row.
+
+-- ============================================
+-- 1. Campaigns
+-- ============================================
+CREATE TABLE public.email_campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  audience TEXT NOT NULL CHECK (audience IN ('all', 'unsent', 'not_checked_in', 'filtered')),
+  -- For 'filtered': { "ticket_type_id": ..., "registration_type": ..., "attendee_ids": [...] }
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  subject TEXT,
+  message TEXT,
+  template JSONB,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'completed', 'cancelled')),
+  total_count INTEGER NOT NULL DEFAULT 0,
+  sent_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_email_campaigns_event ON public.email_campaigns(event_id, created_at DESC);
+
+-- ============================================
+-- 2. Queued messages
+-- ============================================
+CREATE TABLE public.email_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.email_campaigns(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  attendee_id UUID NOT NULL REFERENCES public.attendees(id) ON DELETE CASCADE,
+  recipient_email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'bounced', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_error TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_email_messages_due ON public.email_messages(next_attempt_at) WHERE status = 'queued';
+CREATE INDEX idx_email_messages_campaign ON public.email_messages(campaign_id, status);
+CREATE INDEX idx_email_messages_attendee ON public.email_messages(attendee_id, created_at DESC);
+CREATE INDEX idx_email_messages_provider ON public.email_messages(provider_message_id);
+
+CREATE TRIGGER update_email_messages_updated_at
+BEFORE UPDATE ON public.email_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rows are only written by the functions below and the worker (service role)
+ALTER TABLE public.email_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view email campaigns"
+ON public.email_campaigns
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+CREATE POLICY "Authenticated users can view email messages"
+ON public.email_messages
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+-- ============================================
+-- 3. Campaign counters
+-- ============================================
+CREATE OR REPLACE FUNCTION public.update_email_campaign_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- A bounce arrives after the message was counted as sent
+  UPDATE public.email_campaigns c
+  SET sent_count = c.sent_count
+        + (CASE WHEN NEW.status = 'sent' THEN 1 ELSE 0 END)
+        - (CASE WHEN OLD.status = 'sent' THEN 1 ELSE 0 END),
+      failed_count = c.failed_count
+        + (CASE WHEN NEW.status IN ('failed', 'bounced') THEN 1 ELSE 0 END)
+        - (CASE WHEN OLD.status IN ('failed', 'bounced') THEN 1 ELSE 0 END)
+  WHERE c.id = NEW.campaign_id;
+
+  IF NEW.status NOT IN ('queued', 'sending') AND NOT EXISTS (
+    SELECT 1 FROM public.email_messages m
+    WHERE m.campaign_id = NEW.campaign_id
+      AND m.status IN ('queued', 'sending')
+  ) THEN
+    UPDATE public.email_campaigns
+    SET status = 'completed', completed_at = now()
+    WHERE id = NEW.campaign_id
+      AND status IN ('queued', 'sending');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_email_campaign_counts
+AFTER UPDATE OF status ON public.email_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_email_campaign_counts();
+
+-- ============================================
+-- 4. queue_email_campaign
+-- ============================================
+CREATE OR REPLACE FUNCTION public.queue_email_campaign(
+  event_id_param UUID,
+  audience_param TEXT,
+  filters_param JSONB DEFAULT '{}'::jsonb,
+  subject_param TEXT DEFAULT NULL,
+  message_param TEXT DEFAULT NULL,
+  template_param JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  campaign_id UUID,
+  queued_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _campaign_id UUID;
+  _filters JSONB := COALESCE(filters_param, '{}'::jsonb);
+  _queued INTEGER;
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.email_campaigns (event_id, audience, filters, subject, message, template, created_by, created_by_email)
+  VALUES (event_id_param, audience_param, _filters, subject_param, message_param, template_param, auth.uid(), current_actor_email())
+  RETURNING id INTO _campaign_id;
+
+  -- Attendees already waiting in another campaign are skipped so nobody gets two copies
+  INSERT INTO public.email_messages (campaign_id, event_id, attendee_id, recipient_email)
+  SELECT _campaign_id, a.event_id, a.id, a.email
+  FROM public.attendees a
+  WHERE a.event_id = event_id_param
+    AND COALESCE(TRIM(a.email), '') <> ''
+    AND NOT EXISTS (
+      SELECT 1 FROM public.email_messages m
+      WHERE m.attendee_id = a.id
+        AND m.status IN ('queued', 'sending')
+    )
+    AND (
+      audience_param = 'all'
+      OR (audience_param = 'not_checked_in' AND NOT a.checked_in)
+      OR (audience_param = 'unsent'
+        AND NOT EXISTS (
+          SELECT 1 FROM public.email_messages m
+          WHERE m.attendee_id = a.id AND m.status = 'sent'
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM public.attendee_audit au
+          WHERE au.attendee_id = a.id AND au.action = 'email_sent' AND au.status = 'success'
+        ))
+      OR (audience_param = 'filtered'
+        AND (_filters->>'ticket_type_id' IS NULL OR a.ticket_type_id = (_filters->>'ticket_type_id')::UUID)
+        AND (_filters->>'registration_type' IS NULL OR a.registration_type = _filters->>'registration_type')
+        AND (NOT _filters ? 'attendee_ids'
+          OR a.id IN (SELECT jsonb_array_elements_text(_filters->'attendee_ids')::UUID)))
+    );
+
+  GET DIAGNOSTICS _queued = ROW_COUNT;
+
+  UPDATE public.email_campaigns
+  SET total_count = _queued,
+      status = CASE WHEN _queued = 0 THEN 'completed' ELSE 'queued' END,
+      completed_at = CASE WHEN _queued = 0 THEN now() ELSE NULL END
+  WHERE id = _campaign_id;
+
+  RETURN QUERY SELECT _campaign_id, _queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_email_campaign(UUID, TEXT, JSONB, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+
+-- ============================================
+-- 5. cancel_email_campaign
+-- ============================================
+CREATE OR REPLACE FUNCTION public.cancel_email_campaign(campaign_id_param UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cancelled INTEGER;
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  -- Messages already handed to the worker are left to finish
+  UPDATE public.email_messages
+  SET status = 'cancelled'
+  WHERE campaign_id = campaign_id_param
+    AND status = 'queued';
+
+  GET DIAGNOSTICS _cancelled = ROW_COUNT;
+
+  UPDATE public.email_campaigns
+  SET status = 'cancelled', completed_at = now()
+  WHERE id = campaign_id_param
+    AND status IN ('queued', 'sending');
+
+  RETURN _cancelled;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_email_campaign(UUID) FROM PUBLIC, anon;
+
+-- ============================================
+-- 6. Latest email status per attendee
+-- ============================================
+CREATE OR REPLACE FUNCTION public.get_email_statuses(event_id_param UUID)
+RETURNS TABLE (
+  attendee_id UUID,
+  status TEXT,
+  attempts INTEGER,
+  last_error TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT ON (m.attendee_id)
+    m.attendee_id, m.status, m.attempts, m.last_error, m.updated_at
+  FROM public.email_messages m
+  WHERE m.event_id = event_id_param
+    AND m.status <> 'cancelled'
+  ORDER BY m.attendee_id, m.created_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_email_statuses(UUID) FROM PUBLIC, anon;
+
+-- ============================================
+-- 7. Worker lease and batch claiming (service role only)
+-- ============================================
+CREATE TABLE public.email_worker_lease (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  holder UUID,
+  locked_until TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT '-infinity'
+);
+
+INSERT INTO public.email_worker_lease (id) VALUES (1);
+
+ALTER TABLE public.email_worker_lease ENABLE ROW LEVEL SECURITY;
+
+-- Take or extend the lease; false when another worker holds it
+CREATE OR REPLACE FUNCTION public.acquire_email_worker_lease(holder_param UUID, lease_seconds_param INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.email_worker_lease
+  SET holder = holder_param,
+      locked_until = now() + make_interval(secs => lease_seconds_param)
+  WHERE id = 1
+    AND (holder = holder_param OR locked_until < now());
+
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_email_worker_lease(holder_param UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.email_worker_lease
+  SET holder = NULL, locked_until = '-infinity'
+  WHERE id = 1 AND holder = holder_param;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_email_messages(batch_size_param INTEGER)
+RETURNS SETOF public.email_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- A worker that died mid-send leaves rows in 'sending'; put them back in the queue
+  UPDATE public.email_messages
+  SET status = 'queued'
+  WHERE status = 'sending'
+    AND updated_at < now() - INTERVAL '10 minutes';
+
+  RETURN QUERY
+  UPDATE public.email_messages m
+  SET status = 'sending', attempts = m.attempts + 1
+  WHERE m.id IN (
+    SELECT q.id
+    FROM public.email_messages q
+    WHERE q.status = 'queued'
+      AND q.next_attempt_at <= now()
+    ORDER BY q.next_attempt_at, q.created_at
+    LIMIT batch_size_param
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*;
+
+  UPDATE public.email_campaigns c
+  SET status = 'sending', started_at = COALESCE(c.started_at, now())
+  WHERE c.status = 'queued'
+    AND EXISTS (
+      SELECT 1 FROM public.email_messages m
+      WHERE m.campaign_id = c.id AND m.status = 'sending'
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acquire_email_worker_lease(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_email_worker_lease(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_email_messages(INTEGER) FROM PUBLIC, anon, authenticated;
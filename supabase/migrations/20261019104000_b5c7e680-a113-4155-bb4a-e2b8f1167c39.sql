@@ -0,0 +1,87 @@
+-- Email delivery tracking.
+-- The resend-webhook edge function verifies Resend's signed webhooks and records
+-- delivered / bounced / complained / opened events against the attendee. The
+-- dashboard reads the outcome of each attendee's latest email through
+-- get_email_delivery_statuses.
+
+-- ============================================
+-- 1. Delivery events
+-- ============================================
+CREATE TABLE public.email_delivery_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- svix-id header; Resend retries deliveries, so the same event can arrive twice
+  webhook_id TEXT NOT NULL UNIQUE,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  attendee_id UUID NOT NULL REFERENCES public.attendees(id) ON DELETE CASCADE,
+  email_message_id UUID REFERENCES public.email_messages(id) ON DELETE SET NULL,
+  provider_message_id TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('delivered', 'bounced', 'complained', 'opened')),
+  recipient_email TEXT,
+  detail TEXT,
+  -- When Resend created the email, used to tell an attendee's latest email apart
+  email_created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_email_delivery_events_attendee ON public.email_delivery_events(attendee_id, email_created_at DESC);
+CREATE INDEX idx_email_delivery_events_event ON public.email_delivery_events(event_id);
+
+-- Rows are only written by the webhook (service role)
+ALTER TABLE public.email_delivery_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view email delivery events"
+ON public.email_delivery_events
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+-- ============================================
+-- 2. Outcome of each attendee's latest email
+-- ============================================
+-- Opens can arrive long after a later email was sent, so only the events of the
+-- most recently created email count. Within it a complaint or bounce outweighs
+-- an open, which outweighs a plain delivery.
+CREATE OR REPLACE FUNCTION public.get_email_delivery_statuses(event_id_param UUID)
+RETURNS TABLE (
+  attendee_id UUID,
+  delivery_status TEXT,
+  detail TEXT,
+  occurred_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH latest_email AS (
+    SELECT DISTINCT ON (e.attendee_id) e.attendee_id, e.provider_message_id
+    FROM public.email_delivery_events e
+    WHERE e.event_id = event_id_param
+    ORDER BY e.attendee_id, e.email_created_at DESC
+  )
+  SELECT DISTINCT ON (e.attendee_id)
+    e.attendee_id, e.event_type, e.detail, e.occurred_at
+  FROM public.email_delivery_events e
+  JOIN latest_email l
+    ON l.attendee_id = e.attendee_id
+   AND l.provider_message_id = e.provider_message_id
+  ORDER BY e.attendee_id,
+    CASE e.event_type
+      WHEN 'complained' THEN 4
+      WHEN 'bounced' THEN 3
+      WHEN 'opened' THEN 2
+      ELSE 1
+    END DESC,
+    e.occurred_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_email_delivery_statuses(UUID) FROM PUBLIC, anon;
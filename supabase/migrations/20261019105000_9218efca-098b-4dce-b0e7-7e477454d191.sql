@@ -0,0 +1,157 @@
+-- Email templates stored per event with their full history.
+-- Every save adds a version; the newest one is what send-qr-email and new email
+-- campaigns use, so every device sends the same template. Restoring an old
+-- version saves its content again as a new version.
+
+-- ============================================
+-- 1. Template versions
+-- ============================================
+CREATE TABLE public.email_template_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  content JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (event_id, version)
+);
+
+-- Rows are only written by save_email_template
+ALTER TABLE public.email_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view email template versions"
+ON public.email_template_versions
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+-- ============================================
+-- 2. save_email_template
+-- ============================================
+CREATE OR REPLACE FUNCTION public.save_email_template(event_id_param UUID, content_param JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version INTEGER;
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(content_param) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Email template must be a JSON object';
+  END IF;
+
+  -- Serialise concurrent saves for the same event so version numbers stay unique
+  PERFORM 1 FROM public.events WHERE id = event_id_param FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO _version
+  FROM public.email_template_versions
+  WHERE event_id = event_id_param;
+
+  INSERT INTO public.email_template_versions (event_id, version, content, created_by, created_by_email)
+  VALUES (event_id_param, _version, content_param, auth.uid(), current_actor_email());
+
+  RETURN _version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_email_template(UUID, JSONB) FROM PUBLIC, anon;
+
+-- ============================================
+-- 3. Campaigns record the template version they were queued with
+-- ============================================
+ALTER TABLE public.email_campaigns
+ADD COLUMN template_version INTEGER;
+
+CREATE OR REPLACE FUNCTION public.queue_email_campaign(
+  event_id_param UUID,
+  audience_param TEXT,
+  filters_param JSONB DEFAULT '{}'::jsonb,
+  subject_param TEXT DEFAULT NULL,
+  message_param TEXT DEFAULT NULL,
+  template_param JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  campaign_id UUID,
+  queued_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _campaign_id UUID;
+  _filters JSONB := COALESCE(filters_param, '{}'::jsonb);
+  _queued INTEGER;
+  _template JSONB := template_param;
+  _template_version INTEGER;
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  -- Snapshot the event's current template so later edits do not change a campaign
+  -- that is still sending
+  IF _template IS NULL THEN
+    SELECT v.content, v.version INTO _template, _template_version
+    FROM public.email_template_versions v
+    WHERE v.event_id = event_id_param
+    ORDER BY v.version DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.email_campaigns (event_id, audience, filters, subject, message, template, template_version, created_by, created_by_email)
+  VALUES (event_id_param, audience_param, _filters, subject_param, message_param, _template, _template_version, auth.uid(), current_actor_email())
+  RETURNING id INTO _campaign_id;
+
+  -- Attendees already waiting in another campaign are skipped so nobody gets two copies
+  INSERT INTO public.email_messages (campaign_id, event_id, attendee_id, recipient_email)
+  SELECT _campaign_id, a.event_id, a.id, a.email
+  FROM public.attendees a
+  WHERE a.event_id = event_id_param
+    AND COALESCE(TRIM(a.email), '') <> ''
+    AND NOT EXISTS (
+      SELECT 1 FROM public.email_messages m
+      WHERE m.attendee_id = a.id
+        AND m.status IN ('queued', 'sending')
+    )
+    AND (
+      audience_param = 'all'
+      OR (audience_param = 'not_checked_in' AND NOT a.checked_in)
+      OR (audience_param = 'unsent'
+        AND NOT EXISTS (
+          SELECT 1 FROM public.email_messages m
+          WHERE m.attendee_id = a.id AND m.status = 'sent'
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM public.attendee_audit au
+          WHERE au.attendee_id = a.id AND au.action = 'email_sent' AND au.status = 'success'
+        ))
+      OR (audience_param = 'filtered'
+        AND (_filters->>'ticket_type_id' IS NULL OR a.ticket_type_id = (_filters->>'ticket_type_id')::UUID)
+        AND (_filters->>'registration_type' IS NULL OR a.registration_type = _filters->>'registration_type')
+        AND (NOT _filters ? 'attendee_ids'
+          OR a.id IN (SELECT jsonb_array_elements_text(_filters->'attendee_ids')::UUID)))
+    );
+
+  GET DIAGNOSTICS _queued = ROW_COUNT;
+
+  UPDATE public.email_campaigns
+  SET total_count = _queued,
+      status = CASE WHEN _queued = 0 THEN 'completed' ELSE 'queued' END,
+      completed_at = CASE WHEN _queued = 0 THEN now() ELSE NULL END
+  WHERE id = _campaign_id;
+
+  RETURN QUERY SELECT _campaign_id, _queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_email_campaign(UUID, TEXT, JSONB, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
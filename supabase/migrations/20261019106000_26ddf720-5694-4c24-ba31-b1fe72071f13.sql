@@ -0,0 +1,12 @@
+-- Organiser details for calendar invites.
+-- The .ics file attached to QR emails and offered after self-registration is
+-- built from the event row (name, description, venue, start/end) plus these,
+-- so admins change them from the dashboard instead of the email code.
+
+ALTER TABLE public.events
+ADD COLUMN organizer_name TEXT,
+ADD COLUMN organizer_email TEXT;
+
+ALTER TABLE public.events
+ADD CONSTRAINT events_organizer_email_check
+CHECK (organizer_email IS NULL OR organizer_email ~ '^[^\s@]+@[^\s@]+\.[^\s@]+$');
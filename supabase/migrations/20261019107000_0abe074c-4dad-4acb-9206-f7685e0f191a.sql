@@ -0,0 +1,149 @@
+-- WhatsApp delivery through the WhatsApp Business Cloud API.
+-- queue_whatsapp_messages records one row per selected attendee with a phone
+-- number; the send-whatsapp edge function sends each as a template message with
+-- the QR code image and stores the returned message id. Meta's status webhooks
+-- (whatsapp-webhook) then move the row through sent, delivered and read, or to
+-- failed.
+
+-- ============================================
+-- 1. Messages
+-- ============================================
+CREATE TABLE public.whatsapp_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  attendee_id UUID NOT NULL REFERENCES public.attendees(id) ON DELETE CASCADE,
+  recipient_phone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'delivered', 'read', 'failed')),
+  provider_message_id TEXT UNIQUE,
+  last_error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_whatsapp_messages_event ON public.whatsapp_messages(event_id, created_at DESC);
+CREATE INDEX idx_whatsapp_messages_attendee ON public.whatsapp_messages(attendee_id, created_at DESC);
+
+CREATE TRIGGER update_whatsapp_messages_updated_at
+BEFORE UPDATE ON public.whatsapp_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rows are only written by the functions below and the edge functions (service role)
+ALTER TABLE public.whatsapp_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view whatsapp messages"
+ON public.whatsapp_messages
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+-- ============================================
+-- 2. queue_whatsapp_messages
+-- ============================================
+-- Called by send-whatsapp with the caller's session, so the access check and the
+-- recorded sender are the dashboard user's
+CREATE OR REPLACE FUNCTION public.queue_whatsapp_messages(event_id_param UUID, attendee_ids_param UUID[])
+RETURNS SETOF public.whatsapp_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.whatsapp_messages (event_id, attendee_id, recipient_phone, created_by, created_by_email)
+  SELECT a.event_id, a.id, TRIM(a.phone), auth.uid(), current_actor_email()
+  FROM public.attendees a
+  WHERE a.event_id = event_id_param
+    AND a.id = ANY(attendee_ids_param)
+    AND COALESCE(TRIM(a.phone), '') <> ''
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_whatsapp_messages(UUID, UUID[]) FROM PUBLIC, anon;
+
+-- ============================================
+-- 3. Status updates from webhooks
+-- ============================================
+-- Meta does not guarantee the order of status webhooks; a late 'delivered' must
+-- not overwrite 'read'
+CREATE OR REPLACE FUNCTION public.whatsapp_status_rank(status_param TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE status_param
+    WHEN 'sending' THEN 0
+    WHEN 'sent' THEN 1
+    WHEN 'delivered' THEN 2
+    WHEN 'read' THEN 3
+    WHEN 'failed' THEN 4
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_whatsapp_status(
+  provider_message_id_param TEXT,
+  status_param TEXT,
+  occurred_at_param TIMESTAMP WITH TIME ZONE,
+  error_param TEXT DEFAULT NULL
+)
+RETURNS SETOF public.whatsapp_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.whatsapp_messages m
+  SET status = status_param,
+      last_error = COALESCE(error_param, m.last_error),
+      sent_at = COALESCE(m.sent_at, occurred_at_param),
+      delivered_at = CASE WHEN status_param IN ('delivered', 'read') THEN COALESCE(m.delivered_at, occurred_at_param) ELSE m.delivered_at END,
+      read_at = CASE WHEN status_param = 'read' THEN occurred_at_param ELSE m.read_at END
+  WHERE m.provider_message_id = provider_message_id_param
+    AND whatsapp_status_rank(status_param) > whatsapp_status_rank(m.status)
+  RETURNING m.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_whatsapp_status(TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 4. Latest status per attendee
+-- ============================================
+CREATE OR REPLACE FUNCTION public.get_whatsapp_statuses(event_id_param UUID)
+RETURNS TABLE (
+  attendee_id UUID,
+  status TEXT,
+  last_error TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT ON (m.attendee_id)
+    m.attendee_id, m.status, m.last_error, m.updated_at
+  FROM public.whatsapp_messages m
+  WHERE m.event_id = event_id_param
+  ORDER BY m.attendee_id, m.created_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_whatsapp_statuses(UUID) FROM PUBLIC, anon;
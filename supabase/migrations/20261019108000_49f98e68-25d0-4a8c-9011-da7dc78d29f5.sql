@@ -0,0 +1,176 @@
+-- SMS delivery for attendees who only have a phone number.
+-- queue_sms_messages records one row per selected attendee with a phone number,
+-- each with a short link code; the send-sms edge function texts the link through
+-- the configured SMS provider and stores its message id. The provider's status
+-- callbacks (sms-status) then move the row to delivered, undelivered or failed.
+-- ticket-link resolves the code to the attendee's current QR code.
+
+-- ============================================
+-- 1. Messages
+-- ============================================
+CREATE TABLE public.sms_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  attendee_id UUID NOT NULL REFERENCES public.attendees(id) ON DELETE CASCADE,
+  -- As entered on the attendee until send-sms normalises it to E.164
+  recipient_phone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'delivered', 'undelivered', 'failed')),
+  provider TEXT,
+  provider_message_id TEXT UNIQUE,
+  -- The short link in the text: /ticket-link/<link_code>
+  link_code TEXT NOT NULL UNIQUE DEFAULT translate(encode(extensions.gen_random_bytes(8), 'base64'), '+/=', '-_'),
+  -- The attendee's token when the link was sent; a reissued QR code invalidates the link
+  qr_token TEXT,
+  body TEXT,
+  last_error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sms_messages_event ON public.sms_messages(event_id, created_at DESC);
+CREATE INDEX idx_sms_messages_attendee ON public.sms_messages(attendee_id, created_at DESC);
+
+CREATE TRIGGER update_sms_messages_updated_at
+BEFORE UPDATE ON public.sms_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rows are only written by the functions below and the edge functions (service role).
+-- Link codes and tokens stay server-side, so the dashboard reads get_sms_statuses.
+ALTER TABLE public.sms_messages ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 2. queue_sms_messages
+-- ============================================
+-- Called by send-sms with the caller's session, so the access check and the
+-- recorded sender are the dashboard user's
+CREATE OR REPLACE FUNCTION public.queue_sms_messages(event_id_param UUID, attendee_ids_param UUID[])
+RETURNS SETOF public.sms_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.sms_messages (event_id, attendee_id, recipient_phone, qr_token, created_by, created_by_email)
+  SELECT a.event_id, a.id, TRIM(a.phone), a.qr_token, auth.uid(), current_actor_email()
+  FROM public.attendees a
+  WHERE a.event_id = event_id_param
+    AND a.id = ANY(attendee_ids_param)
+    AND COALESCE(TRIM(a.phone), '') <> ''
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_sms_messages(UUID, UUID[]) FROM PUBLIC, anon;
+
+-- ============================================
+-- 3. Status updates from provider callbacks
+-- ============================================
+-- Callbacks can arrive out of order; a late 'sent' must not overwrite 'delivered'
+CREATE OR REPLACE FUNCTION public.sms_status_rank(status_param TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE status_param
+    WHEN 'sending' THEN 0
+    WHEN 'sent' THEN 1
+    WHEN 'delivered' THEN 2
+    WHEN 'undelivered' THEN 3
+    WHEN 'failed' THEN 3
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_sms_status(
+  provider_message_id_param TEXT,
+  status_param TEXT,
+  error_param TEXT DEFAULT NULL
+)
+RETURNS SETOF public.sms_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.sms_messages m
+  SET status = status_param,
+      last_error = COALESCE(error_param, m.last_error),
+      sent_at = COALESCE(m.sent_at, now()),
+      delivered_at = CASE WHEN status_param = 'delivered' THEN now() ELSE m.delivered_at END
+  WHERE m.provider_message_id = provider_message_id_param
+    AND sms_status_rank(status_param) > sms_status_rank(m.status)
+  RETURNING m.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_sms_status(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 4. Latest status per attendee
+-- ============================================
+CREATE OR REPLACE FUNCTION public.get_sms_statuses(event_id_param UUID)
+RETURNS TABLE (
+  attendee_id UUID,
+  recipient_phone TEXT,
+  status TEXT,
+  last_error TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT ON (m.attendee_id)
+    m.attendee_id, m.recipient_phone, m.status, m.last_error, m.updated_at
+  FROM public.sms_messages m
+  WHERE m.event_id = event_id_param
+  ORDER BY m.attendee_id, m.created_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_sms_statuses(UUID) FROM PUBLIC, anon;
+
+-- ============================================
+-- 5. SMS sends in the attendee's history
+-- ============================================
+CREATE OR REPLACE FUNCTION public.record_attendee_message_audit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.type NOT IN ('email_sent', 'whatsapp_sent', 'sms_sent') OR NEW.status = 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.attendee_audit (attendee_id, event_id, action, details, status, actor_id, actor_email, created_at)
+  SELECT a.id, a.event_id, NEW.type, COALESCE(NEW.action || ' - ' || NEW.details, NEW.action), NEW.status,
+    NEW.actor_id, NEW.actor_email, NEW.timestamp
+  FROM public.attendees a
+  WHERE a.event_id = NEW.event_id
+    AND (
+      a.id::TEXT = NEW.metadata ->> 'attendee_id'
+      OR (NEW.metadata ->> 'attendee_id' IS NULL AND lower(a.email) = lower(NEW.user_email))
+    );
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,64 @@
+-- "Resend my ticket" on the public ticket page. The resend-ticket edge function
+-- emails links to /ticket/<qr_token> to the address an attendee registered with;
+-- opening the link is the email verification. Requests are rate limited per
+-- email address and per client IP here, so the limit holds across function
+-- instances.
+
+-- ============================================
+-- 1. Requests
+-- ============================================
+CREATE TABLE public.ticket_link_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL,
+  client_ip TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ticket_link_requests_email ON public.ticket_link_requests(email, created_at DESC);
+CREATE INDEX idx_ticket_link_requests_ip ON public.ticket_link_requests(client_ip, created_at DESC);
+
+-- Only written and read by record_ticket_link_request
+ALTER TABLE public.ticket_link_requests ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 2. record_ticket_link_request
+-- ============================================
+-- Records the request and returns whether it is within the limits: 3 per email
+-- address and 10 per IP address in the last hour
+CREATE OR REPLACE FUNCTION public.record_ticket_link_request(email_param TEXT, client_ip_param TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _email TEXT := lower(trim(email_param));
+  _email_count INTEGER;
+  _ip_count INTEGER;
+BEGIN
+  -- Serialise requests for the same address so concurrent ones can't all pass
+  PERFORM pg_advisory_xact_lock(hashtext('ticket_link_request:' || _email));
+
+  DELETE FROM public.ticket_link_requests
+  WHERE created_at < now() - INTERVAL '1 day';
+
+  SELECT COUNT(*) INTO _email_count
+  FROM public.ticket_link_requests
+  WHERE email = _email AND created_at > now() - INTERVAL '1 hour';
+
+  SELECT COUNT(*) INTO _ip_count
+  FROM public.ticket_link_requests
+  WHERE client_ip = client_ip_param AND created_at > now() - INTERVAL '1 hour';
+
+  IF _email_count >= 3 OR _ip_count >= 10 THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.ticket_link_requests (email, client_ip)
+  VALUES (_email, client_ip_param);
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_ticket_link_request(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
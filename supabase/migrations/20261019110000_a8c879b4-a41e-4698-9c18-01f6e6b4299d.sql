@@ -0,0 +1,203 @@
+-- Scheduled reminder emails, e.g. "24 hours before the event, to everyone not yet
+-- checked in". A cron job calls the send-reminders edge function every 15 minutes;
+-- it runs queue_due_reminders, which queues an email campaign per due rule for the
+-- process-email-queue worker. reminder_sends records every attendee a rule has
+-- queued, so nobody gets the same reminder twice, including on later runs that
+-- pick up attendees who registered after the first one.
+
+-- ============================================
+-- 1. Rules
+-- ============================================
+CREATE TABLE public.reminder_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Sent this long before events.starts_at, and not at all once the event has started
+  hours_before INTEGER NOT NULL CHECK (hours_before BETWEEN 1 AND 720),
+  audience TEXT NOT NULL DEFAULT 'not_checked_in' CHECK (audience IN ('all', 'not_checked_in')),
+  -- Override the event template's subject and message, as in a bulk email
+  subject TEXT,
+  message TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  last_queued_at TIMESTAMP WITH TIME ZONE,
+  -- Reminder campaigns are recorded as sent by whoever created the rule
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_by_email TEXT DEFAULT public.current_actor_email(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reminder_rules_event ON public.reminder_rules(event_id);
+
+CREATE TRIGGER update_reminder_rules_updated_at
+BEFORE UPDATE ON public.reminder_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.reminder_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view reminder rules"
+ON public.reminder_rules
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+CREATE POLICY "Admins can create reminder rules"
+ON public.reminder_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update reminder rules"
+ON public.reminder_rules
+FOR UPDATE
+TO authenticated
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete reminder rules"
+ON public.reminder_rules
+FOR DELETE
+TO authenticated
+USING (is_admin(auth.uid()));
+
+-- ============================================
+-- 2. Per-rule sent log
+-- ============================================
+CREATE TABLE public.reminder_sends (
+  rule_id UUID NOT NULL REFERENCES public.reminder_rules(id) ON DELETE CASCADE,
+  attendee_id UUID NOT NULL REFERENCES public.attendees(id) ON DELETE CASCADE,
+  email_message_id UUID REFERENCES public.email_messages(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (rule_id, attendee_id)
+);
+
+CREATE INDEX idx_reminder_sends_attendee ON public.reminder_sends(attendee_id);
+
+-- Rows are only written by queue_due_reminders
+ALTER TABLE public.reminder_sends ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view reminder sends"
+ON public.reminder_sends
+FOR SELECT
+TO authenticated
+USING (user_has_platform_access(auth.uid()));
+
+-- ============================================
+-- 3. Campaigns queued by a rule
+-- ============================================
+ALTER TABLE public.email_campaigns
+ADD COLUMN reminder_rule_id UUID REFERENCES public.reminder_rules(id) ON DELETE SET NULL;
+
+-- ============================================
+-- 4. queue_due_reminders (service role only)
+-- ============================================
+-- A rule is due from hours_before ahead of the event until the event starts.
+-- Rules are locked while they queue, so overlapping runs cannot both send.
+CREATE OR REPLACE FUNCTION public.queue_due_reminders()
+RETURNS TABLE (
+  rule_id UUID,
+  campaign_id UUID,
+  queued_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.reminder_rules%ROWTYPE;
+  _campaign_id UUID;
+  _template JSONB;
+  _template_version INTEGER;
+  _queued INTEGER;
+BEGIN
+  FOR _rule IN
+    SELECT r.*
+    FROM public.reminder_rules r
+    JOIN public.events e ON e.id = r.event_id
+    WHERE r.enabled
+      AND e.starts_at IS NOT NULL
+      AND now() >= e.starts_at - make_interval(hours => r.hours_before)
+      AND now() < e.starts_at
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    SELECT v.content, v.version INTO _template, _template_version
+    FROM public.email_template_versions v
+    WHERE v.event_id = _rule.event_id
+    ORDER BY v.version DESC
+    LIMIT 1;
+
+    INSERT INTO public.email_campaigns (event_id, audience, subject, message, template, template_version, reminder_rule_id, created_by, created_by_email)
+    VALUES (_rule.event_id, _rule.audience, _rule.subject, _rule.message, _template, _template_version, _rule.id, _rule.created_by, _rule.created_by_email)
+    RETURNING id INTO _campaign_id;
+
+    -- Attendees waiting in another campaign are left for a later run
+    WITH queued AS (
+      INSERT INTO public.email_messages (campaign_id, event_id, attendee_id, recipient_email)
+      SELECT _campaign_id, a.event_id, a.id, a.email
+      FROM public.attendees a
+      WHERE a.event_id = _rule.event_id
+        AND COALESCE(TRIM(a.email), '') <> ''
+        AND (_rule.audience = 'all' OR NOT a.checked_in)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.reminder_sends s
+          WHERE s.rule_id = _rule.id AND s.attendee_id = a.id
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM public.email_messages m
+          WHERE m.attendee_id = a.id
+            AND m.status IN ('queued', 'sending')
+        )
+      RETURNING id, attendee_id
+    )
+    INSERT INTO public.reminder_sends (rule_id, attendee_id, email_message_id)
+    SELECT _rule.id, q.attendee_id, q.id
+    FROM queued q;
+
+    GET DIAGNOSTICS _queued = ROW_COUNT;
+
+    -- Most runs find nobody new; keep those out of the campaign list
+    IF _queued = 0 THEN
+      DELETE FROM public.email_campaigns WHERE id = _campaign_id;
+      CONTINUE;
+    END IF;
+
+    UPDATE public.email_campaigns
+    SET total_count = _queued
+    WHERE id = _campaign_id;
+
+    UPDATE public.reminder_rules
+    SET last_queued_at = now()
+    WHERE id = _rule.id;
+
+    RETURN QUERY SELECT _rule.id, _campaign_id, _queued;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_due_reminders() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 5. Schedule
+-- ============================================
+-- The project URL and service role key are read from Vault. Create them once per
+-- project before the first run:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'send-reminders',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
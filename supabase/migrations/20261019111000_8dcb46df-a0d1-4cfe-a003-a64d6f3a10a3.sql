@@ -0,0 +1,171 @@
+-- Post-event follow-up emails: a thank-you or survey to attendees who came and a
+-- "sorry we missed you" to no-shows. Follow-ups are email campaigns of their own
+-- kind, queued with a segment built from check-in status (attendees.checked_in or
+-- any checkin_instances row), registration type and company. The worker sends them
+-- without the QR code, and get_follow_up_results reports their delivery.
+
+-- ============================================
+-- 1. Campaign kind
+-- ============================================
+ALTER TABLE public.email_campaigns
+ADD COLUMN kind TEXT NOT NULL DEFAULT 'qr' CHECK (kind IN ('qr', 'follow_up'));
+
+-- ============================================
+-- 2. queue_email_campaign with follow-up segments
+-- ============================================
+-- 'filtered' campaigns also accept:
+--   "attendance": "attended" | "no_show"
+--   "companies": ["Acme", ...], matched case-insensitively; "" matches attendees without one
+DROP FUNCTION public.queue_email_campaign(UUID, TEXT, JSONB, TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.queue_email_campaign(
+  event_id_param UUID,
+  audience_param TEXT,
+  filters_param JSONB DEFAULT '{}'::jsonb,
+  subject_param TEXT DEFAULT NULL,
+  message_param TEXT DEFAULT NULL,
+  template_param JSONB DEFAULT NULL,
+  kind_param TEXT DEFAULT 'qr'
+)
+RETURNS TABLE (
+  campaign_id UUID,
+  queued_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _campaign_id UUID;
+  _filters JSONB := COALESCE(filters_param, '{}'::jsonb);
+  _queued INTEGER;
+  _template JSONB := template_param;
+  _template_version INTEGER;
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  -- Snapshot the event's current template so later edits do not change a campaign
+  -- that is still sending
+  IF _template IS NULL THEN
+    SELECT v.content, v.version INTO _template, _template_version
+    FROM public.email_template_versions v
+    WHERE v.event_id = event_id_param
+    ORDER BY v.version DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.email_campaigns (event_id, audience, filters, subject, message, template, template_version, kind, created_by, created_by_email)
+  VALUES (event_id_param, audience_param, _filters, subject_param, message_param, _template, _template_version, COALESCE(kind_param, 'qr'), auth.uid(), current_actor_email())
+  RETURNING id INTO _campaign_id;
+
+  -- Attendees already waiting in another campaign are skipped so nobody gets two copies
+  INSERT INTO public.email_messages (campaign_id, event_id, attendee_id, recipient_email)
+  SELECT _campaign_id, a.event_id, a.id, a.email
+  FROM public.attendees a
+  WHERE a.event_id = event_id_param
+    AND COALESCE(TRIM(a.email), '') <> ''
+    AND NOT EXISTS (
+      SELECT 1 FROM public.email_messages m
+      WHERE m.attendee_id = a.id
+        AND m.status IN ('queued', 'sending')
+    )
+    AND (
+      audience_param = 'all'
+      OR (audience_param = 'not_checked_in' AND NOT a.checked_in)
+      OR (audience_param = 'unsent'
+        AND NOT EXISTS (
+          SELECT 1 FROM public.email_messages m
+          WHERE m.attendee_id = a.id AND m.status = 'sent'
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM public.attendee_audit au
+          WHERE au.attendee_id = a.id AND au.action = 'email_sent' AND au.status = 'success'
+        ))
+      OR (audience_param = 'filtered'
+        AND (_filters->>'ticket_type_id' IS NULL OR a.ticket_type_id = (_filters->>'ticket_type_id')::UUID)
+        AND (_filters->>'registration_type' IS NULL OR a.registration_type = _filters->>'registration_type')
+        AND (NOT _filters ? 'attendee_ids'
+          OR a.id IN (SELECT jsonb_array_elements_text(_filters->'attendee_ids')::UUID))
+        -- An undone check-in clears checked_in but keeps the attendee's instances
+        AND (_filters->>'attendance' IS NULL
+          OR (_filters->>'attendance' = 'attended') = (
+            a.checked_in
+            OR EXISTS (SELECT 1 FROM public.checkin_instances ci WHERE ci.attendee_id = a.id)
+          ))
+        AND (NOT _filters ? 'companies'
+          OR lower(TRIM(COALESCE(a.company, ''))) IN (
+            SELECT lower(TRIM(c)) FROM jsonb_array_elements_text(_filters->'companies') c
+          )))
+    );
+
+  GET DIAGNOSTICS _queued = ROW_COUNT;
+
+  UPDATE public.email_campaigns
+  SET total_count = _queued,
+      status = CASE WHEN _queued = 0 THEN 'completed' ELSE 'queued' END,
+      completed_at = CASE WHEN _queued = 0 THEN now() ELSE NULL END
+  WHERE id = _campaign_id;
+
+  RETURN QUERY SELECT _campaign_id, _queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_email_campaign(UUID, TEXT, JSONB, TEXT, TEXT, JSONB, TEXT) FROM PUBLIC, anon;
+
+-- ============================================
+-- 3. Follow-up results
+-- ============================================
+-- Delivery counts are per message, from the events resend-webhook recorded for it;
+-- an opened message also counts as delivered, and complaints count as bounces
+CREATE OR REPLACE FUNCTION public.get_follow_up_results(event_id_param UUID)
+RETURNS TABLE (
+  campaign_id UUID,
+  filters JSONB,
+  subject TEXT,
+  status TEXT,
+  total_count INTEGER,
+  sent_count INTEGER,
+  failed_count INTEGER,
+  delivered_count INTEGER,
+  opened_count INTEGER,
+  bounced_count INTEGER,
+  created_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.filters,
+    COALESCE(c.subject, c.template->>'subject'),
+    c.status,
+    c.total_count,
+    c.sent_count,
+    c.failed_count,
+    COUNT(DISTINCT d.email_message_id) FILTER (WHERE d.event_type IN ('delivered', 'opened'))::INTEGER,
+    COUNT(DISTINCT d.email_message_id) FILTER (WHERE d.event_type = 'opened')::INTEGER,
+    COUNT(DISTINCT d.email_message_id) FILTER (WHERE d.event_type IN ('bounced', 'complained'))::INTEGER,
+    c.created_by_email,
+    c.created_at
+  FROM public.email_campaigns c
+  LEFT JOIN public.email_messages m ON m.campaign_id = c.id
+  LEFT JOIN public.email_delivery_events d ON d.email_message_id = m.id
+  WHERE c.event_id = event_id_param
+    AND c.kind = 'follow_up'
+  GROUP BY c.id
+  ORDER BY c.created_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_follow_up_results(UUID) FROM PUBLIC, anon;
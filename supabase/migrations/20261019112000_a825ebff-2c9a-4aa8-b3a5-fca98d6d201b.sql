@@ -0,0 +1,5 @@
+-- Short qr_codes are guessable, so events created from now on only accept signed
+-- QR tokens. Existing events keep accepting them until an admin turns them off,
+-- since their attendees may still hold QR codes issued before signing.
+ALTER TABLE public.events
+ALTER COLUMN accept_legacy_qr SET DEFAULT false;
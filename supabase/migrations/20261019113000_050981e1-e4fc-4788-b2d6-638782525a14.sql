@@ -0,0 +1,182 @@
+-- merge_attendees fixes:
+-- * A duplicate's own check-in (#1) only stays #1 when the survivor never checked in;
+--   otherwise it is numbered as a plus guest after the survivor's check-ins.
+-- * The survivor's plus-guest allowance is the sum of the merged records' allowances.
+-- * The duplicates' codes are recorded as revoked, so scanning one reports it as
+--   revoked in favour of the survivor instead of unknown.
+
+-- ============================================
+-- 1. merge_attendees
+-- ============================================
+CREATE OR REPLACE FUNCTION public.merge_attendees(
+  survivor_id_param UUID,
+  duplicate_ids_param UUID[]
+)
+RETURNS TABLE (
+  result_status TEXT,
+  merged_count INTEGER,
+  moved_checkins INTEGER,
+  survivor_qr_code TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _survivor public.attendees%ROWTYPE;
+  _duplicate_ids UUID[];
+  _merged INTEGER;
+  _max_number INTEGER;
+  _primary_id UUID;
+  _moved INTEGER;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT a.* INTO _survivor
+  FROM public.attendees a
+  WHERE a.id = survivor_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'survivor_not_found'::TEXT, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  -- Only duplicates from the same event can be merged; lock them so no scan lands mid-merge
+  SELECT COALESCE(array_agg(locked.id), '{}') INTO _duplicate_ids
+  FROM (
+    SELECT a.id
+    FROM public.attendees a
+    WHERE a.id = ANY(duplicate_ids_param)
+      AND a.id <> _survivor.id
+      AND a.event_id = _survivor.event_id
+    FOR UPDATE
+  ) locked;
+
+  _merged := COALESCE(array_length(_duplicate_ids, 1), 0);
+
+  IF _merged = 0 OR _merged <> (SELECT COUNT(DISTINCT d) FROM unnest(duplicate_ids_param) d WHERE d <> _survivor.id) THEN
+    RETURN QUERY SELECT 'invalid_duplicates'::TEXT, 0, 0, _survivor.qr_code;
+    RETURN;
+  END IF;
+
+  -- Moved check-ins are numbered after the survivor's own, in arrival order
+  SELECT COALESCE(MAX(ci.checkin_number), 0) INTO _max_number
+  FROM public.checkin_instances ci
+  WHERE ci.attendee_id = _survivor.id;
+
+  -- If the survivor itself never checked in, the earliest duplicate's own check-in
+  -- becomes the survivor's #1 rather than a plus guest
+  IF NOT EXISTS (
+    SELECT 1 FROM public.checkin_instances ci
+    WHERE ci.attendee_id = _survivor.id AND ci.checkin_number = 1
+  ) THEN
+    SELECT ci.id INTO _primary_id
+    FROM public.checkin_instances ci
+    WHERE ci.attendee_id = ANY(_duplicate_ids)
+      AND ci.checkin_number = 1
+    ORDER BY ci.checked_in_at
+    LIMIT 1;
+
+    IF _primary_id IS NOT NULL THEN
+      _max_number := GREATEST(_max_number, 1);
+    END IF;
+  END IF;
+
+  WITH moved AS (
+    SELECT ci.id, _max_number + ROW_NUMBER() OVER (ORDER BY ci.checked_in_at, ci.checkin_number)::INTEGER AS new_number
+    FROM public.checkin_instances ci
+    WHERE ci.attendee_id = ANY(_duplicate_ids)
+      AND ci.id IS DISTINCT FROM _primary_id
+    UNION ALL
+    SELECT _primary_id, 1
+    WHERE _primary_id IS NOT NULL
+  )
+  UPDATE public.checkin_instances ci
+  SET attendee_id = _survivor.id,
+      qr_code = _survivor.qr_code,
+      checkin_number = moved.new_number,
+      guest_type = get_guest_type(moved.new_number)
+  FROM moved
+  WHERE ci.id = moved.id;
+
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  UPDATE public.checkin_movements
+  SET attendee_id = _survivor.id
+  WHERE attendee_id = ANY(_duplicate_ids);
+
+  -- An attendee is recorded once per session, so drop attendance the survivor already has
+  DELETE FROM public.session_checkins sc
+  WHERE sc.attendee_id = ANY(_duplicate_ids)
+    AND EXISTS (
+      SELECT 1 FROM public.session_checkins own
+      WHERE own.attendee_id = _survivor.id
+        AND own.session_id = sc.session_id
+    );
+
+  DELETE FROM public.session_checkins sc
+  WHERE sc.attendee_id = ANY(_duplicate_ids)
+    AND sc.id NOT IN (
+      SELECT DISTINCT ON (dup.session_id) dup.id
+      FROM public.session_checkins dup
+      WHERE dup.attendee_id = ANY(_duplicate_ids)
+      ORDER BY dup.session_id, dup.checked_in_at
+    );
+
+  UPDATE public.session_checkins
+  SET attendee_id = _survivor.id
+  WHERE attendee_id = ANY(_duplicate_ids);
+
+  -- Add up the plus-guest allowances and fill in details the survivor is missing
+  -- from the oldest duplicate that has them
+  UPDATE public.attendees a
+  SET allowed_guests = CASE
+        -- NULL is an unlimited allowance
+        WHEN a.allowed_guests IS NULL
+          OR EXISTS (SELECT 1 FROM public.attendees d WHERE d.id = ANY(_duplicate_ids) AND d.allowed_guests IS NULL)
+          THEN NULL
+        ELSE a.allowed_guests + (SELECT SUM(d.allowed_guests) FROM public.attendees d WHERE d.id = ANY(_duplicate_ids))::INTEGER
+      END,
+      phone = COALESCE(NULLIF(a.phone, ''), (
+        SELECT d.phone FROM public.attendees d
+        WHERE d.id = ANY(_duplicate_ids) AND COALESCE(d.phone, '') <> ''
+        ORDER BY d.created_at LIMIT 1)),
+      company = COALESCE(NULLIF(a.company, ''), (
+        SELECT d.company FROM public.attendees d
+        WHERE d.id = ANY(_duplicate_ids) AND COALESCE(d.company, '') <> ''
+        ORDER BY d.created_at LIMIT 1)),
+      ticket_type_id = COALESCE(a.ticket_type_id, (
+        SELECT d.ticket_type_id FROM public.attendees d
+        WHERE d.id = ANY(_duplicate_ids) AND d.ticket_type_id IS NOT NULL
+        ORDER BY d.created_at LIMIT 1)),
+      -- Walk-ins are marked checked in without a check-in instance, so look at both
+      checked_in = a.checked_in
+        OR EXISTS (SELECT 1 FROM public.attendees d WHERE d.id = ANY(_duplicate_ids) AND d.checked_in)
+        OR EXISTS (SELECT 1 FROM public.checkin_instances ci WHERE ci.attendee_id = a.id),
+      checked_in_at = LEAST(
+        a.checked_in_at,
+        (SELECT MIN(d.checked_in_at) FROM public.attendees d WHERE d.id = ANY(_duplicate_ids)),
+        (SELECT MIN(ci.checked_in_at) FROM public.checkin_instances ci WHERE ci.attendee_id = a.id))
+  WHERE a.id = _survivor.id;
+
+  -- Revoked codes are kept on the survivor, since the duplicates' rows are deleted
+  UPDATE public.revoked_qr_codes
+  SET attendee_id = _survivor.id
+  WHERE attendee_id = ANY(_duplicate_ids);
+
+  INSERT INTO public.revoked_qr_codes (attendee_id, event_id, qr_code, qr_token, reason, revoked_by)
+  SELECT _survivor.id, d.event_id, d.qr_code, d.qr_token, 'Merged into ' || _survivor.name, auth.uid()
+  FROM public.attendees d
+  WHERE d.id = ANY(_duplicate_ids);
+
+  DELETE FROM public.attendees
+  WHERE id = ANY(_duplicate_ids);
+
+  RETURN QUERY SELECT 'merged'::TEXT, _merged, _moved, _survivor.qr_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_attendees(UUID, UUID[]) TO authenticated;
@@ -0,0 +1,35 @@
+-- cancel_email_campaign marks the campaign cancelled before its queued messages.
+-- Cancelling the last queued message fires update_email_campaign_counts, which
+-- completed the campaign first and left it showing as completed.
+CREATE OR REPLACE FUNCTION public.cancel_email_campaign(campaign_id_param UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cancelled INTEGER;
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  -- The counts trigger only completes campaigns that are still queued or sending
+  UPDATE public.email_campaigns
+  SET status = 'cancelled', completed_at = now()
+  WHERE id = campaign_id_param
+    AND status IN ('queued', 'sending');
+
+  -- Messages already handed to the worker are left to finish
+  UPDATE public.email_messages
+  SET status = 'cancelled'
+  WHERE campaign_id = campaign_id_param
+    AND status = 'queued';
+
+  GET DIAGNOSTICS _cancelled = ROW_COUNT;
+
+  RETURN _cancelled;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_email_campaign(UUID) FROM PUBLIC, anon;
@@ -0,0 +1,19 @@
+-- Each event's own time zone, used for the date shown in emails and on the ticket
+-- page. Existing events keep Asia/Kolkata, the zone dates were shown in until now.
+
+-- ============================================
+-- 1. Time zone validation
+-- ============================================
+CREATE OR REPLACE FUNCTION public.is_valid_time_zone(_time_zone TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = _time_zone);
+$$;
+
+-- ============================================
+-- 2. Event time zone
+-- ============================================
+ALTER TABLE public.events
+ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'Asia/Kolkata' CHECK (public.is_valid_time_zone(time_zone));
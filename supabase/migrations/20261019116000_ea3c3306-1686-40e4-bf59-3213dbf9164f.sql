@@ -0,0 +1,83 @@
+-- accept_legacy_qr only covers the old 4- and 6-character codes. Codes are now
+-- generated with eight random characters, which are shown on the ticket page and
+-- in emails for manual entry and keep working on events that turned legacy codes off.
+CREATE OR REPLACE FUNCTION public.resolve_qr_attendee(
+  qr_code_param TEXT,
+  event_id_param UUID
+)
+RETURNS TABLE (
+  resolve_status TEXT,
+  attendee_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code TEXT := TRIM(qr_code_param);
+  _verification RECORD;
+  _attendee_id UUID;
+  _revoked_owner UUID;
+BEGIN
+  IF _code LIKE 'ZC1.%' THEN
+    SELECT * INTO _verification FROM verify_qr_token(_code);
+
+    IF _verification.verification_status <> 'valid' THEN
+      RETURN QUERY SELECT 'forged_qr'::TEXT, NULL::UUID;
+      RETURN;
+    END IF;
+
+    SELECT a.id INTO _attendee_id
+    FROM public.attendees a
+    WHERE a.id = _verification.attendee_id
+      AND a.event_id = event_id_param
+      AND a.qr_token = _code;
+
+    IF _attendee_id IS NULL THEN
+      SELECT r.attendee_id INTO _revoked_owner
+      FROM public.revoked_qr_codes r
+      WHERE r.qr_token = _code
+        AND r.event_id = event_id_param
+      LIMIT 1;
+    END IF;
+  ELSE
+    SELECT a.id INTO _attendee_id
+    FROM public.attendees a
+    WHERE a.qr_code = _code
+      AND a.event_id = event_id_param;
+
+    IF _attendee_id IS NULL THEN
+      SELECT r.attendee_id INTO _revoked_owner
+      FROM public.revoked_qr_codes r
+      WHERE r.qr_code = _code
+        AND r.event_id = event_id_param
+      ORDER BY r.revoked_at DESC
+      LIMIT 1;
+    END IF;
+
+    -- Revoked short codes are reported even when legacy codes are turned off. Codes of
+    -- eight characters are too long to guess, so they keep working for manual entry.
+    IF _revoked_owner IS NULL
+       AND length(_code) < 8
+       AND NOT EXISTS (SELECT 1 FROM public.events e WHERE e.id = event_id_param AND e.accept_legacy_qr) THEN
+      RETURN QUERY SELECT 'legacy_qr_disabled'::TEXT, NULL::UUID;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF _revoked_owner IS NOT NULL THEN
+    RETURN QUERY SELECT 'revoked_qr'::TEXT, _revoked_owner;
+    RETURN;
+  END IF;
+
+  IF _attendee_id IS NULL THEN
+    RETURN QUERY SELECT 'invalid_qr'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'valid'::TEXT, _attendee_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_qr_attendee(TEXT, UUID) FROM PUBLIC, anon;
@@ -0,0 +1,10 @@
+-- Check-ins from before check-out tracking on events without an end time were
+-- all left on site, inflating the headcount. Nobody stays inside for a day, so
+-- anyone who entered more than 24 hours ago without leaving is counted as gone.
+UPDATE public.checkin_instances ci
+SET on_site = false
+FROM public.events e
+WHERE e.id = ci.event_id
+  AND e.ends_at IS NULL
+  AND ci.on_site
+  AND COALESCE(ci.last_entry_at, ci.checked_in_at) < now() - INTERVAL '24 hours';
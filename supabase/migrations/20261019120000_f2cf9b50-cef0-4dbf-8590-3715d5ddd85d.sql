@@ -0,0 +1,91 @@
+-- reissue_attendee_qr issues 8-character codes. The 6-character codes it handed
+-- out before count as legacy codes, so with accept_legacy_qr off they no longer work
+-- for manual entry; the signed token in the reissued QR is unaffected.
+
+-- ============================================
+-- 1. reissue_attendee_qr
+-- ============================================
+CREATE OR REPLACE FUNCTION public.reissue_attendee_qr(
+  attendee_id_param UUID,
+  reason_param TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  result_status TEXT,
+  new_qr_code TEXT,
+  new_qr_token TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendee public.attendees%ROWTYPE;
+  _chars CONSTANT TEXT := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  _bytes BYTEA;
+  _code TEXT;
+  _token TEXT;
+  _issued_at TIMESTAMP WITH TIME ZONE;
+  _reason TEXT := NULLIF(TRIM(reason_param), '');
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT a.* INTO _attendee
+  FROM public.attendees a
+  WHERE a.id = attendee_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'attendee_not_found'::TEXT, NULL::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  -- Eight characters like every other new code, so it keeps working once legacy
+  -- codes are turned off, and never a code that was handed out before
+  LOOP
+    _bytes := extensions.gen_random_bytes(8);
+    _code := '';
+    FOR i IN 0..7 LOOP
+      _code := _code || substr(_chars, get_byte(_bytes, i) % 36 + 1, 1);
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.attendees a WHERE a.qr_code = _code)
+      AND NOT EXISTS (SELECT 1 FROM public.revoked_qr_codes r WHERE r.qr_code = _code);
+  END LOOP;
+
+  -- Tokens are signed to the second; make sure two quick reissues never produce the same one
+  SELECT v.issued_at INTO _issued_at
+  FROM verify_qr_token(COALESCE(_attendee.qr_token, '')) v
+  WHERE v.verification_status = 'valid';
+
+  _token := sign_qr_payload(
+    _attendee.id,
+    _attendee.event_id,
+    GREATEST(now(), COALESCE(_issued_at, now()) + INTERVAL '1 second')
+  );
+
+  INSERT INTO public.revoked_qr_codes (attendee_id, event_id, qr_code, qr_token, reason, revoked_by)
+  VALUES (_attendee.id, _attendee.event_id, _attendee.qr_code, _attendee.qr_token, _reason, auth.uid());
+
+  -- record_attendee_audit logs the change as qr_reissued
+  UPDATE public.attendees
+  SET qr_code = _code, qr_token = _token
+  WHERE id = _attendee.id;
+
+  IF _reason IS NOT NULL THEN
+    UPDATE public.attendee_audit
+    SET details = _reason
+    WHERE id = (
+      SELECT au.id FROM public.attendee_audit au
+      WHERE au.attendee_id = _attendee.id AND au.action = 'qr_reissued'
+      ORDER BY au.created_at DESC
+      LIMIT 1
+    );
+  END IF;
+
+  RETURN QUERY SELECT 'reissued'::TEXT, _code, _token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reissue_attendee_qr(UUID, TEXT) FROM PUBLIC, anon;
@@ -0,0 +1,36 @@
+-- queue_whatsapp_messages only returns the ids of the queued messages. send-whatsapp
+-- reads the rows it sends with the service role, so a dashboard user calling the
+-- function directly gets nothing beyond what get_whatsapp_statuses shows.
+
+-- ============================================
+-- 1. queue_whatsapp_messages
+-- ============================================
+DROP FUNCTION IF EXISTS public.queue_whatsapp_messages(UUID, UUID[]);
+
+-- Called by send-whatsapp with the caller's session, so the access check and the
+-- recorded sender are the dashboard user's
+CREATE OR REPLACE FUNCTION public.queue_whatsapp_messages(event_id_param UUID, attendee_ids_param UUID[])
+RETURNS TABLE (
+  message_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.whatsapp_messages (event_id, attendee_id, recipient_phone, created_by, created_by_email)
+  SELECT a.event_id, a.id, TRIM(a.phone), auth.uid(), current_actor_email()
+  FROM public.attendees a
+  WHERE a.event_id = event_id_param
+    AND a.id = ANY(attendee_ids_param)
+    AND COALESCE(TRIM(a.phone), '') <> ''
+  RETURNING id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_whatsapp_messages(UUID, UUID[]) FROM PUBLIC, anon;
@@ -0,0 +1,36 @@
+-- queue_sms_messages only returns the ids of the queued messages. The rows carry
+-- the link code and QR token, which stay server-side: send-sms reads them with the
+-- service role.
+
+-- ============================================
+-- 1. queue_sms_messages
+-- ============================================
+DROP FUNCTION IF EXISTS public.queue_sms_messages(UUID, UUID[]);
+
+-- Called by send-sms with the caller's session, so the access check and the
+-- recorded sender are the dashboard user's
+CREATE OR REPLACE FUNCTION public.queue_sms_messages(event_id_param UUID, attendee_ids_param UUID[])
+RETURNS TABLE (
+  message_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT user_has_platform_access(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.sms_messages (event_id, attendee_id, recipient_phone, qr_token, created_by, created_by_email)
+  SELECT a.event_id, a.id, TRIM(a.phone), a.qr_token, auth.uid(), current_actor_email()
+  FROM public.attendees a
+  WHERE a.event_id = event_id_param
+    AND a.id = ANY(attendee_ids_param)
+    AND COALESCE(TRIM(a.phone), '') <> ''
+  RETURNING id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_sms_messages(UUID, UUID[]) FROM PUBLIC, anon;
@@ -0,0 +1,87 @@
+-- queue_due_reminders no longer skips attendees who have an email waiting in another
+-- campaign. They were left for a later run, but once the event started the rule was
+-- no longer due and they never got the reminder.
+
+-- ============================================
+-- 1. queue_due_reminders (service role only)
+-- ============================================
+-- A rule is due from hours_before ahead of the event until the event starts.
+-- Rules are locked while they queue, so overlapping runs cannot both send.
+CREATE OR REPLACE FUNCTION public.queue_due_reminders()
+RETURNS TABLE (
+  rule_id UUID,
+  campaign_id UUID,
+  queued_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.reminder_rules%ROWTYPE;
+  _campaign_id UUID;
+  _template JSONB;
+  _template_version INTEGER;
+  _queued INTEGER;
+BEGIN
+  FOR _rule IN
+    SELECT r.*
+    FROM public.reminder_rules r
+    JOIN public.events e ON e.id = r.event_id
+    WHERE r.enabled
+      AND e.starts_at IS NOT NULL
+      AND now() >= e.starts_at - make_interval(hours => r.hours_before)
+      AND now() < e.starts_at
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    SELECT v.content, v.version INTO _template, _template_version
+    FROM public.email_template_versions v
+    WHERE v.event_id = _rule.event_id
+    ORDER BY v.version DESC
+    LIMIT 1;
+
+    INSERT INTO public.email_campaigns (event_id, audience, subject, message, template, template_version, reminder_rule_id, created_by, created_by_email)
+    VALUES (_rule.event_id, _rule.audience, _rule.subject, _rule.message, _template, _template_version, _rule.id, _rule.created_by, _rule.created_by_email)
+    RETURNING id INTO _campaign_id;
+
+    -- Attendees waiting in another campaign are queued too: reminder_sends already
+    -- keeps a rule from reaching anyone twice, and a later run may be too late
+    WITH queued AS (
+      INSERT INTO public.email_messages (campaign_id, event_id, attendee_id, recipient_email)
+      SELECT _campaign_id, a.event_id, a.id, a.email
+      FROM public.attendees a
+      WHERE a.event_id = _rule.event_id
+        AND COALESCE(TRIM(a.email), '') <> ''
+        AND (_rule.audience = 'all' OR NOT a.checked_in)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.reminder_sends s
+          WHERE s.rule_id = _rule.id AND s.attendee_id = a.id
+        )
+      RETURNING id, attendee_id
+    )
+    INSERT INTO public.reminder_sends (rule_id, attendee_id, email_message_id)
+    SELECT _rule.id, q.attendee_id, q.id
+    FROM queued q;
+
+    GET DIAGNOSTICS _queued = ROW_COUNT;
+
+    -- Most runs find nobody new; keep those out of the campaign list
+    IF _queued = 0 THEN
+      DELETE FROM public.email_campaigns WHERE id = _campaign_id;
+      CONTINUE;
+    END IF;
+
+    UPDATE public.email_campaigns
+    SET total_count = _queued
+    WHERE id = _campaign_id;
+
+    UPDATE public.reminder_rules
+    SET last_queued_at = now()
+    WHERE id = _rule.id;
+
+    RETURN QUERY SELECT _rule.id, _campaign_id, _queued;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_due_reminders() FROM PUBLIC, anon, authenticated;